@@ -1,32 +1,82 @@
 // Timer Component - Focus timer with Regular and Pomodoro modes
 // Follows glassmorphism design system
+// Focus sessions are recorded as time_tracking entries against the selected
+// task, so a running timer survives a page reload
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '../contexts/SimpleAuthContext';
+import { ACTIVITY_TYPE_LABELS, TimeTrackingService } from '../services/timeTrackingService';
+import { TaskService } from '../services/taskService';
+import type { Task, TimeActivityType, TimeEntry } from '../types';
 
 interface TimerProps {
+  tasks?: Task[];
   className?: string;
 }
 
 type TimerMode = 'regular' | 'pomodoro';
 type TimerState = 'ready' | 'running' | 'paused' | 'completed';
 
-interface TimerSession {
-  duration: number;
-  completed: boolean;
-  timestamp: Date;
+// Countdown state for the running entry, kept so a reload can resume it
+interface StoredTimer {
+  entryId: string;
+  mode: TimerMode;
+  initialTime: number;
+  remainingAtStart: number; // Seconds left when the entry started
 }
 
-const Timer: React.FC<TimerProps> = ({ className = '' }) => {
+const STORAGE_KEY = 'projectflow_timer';
+const POMODORO_BREAKS = [5 * 60, 15 * 60];
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+
+const readStoredTimer = (): StoredTimer | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredTimer) : null;
+  } catch {
+    return null;
+  }
+};
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+const Timer: React.FC<TimerProps> = ({ tasks = [], className = '' }) => {
+  const { user } = useAuth();
   const [mode, setMode] = useState<TimerMode>('regular');
   const [state, setState] = useState<TimerState>('ready');
   const [timeLeft, setTimeLeft] = useState(25 * 60); // 25 minutes default
   const [initialTime, setInitialTime] = useState(25 * 60);
-  const [sessions, setSessions] = useState<TimerSession[]>([]);
-  const [selectedTask, setSelectedTask] = useState<string>('');
+  const [selectedTaskId, setSelectedTaskId] = useState('');
+  const [recoveredTask, setRecoveredTask] = useState<Task | null>(null);
+  const [activeEntry, setActiveEntry] = useState<TimeEntry | null>(null);
+  const [todayEntries, setTodayEntries] = useState<TimeEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Manual entry form
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [manualTaskId, setManualTaskId] = useState('');
+  const [manualDate, setManualDate] = useState(() => new Date().toLocaleDateString('en-CA'));
+  const [manualStart, setManualStart] = useState('09:00');
+  const [manualMinutes, setManualMinutes] = useState('30');
+  const [manualActivity, setManualActivity] = useState<TimeActivityType>('work');
+  const [manualDescription, setManualDescription] = useState('');
+  const [manualBillable, setManualBillable] = useState(true);
+  const [savingManual, setSavingManual] = useState(false);
 
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  const taskOptions = recoveredTask && !tasks.some(task => task.id === recoveredTask.id)
+    ? [recoveredTask, ...tasks]
+    : tasks;
+  const selectedTask = taskOptions.find(task => task.id === selectedTaskId);
+  const isBreak = mode === 'pomodoro' && POMODORO_BREAKS.includes(initialTime);
+
   // Timer presets
   const presets = {
     regular: {
@@ -65,46 +115,84 @@ const Timer: React.FC<TimerProps> = ({ className = '' }) => {
     } as any;
   }, []);
 
-  // Timer logic
-  useEffect(() => {
-    if (state === 'running' && timeLeft > 0) {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            setState('completed');
-            // Play notification sound
-            if (audioRef.current) {
-              try {
-                audioRef.current.play();
-              } catch (error) {
-                console.log('Could not play notification sound');
-              }
-            }
-
-            // Add session to history
-            const session: TimerSession = {
-              duration: initialTime,
-              completed: true,
-              timestamp: new Date()
-            };
-            setSessions(prev => [session, ...prev.slice(0, 9)]); // Keep last 10 sessions
-
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    } else if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+  const loadTodayEntries = useCallback(async () => {
+    if (!user?.id) return;
+    setTodayEntries(await TimeTrackingService.getEntries({ userId: user.id, from: startOfToday().toISOString() }));
+  }, [user?.id]);
+
+  // Close the running entry, if any, and forget the stored countdown
+  const finishEntry = useCallback(async (entry: TimeEntry | null, endTime?: Date) => {
+    localStorage.removeItem(STORAGE_KEY);
+    setActiveEntry(null);
+    if (entry) {
+      await TimeTrackingService.stopTimer(entry, endTime);
+      await loadTodayEntries();
     }
+  }, [loadTodayEntries]);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+  // Recover a timer that was running before the page reloaded
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+
+    const recover = async () => {
+      await loadTodayEntries();
+      const entry = await TimeTrackingService.getActiveEntry(user.id);
+      if (cancelled || !entry) return;
+
+      const stored = readStoredTimer();
+      const restored = stored?.entryId === entry.id ? stored : null;
+      const restoredInitial = restored?.initialTime ?? 25 * 60;
+      const remainingAtStart = restored?.remainingAtStart ?? restoredInitial;
+      const elapsed = Math.floor((Date.now() - new Date(entry.start_time).getTime()) / 1000);
+
+      setMode(restored?.mode ?? 'regular');
+      setInitialTime(restoredInitial);
+      setSelectedTaskId(entry.task_id ?? '');
+      const task = entry.task_id ? await TaskService.getTask(entry.task_id) : null;
+      if (cancelled) return;
+      setRecoveredTask(task);
+
+      if (elapsed >= remainingAtStart) {
+        // The countdown ran out while the page was closed
+        await finishEntry(entry, new Date(new Date(entry.start_time).getTime() + remainingAtStart * 1000));
+        setTimeLeft(0);
+        setState('completed');
+      } else {
+        setActiveEntry(entry);
+        setTimeLeft(remainingAtStart - elapsed);
+        setState('running');
       }
     };
-  }, [state, timeLeft, initialTime]);
+
+    void recover();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, loadTodayEntries, finishEntry]);
+
+  // Timer logic
+  useEffect(() => {
+    if (state !== 'running') return;
+    const interval = setInterval(() => {
+      setTimeLeft(prev => Math.max(prev - 1, 0));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  useEffect(() => {
+    if (state !== 'running' || timeLeft > 0) return;
+    setState('completed');
+    // Play notification sound
+    if (audioRef.current) {
+      try {
+        void audioRef.current.play();
+      } catch {
+        console.log('Could not play notification sound');
+      }
+    }
+    void finishEntry(activeEntry);
+  }, [state, timeLeft, activeEntry, finishEntry]);
 
   // Format time display
   const formatTime = (seconds: number): string => {
@@ -117,26 +205,48 @@ const Timer: React.FC<TimerProps> = ({ className = '' }) => {
   const progressPercentage = initialTime > 0 ? ((initialTime - timeLeft) / initialTime) * 100 : 0;
 
   // Timer controls
-  const startTimer = () => {
-    if (state === 'ready') {
-      setState('running');
-    } else if (state === 'paused') {
-      setState('running');
+  const startTimer = async () => {
+    if (state !== 'ready' && state !== 'paused') return;
+    setError(null);
+
+    // Breaks and signed-out sessions run locally without a time entry
+    if (user?.id && !isBreak) {
+      if (!selectedTaskId) {
+        setError('Select a task to track this session');
+        return;
+      }
+      const entry = await TimeTrackingService.startTimer(user.id, {
+        task_id: selectedTaskId,
+        start_time: new Date().toISOString(),
+        activity_type: 'work',
+        description: mode === 'pomodoro' ? 'Pomodoro session' : 'Focus session'
+      });
+      if (!entry) {
+        setError('Could not start tracking time for this task');
+        return;
+      }
+      const stored: StoredTimer = { entryId: entry.id, mode, initialTime, remainingAtStart: timeLeft };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+      setActiveEntry(entry);
     }
+    setState('running');
   };
 
   const pauseTimer = () => {
     setState('paused');
+    void finishEntry(activeEntry);
   };
 
   const resetTimer = () => {
     setState('ready');
     setTimeLeft(initialTime);
+    void finishEntry(activeEntry);
   };
 
   const stopTimer = () => {
     setState('ready');
     setTimeLeft(initialTime);
+    void finishEntry(activeEntry);
   };
 
   // Change timer duration
@@ -147,18 +257,42 @@ const Timer: React.FC<TimerProps> = ({ className = '' }) => {
     setState('ready');
   };
 
-  // Get today's total focused time
-  const getTodaysFocusTime = (): number => {
-    const today = new Date().toDateString();
-    return sessions
-      .filter(session => session.timestamp.toDateString() === today && session.completed)
-      .reduce((total, session) => total + session.duration, 0);
+  const saveManualEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id) return;
+    const minutes = parseInt(manualMinutes);
+    const start = new Date(`${manualDate}T${manualStart}`);
+    if (!manualTaskId || Number.isNaN(minutes) || minutes < 1 || Number.isNaN(start.getTime())) {
+      setError('Pick a task, a start time and at least one minute');
+      return;
+    }
+
+    setSavingManual(true);
+    setError(null);
+    const entry = await TimeTrackingService.addManualEntry(user.id, {
+      task_id: manualTaskId,
+      start_time: start.toISOString(),
+      end_time: new Date(start.getTime() + minutes * 60 * 1000).toISOString(),
+      activity_type: manualActivity,
+      description: manualDescription.trim() || null,
+      is_billable: manualBillable
+    });
+    setSavingManual(false);
+
+    if (!entry) {
+      setError('Could not save the time entry');
+      return;
+    }
+    setShowManualEntry(false);
+    setManualDescription('');
+    await loadTodayEntries();
   };
 
-  const todaysFocusMinutes = Math.floor(getTodaysFocusTime() / 60);
-  const todaysSessions = sessions.filter(session =>
-    session.timestamp.toDateString() === new Date().toDateString() && session.completed
-  ).length;
+  // Today's totals from recorded entries
+  const todaysSessions = todayEntries.filter(entry => !entry.is_active).length;
+  const todaysFocusMinutes = todayEntries
+    .filter(entry => !entry.is_active)
+    .reduce((total, entry) => total + TimeTrackingService.getMinutes(entry), 0);
 
   return (
     <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-6 ${className}`}>
@@ -278,16 +412,33 @@ const Timer: React.FC<TimerProps> = ({ className = '' }) => {
 
       {/* Task Selection */}
       <div className="mb-6">
-        <p className="text-white/80 text-sm text-center">
-          {selectedTask || 'Select a task to start'}
-        </p>
+        {isBreak ? (
+          <p className="text-white/80 text-sm text-center">Break time, not tracked</p>
+        ) : state === 'ready' ? (
+          <select
+            value={selectedTaskId}
+            onChange={(e) => setSelectedTaskId(e.target.value)}
+            className={inputClass}
+          >
+            <option value="" className="bg-gray-800">Select a task to start</option>
+            {taskOptions.map(task => (
+              <option key={task.id} value={task.id} className="bg-gray-800">{task.name}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-white/80 text-sm text-center">
+            {selectedTask?.name ?? 'Untracked session'}
+            {activeEntry && <span className="block text-xs text-green-300 mt-1">Tracking time</span>}
+          </p>
+        )}
+        {error && <p className="text-red-300 text-xs text-center mt-2">{error}</p>}
       </div>
 
       {/* Control Buttons */}
       <div className="flex justify-center space-x-3 mb-6">
         {state === 'ready' || state === 'paused' ? (
           <button
-            onClick={startTimer}
+            onClick={() => void startTimer()}
             className="p-3 bg-green-500/80 hover:bg-green-500 text-white rounded-full transition-colors"
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -327,6 +478,74 @@ const Timer: React.FC<TimerProps> = ({ className = '' }) => {
         )}
       </div>
 
+      {/* Manual Entry */}
+      {user && (
+        <div className="mb-6">
+          {showManualEntry ? (
+            <form onSubmit={(e) => void saveManualEntry(e)} className="bg-white/10 rounded-xl p-4 space-y-3">
+              <h4 className="text-white font-medium text-sm">Log time manually</h4>
+              <select value={manualTaskId} onChange={(e) => setManualTaskId(e.target.value)} className={inputClass}>
+                <option value="" className="bg-gray-800">Select a task</option>
+                {taskOptions.map(task => (
+                  <option key={task.id} value={task.id} className="bg-gray-800">{task.name}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-3 gap-2">
+                <input type="date" value={manualDate} onChange={(e) => setManualDate(e.target.value)} className={inputClass} />
+                <input type="time" value={manualStart} onChange={(e) => setManualStart(e.target.value)} className={inputClass} />
+                <input
+                  type="number"
+                  min="1"
+                  value={manualMinutes}
+                  onChange={(e) => setManualMinutes(e.target.value)}
+                  className={inputClass}
+                  placeholder="Minutes"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select value={manualActivity} onChange={(e) => setManualActivity(e.target.value as TimeActivityType)} className={inputClass}>
+                  {Object.entries(ACTIVITY_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value} className="bg-gray-800">{label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center space-x-2 text-white/80 text-sm">
+                  <input type="checkbox" checked={manualBillable} onChange={(e) => setManualBillable(e.target.checked)} />
+                  <span>Billable</span>
+                </label>
+              </div>
+              <input
+                value={manualDescription}
+                onChange={(e) => setManualDescription(e.target.value)}
+                className={inputClass}
+                placeholder="What did you work on?"
+              />
+              <div className="flex justify-end space-x-2">
+                <button type="button" onClick={() => setShowManualEntry(false)} className="px-3 py-1 text-white/70 hover:text-white text-sm transition-colors">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={savingManual}
+                  className="px-3 py-1 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-sm transition-colors"
+                >
+                  {savingManual ? 'Saving...' : 'Log time'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => {
+                setManualTaskId(selectedTaskId);
+                setShowManualEntry(true);
+              }}
+              className="w-full text-sm text-white/70 hover:text-white transition-colors"
+            >
+              + Log time manually
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Today's Sessions Summary */}
       <div className="bg-white/10 rounded-xl p-4">
         <h4 className="text-white font-medium text-sm mb-3">Today's Sessions</h4>
@@ -0,0 +1,254 @@
+// Timesheet Component - Weekly hours from time_tracking entries
+// Per user for a project, or per project for the signed-in user
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/SimpleAuthContext';
+import { TimesheetService, type TimesheetData } from '../services/timesheetService';
+import { ACTIVITY_TYPE_LABELS } from '../services/timeTrackingService';
+import type { Project, TimeActivityType } from '../types';
+
+interface TimesheetProps {
+  project?: Pick<Project, 'id' | 'title'>; // Project view groups by user, otherwise by project
+  className?: string;
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatHours = (minutes: number) => (minutes === 0 ? '—' : `${Math.round((minutes / 60) * 10) / 10}h`);
+const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatWeekDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const Timesheet: React.FC<TimesheetProps> = ({ project, className = '' }) => {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => TimesheetService.getWeekStart());
+  const [data, setData] = useState<TimesheetData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // A project's history is loaded once (calibration needs all of it); a
+  // user's timesheet is loaded a week at a time
+  const loadWeek = project ? null : weekStart;
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (project) {
+        setData(await TimesheetService.getProjectTimesheetData(project));
+      } else if (user?.id && loadWeek) {
+        setData(await TimesheetService.getUserTimesheetData(user.id, loadWeek));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [project, user?.id, loadWeek]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const lookups = useMemo(() => data && {
+    ...data,
+    userLabel: (userId: string) => (userId === user?.id ? 'You' : `Member ${userId.slice(0, 8)}`)
+  }, [data, user?.id]);
+
+  const timesheet = useMemo(
+    () => lookups && TimesheetService.buildTimesheet(lookups.entries, project ? 'user' : 'project', lookups, weekStart),
+    [lookups, project, weekStart]
+  );
+
+  const calibration = useMemo(
+    () => (project && data ? TimesheetService.buildEffortCalibration(data.deliveryTasks, data.entries) : null),
+    [project, data]
+  );
+
+  const exportCsv = () => {
+    if (!lookups) return;
+    const weekEnd = TimesheetService.shiftWeek(weekStart, 1);
+    const weekEntries = lookups.entries.filter(entry => {
+      const start = new Date(entry.start_time);
+      return start >= weekStart && start < weekEnd;
+    });
+    const blob = new Blob([TimesheetService.toCsv(weekEntries, lookups)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `timesheet-${project ? `${project.title.replace(/\W+/g, '-').toLowerCase()}-` : ''}${timesheet?.week_start ?? 'week'}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const totals = timesheet?.totals;
+  const activities = Object.entries(ACTIVITY_TYPE_LABELS) as [TimeActivityType, string][];
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
+      {/* Header */}
+      <div className="p-6 border-b border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{project ? 'Timesheet' : 'My Timesheet'}</h2>
+            <p className="text-white/70">
+              {timesheet ? `${formatWeekDay(timesheet.week_start)} – ${formatWeekDay(timesheet.week_end)}` : 'Weekly hours'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setWeekStart(prev => TimesheetService.shiftWeek(prev, -1))}
+              className="px-3 py-2 rounded-lg border border-white/30 bg-white/10 hover:bg-white/20 text-white text-sm transition-colors"
+            >
+              ‹ Prev
+            </button>
+            <button
+              onClick={() => setWeekStart(TimesheetService.getWeekStart())}
+              className="px-3 py-2 rounded-lg border border-white/30 bg-white/10 hover:bg-white/20 text-white text-sm transition-colors"
+            >
+              This week
+            </button>
+            <button
+              onClick={() => setWeekStart(prev => TimesheetService.shiftWeek(prev, 1))}
+              className="px-3 py-2 rounded-lg border border-white/30 bg-white/10 hover:bg-white/20 text-white text-sm transition-colors"
+            >
+              Next ›
+            </button>
+            <button
+              onClick={exportCsv}
+              disabled={!totals || totals.total_minutes === 0}
+              className="px-4 py-2 rounded-lg border border-blue-400/30 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 text-blue-100 text-sm transition-colors"
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        {totals && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+              <div className="text-2xl font-bold text-white">{formatHours(totals.total_minutes)}</div>
+              <div className="text-sm text-white/60">Total</div>
+            </div>
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+              <div className="text-2xl font-bold text-green-300">{formatHours(totals.billable_minutes)}</div>
+              <div className="text-sm text-white/60">Billable</div>
+            </div>
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+              <div className="text-2xl font-bold text-white/80">{formatHours(totals.non_billable_minutes)}</div>
+              <div className="text-sm text-white/60">Non-billable</div>
+            </div>
+            <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+              <div className="text-2xl font-bold text-white">{formatAmount(totals.billable_amount)}</div>
+              <div className="text-sm text-white/60">
+                Billable value
+                {totals.unpriced_billable_minutes > 0 && ` (+${formatHours(totals.unpriced_billable_minutes)} without a rate)`}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin w-8 h-8 border-2 border-white/30 border-t-white rounded-full"></div>
+          </div>
+        ) : !timesheet || timesheet.rows.length === 0 ? (
+          <p className="text-white/60 text-sm text-center py-8">No time logged this week.</p>
+        ) : (
+          <>
+            {/* Weekly Grid */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/60 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">{timesheet.group_by === 'user' ? 'Person' : 'Project'}</th>
+                    {DAY_LABELS.map(day => (
+                      <th key={day} className="py-2 pr-4 font-medium text-right">{day}</th>
+                    ))}
+                    <th className="py-2 pr-4 font-medium text-right">Total</th>
+                    <th className="py-2 pr-4 font-medium text-right">Billable</th>
+                    <th className="py-2 font-medium text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...timesheet.rows, timesheet.totals].map(row => (
+                    <tr
+                      key={row.key}
+                      className={`border-b border-white/5 ${row === timesheet.totals ? 'text-white font-medium' : 'text-white/80'}`}
+                    >
+                      <td className="py-2 pr-4">{row.label}</td>
+                      {row.by_day.map((minutes, index) => (
+                        <td key={index} className="py-2 pr-4 text-right">{formatHours(minutes)}</td>
+                      ))}
+                      <td className="py-2 pr-4 text-right">{formatHours(row.total_minutes)}</td>
+                      <td className="py-2 pr-4 text-right text-green-300">{formatHours(row.billable_minutes)}</td>
+                      <td className="py-2 text-right">{row.billable_amount > 0 ? formatAmount(row.billable_amount) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Activity Breakdown */}
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-3">By Activity</h3>
+              <div className="space-y-2">
+                {activities.map(([activity, label]) => {
+                  const minutes = timesheet.totals.by_activity[activity];
+                  const share = timesheet.totals.total_minutes > 0 ? (minutes / timesheet.totals.total_minutes) * 100 : 0;
+                  return (
+                    <div key={activity} className="flex items-center space-x-3 text-sm">
+                      <span className="w-20 text-white/70">{label}</span>
+                      <div className="flex-1 bg-white/10 rounded-full h-2">
+                        <div className="bg-blue-400 h-2 rounded-full" style={{ width: `${share}%` }} />
+                      </div>
+                      <span className="w-12 text-right text-white/80">{formatHours(minutes)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Estimate Calibration */}
+        {calibration && (
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Effort Estimates vs Actual</h3>
+            <p className="text-white/60 text-sm mb-3">Hours logged on released delivery tasks, by their S/M/L estimate</p>
+            {calibration.tasks.length === 0 ? (
+              <p className="text-white/60 text-sm">No released delivery tasks with logged time yet.</p>
+            ) : (
+              <>
+                {calibration.warnings.map(warning => (
+                  <div key={warning} className="bg-yellow-500/20 border border-yellow-500/30 rounded-lg p-3 text-yellow-200 text-sm mb-3">
+                    {warning}
+                  </div>
+                ))}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {calibration.buckets.map(bucket => (
+                    <div key={bucket.effort} className="bg-white/5 border border-white/10 rounded-xl p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-white font-bold text-lg">{bucket.effort}</span>
+                        <span className="text-white/50 text-xs">{bucket.task_count} task{bucket.task_count === 1 ? '' : 's'}</span>
+                      </div>
+                      {bucket.task_count === 0 ? (
+                        <p className="text-white/50 text-sm">No data</p>
+                      ) : (
+                        <div className="text-sm text-white/70 space-y-1">
+                          <div>Average <span className="text-white">{bucket.average_hours}h</span></div>
+                          <div>Median <span className="text-white">{bucket.median_hours}h</span></div>
+                          <div>Range {bucket.min_hours}h – {bucket.max_hours}h</div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Timesheet;
@@ -0,0 +1,93 @@
+// Calendar Day Drawer - everything on one planner day, grouped by event type
+// Glassmorphism side panel opened from the planner calendar
+
+import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CALENDAR_EVENT_STYLES } from '../../services/calendarService';
+import type { CalendarEvent, CalendarEventType } from '../../types';
+
+interface CalendarDayDrawerProps {
+  day: string; // YYYY-MM-DD
+  events: CalendarEvent[];
+  onClose: () => void;
+}
+
+const TYPE_ORDER: CalendarEventType[] = ['project_due', 'milestone', 'project_start', 'task', 'goal', 'note'];
+
+const CalendarDayDrawer: React.FC<CalendarDayDrawerProps> = ({ day, events, onClose }) => {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const groups = TYPE_ORDER
+    .map(type => ({ type, events: events.filter(event => event.type === type) }))
+    .filter(group => group.events.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+
+      <aside className="relative w-full max-w-md h-full bg-slate-900/80 backdrop-blur-md border-l border-white/20 p-6 overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white">
+              {new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            </h3>
+            <p className="text-white/60 text-sm">
+              {events.length === 0 ? 'Nothing planned' : `${events.length} item${events.length === 1 ? '' : 's'}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-white/60 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-white/60 text-sm">
+            No tasks, deadlines, milestones, goals or notes on this day.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {groups.map(group => (
+              <section key={group.type}>
+                <h4 className="flex items-center gap-2 text-white/80 text-sm font-medium mb-2">
+                  <span className={`w-2 h-2 rounded-full ${CALENDAR_EVENT_STYLES[group.type].dotClassName}`} />
+                  {CALENDAR_EVENT_STYLES[group.type].label}
+                </h4>
+                <ul className="space-y-2">
+                  {group.events.map(event => (
+                    <li key={event.id} className="bg-white/10 border border-white/20 rounded-lg p-3">
+                      <div className={`text-white font-medium ${event.completed ? 'line-through text-white/60' : ''}`}>
+                        {event.title}
+                      </div>
+                      {event.detail && (
+                        <p className="text-white/70 text-sm mt-1 whitespace-pre-wrap">{event.detail}</p>
+                      )}
+                      {event.project_id && (
+                        <Link
+                          to={`/projects/${event.project_id}`}
+                          className="text-blue-300 hover:text-blue-200 text-xs mt-2 inline-block"
+                        >
+                          Open project
+                        </Link>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default CalendarDayDrawer;
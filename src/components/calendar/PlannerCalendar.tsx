@@ -0,0 +1,240 @@
+// Planner Calendar - month, week and agenda views of task due dates, project
+// start and due dates, milestones, weekly goals and daily notes
+// Glassmorphism design matching the planner home page
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AGENDA_DAYS, CALENDAR_EVENT_STYLES, CalendarService } from '../../services/calendarService';
+import type { CalendarEvent, CalendarEventType, CalendarView } from '../../types';
+import CalendarDayDrawer from './CalendarDayDrawer';
+
+interface PlannerCalendarProps {
+  userId: string;
+  selectedDate: Date;
+  onSelectDate: (date: Date) => void;
+  refreshKey?: string; // Changes when the page saves something shown here, such as a note
+  className?: string;
+}
+
+const VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'agenda', label: 'Agenda' }
+];
+
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_VISIBLE_EVENTS = 3;
+
+const parseDay = (day: string) => new Date(`${day}T00:00:00`);
+
+const EventChip: React.FC<{ event: CalendarEvent }> = ({ event }) => (
+  <div
+    className={`text-xs rounded px-1 py-0.5 truncate ${CALENDAR_EVENT_STYLES[event.type].className} ${
+      event.completed ? 'line-through opacity-60' : ''
+    }`}
+    title={`${CALENDAR_EVENT_STYLES[event.type].label}: ${event.title}`}
+  >
+    {event.title}
+  </div>
+);
+
+const PlannerCalendar: React.FC<PlannerCalendarProps> = ({
+  userId,
+  selectedDate,
+  onSelectDate,
+  refreshKey,
+  className = ''
+}) => {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => CalendarService.toDay(new Date()));
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drawerDay, setDrawerDay] = useState<string | null>(null);
+
+  const range = useMemo(() => CalendarService.getRange(view, anchor), [view, anchor]);
+  const days = useMemo(() => CalendarService.getDays(range), [range]);
+  const eventsByDay = useMemo(() => CalendarService.groupByDay(events), [events]);
+  const today = CalendarService.toDay(new Date());
+  const selectedDay = CalendarService.toDay(selectedDate);
+
+  // Responses for a range the user has already moved past are dropped
+  useEffect(() => {
+    let current = true;
+    setLoading(true);
+    void CalendarService.getEvents(userId, range).then(loaded => {
+      if (!current) return;
+      setEvents(loaded);
+      setLoading(false);
+    });
+    return () => {
+      current = false;
+    };
+  }, [userId, range, refreshKey]);
+
+  // Noon keeps the day the same when the page formats the date in UTC
+  const handleDayClick = (day: string) => {
+    onSelectDate(new Date(`${day}T12:00:00`));
+    setDrawerDay(day);
+  };
+
+  const title = view === 'month'
+    ? parseDay(anchor).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `${parseDay(range.start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${
+        parseDay(range.end).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+      }`;
+
+  const renderDayCell = (day: string, maxEvents: number | null) => {
+    const dayEvents = eventsByDay.get(day) ?? [];
+    const visible = maxEvents === null ? dayEvents : dayEvents.slice(0, maxEvents);
+    const outsideMonth = view === 'month' && day.slice(0, 7) !== anchor.slice(0, 7);
+
+    return (
+      <button
+        key={day}
+        onClick={() => handleDayClick(day)}
+        className={`text-left border p-2 transition-colors hover:bg-white/10 ${
+          view === 'month' ? 'min-h-28' : 'min-h-64'
+        } ${day === selectedDay ? 'border-white/60 bg-white/10' : 'border-white/20'}`}
+      >
+        <span className={`text-sm font-medium inline-flex items-center justify-center w-6 h-6 rounded-full ${
+          day === today ? 'bg-white text-blue-600' : outsideMonth ? 'text-white/40' : 'text-white'
+        }`}>
+          {parseDay(day).getDate()}
+        </span>
+        <div className="mt-1 space-y-1">
+          {visible.map(event => <EventChip key={event.id} event={event} />)}
+          {dayEvents.length > visible.length && (
+            <div className="text-xs text-white/70">+{dayEvents.length - visible.length} more</div>
+          )}
+        </div>
+      </button>
+    );
+  };
+
+  const agendaDays = days.filter(day => eventsByDay.has(day));
+
+  return (
+    <section className={className}>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div className="flex items-center space-x-4">
+          <h2 className="text-3xl font-bold text-white">Calendar Overview</h2>
+          <h3 className="text-2xl font-light text-white/90">{title}</h3>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setAnchor(CalendarService.shiftAnchor(view, anchor, -1))}
+              className="px-3 py-1 bg-white/10 border border-white/20 text-white rounded-lg hover:bg-white/20"
+              title="Previous"
+            >
+              ‹
+            </button>
+            <button
+              onClick={() => setAnchor(today)}
+              className="px-3 py-1 bg-white/10 border border-white/20 text-white rounded-lg text-sm hover:bg-white/20"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setAnchor(CalendarService.shiftAnchor(view, anchor, 1))}
+              className="px-3 py-1 bg-white/10 border border-white/20 text-white rounded-lg hover:bg-white/20"
+              title="Next"
+            >
+              ›
+            </button>
+          </div>
+
+          <div className="flex bg-white/10 border border-white/20 rounded-lg p-1">
+            {VIEWS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setView(option.value)}
+                className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                  view === option.value ? 'bg-white/30 text-white font-medium' : 'text-white/70 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mb-4">
+        {(Object.keys(CALENDAR_EVENT_STYLES) as CalendarEventType[]).map(type => (
+          <span key={type} className="flex items-center gap-2 text-white/80 text-sm">
+            <span className={`w-3 h-3 rounded ${CALENDAR_EVENT_STYLES[type].dotClassName}`} />
+            {CALENDAR_EVENT_STYLES[type].label}
+          </span>
+        ))}
+      </div>
+
+      <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-xl p-6 ${loading ? 'opacity-70' : ''}`}>
+        {view === 'agenda' ? (
+          agendaDays.length === 0 ? (
+            <p className="text-center py-8 text-white/60">
+              {loading ? 'Loading...' : `Nothing planned in the next ${AGENDA_DAYS} days`}
+            </p>
+          ) : (
+            <div className="divide-y divide-white/10">
+              {agendaDays.map(day => (
+                <button
+                  key={day}
+                  onClick={() => handleDayClick(day)}
+                  className="w-full text-left py-3 flex gap-4 hover:bg-white/5 transition-colors"
+                >
+                  <div className="w-24 flex-shrink-0">
+                    <div className={`font-medium ${day === today ? 'text-white' : 'text-white/90'}`}>
+                      {parseDay(day).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                    </div>
+                    <div className="text-white/60 text-xs">
+                      {parseDay(day).toLocaleDateString('en-US', { month: 'short' })}
+                    </div>
+                  </div>
+                  <div className="flex-1 space-y-1 min-w-0">
+                    {(eventsByDay.get(day) ?? []).map(event => (
+                      <div key={event.id} className="flex items-center gap-2 min-w-0">
+                        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${CALENDAR_EVENT_STYLES[event.type].dotClassName}`} />
+                        <span className={`text-white text-sm truncate ${event.completed ? 'line-through text-white/60' : ''}`}>
+                          {event.title}
+                        </span>
+                        <span className="text-white/50 text-xs flex-shrink-0">{CALENDAR_EVENT_STYLES[event.type].label}</span>
+                      </div>
+                    ))}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )
+        ) : (
+          <>
+            {/* Calendar Header */}
+            <div className="grid grid-cols-7 gap-px mb-4">
+              {WEEKDAYS.map(day => (
+                <div key={day} className="p-2 text-center">
+                  <span className="text-white/80 font-medium text-sm">{day}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Calendar Days */}
+            <div className="grid grid-cols-7 gap-px">
+              {days.map(day => renderDayCell(day, view === 'month' ? MONTH_VISIBLE_EVENTS : null))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {drawerDay && (
+        <CalendarDayDrawer
+          day={drawerDay}
+          events={eventsByDay.get(drawerDay) ?? []}
+          onClose={() => setDrawerDay(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default PlannerCalendar;
@@ -0,0 +1,213 @@
+import React from 'react';
+import type { ABMetricType, ABTestDesign, ABVariant } from '../../types/newAgile';
+import { requiredSampleSize } from '../../utils/abTestStats';
+
+interface ABTestDesignFieldsProps {
+  design: ABTestDesign;
+  onChange: (design: ABTestDesign) => void;
+  showSizing?: boolean; // Pre-launch sizing inputs
+  showResults?: boolean; // Variant results inputs
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+// Empty inputs stay undefined rather than becoming 0
+const parseOptional = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const ABTestDesignFields: React.FC<ABTestDesignFieldsProps> = ({
+  design,
+  onChange,
+  showSizing = true,
+  showResults = true
+}) => {
+  const sampleSize = requiredSampleSize(design);
+
+  const update = (changes: Partial<ABTestDesign>) => onChange({ ...design, ...changes });
+
+  const updateVariant = (key: 'control' | 'treatment', changes: Partial<ABVariant>) =>
+    onChange({ ...design, [key]: { ...design[key], ...changes } });
+
+  const renderVariant = (key: 'control' | 'treatment') => {
+    const variant = design[key];
+    return (
+      <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+        <input
+          type="text"
+          value={variant.name}
+          onChange={(e) => updateVariant(key, { name: e.target.value })}
+          className={inputClass}
+          placeholder={key === 'control' ? 'Control' : 'Treatment'}
+        />
+        <div>
+          <label className="block text-xs font-medium text-white/70 mb-1">Sample size</label>
+          <input
+            type="number"
+            min="0"
+            value={variant.sample_size || ''}
+            onChange={(e) => updateVariant(key, { sample_size: parseInt(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </div>
+        {design.metric_type === 'conversion' ? (
+          <div>
+            <label className="block text-xs font-medium text-white/70 mb-1">Conversions</label>
+            <input
+              type="number"
+              min="0"
+              value={variant.conversions ?? ''}
+              onChange={(e) => updateVariant(key, { conversions: parseOptional(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-white/70 mb-1">Mean</label>
+              <input
+                type="number"
+                step="0.01"
+                value={variant.mean ?? ''}
+                onChange={(e) => updateVariant(key, { mean: parseOptional(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-white/70 mb-1">Std. deviation</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={variant.std_dev ?? ''}
+                onChange={(e) => updateVariant(key, { std_dev: parseOptional(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-1">Metric type</label>
+          <select
+            value={design.metric_type}
+            onChange={(e) => update({ metric_type: e.target.value as ABMetricType })}
+            className={inputClass}
+          >
+            <option value="conversion" className="bg-gray-800">Conversion rate</option>
+            <option value="mean" className="bg-gray-800">Average value (mean)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-1">Confidence level</label>
+          <select
+            value={design.confidence_level}
+            onChange={(e) => update({ confidence_level: parseFloat(e.target.value) })}
+            className={inputClass}
+          >
+            <option value={0.9} className="bg-gray-800">90%</option>
+            <option value={0.95} className="bg-gray-800">95%</option>
+            <option value={0.99} className="bg-gray-800">99%</option>
+          </select>
+        </div>
+      </div>
+
+      {showSizing && (
+        <div className="bg-blue-500/10 border border-blue-400/20 rounded-xl p-4 space-y-3">
+          <h5 className="text-blue-200 font-medium">Sample size before launch</h5>
+          <div className="grid grid-cols-4 gap-3">
+            {design.metric_type === 'conversion' ? (
+              <div>
+                <label className="block text-xs font-medium text-white/70 mb-1">Baseline rate (%)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  value={design.baseline_rate !== undefined ? Math.round(design.baseline_rate * 1000) / 10 : ''}
+                  onChange={(e) => {
+                    const rate = parseOptional(e.target.value);
+                    update({ baseline_rate: rate !== undefined ? rate / 100 : undefined });
+                  }}
+                  className={inputClass}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-xs font-medium text-white/70 mb-1">Baseline mean</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={design.baseline_mean ?? ''}
+                    onChange={(e) => update({ baseline_mean: parseOptional(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-white/70 mb-1">Baseline std. dev.</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={design.baseline_std_dev ?? ''}
+                    onChange={(e) => update({ baseline_std_dev: parseOptional(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-white/70 mb-1">Min. detectable lift (%)</label>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                value={design.minimum_detectable_effect || ''}
+                onChange={(e) => update({ minimum_detectable_effect: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-white/70 mb-1">Power</label>
+              <select
+                value={design.power}
+                onChange={(e) => update({ power: parseFloat(e.target.value) })}
+                className={inputClass}
+              >
+                <option value={0.8} className="bg-gray-800">80%</option>
+                <option value={0.9} className="bg-gray-800">90%</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-blue-200/80 text-sm">
+            {sampleSize !== null
+              ? `You need about ${sampleSize.toLocaleString()} participants per variant (${(sampleSize * 2).toLocaleString()} total).`
+              : 'Enter a baseline to see how many participants you need.'}
+          </p>
+        </div>
+      )}
+
+      {showResults && (
+        <div>
+          <h5 className="text-white/90 font-medium mb-2">Variant results</h5>
+          <p className="text-white/50 text-xs mb-3">Leave empty until the test has run.</p>
+          <div className="grid grid-cols-2 gap-3">
+            {renderVariant('control')}
+            {renderVariant('treatment')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ABTestDesignFields;
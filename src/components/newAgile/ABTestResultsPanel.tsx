@@ -0,0 +1,97 @@
+import React from 'react';
+import type { ABTestDesign } from '../../types/newAgile';
+import { analyseABTest, requiredSampleSize } from '../../utils/abTestStats';
+
+interface ABTestResultsPanelProps {
+  design: ABTestDesign;
+  className?: string;
+}
+
+const formatPercent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+
+const formatSigned = (value: number, suffix = '') =>
+  `${value >= 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+const formatPValue = (p: number) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+// Lift, confidence interval and p-value for an A/B test's variant results
+const ABTestResultsPanel: React.FC<ABTestResultsPanelProps> = ({ design, className = '' }) => {
+  const result = analyseABTest(design);
+  const confidence = Math.round(design.confidence_level * 100);
+
+  if (!result) {
+    const sampleSize = requiredSampleSize(design);
+    return (
+      <div className={`bg-white/5 border border-white/10 rounded-lg p-4 text-sm ${className}`}>
+        <h4 className="text-white font-medium mb-1">A/B test significance</h4>
+        <p className="text-white/60">
+          No variant results yet.
+          {sampleSize !== null && ` Plan for about ${sampleSize.toLocaleString()} participants per variant.`}
+        </p>
+      </div>
+    );
+  }
+
+  const isConversion = result.metric_type === 'conversion';
+  const formatValue = (value: number) => (isConversion ? formatPercent(value, 2) : value.toFixed(2));
+  const differenceUnit = isConversion ? ' pp' : '';
+  const scale = isConversion ? 100 : 1;
+
+  return (
+    <div className={`bg-white/5 border border-white/10 rounded-lg p-4 text-sm ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-white font-medium">A/B test significance</h4>
+        <span
+          className={`px-2 py-0.5 rounded text-xs ${
+            result.significant ? 'bg-green-500/20 text-green-200' : 'bg-yellow-500/20 text-yellow-200'
+          }`}
+        >
+          {result.significant ? `Significant at ${confidence}%` : 'Not significant'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <div className="bg-white/5 rounded-lg p-3">
+          <div className="text-white/60 text-xs">{design.control.name || 'Control'}</div>
+          <div className="text-white text-lg font-semibold">{formatValue(result.control_value)}</div>
+          <div className="text-white/50 text-xs">n = {design.control.sample_size.toLocaleString()}</div>
+        </div>
+        <div className="bg-white/5 rounded-lg p-3">
+          <div className="text-white/60 text-xs">{design.treatment.name || 'Treatment'}</div>
+          <div className="text-white text-lg font-semibold">{formatValue(result.treatment_value)}</div>
+          <div className="text-white/50 text-xs">n = {design.treatment.sample_size.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-white/70">
+        <dt>Lift</dt>
+        <dd className="text-right text-white">
+          {result.lift !== null ? formatSigned(result.lift, '%') : '—'}
+          {result.lift_ci && (
+            <span className="text-white/50"> ({formatSigned(result.lift_ci[0], '%')} to {formatSigned(result.lift_ci[1], '%')})</span>
+          )}
+        </dd>
+        <dt>Difference ({confidence}% CI)</dt>
+        <dd className="text-right text-white">
+          {formatSigned(result.difference * scale, differenceUnit)}
+          <span className="text-white/50">
+            {' '}({formatSigned(result.difference_ci[0] * scale)} to {formatSigned(result.difference_ci[1] * scale, differenceUnit)})
+          </span>
+        </dd>
+        <dt>p-value</dt>
+        <dd className="text-right text-white">{formatPValue(result.p_value)}</dd>
+        <dt>{isConversion ? 'z score' : `t (df ${Math.round(result.degrees_of_freedom ?? 0)})`}</dt>
+        <dd className="text-right text-white">{result.statistic.toFixed(2)}</dd>
+      </dl>
+
+      {!result.sample_size_reached && result.required_sample_size !== null && (
+        <p className="mt-3 text-yellow-200/80 text-xs">
+          Underpowered: the design calls for {result.required_sample_size.toLocaleString()} per variant to detect a{' '}
+          {design.minimum_detectable_effect}% lift.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ABTestResultsPanel;
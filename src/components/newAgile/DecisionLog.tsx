@@ -1,18 +1,78 @@
-import React from 'react';
-import type { Decision } from '../../types/newAgile';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Decision, DecisionCreateRequest, DecisionUpdateRequest } from '../../types/newAgile';
+import { NewAgileService } from '../../services/newAgileService';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import DecisionModal from './DecisionModal';
 
 interface DecisionLogProps {
   projectId: string;
   className?: string;
 }
 
+type DecisionView = 'all' | 'review';
+
 const DecisionLog: React.FC<DecisionLogProps> = ({ projectId, className = '' }) => {
-  // Mock data - in real app this would come from API
-  const decisions: Decision[] = [];
+  const { user } = useAuth();
+  const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<DecisionView>('all');
+  const [showModal, setShowModal] = useState(false);
+  const [editingDecision, setEditingDecision] = useState<Decision | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+
+  const loadDecisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDecisions(await NewAgileService.getDecisions(projectId));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void loadDecisions();
+  }, [loadDecisions]);
+
+  // Oldest overdue review first
+  const reviewQueue = useMemo(
+    () => decisions
+      .filter(decision => NewAgileService.isDecisionDueForReview(decision))
+      .sort((a, b) => (a.review_date ?? '').localeCompare(b.review_date ?? '')),
+    [decisions]
+  );
+
+  const visibleDecisions = view === 'review' ? reviewQueue : decisions;
 
   const handleNewDecision = () => {
-    // TODO: Open decision creation modal
-    console.log('Creating new decision');
+    setEditingDecision(null);
+    setReviewing(false);
+    setShowModal(true);
+  };
+
+  const handleEditDecision = (decision: Decision, review = false) => {
+    setEditingDecision(decision);
+    setReviewing(review);
+    setShowModal(true);
+  };
+
+  const handleSaveDecision = async (data: DecisionCreateRequest & DecisionUpdateRequest) => {
+    if (editingDecision) {
+      const updated = await NewAgileService.updateDecision(editingDecision.id, data);
+      if (!updated) throw new Error('Failed to update decision');
+      setDecisions(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+    } else {
+      const created = await NewAgileService.createDecision(data, projectId);
+      if (!created) throw new Error('Failed to create decision');
+      setDecisions(prev => [created, ...prev]);
+    }
+  };
+
+  const handleDeleteDecision = async (decision: Decision) => {
+    if (!window.confirm(`Delete the decision "${decision.title}"?`)) return;
+    const deleted = await NewAgileService.deleteDecision(decision.id);
+    if (deleted) {
+      setDecisions(prev => prev.filter(d => d.id !== decision.id));
+    }
   };
 
   const EmptyState = () => (
@@ -49,8 +109,36 @@ const DecisionLog: React.FC<DecisionLogProps> = ({ projectId, className = '' })
             <span className="text-white/60 text-sm">
               Date: {new Date(decision.created_at).toLocaleDateString()}
             </span>
+            {NewAgileService.isDecisionDueForReview(decision) && (
+              <span className="text-xs bg-yellow-500/20 text-yellow-200 px-2 py-1 rounded border border-yellow-400/30">
+                Review overdue
+              </span>
+            )}
           </div>
         </div>
+
+        <div className="flex items-center space-x-2 ml-4">
+          {NewAgileService.isDecisionDueForReview(decision) && (
+            <button
+              onClick={() => handleEditDecision(decision, true)}
+              className="px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-400/30 rounded-lg text-yellow-100 text-sm transition-colors"
+            >
+              Review
+            </button>
+          )}
+          <button
+            onClick={() => handleEditDecision(decision)}
+            className="px-3 py-1 text-white/70 hover:text-white text-sm transition-colors"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => void handleDeleteDecision(decision)}
+            className="px-3 py-1 text-red-300/80 hover:text-red-200 text-sm transition-colors"
+          >
+            Delete
+          </button>
+        </div>
       </div>
 
       {/* Decision Made */}
@@ -206,16 +294,53 @@ const DecisionLog: React.FC<DecisionLogProps> = ({ projectId, className = '' })
 
       {/* Content */}
       <div className="p-6">
-        {decisions.length === 0 ? (
+        {loading ? (
+          <p className="text-white/70">Loading decisions...</p>
+        ) : decisions.length === 0 ? (
           <EmptyState />
         ) : (
-          <div className="space-y-6">
-            {decisions.map(decision => (
-              <DecisionCard key={decision.id} decision={decision} />
-            ))}
-          </div>
+          <>
+            <div className="flex space-x-2 mb-6">
+              <button
+                onClick={() => setView('all')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  view === 'all' ? 'bg-white/20 text-white' : 'text-white/70 hover:bg-white/10 hover:text-white'
+                }`}
+              >
+                All decisions ({decisions.length})
+              </button>
+              <button
+                onClick={() => setView('review')}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  view === 'review' ? 'bg-white/20 text-white' : 'text-white/70 hover:bg-white/10 hover:text-white'
+                }`}
+              >
+                Review queue ({reviewQueue.length})
+              </button>
+            </div>
+
+            {visibleDecisions.length === 0 ? (
+              <p className="text-center py-12 text-white/60">No decisions are waiting for review.</p>
+            ) : (
+              <div className="space-y-6">
+                {visibleDecisions.map(decision => (
+                  <DecisionCard key={decision.id} decision={decision} />
+                ))}
+              </div>
+            )}
+          </>
         )}
       </div>
+
+      {showModal && (
+        <DecisionModal
+          decision={editingDecision}
+          reviewMode={reviewing}
+          defaultOwner={user?.email ?? ''}
+          onSave={handleSaveDecision}
+          onClose={() => setShowModal(false)}
+        />
+      )}
     </div>
   );
 };
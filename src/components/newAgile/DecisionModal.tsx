@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import type { Decision, DecisionCreateRequest, DecisionUpdateRequest } from '../../types/newAgile';
+
+interface DecisionModalProps {
+  decision?: Decision | null; // Edit mode when set
+  reviewMode?: boolean; // Opened from the review queue: focus on outcome
+  defaultOwner?: string;
+  onSave: (decision: DecisionCreateRequest & DecisionUpdateRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+interface OptionDraft {
+  option: string;
+  pros: string; // One per line
+  cons: string;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+// Lists are edited one item per line
+const toLines = (items: string[] = []) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const DecisionModal: React.FC<DecisionModalProps> = ({
+  decision,
+  reviewMode = false,
+  defaultOwner = '',
+  onSave,
+  onClose
+}) => {
+  const [title, setTitle] = useState(decision?.title ?? '');
+  const [context, setContext] = useState(decision?.context ?? '');
+  const [options, setOptions] = useState<OptionDraft[]>(
+    decision?.options_considered.length
+      ? decision.options_considered.map(o => ({ option: o.option, pros: toLines(o.pros), cons: toLines(o.cons) }))
+      : [{ option: '', pros: '', cons: '' }, { option: '', pros: '', cons: '' }]
+  );
+  const [chosen, setChosen] = useState(decision?.decision ?? '');
+  const [rationale, setRationale] = useState(decision?.rationale ?? '');
+  const [evidence, setEvidence] = useState(toLines(decision?.evidence));
+  const [owner, setOwner] = useState(decision?.owner ?? defaultOwner);
+  const [stakeholders, setStakeholders] = useState((decision?.stakeholders ?? []).join(', '));
+  const [successCriteria, setSuccessCriteria] = useState(toLines(decision?.success_criteria));
+  const [reviewDate, setReviewDate] = useState(decision?.review_date?.slice(0, 10) ?? '');
+  const [outcome, setOutcome] = useState(decision?.outcome ?? '');
+  const [lessonsLearned, setLessonsLearned] = useState(decision?.lessons_learned ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateOption = (index: number, changes: Partial<OptionDraft>) =>
+    setOptions(prev => prev.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+
+  const validate = (): string[] => {
+    const errors: string[] = [];
+    if (!title.trim()) errors.push('Title is required');
+    if (!chosen.trim()) errors.push('Decision is required');
+    if (!rationale.trim()) errors.push('Rationale is required');
+    if (reviewMode && !outcome.trim() && !lessonsLearned.trim()) {
+      errors.push('Record an outcome or lessons learned to complete the review');
+    }
+    return errors;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validate();
+    if (errors.length > 0) {
+      setError(errors.join(', '));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        title: title.trim(),
+        context: context.trim(),
+        options_considered: options
+          .filter(option => option.option.trim())
+          .map(option => ({ option: option.option.trim(), pros: fromLines(option.pros), cons: fromLines(option.cons) })),
+        decision: chosen.trim(),
+        rationale: rationale.trim(),
+        evidence: fromLines(evidence),
+        owner: owner.trim(),
+        stakeholders: stakeholders.split(',').map(s => s.trim()).filter(Boolean),
+        success_criteria: fromLines(successCriteria),
+        review_date: reviewDate || undefined,
+        outcome: outcome.trim() || undefined,
+        lessons_learned: lessonsLearned.trim() || undefined
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save decision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reviewFields = (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-white/80 mb-2">Outcome</label>
+        <textarea
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value)}
+          rows={3}
+          className={inputClass}
+          placeholder="What actually happened? Were the success criteria met?"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-white/80 mb-2">Lessons Learned</label>
+        <textarea
+          value={lessonsLearned}
+          onChange={(e) => setLessonsLearned(e.target.value)}
+          rows={3}
+          className={inputClass}
+          placeholder="What would you do differently next time?"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-1">
+              {reviewMode ? 'Review decision' : decision ? 'Edit decision' : 'New decision'}
+            </h3>
+            <p className="text-white/70 text-sm">
+              {reviewMode
+                ? 'The review date has passed. Record how this decision turned out.'
+                : 'Document the context, the options you weighed and why you chose one.'}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {reviewMode && (
+          <div className="p-4 bg-green-500/10 border border-green-400/30 rounded-lg">
+            <h4 className="text-green-300 font-semibold text-sm mb-1">{title}</h4>
+            <p className="text-green-200 text-sm">{chosen}</p>
+          </div>
+        )}
+
+        {reviewMode && reviewFields}
+
+        {!reviewMode && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">Title *</label>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} placeholder="What was decided, in a few words" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">Context</label>
+              <textarea
+                value={context}
+                onChange={(e) => setContext(e.target.value)}
+                rows={3}
+                className={inputClass}
+                placeholder="What situation or problem prompted this decision?"
+              />
+            </div>
+
+            {/* Options considered */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-white/80">Options Considered</label>
+                <button
+                  type="button"
+                  onClick={() => setOptions(prev => [...prev, { option: '', pros: '', cons: '' }])}
+                  className="text-blue-300 hover:text-blue-200 text-sm transition-colors"
+                >
+                  + Add option
+                </button>
+              </div>
+              <div className="space-y-3">
+                {options.map((option, index) => (
+                  <div key={index} className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        value={option.option}
+                        onChange={(e) => updateOption(index, { option: e.target.value })}
+                        className={inputClass}
+                        placeholder={`Option ${index + 1}`}
+                      />
+                      {options.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                          className="p-2 text-white/50 hover:text-red-300 transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <textarea
+                        value={option.pros}
+                        onChange={(e) => updateOption(index, { pros: e.target.value })}
+                        rows={3}
+                        className={inputClass}
+                        placeholder="Pros (one per line)"
+                      />
+                      <textarea
+                        value={option.cons}
+                        onChange={(e) => updateOption(index, { cons: e.target.value })}
+                        rows={3}
+                        className={inputClass}
+                        placeholder="Cons (one per line)"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">Decision *</label>
+              <input value={chosen} onChange={(e) => setChosen(e.target.value)} className={inputClass} placeholder="The option you chose" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">Rationale *</label>
+              <textarea
+                value={rationale}
+                onChange={(e) => setRationale(e.target.value)}
+                rows={3}
+                className={inputClass}
+                placeholder="Why this option over the others?"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">Supporting Evidence</label>
+                <textarea value={evidence} onChange={(e) => setEvidence(e.target.value)} rows={3} className={inputClass} placeholder="One item per line" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">Success Criteria</label>
+                <textarea value={successCriteria} onChange={(e) => setSuccessCriteria(e.target.value)} rows={3} className={inputClass} placeholder="One item per line" />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">Owner</label>
+                <input value={owner} onChange={(e) => setOwner(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">Stakeholders</label>
+                <input value={stakeholders} onChange={(e) => setStakeholders(e.target.value)} className={inputClass} placeholder="Comma separated" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">Review Date</label>
+                <input type="date" value={reviewDate} onChange={(e) => setReviewDate(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+
+            {decision && reviewFields}
+          </>
+        )}
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : reviewMode ? 'Complete review' : 'Save decision'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DecisionModal;
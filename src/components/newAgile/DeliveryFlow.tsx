@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   DndContext,
   closestCenter,
@@ -6,12 +6,11 @@ import {
   PointerSensor,
   useSensor,
   useSensors,
-  DragEndEvent,
   DragOverlay,
-  DragStartEvent,
+  type DragEndEvent,
+  type DragStartEvent,
 } from '@dnd-kit/core';
 import {
-  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
@@ -21,10 +20,21 @@ import {
 } from '@dnd-kit/sortable';
 import { useDroppable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
-import type { DeliveryTask, WIPLimits, DeliveryTaskStatus, DeliveryTaskCreateRequest } from '../../types/newAgile';
+import type { DeliveryTask, DeliveryTaskStatus, DeliveryTaskCreateRequest, DeliveryTaskTransition, WIPPolicy, WIPLimitOverride } from '../../types/newAgile';
 import TaskModal from './TaskModal';
+import FlowMetricsPanel from './FlowMetricsPanel';
+import WipPolicySettings from './WipPolicySettings';
+import WipOverrideModal from './WipOverrideModal';
+import LogTimeModal from './LogTimeModal';
+import DeliveryTaskLabelsModal from './DeliveryTaskLabelsModal';
+import LabelChips from '../tasks/LabelChips';
+import LabelFilterBar from '../tasks/LabelFilterBar';
+import LabelManager from '../tasks/LabelManager';
 import { useAuth } from '../../contexts/SimpleAuthContext';
 import { NewAgileService } from '../../services/newAgileService';
+import { FlowMetricsService, type WIPLimitCheck } from '../../services/flowMetricsService';
+import { TaskLabelService, type LabelMatch } from '../../services/taskLabelService';
+import type { TaskLabel, TaskLabelAssignment } from '../../types';
 
 interface DeliveryFlowProps {
   projectId: string;
@@ -36,20 +46,31 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
 
   console.log('🏊 DeliveryFlow: Initializing with projectId:', projectId);
 
-  // Mock WIP limits - in real app this would be configurable
-  const wipLimits: WIPLimits = {
-    ready: 10,
-    in_progress: 3,
-    review: 3,
-    released: 10,
-    measuring: 3
-  };
+  // WIP limits and their enforcement policy are configured per project
+  const [wipPolicy, setWipPolicy] = useState<WIPPolicy>(() => NewAgileService.getDefaultWipPolicy(projectId));
+  const [wipOverrides, setWipOverrides] = useState<WIPLimitOverride[]>([]);
+  const [showWipSettings, setShowWipSettings] = useState(false);
+  const [pendingOverride, setPendingOverride] = useState<{
+    task: DeliveryTask;
+    status: DeliveryTaskStatus;
+    check: WIPLimitCheck;
+  } | null>(null);
 
   // State management
   const [activeId, setActiveId] = useState<string | null>(null);
   const [showTaskModal, setShowTaskModal] = useState(false);
+  const [loggingTask, setLoggingTask] = useState<DeliveryTask | null>(null);
   const [selectedPhase, setSelectedPhase] = useState<DeliveryTaskStatus | 'all'>('all');
-  const [viewMode, setViewMode] = useState<'kanban' | 'list'>('kanban');
+  const [viewMode, setViewMode] = useState<'kanban' | 'list' | 'metrics'>('kanban');
+
+  // Project labels, shared with the task list
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const [labelAssignments, setLabelAssignments] = useState<TaskLabelAssignment[]>([]);
+  const [selectedLabelIds, setSelectedLabelIds] = useState<string[]>([]);
+  const [labelMatch, setLabelMatch] = useState<LabelMatch>('any');
+  const [groupByLabel, setGroupByLabel] = useState(false);
+  const [labelingTask, setLabelingTask] = useState<DeliveryTask | null>(null);
+  const [showLabelManager, setShowLabelManager] = useState(false);
 
   // Sensors for drag and drop - with error handling
   const sensors = useSensors(
@@ -63,117 +84,68 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
     })
   );
 
-  // Mock tasks - in real app this would come from API
-  const [tasks, setTasks] = useState<DeliveryTask[]>([
-    {
-      id: '1',
-      title: 'Build Scoring Engine',
-      description: 'Implement flexible scoring algorithms supporting simple rule-based, weighted scoring, and basic ML models',
-      status: 'ready',
-      priority: 'high',
-      effort: 'L',
-      assignee: 'John Doe',
-      acceptance_criteria: [
-        'Supports rule-based scoring',
-        'Configurable weights',
-        'API endpoints created'
-      ],
-      definition_of_ready: [],
-      definition_of_done: [],
-      blocked: false,
-      tags: ['backend', 'scoring'],
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      created_by: 'user1'
-    },
-    {
-      id: '2',
-      title: 'User Authentication Flow',
-      description: 'Implement secure user login and registration with JWT tokens',
-      status: 'in_progress',
-      priority: 'high',
-      effort: 'M',
-      assignee: 'Alice Smith',
-      acceptance_criteria: [
-        'Secure password hashing',
-        'JWT token generation',
-        'Password reset functionality'
-      ],
-      definition_of_ready: [],
-      definition_of_done: [],
-      blocked: false,
-      tags: ['frontend', 'auth'],
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      created_by: 'user2'
-    },
-    {
-      id: '3',
-      title: 'Dashboard Analytics',
-      description: 'Create interactive charts and metrics for project insights',
-      status: 'review',
-      priority: 'medium',
-      effort: 'M',
-      assignee: 'Bob Johnson',
-      acceptance_criteria: [
-        'Real-time data updates',
-        'Export to PDF/Excel',
-        'Mobile responsive'
-      ],
-      definition_of_ready: [],
-      definition_of_done: [],
-      blocked: false,
-      tags: ['frontend', 'analytics'],
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      created_by: 'user3'
-    },
-    {
-      id: '4',
-      title: 'API Documentation',
-      description: 'Complete OpenAPI documentation for all endpoints',
-      status: 'ready',
-      priority: 'low',
-      effort: 'S',
-      assignee: 'Carol Davis',
-      acceptance_criteria: [
-        'All endpoints documented',
-        'Interactive examples',
-        'Authentication guide'
-      ],
-      definition_of_ready: [],
-      definition_of_done: [],
-      blocked: false,
-      tags: ['docs', 'backend'],
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      created_by: 'user4'
+  // Tasks are loaded from and written through NewAgileService
+  const [tasks, setTasks] = useState<DeliveryTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [transitions, setTransitions] = useState<DeliveryTaskTransition[]>([]);
+
+  const loadTasks = useCallback(async () => {
+    setLoading(true);
+    setLoadError(null);
+    const [deliveryTasks, history, policy, overrides, projectLabels] = await Promise.all([
+      NewAgileService.getDeliveryTasks(projectId),
+      NewAgileService.getDeliveryTaskTransitions(projectId),
+      NewAgileService.getWipPolicy(projectId),
+      NewAgileService.getWipOverrides(projectId),
+      TaskLabelService.getLabels(projectId)
+    ]);
+    if (!deliveryTasks) {
+      setLoadError('Could not load delivery tasks');
+      setLoading(false);
+      return;
     }
-  ]);
+    setTasks(deliveryTasks);
+    setLabels(projectLabels);
+    setLabelAssignments(await TaskLabelService.getAssignments('delivery_task_id', deliveryTasks.map(task => task.id)));
+    setTransitions(history);
+    setWipPolicy(policy);
+    setWipOverrides(overrides);
+    setLoading(false);
+  }, [projectId]);
+
+  // Usage counts are kept by a database trigger, so re-read labels after changes
+  const reloadLabels = async () => {
+    const [projectLabels, assignments] = await Promise.all([
+      TaskLabelService.getLabels(projectId),
+      TaskLabelService.getAssignments('delivery_task_id', tasks.map(task => task.id))
+    ]);
+    setLabels(projectLabels);
+    setLabelAssignments(assignments);
+  };
 
-  // Group tasks by status
-  const tasksByStatus = tasks.reduce((acc, task) => {
-    if (!acc[task.status]) {
-      acc[task.status] = [];
-    }
-    acc[task.status].push(task);
-    return acc;
-  }, {} as Record<DeliveryTaskStatus, DeliveryTask[]>);
-
-  // Calculate aging items (>3 days)
-  const agingThreshold = 3 * 24 * 60 * 60 * 1000; // 3 days in milliseconds
-  const agingItems = tasks.filter(task => {
-    const updatedTime = new Date(task.updated_at).getTime();
-    const now = new Date().getTime();
-    return now - updatedTime > agingThreshold && task.status !== 'ready';
-  });
+  // Status history is written by a database trigger, so re-read it after a move
+  const refreshTransitions = async () => {
+    setTransitions(await NewAgileService.getDeliveryTaskTransitions(projectId));
+  };
+
+  useEffect(() => {
+    void loadTasks();
+  }, [loadTasks]);
+
+  const flowMetrics = useMemo(
+    () => FlowMetricsService.calculate(tasks, transitions),
+    [tasks, transitions]
+  );
 
   const columns: { id: DeliveryTaskStatus; title: string; limit?: number }[] = [
-    { id: 'ready', title: 'Ready', limit: wipLimits.ready },
-    { id: 'in_progress', title: 'In Progress', limit: wipLimits.in_progress },
-    { id: 'review', title: 'Review', limit: wipLimits.review },
-    { id: 'released', title: 'Released' },
-    { id: 'measuring', title: 'Measuring', limit: wipLimits.measuring }
+    { id: 'ready', title: 'Ready', limit: wipPolicy.limits.ready },
+    { id: 'in_progress', title: 'In Progress', limit: wipPolicy.limits.in_progress },
+    { id: 'review', title: 'Review', limit: wipPolicy.limits.review },
+    { id: 'released', title: 'Released', limit: wipPolicy.limits.released },
+    { id: 'measuring', title: 'Measuring', limit: wipPolicy.limits.measuring }
   ];
 
   const getColumnTasks = (status: DeliveryTaskStatus) => {
@@ -181,10 +153,14 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
     return filteredTasksByStatus[status] || [];
   };
 
+  // WIP counts every task in the column, like the check made when a task moves,
+  // so the label filter does not hide a full column
+  const getWipCount = (status: DeliveryTaskStatus) => tasks.filter(task => task.status === status).length;
+
   const isWipExceeded = (status: DeliveryTaskStatus) => {
-    const limit = wipLimits[status];
+    const limit = wipPolicy.limits[status];
     if (!limit) return false;
-    return getColumnTasks(status).length >= limit;
+    return getWipCount(status) >= limit;
   };
 
   const getPriorityColor = (priority: string) => {
@@ -224,19 +200,16 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
         return;
       }
 
-      // Check if we're dropping in a different column
-      const overColumn = over.id as string;
-      const validColumns = ['ready', 'in_progress', 'review', 'released', 'measuring'];
+      // Dropping onto a card moves the task into that card's column
+      const validColumns: DeliveryTaskStatus[] = ['ready', 'in_progress', 'review', 'released', 'measuring'];
+      const overId = over.id as string;
+      const overColumn = validColumns.includes(overId as DeliveryTaskStatus)
+        ? overId as DeliveryTaskStatus
+        : tasks.find(task => task.id === overId)?.status;
 
-      if (validColumns.includes(overColumn) && activeTask.status !== overColumn) {
+      if (overColumn && activeTask.status !== overColumn) {
         console.log('✅ Moving task:', activeTask.title, 'from', activeTask.status, 'to', overColumn);
-
-        // Update task status
-        setTasks(prev => prev.map(task =>
-          task.id === active.id
-            ? { ...task, status: overColumn as DeliveryTaskStatus, updated_at: new Date().toISOString() }
-            : task
-        ));
+        requestMove(activeTask, overColumn);
       }
 
       setActiveId(null);
@@ -246,58 +219,154 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
     }
   };
 
+  const getColumnTitle = (status: DeliveryTaskStatus) =>
+    columns.find(column => column.id === status)?.title ?? status;
+
+  // Apply the column's WIP policy before a move goes through
+  const requestMove = (task: DeliveryTask, status: DeliveryTaskStatus) => {
+    const check = FlowMetricsService.checkWipLimit(wipPolicy, tasks, task.id, status);
+
+    if (!check.exceeded) {
+      void moveTask(task, status);
+      return;
+    }
+
+    switch (check.policy) {
+      case 'block':
+        setSyncError(`${getColumnTitle(status)} is at its WIP limit of ${check.limit}. Finish work there before pulling more in.`);
+        break;
+      case 'require_justification':
+        setPendingOverride({ task, status, check });
+        break;
+      default:
+        void moveTask(task, status).then(moved => {
+          if (moved) void logOverride(task, status, check);
+        });
+    }
+  };
+
+  const logOverride = async (
+    task: DeliveryTask,
+    status: DeliveryTaskStatus,
+    check: WIPLimitCheck,
+    reason?: string
+  ) => {
+    const override = await NewAgileService.logWipOverride({
+      project_id: projectId,
+      task_id: task.id,
+      status,
+      wip_limit: check.limit ?? 0,
+      wip_count: check.count,
+      policy: check.policy,
+      reason,
+      overridden_by: user?.id
+    });
+    if (override) {
+      setWipOverrides(prev => [override, ...prev]);
+    }
+  };
+
+  const handleConfirmOverride = async (reason: string) => {
+    if (!pendingOverride) return;
+    const { task, status, check } = pendingOverride;
+    setPendingOverride(null);
+    if (await moveTask(task, status)) {
+      await logOverride(task, status, check, reason);
+    }
+  };
+
+  const handleSaveWipPolicy = async (policy: WIPPolicy) => {
+    const saved = await NewAgileService.saveWipPolicy(policy);
+    if (!saved) {
+      throw new Error('Failed to save WIP limits');
+    }
+    setWipPolicy(policy);
+  };
+
+  // Optimistically move the card, then roll back if the database write fails
+  const moveTask = async (task: DeliveryTask, status: DeliveryTaskStatus) => {
+    setSyncError(null);
+    setTasks(prev => prev.map(t =>
+      t.id === task.id
+        ? { ...t, status, updated_at: new Date().toISOString() }
+        : t
+    ));
+
+    const saved = await NewAgileService.moveDeliveryTask(task, status);
+    if (saved) {
+      setTasks(prev => prev.map(t => t.id === saved.id ? saved : t));
+      void refreshTransitions();
+      return true;
+    }
+
+    setTasks(prev => prev.map(t => t.id === task.id ? task : t));
+    setSyncError(`Could not move "${task.title}". The change has been reverted.`);
+    return false;
+  };
+
+  const toggleBlocked = async (task: DeliveryTask) => {
+    setSyncError(null);
+    const blocked = !task.blocked;
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, blocked } : t));
+
+    const saved = await NewAgileService.updateDeliveryTask(task.id, { blocked });
+    if (saved) {
+      setTasks(prev => prev.map(t => t.id === saved.id ? saved : t));
+    } else {
+      setTasks(prev => prev.map(t => t.id === task.id ? task : t));
+      setSyncError(`Could not update "${task.title}". The change has been reverted.`);
+    }
+  };
+
+  const deleteTask = async (task: DeliveryTask) => {
+    if (!window.confirm(`Delete "${task.title}"?`)) return;
+
+    setSyncError(null);
+    const index = tasks.findIndex(t => t.id === task.id);
+    setTasks(prev => prev.filter(t => t.id !== task.id));
+
+    const deleted = await NewAgileService.deleteDeliveryTask(task.id);
+    if (!deleted) {
+      setTasks(prev => {
+        const restored = [...prev];
+        restored.splice(Math.max(index, 0), 0, task);
+        return restored;
+      });
+      setSyncError(`Could not delete "${task.title}". The task has been restored.`);
+    }
+  };
+
   const findTaskById = (id: string) => {
     return tasks.find(task => task.id === id);
   };
 
-  // Task creation handler with graceful fallbacks
+  // Task creation handler - the modal surfaces the error if saving fails
   const handleSaveTask = async (taskData: DeliveryTaskCreateRequest) => {
-    try {
-      console.log('🎯 Saving task:', taskData.title);
-
-      // Create new task with unique ID
-      const newTask: DeliveryTask = {
-        id: Date.now().toString(),
-        title: taskData.title,
-        description: taskData.description,
-        status: 'ready',
-        priority: taskData.priority,
-        effort: taskData.effort,
-        assignee: taskData.assignee,
-        experiment_reference: taskData.experiment_reference,
-        hypothesis_reference: taskData.hypothesis_reference,
-        acceptance_criteria: taskData.acceptance_criteria,
-        definition_of_ready: [],
-        definition_of_done: [],
-        blocked: false,
-        tags: taskData.tags,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: user?.id || 'anonymous'
-      };
-
-      // TODO: Save to database when Supabase is available
-      // For now, working in offline mode with local state only
-      console.log('📝 Working in offline mode - task saved locally only');
-
-      // Always update local state (works offline)
-      setTasks(prev => [...prev, newTask]);
-      console.log('✅ Task created successfully (local):', newTask);
+    console.log('🎯 Saving task:', taskData.title);
 
-    } catch (error) {
-      console.error('❌ Failed to create task:', error);
-      throw error;
+    const newTask = await NewAgileService.createDeliveryTask(
+      taskData,
+      projectId,
+      user?.id ?? 'anonymous'
+    );
+
+    if (!newTask) {
+      throw new Error('Failed to create task');
     }
+
+    setTasks(prev => [newTask, ...prev]);
+    console.log('✅ Task created successfully:', newTask);
   };
 
-  // Filter tasks based on selected phase
+  // Filter tasks based on selected phase and labels
   const getFilteredTasks = () => {
-    if (selectedPhase === 'all') {
-      return tasks;
-    }
-    return tasks.filter(task => task.status === selectedPhase);
+    const phaseTasks = selectedPhase === 'all' ? tasks : tasks.filter(task => task.status === selectedPhase);
+    return TaskLabelService.filterByLabels(phaseTasks, selectedLabelIds, labelAssignments, 'delivery_task_id', labelMatch);
   };
 
+  const getTaskLabels = (task: DeliveryTask) =>
+    TaskLabelService.getItemLabels(task.id, labels, labelAssignments, 'delivery_task_id');
+
   // Get filtered tasks by status for kanban view
   const getFilteredTasksByStatus = () => {
     const filteredTasks = getFilteredTasks();
@@ -366,6 +435,8 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
           )}
         </div>
 
+        <LabelChips labels={getTaskLabels(task)} max={3} className="mt-2" />
+
         {task.tags.length > 0 && (
           <div className="flex flex-wrap gap-1 mt-2">
             {task.tags.slice(0, 2).map(tag => (
@@ -394,7 +465,7 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
       id: column.id,
     });
 
-    const columnTasks = getColumnTasks(column.id);
+    const wipCount = getWipCount(column.id);
     const isLimitExceeded = isWipExceeded(column.id);
 
     return (
@@ -406,7 +477,7 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
               <span className={`text-sm px-2 py-1 rounded ${
                 isLimitExceeded ? 'bg-red-500/20 text-red-300' : 'text-white/70'
               }`}>
-                {columnTasks.length}
+                {wipCount}
                 {column.limit && ` / ${column.limit}`}
               </span>
             </div>
@@ -418,7 +489,7 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
                 className={`h-1 rounded-full transition-all duration-300 ${
                   isLimitExceeded ? 'bg-red-400' : 'bg-blue-400'
                 }`}
-                style={{ width: `${Math.min(100, (columnTasks.length / column.limit) * 100)}%` }}
+                style={{ width: `${Math.min(100, (wipCount / column.limit) * 100)}%` }}
               />
             </div>
           )}
@@ -442,6 +513,101 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
     );
   };
 
+  // Task row in the list view
+  const renderListItem = (task: DeliveryTask) => (
+      <div key={task.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex-1">
+            <div className="flex items-center gap-3 mb-2">
+              <h4 className="text-white font-medium">{task.title}</h4>
+              <span className={`text-xs px-2 py-1 rounded border ${getPriorityColor(task.priority)}`}>
+                {task.priority}
+              </span>
+              <span className="text-xs px-2 py-1 bg-white/10 text-white/70 rounded border border-white/20">
+                {task.status.replace('_', ' ')}
+              </span>
+            </div>
+            <p className="text-white/70 text-sm mb-3">{task.description}</p>
+          </div>
+          <div className="flex items-center space-x-2 ml-4">
+            <span className="text-white/60 text-xs">{task.effort}</span>
+            {task.assignee && (
+              <div className="w-6 h-6 bg-blue-500/30 rounded-full flex items-center justify-center">
+                <span className="text-xs text-blue-200">{task.assignee[0]}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {task.acceptance_criteria.length > 0 && (
+          <div className="mb-3">
+            <h5 className="text-white/80 font-medium text-xs mb-2">Acceptance Criteria:</h5>
+            <ul className="text-white/60 text-xs space-y-1">
+              {task.acceptance_criteria.slice(0, 3).map((criteria, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <span className="text-green-400 mt-0.5">•</span>
+                  {criteria}
+                </li>
+              ))}
+              {task.acceptance_criteria.length > 3 && (
+                <li className="text-white/50">+{task.acceptance_criteria.length - 3} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        <LabelChips labels={getTaskLabels(task)} className="mb-2" />
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-wrap gap-1">
+            {task.tags.slice(0, 3).map(tag => (
+              <span key={tag} className="text-xs bg-white/10 text-white/60 px-2 py-1 rounded">
+                {tag}
+              </span>
+            ))}
+            {task.tags.length > 3 && (
+              <span className="text-xs text-white/50">+{task.tags.length - 3}</span>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-3">
+            {task.blocked && (
+              <div className="flex items-center space-x-1">
+                <svg className="w-4 h-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+                <span className="text-xs text-red-400">Blocked</span>
+              </div>
+            )}
+            <button
+              onClick={() => setLabelingTask(task)}
+              className="text-xs text-white/60 hover:text-white transition-colors"
+            >
+              Labels
+            </button>
+            <button
+              onClick={() => setLoggingTask(task)}
+              className="text-xs text-white/60 hover:text-white transition-colors"
+            >
+              Log time
+            </button>
+            <button
+              onClick={() => void toggleBlocked(task)}
+              className="text-xs text-white/60 hover:text-white transition-colors"
+            >
+              {task.blocked ? 'Unblock' : 'Mark blocked'}
+            </button>
+            <button
+              onClick={() => void deleteTask(task)}
+              className="text-xs text-red-300/80 hover:text-red-300 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+  );
+
   // Task List View component
   const TaskListView = () => {
     const filteredTasks = getFilteredTasks();
@@ -457,9 +623,11 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
             </div>
             <h3 className="text-lg font-medium text-white/80 mb-2">No tasks found</h3>
             <p className="text-white/60 mb-6">
-              {selectedPhase === 'all'
-                ? 'No tasks in this project yet'
-                : `No tasks in ${selectedPhase.replace('_', ' ')} phase`}
+              {selectedLabelIds.length > 0
+                ? 'No tasks match the selected labels'
+                : selectedPhase === 'all'
+                  ? 'No tasks in this project yet'
+                  : `No tasks in ${selectedPhase.replace('_', ' ')} phase`}
             </p>
             <button
               onClick={() => setShowTaskModal(true)}
@@ -472,71 +640,20 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
             </button>
           </div>
         ) : (
-          filteredTasks.map((task) => (
-            <div key={task.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-2">
-                    <h4 className="text-white font-medium">{task.title}</h4>
-                    <span className={`text-xs px-2 py-1 rounded border ${getPriorityColor(task.priority)}`}>
-                      {task.priority}
-                    </span>
-                    <span className="text-xs px-2 py-1 bg-white/10 text-white/70 rounded border border-white/20">
-                      {task.status.replace('_', ' ')}
-                    </span>
-                  </div>
-                  <p className="text-white/70 text-sm mb-3">{task.description}</p>
-                </div>
-                <div className="flex items-center space-x-2 ml-4">
-                  <span className="text-white/60 text-xs">{task.effort}</span>
-                  {task.assignee && (
-                    <div className="w-6 h-6 bg-blue-500/30 rounded-full flex items-center justify-center">
-                      <span className="text-xs text-blue-200">{task.assignee[0]}</span>
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              {task.acceptance_criteria.length > 0 && (
-                <div className="mb-3">
-                  <h5 className="text-white/80 font-medium text-xs mb-2">Acceptance Criteria:</h5>
-                  <ul className="text-white/60 text-xs space-y-1">
-                    {task.acceptance_criteria.slice(0, 3).map((criteria, index) => (
-                      <li key={index} className="flex items-start gap-2">
-                        <span className="text-green-400 mt-0.5">•</span>
-                        {criteria}
-                      </li>
-                    ))}
-                    {task.acceptance_criteria.length > 3 && (
-                      <li className="text-white/50">+{task.acceptance_criteria.length - 3} more</li>
-                    )}
-                  </ul>
-                </div>
-              )}
-
-              <div className="flex items-center justify-between">
-                <div className="flex flex-wrap gap-1">
-                  {task.tags.slice(0, 3).map(tag => (
-                    <span key={tag} className="text-xs bg-white/10 text-white/60 px-2 py-1 rounded">
-                      {tag}
-                    </span>
-                  ))}
-                  {task.tags.length > 3 && (
-                    <span className="text-xs text-white/50">+{task.tags.length - 3}</span>
-                  )}
-                </div>
-
-                {task.blocked && (
-                  <div className="flex items-center space-x-1">
-                    <svg className="w-4 h-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L4.082 16.5c-.77.833.192 2.5 1.732 2.5z" />
-                    </svg>
-                    <span className="text-xs text-red-400">Blocked</span>
-                  </div>
-                )}
+          groupByLabel ? (
+            TaskLabelService.groupByLabel(filteredTasks, labels, labelAssignments, 'delivery_task_id').map(group => (
+              <div key={group.label?.id ?? 'unlabeled'} className="space-y-3">
+                <h4 className="flex items-center space-x-2 text-white/80 text-sm font-medium pt-2">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: group.label?.color ?? '#6B7280' }} />
+                  <span>{group.label?.name ?? 'No label'}</span>
+                  <span className="text-white/50">{group.items.length}</span>
+                </h4>
+                {group.items.map(task => renderListItem(task))}
               </div>
-            </div>
-          ))
+            ))
+          ) : (
+            filteredTasks.map(task => renderListItem(task))
+          )
         )}
       </div>
     );
@@ -567,12 +684,18 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
             <div>
               <h2 className="text-2xl font-bold text-white">Delivery Flow</h2>
               <p className="text-white/70">
-                {selectedPhase === 'all' ? 'All Tasks' : `${selectedPhase.replace('_', ' ')} Phase`} • {viewMode === 'kanban' ? 'Kanban Board' : 'List View'}
+                {selectedPhase === 'all' ? 'All Tasks' : `${selectedPhase.replace('_', ' ')} Phase`} • {viewMode === 'kanban' ? 'Kanban Board' : viewMode === 'list' ? 'List View' : 'Flow Metrics'}
               </p>
             </div>
           </div>
 
           <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowWipSettings(prev => !prev)}
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white/80 transition-colors"
+            >
+              WIP Limits
+            </button>
             <button
               onClick={() => setShowTaskModal(true)}
               className="px-4 py-2 bg-green-500/30 hover:bg-green-500/40 border border-green-400/30 rounded-lg text-green-100 transition-colors inline-flex items-center space-x-2"
@@ -644,9 +767,41 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
                 <span>List</span>
               </div>
             </button>
+            <button
+              onClick={() => setViewMode('metrics')}
+              className={`px-3 py-1 rounded text-sm transition-colors ${
+                viewMode === 'metrics'
+                  ? 'bg-white/20 text-white'
+                  : 'text-white/70 hover:text-white hover:bg-white/10'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+                <span>Metrics</span>
+              </div>
+            </button>
           </div>
         </div>
 
+        {/* Label Filter */}
+        <div className="mb-4">
+          <LabelFilterBar
+            labels={labels}
+            selectedIds={selectedLabelIds}
+            onSelectedChange={setSelectedLabelIds}
+            match={labelMatch}
+            onMatchChange={setLabelMatch}
+            groupByLabel={groupByLabel}
+            onGroupByLabelChange={(grouped) => {
+              setGroupByLabel(grouped);
+              if (grouped) setViewMode('list');
+            }}
+            onManage={() => setShowLabelManager(true)}
+          />
+        </div>
+
         {/* Flow Metrics */}
         <div className="flex items-center space-x-6 text-sm">
           <div className="text-white/70">
@@ -655,10 +810,41 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
           </div>
           <div className="text-white/70">
             <span className="font-medium">Aging (&gt;3d):</span>
-            <span className="ml-2 text-white">{agingItems.length}</span>
+            <span className="ml-2 text-white">{flowMetrics.aging_items}</span>
+          </div>
+          <div className="text-white/70">
+            <span className="font-medium">Cycle time (p85):</span>
+            <span className="ml-2 text-white">
+              {flowMetrics.completed_count > 0 ? `${flowMetrics.cycle_time_percentiles.p85}h` : '—'}
+            </span>
+          </div>
+          <div className="text-white/70">
+            <span className="font-medium">Throughput:</span>
+            <span className="ml-2 text-white">{flowMetrics.throughput_weekly}/week</span>
           </div>
         </div>
 
+        {showWipSettings && (
+          <WipPolicySettings
+            policy={wipPolicy}
+            onSave={handleSaveWipPolicy}
+            onClose={() => setShowWipSettings(false)}
+          />
+        )}
+
+        {/* Sync Error */}
+        {syncError && (
+          <div className="mt-3 bg-red-500/20 border border-red-400/30 rounded-lg p-3 flex items-center justify-between">
+            <span className="text-red-300 text-sm font-medium">{syncError}</span>
+            <button
+              onClick={() => setSyncError(null)}
+              className="text-red-300/80 hover:text-red-200 text-sm"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* WIP Limit Warning */}
         {(isWipExceeded('in_progress') || isWipExceeded('review')) && (
           <div className="mt-3 bg-yellow-500/20 border border-yellow-400/30 rounded-lg p-3">
@@ -676,7 +862,21 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
 
       {/* Content Area */}
       <div className="p-6">
-        {viewMode === 'kanban' ? (
+        {loading ? (
+          <div className="text-center py-16 text-white/70">Loading tasks...</div>
+        ) : loadError ? (
+          <div className="text-center py-16">
+            <p className="text-red-300 font-medium mb-4">{loadError}</p>
+            <button
+              onClick={() => void loadTasks()}
+              className="px-4 py-2 bg-white/10 border border-white/20 text-white rounded-lg hover:bg-white/20"
+            >
+              Try again
+            </button>
+          </div>
+        ) : viewMode === 'metrics' ? (
+          <FlowMetricsPanel report={flowMetrics} blockedTasks={tasks.filter(task => task.blocked)} wipOverrides={wipOverrides} />
+        ) : viewMode === 'kanban' ? (
           selectedPhase === 'all' ? (
             // Full Kanban Board View
             <div className="grid grid-cols-5 gap-4">
@@ -721,6 +921,43 @@ const DeliveryFlow: React.FC<DeliveryFlowProps> = ({ projectId, className = '' }
         ) : null}
       </DragOverlay>
 
+      {/* WIP Override Justification */}
+      {pendingOverride && (
+        <WipOverrideModal
+          task={pendingOverride.task}
+          columnTitle={getColumnTitle(pendingOverride.status)}
+          limit={pendingOverride.check.limit ?? 0}
+          count={pendingOverride.check.count}
+          onConfirm={handleConfirmOverride}
+          onCancel={() => setPendingOverride(null)}
+        />
+      )}
+
+      {/* Time Entry */}
+      {loggingTask && (
+        <LogTimeModal task={loggingTask} onClose={() => setLoggingTask(null)} />
+      )}
+
+      {/* Labels */}
+      {labelingTask && (
+        <DeliveryTaskLabelsModal
+          task={labelingTask}
+          labels={labels}
+          assignments={labelAssignments}
+          onLabelCreated={(label) => setLabels(prev => [...prev, label])}
+          onSaved={() => void reloadLabels()}
+          onClose={() => setLabelingTask(null)}
+        />
+      )}
+      {showLabelManager && (
+        <LabelManager
+          projectId={projectId}
+          labels={labels}
+          onChanged={reloadLabels}
+          onClose={() => setShowLabelManager(false)}
+        />
+      )}
+
       {/* Task Modal */}
       <TaskModal
         isOpen={showTaskModal}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import type { DeliveryTask } from '../../types/newAgile';
+import type { TaskLabel, TaskLabelAssignment } from '../../types';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import { TaskLabelService } from '../../services/taskLabelService';
+import LabelPicker from '../tasks/LabelPicker';
+
+interface DeliveryTaskLabelsModalProps {
+  task: DeliveryTask;
+  labels: TaskLabel[];
+  assignments: TaskLabelAssignment[];
+  onLabelCreated: (label: TaskLabel) => void;
+  onSaved: (assignments: TaskLabelAssignment[]) => void; // The task's assignments after saving
+  onClose: () => void;
+}
+
+// Assigns project labels to a delivery task
+const DeliveryTaskLabelsModal: React.FC<DeliveryTaskLabelsModalProps> = ({
+  task,
+  labels,
+  assignments,
+  onLabelCreated,
+  onSaved,
+  onClose
+}) => {
+  const { user } = useAuth();
+  const [selectedIds, setSelectedIds] = useState(() => TaskLabelService.getLabelIds(task.id, assignments, 'delivery_task_id'));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    const saved = await TaskLabelService.syncLabels('delivery_task_id', task.id, selectedIds, assignments, user?.id ?? null);
+    setSaving(false);
+
+    if (!saved) {
+      setError('Failed to update labels');
+      return;
+    }
+    onSaved(saved);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-lg p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">Labels</h3>
+            <p className="text-white/60 text-sm">{task.title}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <LabelPicker
+          labels={labels}
+          selectedIds={selectedIds}
+          onChange={setSelectedIds}
+          onCreate={async (name, color) => {
+            const label = await TaskLabelService.createLabel(task.project_id, { name, color });
+            if (label) onLabelCreated(label);
+            return label;
+          }}
+          disabled={saving}
+        />
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Labels'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default DeliveryTaskLabelsModal;
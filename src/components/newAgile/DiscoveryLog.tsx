@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
-import type { Insight, InsightCategory } from '../../types/newAgile';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Insight, InsightCategory, InsightCreateRequest, Opportunity } from '../../types/newAgile';
+import { NewAgileService } from '../../services/newAgileService';
+import { InsightService } from '../../services/insightService';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import InsightModal from './InsightModal';
 
 interface DiscoveryLogProps {
   projectId: string;
@@ -9,21 +13,89 @@ interface DiscoveryLogProps {
 type TabType = 'all' | InsightCategory;
 
 const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }) => {
+  const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('all');
+  const [insights, setInsights] = useState<Insight[]>([]);
+  const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [editingInsight, setEditingInsight] = useState<Insight | null>(null);
 
-  // Mock data - in real app this would come from API
-  const insights: Insight[] = [];
+  const loadInsights = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [insightData, opportunityData] = await Promise.all([
+        NewAgileService.getInsights(projectId),
+        NewAgileService.getOpportunities(projectId)
+      ]);
+      setInsights(insightData);
+      setOpportunities(opportunityData);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void loadInsights();
+  }, [loadInsights]);
+
+  const allTags = useMemo(() => InsightService.getAllTags(insights), [insights]);
+
+  // Search and tag filters apply before the category tabs so tab counts reflect them
+  const searchedInsights = useMemo(
+    () => InsightService.filterInsights(insights, { query: searchQuery, tags: selectedTags }),
+    [insights, searchQuery, selectedTags]
+  );
 
   const handleNewInsight = () => {
-    // TODO: Open insight creation modal
-    console.log('Creating new insight');
+    setEditingInsight(null);
+    setShowModal(true);
+  };
+
+  const handleEditInsight = (insight: Insight) => {
+    setEditingInsight(insight);
+    setShowModal(true);
+  };
+
+  const handleSaveInsight = async (data: InsightCreateRequest) => {
+    const saved = editingInsight
+      ? await NewAgileService.updateInsight(editingInsight.id, data)
+      : await NewAgileService.createInsight(data, projectId, user?.id ?? 'anonymous');
+    if (!saved) throw new Error(editingInsight ? 'Failed to update insight' : 'Failed to create insight');
+
+    // Keep the opportunities' evidence citing this insight in step with its links
+    const synced = await NewAgileService.syncInsightCitations(
+      saved.id,
+      editingInsight?.linked_opportunities ?? [],
+      saved.linked_opportunities,
+      opportunities
+    );
+    if (!synced) console.warn('⚠️ [DiscoveryLog] Some opportunity evidence could not be updated');
+
+    await loadInsights();
   };
 
+  const handleDeleteInsight = async (insight: Insight) => {
+    if (!window.confirm(`Delete the insight "${insight.title}"?`)) return;
+    const deleted = await NewAgileService.deleteInsight(insight, opportunities);
+    if (deleted) {
+      await loadInsights();
+    }
+  };
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+
   const getFilteredInsights = () => {
-    if (activeTab === 'all') return insights;
-    return insights.filter(insight => insight.category === activeTab);
+    if (activeTab === 'all') return searchedInsights;
+    return searchedInsights.filter(insight => insight.category === activeTab);
   };
 
+  const getOpportunityTitle = (id: string) =>
+    opportunities.find(opportunity => opportunity.id === id)?.title ?? 'Deleted opportunity';
+
   const getCategoryIcon = (category: InsightCategory) => {
     switch (category) {
       case 'interviews':
@@ -69,13 +141,16 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
   };
 
   const tabs: { id: TabType; label: string; count: number }[] = [
-    { id: 'all', label: 'All', count: insights.length },
-    { id: 'interviews', label: 'Interviews', count: insights.filter(i => i.category === 'interviews').length },
-    { id: 'usability_tests', label: 'Usability Tests', count: insights.filter(i => i.category === 'usability_tests').length },
-    { id: 'analytics', label: 'Analytics', count: insights.filter(i => i.category === 'analytics').length },
-    { id: 'surveys', label: 'Surveys', count: insights.filter(i => i.category === 'surveys').length },
+    { id: 'all', label: 'All', count: searchedInsights.length },
+    { id: 'interviews', label: 'Interviews', count: searchedInsights.filter(i => i.category === 'interviews').length },
+    { id: 'usability_tests', label: 'Usability Tests', count: searchedInsights.filter(i => i.category === 'usability_tests').length },
+    { id: 'analytics', label: 'Analytics', count: searchedInsights.filter(i => i.category === 'analytics').length },
+    { id: 'surveys', label: 'Surveys', count: searchedInsights.filter(i => i.category === 'surveys').length },
+    { id: 'other', label: 'Other', count: searchedInsights.filter(i => i.category === 'other').length },
   ];
 
+  const isFiltering = searchQuery.trim() !== '' || selectedTags.length > 0;
+
   const EmptyState = () => (
     <div className="text-center py-16">
       <div className="w-16 h-16 mx-auto mb-4 bg-white/10 rounded-full flex items-center justify-center">
@@ -83,17 +158,26 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
         </svg>
       </div>
-      <h3 className="text-lg font-medium text-white/80 mb-2">No insights yet</h3>
-      <p className="text-white/60 mb-6">Start capturing learnings from your discovery work</p>
-      <button
-        onClick={handleNewInsight}
-        className="bg-blue-500/30 hover:bg-blue-500/40 text-blue-100 px-6 py-2 rounded-lg transition-colors inline-flex items-center space-x-2 border border-blue-400/30"
-      >
-        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-        </svg>
-        <span>Create First Insight</span>
-      </button>
+      {isFiltering || insights.length > 0 ? (
+        <>
+          <h3 className="text-lg font-medium text-white/80 mb-2">No matching insights</h3>
+          <p className="text-white/60">Try a different search, tag or category</p>
+        </>
+      ) : (
+        <>
+          <h3 className="text-lg font-medium text-white/80 mb-2">No insights yet</h3>
+          <p className="text-white/60 mb-6">Start capturing learnings from your discovery work</p>
+          <button
+            onClick={handleNewInsight}
+            className="bg-blue-500/30 hover:bg-blue-500/40 text-blue-100 px-6 py-2 rounded-lg transition-colors inline-flex items-center space-x-2 border border-blue-400/30"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            <span>Create First Insight</span>
+          </button>
+        </>
+      )}
     </div>
   );
 
@@ -144,9 +228,13 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
           {insight.tags.length > 0 && (
             <div className="flex flex-wrap gap-1">
               {insight.tags.slice(0, 4).map(tag => (
-                <span key={tag} className="text-xs bg-white/10 text-white/60 px-2 py-1 rounded">
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(InsightService.normalizeTag(tag))}
+                  className="text-xs bg-white/10 hover:bg-white/20 text-white/60 px-2 py-1 rounded transition-colors"
+                >
                   #{tag}
-                </span>
+                </button>
               ))}
               {insight.tags.length > 4 && (
                 <span className="text-xs text-white/50">+{insight.tags.length - 4}</span>
@@ -162,14 +250,32 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
           <div className="text-white/50 text-xs mt-1">
             by {insight.created_by}
           </div>
+          <div className="flex justify-end space-x-2 mt-3">
+            <button
+              onClick={() => handleEditInsight(insight)}
+              className="text-xs text-white/60 hover:text-white transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => void handleDeleteInsight(insight)}
+              className="text-xs text-white/60 hover:text-red-300 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
         </div>
       </div>
 
       {insight.linked_opportunities.length > 0 && (
         <div className="mt-4 pt-4 border-t border-white/10">
-          <div className="text-xs text-white/60">
-            <span className="font-medium">Linked to:</span>
-            <span className="ml-2">{insight.linked_opportunities.length} opportunities</span>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+            <span className="font-medium">Supports:</span>
+            {insight.linked_opportunities.map(id => (
+              <span key={id} className="px-2 py-1 bg-purple-500/20 text-purple-200 rounded border border-purple-400/30">
+                {getOpportunityTitle(id)}
+              </span>
+            ))}
           </div>
         </div>
       )}
@@ -206,8 +312,41 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
           </button>
         </div>
 
+        {/* Search */}
+        <div className="mb-4 space-y-3">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search insights, or #tag to search tags only"
+            className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              {allTags.slice(0, 15).map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`text-xs px-2 py-1 rounded border transition-colors ${
+                    selectedTags.includes(tag)
+                      ? 'bg-blue-500/30 text-blue-100 border-blue-400/40'
+                      : 'bg-white/5 text-white/60 border-white/10 hover:bg-white/10'
+                  }`}
+                >
+                  #{tag} <span className="opacity-60">{count}</span>
+                </button>
+              ))}
+              {selectedTags.length > 0 && (
+                <button onClick={() => setSelectedTags([])} className="text-xs text-white/50 hover:text-white ml-2 transition-colors">
+                  Clear tags
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Tab Navigation */}
-        <div className="flex space-x-1">
+        <div className="flex flex-wrap gap-1">
           {tabs.map(tab => (
             <button
               key={tab.id}
@@ -232,7 +371,9 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
 
       {/* Content */}
       <div className="p-6">
-        {filteredInsights.length === 0 ? (
+        {loading ? (
+          <div className="text-center py-16 text-white/60">Loading insights...</div>
+        ) : filteredInsights.length === 0 ? (
           <EmptyState />
         ) : (
           <div className="space-y-4">
@@ -242,6 +383,15 @@ const DiscoveryLog: React.FC<DiscoveryLogProps> = ({ projectId, className = '' }
           </div>
         )}
       </div>
+
+      {showModal && (
+        <InsightModal
+          insight={editingInsight}
+          opportunities={opportunities}
+          onSave={handleSaveInsight}
+          onClose={() => setShowModal(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,10 +1,18 @@
-import React, { useState } from 'react';
-import type { Opportunity, Hypothesis, Experiment, OpportunityStatus, ConfidenceLevel, EffortEstimate, RiskLevel, CostOfDelay, OpportunityCreateRequest, HypothesisCreateRequest, ExperimentCreateRequest } from '../../types/newAgile';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Opportunity, Insight, Hypothesis, Experiment, OpportunityCreateRequest, HypothesisCreateRequest, ExperimentCreateRequest, OpportunityScoringModel, OpportunityStatus, CostOfDelay, UserPersona } from '../../types/newAgile';
 import OpportunityModal from './OpportunityModal';
 import HypothesisModal from './HypothesisModal';
 import ExperimentModal from './ExperimentModal';
+import ExperimentDecisionModal from './ExperimentDecisionModal';
+import ABTestResultsPanel from './ABTestResultsPanel';
+import OpportunityInsights from './OpportunityInsights';
+import OpportunityScoreBreakdown from './OpportunityScoreBreakdown';
+import ScoringModelSettings from './ScoringModelSettings';
+import PersonaPicker from './PersonaPicker';
 import { useAuth } from '../../contexts/SimpleAuthContext';
 import { NewAgileService } from '../../services/newAgileService';
+import { InsightService } from '../../services/insightService';
+import { OpportunityScoringService, SCORING_MODEL_LABELS } from '../../services/opportunityScoringService';
 
 interface DiscoveryPipelineProps {
   projectId: string;
@@ -12,6 +20,23 @@ interface DiscoveryPipelineProps {
 }
 
 type TabType = 'opportunities' | 'hypotheses' | 'experiments';
+type OpportunitySort = 'rank' | 'lowest' | 'newest' | 'title';
+
+const hypothesisStatusStyles: Record<Hypothesis['status'], string> = {
+  draft: 'bg-white/10 text-white/70',
+  in_test: 'bg-blue-500/20 text-blue-200',
+  learning: 'bg-yellow-500/20 text-yellow-200',
+  scaled: 'bg-green-500/20 text-green-200',
+  killed: 'bg-red-500/20 text-red-200',
+  archived: 'bg-white/5 text-white/50'
+};
+
+const experimentDecisionStyles: Record<Experiment['decision'], string> = {
+  scale: 'bg-green-500/20 text-green-200',
+  iterate: 'bg-yellow-500/20 text-yellow-200',
+  kill: 'bg-red-500/20 text-red-200',
+  pending: 'bg-white/10 text-white/70'
+};
 
 const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, className = '' }) => {
   const { user } = useAuth();
@@ -21,10 +46,102 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
   const [showExperimentModal, setShowExperimentModal] = useState(false);
   const [showOpportunityInfo, setShowOpportunityInfo] = useState(false);
 
-  // Mock data - in real app this would come from API
-  const opportunities: Opportunity[] = [];
-  const hypotheses: Hypothesis[] = [];
-  const experiments: Experiment[] = [];
+  const [hypotheses, setHypotheses] = useState<Hypothesis[]>([]);
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [evaluatingExperiment, setEvaluatingExperiment] = useState<Experiment | null>(null);
+  const [expandedExperimentId, setExpandedExperimentId] = useState<string | null>(null);
+
+  const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
+  const [insights, setInsights] = useState<Insight[]>([]);
+  const [personas, setPersonas] = useState<UserPersona[]>([]);
+  const [expandedOpportunityId, setExpandedOpportunityId] = useState<string | null>(null);
+  const [scoringModel, setScoringModel] = useState<OpportunityScoringModel>(
+    () => OpportunityScoringService.getDefaultModel(projectId)
+  );
+  const [showScoringSettings, setShowScoringSettings] = useState(false);
+  const [opportunitySort, setOpportunitySort] = useState<OpportunitySort>('rank');
+  const [statusFilter, setStatusFilter] = useState<OpportunityStatus | 'open' | 'all'>('open');
+  const [costOfDelayFilter, setCostOfDelayFilter] = useState<CostOfDelay | 'all'>('all');
+  const [minScore, setMinScore] = useState('');
+
+  const loadOpportunities = useCallback(async () => {
+    const [projectOpportunities, projectInsights, projectScoringModel, projectPersonas] = await Promise.all([
+      NewAgileService.getOpportunities(projectId),
+      NewAgileService.getInsights(projectId),
+      NewAgileService.getScoringModel(projectId),
+      NewAgileService.getPersonas(projectId)
+    ]);
+    setOpportunities(projectOpportunities);
+    setInsights(projectInsights);
+    setScoringModel(projectScoringModel);
+    setPersonas(projectPersonas);
+  }, [projectId]);
+
+  // Ranks cover the whole backlog so filtering doesn't renumber them
+  const rankedOpportunities = useMemo(
+    () => OpportunityScoringService.rankOpportunities(opportunities, scoringModel, insights),
+    [opportunities, scoringModel, insights]
+  );
+
+  const visibleOpportunities = useMemo(() => {
+    const threshold = parseFloat(minScore);
+    const filtered = rankedOpportunities.filter(({ opportunity, score }) => {
+      if (statusFilter === 'open' && opportunity.status === 'archived') return false;
+      if (statusFilter !== 'open' && statusFilter !== 'all' && opportunity.status !== statusFilter) return false;
+      if (costOfDelayFilter !== 'all' && opportunity.cost_of_delay !== costOfDelayFilter) return false;
+      return Number.isNaN(threshold) || score.score >= threshold;
+    });
+
+    switch (opportunitySort) {
+      case 'lowest':
+        return [...filtered].reverse();
+      case 'newest':
+        return [...filtered].sort((a, b) => b.opportunity.created_at.localeCompare(a.opportunity.created_at));
+      case 'title':
+        return [...filtered].sort((a, b) => a.opportunity.title.localeCompare(b.opportunity.title));
+      default:
+        return filtered;
+    }
+  }, [rankedOpportunities, statusFilter, costOfDelayFilter, minScore, opportunitySort]);
+
+  const handleSaveScoringModel = async (model: OpportunityScoringModel) => {
+    const saved = await NewAgileService.saveScoringModel(model);
+    if (saved) setScoringModel(model);
+    return saved;
+  };
+
+  const handleReachChange = async (opportunity: Opportunity, reach: number) => {
+    const updated = await NewAgileService.updateOpportunity(opportunity.id, { reach });
+    if (updated) {
+      setOpportunities(prev => prev.map(o => (o.id === updated.id ? updated : o)));
+    }
+  };
+
+  const handlePersonasChange = async (opportunity: Opportunity, personaIds: string[]) => {
+    const updated = await NewAgileService.updateOpportunity(opportunity.id, { persona_ids: personaIds });
+    if (updated) {
+      setOpportunities(prev => prev.map(o => (o.id === updated.id ? updated : o)));
+    }
+  };
+
+  const loadExperiments = useCallback(async () => {
+    const [projectHypotheses, allExperiments] = await Promise.all([
+      NewAgileService.getHypotheses(projectId),
+      NewAgileService.getExperiments()
+    ]);
+    // Experiments aren't scoped by project, so keep the ones testing this project's hypotheses
+    const hypothesisIds = new Set(projectHypotheses.map(hypothesis => hypothesis.id));
+    setHypotheses(projectHypotheses);
+    setExperiments(allExperiments.filter(experiment => hypothesisIds.has(experiment.hypothesis_id)));
+  }, [projectId]);
+
+  useEffect(() => {
+    void loadOpportunities();
+  }, [loadOpportunities]);
+
+  useEffect(() => {
+    void loadExperiments();
+  }, [loadExperiments]);
 
   const handleNewOpportunity = () => {
     setShowOpportunityModal(true);
@@ -42,8 +159,7 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
 
       if (result) {
         console.log('✅ Opportunity saved successfully:', result);
-        // TODO: Refresh opportunities list after successful creation
-        // For now, the user will see the new opportunity after refresh
+        await loadOpportunities();
       } else {
         throw new Error('Failed to create opportunity');
       }
@@ -69,7 +185,7 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
 
       if (result) {
         console.log('✅ Hypothesis saved successfully:', result);
-        // TODO: Refresh hypotheses list after successful creation
+        await loadExperiments();
       } else {
         throw new Error('Failed to create hypothesis');
       }
@@ -95,7 +211,7 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
 
       if (result) {
         console.log('✅ Experiment saved successfully:', result);
-        // TODO: Refresh experiments list after successful creation
+        await loadExperiments();
       } else {
         throw new Error('Failed to create experiment');
       }
@@ -207,8 +323,146 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
               <EmptyState type="opportunities" onAdd={handleNewOpportunity} />
             ) : (
               <div>
-                {/* Opportunities content will go here */}
-                <p className="text-white/80">Opportunities list component</p>
+                {/* Ranking controls */}
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                  <button
+                    onClick={() => setShowScoringSettings(!showScoringSettings)}
+                    className="px-3 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white transition-colors"
+                  >
+                    Ranked by {SCORING_MODEL_LABELS[scoringModel.model]}
+                  </button>
+                  <select
+                    value={opportunitySort}
+                    onChange={(e) => setOpportunitySort(e.target.value as OpportunitySort)}
+                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none"
+                  >
+                    <option value="rank" className="bg-gray-800">Highest score first</option>
+                    <option value="lowest" className="bg-gray-800">Lowest score first</option>
+                    <option value="newest" className="bg-gray-800">Newest first</option>
+                    <option value="title" className="bg-gray-800">Title</option>
+                  </select>
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as OpportunityStatus | 'open' | 'all')}
+                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none"
+                  >
+                    <option value="open" className="bg-gray-800">Open (not archived)</option>
+                    <option value="all" className="bg-gray-800">All statuses</option>
+                    <option value="backlog" className="bg-gray-800">Backlog</option>
+                    <option value="researching" className="bg-gray-800">Researching</option>
+                    <option value="validated" className="bg-gray-800">Validated</option>
+                    <option value="archived" className="bg-gray-800">Archived</option>
+                  </select>
+                  <select
+                    value={costOfDelayFilter}
+                    onChange={(e) => setCostOfDelayFilter(e.target.value as CostOfDelay | 'all')}
+                    className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none"
+                  >
+                    <option value="all" className="bg-gray-800">Any cost of delay</option>
+                    <option value="high" className="bg-gray-800">High cost of delay</option>
+                    <option value="medium" className="bg-gray-800">Medium cost of delay</option>
+                    <option value="low" className="bg-gray-800">Low cost of delay</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={minScore}
+                    onChange={(e) => setMinScore(e.target.value)}
+                    placeholder="Min. score"
+                    className="w-28 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none"
+                  />
+                  <span className="text-white/50 ml-auto">
+                    {visibleOpportunities.length} of {opportunities.length}
+                  </span>
+                </div>
+
+                {showScoringSettings && (
+                  <ScoringModelSettings
+                    model={scoringModel}
+                    onSave={handleSaveScoringModel}
+                    onClose={() => setShowScoringSettings(false)}
+                  />
+                )}
+
+                <div className="space-y-3">
+                  {visibleOpportunities.length === 0 && (
+                    <p className="text-white/60 text-sm text-center py-8">No opportunities match these filters.</p>
+                  )}
+                  {visibleOpportunities.map(({ opportunity, rank, score }) => {
+                    const insightCount = InsightService.getOpportunityInsights(opportunity, insights).length;
+                    const expanded = expandedOpportunityId === opportunity.id;
+                  const linkedPersonas = personas.filter(persona => opportunity.persona_ids?.includes(persona.id));
+                    return (
+                      <div key={opportunity.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center space-x-3">
+                            <span className="text-white/50 text-sm font-mono">#{rank}</span>
+                            <h4 className="text-white font-medium">{opportunity.title}</h4>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <span className="px-2 py-0.5 rounded text-xs bg-white/10 text-white/70">
+                              {opportunity.status.replace('_', ' ')}
+                            </span>
+                            <span
+                              className="px-2 py-0.5 rounded text-xs bg-orange-500/20 text-orange-200 border border-orange-400/30"
+                              title={`${SCORING_MODEL_LABELS[score.model]} score`}
+                            >
+                              {score.score}
+                            </span>
+                          </div>
+                        </div>
+                        <p className="text-white/70 text-sm mb-2">{opportunity.problem_statement}</p>
+                      {(opportunity.affected_users || linkedPersonas.length > 0) && (
+                        <div className="flex flex-wrap items-center gap-1 mb-3 text-xs text-white/60">
+                          <span>Affects:</span>
+                          {linkedPersonas.map(persona => (
+                            <span key={persona.id} className="px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-200">
+                              {persona.icon} {persona.name}
+                            </span>
+                          ))}
+                          {opportunity.affected_users && <span>{opportunity.affected_users}</span>}
+                        </div>
+                      )}
+                        <div className="flex items-center justify-between">
+                          <span className="text-white/50 text-xs">
+                            {opportunity.cost_of_delay} cost of delay • {opportunity.confidence} confidence • effort {opportunity.effort} •{' '}
+                            {insightCount} insight{insightCount === 1 ? '' : 's'}
+                          </span>
+                          <button
+                            onClick={() => setExpandedOpportunityId(expanded ? null : opportunity.id)}
+                            className="px-3 py-1 text-white/70 hover:text-white text-sm transition-colors"
+                          >
+                            {expanded ? 'Hide details' : 'Score & evidence'}
+                          </button>
+                        </div>
+
+                        {expanded && (
+                          <div className="mt-4 pt-4 border-t border-white/10 space-y-4">
+                            <div>
+                            <h5 className="text-white/80 font-medium text-sm mb-2">Affected personas</h5>
+                            <PersonaPicker
+                              personas={personas}
+                              selectedIds={opportunity.persona_ids ?? []}
+                              onChange={(ids) => void handlePersonasChange(opportunity, ids)}
+                            />
+                          </div>
+                          <OpportunityScoreBreakdown
+                              opportunity={opportunity}
+                              score={score}
+                              onReachChange={(reach) => handleReachChange(opportunity, reach)}
+                            />
+                            <OpportunityInsights
+                              opportunity={opportunity}
+                              insights={insights}
+                              onChange={() => void loadOpportunities()}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
             )}
           </div>
@@ -236,9 +490,18 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
                 </button>
               </div>
             ) : (
-              <div>
-                {/* Hypotheses content will go here */}
-                <p className="text-white/80">Hypotheses list component</p>
+              <div className="space-y-3">
+                {hypotheses.map(hypothesis => (
+                  <div key={hypothesis.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="text-white font-medium">{hypothesis.title}</h4>
+                      <span className={`px-2 py-0.5 rounded text-xs ${hypothesisStatusStyles[hypothesis.status]}`}>
+                        {hypothesis.status.replace('_', ' ')}
+                      </span>
+                    </div>
+                    <p className="text-white/70 text-sm">{hypothesis.hypothesis_statement}</p>
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -266,9 +529,72 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
                 </button>
               </div>
             ) : (
-              <div>
-                {/* Experiments content will go here */}
-                <p className="text-white/80">Experiments list component</p>
+              <div className="space-y-3">
+                {experiments.map(experiment => {
+                  const hypothesis = hypotheses.find(h => h.id === experiment.hypothesis_id);
+                  return (
+                    <div key={experiment.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-1">
+                        <h4 className="text-white font-medium">{experiment.title}</h4>
+                        <div className="flex items-center space-x-2">
+                          <span className="px-2 py-0.5 rounded text-xs bg-white/10 text-white/70">{experiment.status}</span>
+                          {experiment.decision !== 'pending' && (
+                            <span className={`px-2 py-0.5 rounded text-xs ${experimentDecisionStyles[experiment.decision]}`}>
+                              {experiment.decision}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {hypothesis && (
+                        <p className="text-white/50 text-xs mb-1">Tests: {hypothesis.title}</p>
+                      )}
+                      <p className="text-white/70 text-sm mb-3">{experiment.description}</p>
+                      <div className="flex items-center justify-between">
+                        <span className="text-white/50 text-xs">
+                          {experiment.success_metrics.length} metrics • {experiment.participants} participants
+                        </span>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => setExpandedExperimentId(expandedExperimentId === experiment.id ? null : experiment.id)}
+                            className="px-3 py-1 text-white/70 hover:text-white text-sm transition-colors"
+                          >
+                            {expandedExperimentId === experiment.id ? 'Hide details' : 'Details'}
+                          </button>
+                          {experiment.status !== 'cancelled' && experiment.decision === 'pending' && (
+                            <button
+                              onClick={() => setEvaluatingExperiment(experiment)}
+                              className="px-3 py-1 bg-blue-500/30 hover:bg-blue-500/40 border border-blue-400/30 rounded-lg text-blue-100 text-sm transition-colors"
+                            >
+                              Evaluate results
+                            </button>
+                          )}
+                        </div>
+                      </div>
+
+                      {expandedExperimentId === experiment.id && (
+                        <div className="mt-4 space-y-3">
+                          <div className="space-y-1 text-sm">
+                            {experiment.success_metrics.map((metric, index) => (
+                              <div key={index} className="flex items-center justify-between text-white/70">
+                                <span className="text-white">{metric.metric}</span>
+                                <span>
+                                  {metric.baseline} → {metric.target}
+                                  {metric.actual !== undefined && <span className="text-white"> (actual {metric.actual})</span>}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                          {experiment.results && (
+                            <p className="text-white/60 text-sm">{experiment.results}</p>
+                          )}
+                          {experiment.method === 'ab_test' && experiment.ab_test && (
+                            <ABTestResultsPanel design={experiment.ab_test} />
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -298,6 +624,18 @@ const DiscoveryPipeline: React.FC<DiscoveryPipelineProps> = ({ projectId, classN
         onSave={handleSaveExperiment}
         projectId={projectId}
       />
+
+      {/* Experiment decision */}
+      {evaluatingExperiment && (
+        <ExperimentDecisionModal
+          experiment={evaluatingExperiment}
+          hypothesis={hypotheses.find(h => h.id === evaluatingExperiment.hypothesis_id) ?? null}
+          projectId={projectId}
+          userId={user?.id ?? 'anonymous'}
+          onClose={() => setEvaluatingExperiment(null)}
+          onAccepted={() => void loadExperiments()}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import type { ABTestDesign, Experiment, ExperimentDecision, Hypothesis } from '../../types/newAgile';
+import { ExperimentDecisionService } from '../../services/experimentDecisionService';
+import { createABTestDesign } from '../../utils/abTestStats';
+import ABTestDesignFields from './ABTestDesignFields';
+import ABTestResultsPanel from './ABTestResultsPanel';
+
+interface ExperimentDecisionModalProps {
+  experiment: Experiment;
+  hypothesis: Hypothesis | null;
+  projectId: string;
+  userId: string;
+  onClose: () => void;
+  onAccepted: () => void;
+}
+
+const decisionStyles: Record<ExperimentDecision, string> = {
+  scale: 'bg-green-500/20 border-green-400/30 text-green-100',
+  iterate: 'bg-yellow-500/20 border-yellow-400/30 text-yellow-100',
+  kill: 'bg-red-500/20 border-red-400/30 text-red-100'
+};
+
+const decisionLabels: Record<ExperimentDecision, string> = {
+  scale: 'Scale',
+  iterate: 'Iterate',
+  kill: 'Kill'
+};
+
+// Records actual results for a finished experiment and turns them into a scale/iterate/kill call
+const ExperimentDecisionModal: React.FC<ExperimentDecisionModalProps> = ({
+  experiment,
+  hypothesis,
+  projectId,
+  userId,
+  onClose,
+  onAccepted
+}) => {
+  const [actuals, setActuals] = useState<string[]>(
+    experiment.success_metrics.map(metric => metric.actual?.toString() ?? '')
+  );
+  const [abTest, setAbTest] = useState<ABTestDesign | undefined>(
+    experiment.method === 'ab_test' ? experiment.ab_test ?? createABTestDesign() : undefined
+  );
+  const [choice, setChoice] = useState<ExperimentDecision | null>(null);
+  const [rationale, setRationale] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const evaluatedExperiment = useMemo<Experiment>(() => ({
+    ...experiment,
+    ab_test: abTest,
+    success_metrics: experiment.success_metrics.map((metric, index) => {
+      const value = parseFloat(actuals[index] ?? '');
+      return { ...metric, actual: Number.isNaN(value) ? undefined : value };
+    })
+  }), [experiment, abTest, actuals]);
+
+  const evaluation = useMemo(
+    () => ExperimentDecisionService.evaluate(evaluatedExperiment, hypothesis),
+    [evaluatedExperiment, hypothesis]
+  );
+
+  const decision = choice ?? evaluation?.recommendation ?? null;
+  const overriding = !!evaluation && !!decision && decision !== evaluation.recommendation;
+
+  const handleAccept = async () => {
+    if (!evaluation || !decision) return;
+    if (overriding && !rationale.trim()) {
+      setError('Explain why you are overriding the recommendation');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await ExperimentDecisionService.acceptDecision(
+        evaluatedExperiment,
+        hypothesis,
+        evaluation,
+        decision,
+        projectId,
+        userId,
+        rationale.trim() || undefined
+      );
+      if (!result) {
+        throw new Error('Failed to save the decision');
+      }
+      onAccepted();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the decision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-1">Evaluate experiment</h3>
+            <p className="text-white/70 text-sm">{experiment.title}</p>
+          </div>
+          <button onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Hypothesis thresholds */}
+        {hypothesis ? (
+          <div className="grid grid-cols-3 gap-3 mb-6 text-sm">
+            <div className="bg-green-500/10 border border-green-400/20 rounded-lg p-3">
+              <div className="text-green-200 font-medium mb-1">Scale if</div>
+              <div className="text-white/70">{hypothesis.scale_threshold || '—'}</div>
+            </div>
+            <div className="bg-yellow-500/10 border border-yellow-400/20 rounded-lg p-3">
+              <div className="text-yellow-200 font-medium mb-1">Iterate if</div>
+              <div className="text-white/70">{hypothesis.iterate_threshold || '—'}</div>
+            </div>
+            <div className="bg-red-500/10 border border-red-400/20 rounded-lg p-3">
+              <div className="text-red-200 font-medium mb-1">Kill if</div>
+              <div className="text-white/70">{hypothesis.kill_threshold || '—'}</div>
+            </div>
+          </div>
+        ) : (
+          <p className="mb-6 text-yellow-200/80 text-sm">
+            This experiment isn't linked to a hypothesis, so it is scored against its metric targets only.
+          </p>
+        )}
+
+        {/* Metric results */}
+        <h4 className="text-white font-medium mb-2">Results</h4>
+        <div className="space-y-2 mb-6">
+          {experiment.success_metrics.map((metric, index) => {
+            const result = evaluation?.metrics[index];
+            return (
+              <div key={index} className="grid grid-cols-12 gap-3 items-center bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm">
+                <div className="col-span-4 text-white">{metric.metric || `Metric ${index + 1}`}</div>
+                <div className="col-span-2 text-white/60">Baseline {metric.baseline}</div>
+                <div className="col-span-2 text-white/60">Target {metric.target}</div>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={actuals[index] ?? ''}
+                  onChange={(e) => setActuals(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                  placeholder="Actual"
+                  className="col-span-2 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <div className={`col-span-2 text-right ${result?.met ? 'text-green-300' : 'text-white/60'}`}>
+                  {result?.improvement_pct !== null && result?.improvement_pct !== undefined
+                    ? `${result.improvement_pct >= 0 ? '+' : ''}${result.improvement_pct}%`
+                    : '—'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* A/B variant results */}
+        {abTest && (
+          <div className="mb-6 space-y-3">
+            <ABTestDesignFields design={abTest} onChange={setAbTest} showSizing={false} />
+            <ABTestResultsPanel design={abTest} />
+          </div>
+        )}
+
+        {/* Recommendation */}
+        {evaluation ? (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-white font-medium">Recommendation</h4>
+              <span className="text-white/50 text-xs">
+                {evaluation.thresholds_used ? 'Based on hypothesis thresholds' : 'Based on metric targets'}
+              </span>
+            </div>
+            <div className={`border rounded-lg p-4 mb-4 ${decisionStyles[evaluation.recommendation]}`}>
+              <div className="text-lg font-semibold mb-2">
+                {decisionLabels[evaluation.recommendation]} • score {evaluation.score}%
+              </div>
+              <ul className="list-disc list-inside space-y-1 text-sm opacity-90">
+                {evaluation.reasoning.map((reason, index) => (
+                  <li key={index}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="flex space-x-2 mb-3">
+              {(Object.keys(decisionLabels) as ExperimentDecision[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setChoice(option)}
+                  className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                    decision === option ? decisionStyles[option] : 'border-white/20 text-white/70 hover:bg-white/10'
+                  }`}
+                >
+                  {decisionLabels[option]}
+                  {option === evaluation.recommendation && ' (recommended)'}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+              rows={3}
+              placeholder={overriding ? 'Why are you overriding the recommendation? (required)' : 'Anything else worth recording? (optional)'}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+          </div>
+        ) : (
+          <p className="mb-6 text-white/60 text-sm">Enter at least one actual value to get a recommendation.</p>
+        )}
+
+        {error && (
+          <div className="mb-4 text-red-300 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleAccept()}
+            disabled={saving || !evaluation}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 disabled:cursor-not-allowed border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : `Accept ${decision ? decisionLabels[decision].toLowerCase() : 'decision'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentDecisionModal;
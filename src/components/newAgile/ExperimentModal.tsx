@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import type { ExperimentCreateRequest } from '../../types/newAgile';
+import { createABTestDesign } from '../../utils/abTestStats';
+import ABTestDesignFields from './ABTestDesignFields';
 
 interface ExperimentModalProps {
   isOpen: boolean;
@@ -41,7 +43,8 @@ const ExperimentModal: React.FC<ExperimentModalProps> = ({ isOpen, onClose, onSa
     end_date: '',
     participants: 0,
     method: 'ab_test',
-    success_metrics: [{ metric: '', baseline: 0, target: 0 }]
+    success_metrics: [{ metric: '', baseline: 0, target: 0 }],
+    ab_test: createABTestDesign()
   });
 
   const handleChange = (
@@ -173,6 +176,16 @@ const ExperimentModal: React.FC<ExperimentModalProps> = ({ isOpen, onClose, onSa
                 required
               />
             </div>
+
+            {formData.method === 'ab_test' && (
+              <div>
+                <h5 className="text-white/90 font-medium mb-3">A/B Test Design</h5>
+                <ABTestDesignFields
+                  design={formData.ab_test ?? createABTestDesign()}
+                  onChange={(design) => setFormData(prev => ({ ...prev, ab_test: design }))}
+                />
+              </div>
+            )}
           </div>
         );
 
@@ -349,6 +362,13 @@ const ExperimentModal: React.FC<ExperimentModalProps> = ({ isOpen, onClose, onSa
       errors.push('At least one success metric is required');
     }
 
+    if (formData.method === 'ab_test' && formData.ab_test) {
+      const { control, treatment, metric_type } = formData.ab_test;
+      if (metric_type === 'conversion' && [control, treatment].some(v => (v.conversions ?? 0) > v.sample_size)) {
+        errors.push('Conversions cannot exceed the variant sample size');
+      }
+    }
+
     return errors;
   };
 
@@ -363,7 +383,8 @@ const ExperimentModal: React.FC<ExperimentModalProps> = ({ isOpen, onClose, onSa
       end_date: '',
       participants: 0,
       method: 'ab_test',
-      success_metrics: [{ metric: '', baseline: 0, target: 0 }]
+      success_metrics: [{ metric: '', baseline: 0, target: 0 }],
+      ab_test: createABTestDesign()
     });
   };
 
@@ -382,7 +403,9 @@ const ExperimentModal: React.FC<ExperimentModalProps> = ({ isOpen, onClose, onSa
       // Clean up empty metrics before saving
       const cleanedData = {
         ...formData,
-        success_metrics: formData.success_metrics.filter(m => m.metric.trim())
+        success_metrics: formData.success_metrics.filter(m => m.metric.trim()),
+        // Variant design only applies to A/B tests
+        ab_test: formData.method === 'ab_test' ? formData.ab_test : undefined
       };
 
       await onSave(cleanedData);
@@ -0,0 +1,196 @@
+import React from 'react';
+import type { DeliveryTask, DeliveryTaskStatus, FlowMetricsReport, WIPLimitOverride } from '../../types/newAgile';
+import { DELIVERY_STATUSES } from '../../services/flowMetricsService';
+
+interface FlowMetricsPanelProps {
+  report: FlowMetricsReport;
+  blockedTasks?: DeliveryTask[];
+  wipOverrides?: WIPLimitOverride[];
+  className?: string;
+}
+
+const statusLabels: Record<DeliveryTaskStatus, string> = {
+  ready: 'Ready',
+  in_progress: 'In Progress',
+  review: 'Review',
+  released: 'Released',
+  measuring: 'Measuring'
+};
+
+const statusColors: Record<DeliveryTaskStatus, string> = {
+  ready: 'bg-gray-400/60',
+  in_progress: 'bg-blue-400/70',
+  review: 'bg-yellow-400/70',
+  released: 'bg-green-400/70',
+  measuring: 'bg-purple-400/70'
+};
+
+// Hours are easier to read as days once they pass a day
+const formatDuration = (hours: number) => {
+  if (hours === 0) return '—';
+  if (hours < 24) return `${hours}h`;
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+};
+
+const FlowMetricsPanel: React.FC<FlowMetricsPanelProps> = ({
+  report,
+  blockedTasks = [],
+  wipOverrides = [],
+  className = ''
+}) => {
+  const maxTotal = Math.max(
+    1,
+    ...report.cumulative_flow.map(point =>
+      DELIVERY_STATUSES.reduce((sum, status) => sum + point.counts[status], 0)
+    )
+  );
+
+  const stats = [
+    { label: 'Cycle time (avg)', value: formatDuration(report.cycle_time_avg) },
+    { label: 'Lead time (avg)', value: formatDuration(report.lead_time_avg) },
+    { label: 'Throughput / week', value: report.throughput_weekly.toString() },
+    { label: 'Aging WIP', value: report.aging_items.toString() },
+    { label: 'Blocked', value: report.blocked_items.toString() }
+  ];
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Headline metrics */}
+      <div className="grid grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white/5 border border-white/10 rounded-lg p-4">
+            <div className="text-white/60 text-xs mb-1">{stat.label}</div>
+            <div className="text-white text-2xl font-semibold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Cycle time percentiles */}
+      <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+        <h4 className="text-white font-medium mb-3">Cycle time percentiles</h4>
+        {report.completed_count === 0 ? (
+          <p className="text-white/60 text-sm">No completed tasks yet.</p>
+        ) : (
+          <div className="flex items-center space-x-8 text-sm">
+            <div className="text-white/70">
+              <span className="font-medium">50%</span> of tasks finish within
+              <span className="ml-1 text-white">{formatDuration(report.cycle_time_percentiles.p50)}</span>
+            </div>
+            <div className="text-white/70">
+              <span className="font-medium">85%</span> within
+              <span className="ml-1 text-white">{formatDuration(report.cycle_time_percentiles.p85)}</span>
+            </div>
+            <div className="text-white/70">
+              <span className="font-medium">95%</span> within
+              <span className="ml-1 text-white">{formatDuration(report.cycle_time_percentiles.p95)}</span>
+            </div>
+            <div className="text-white/50 text-xs">Based on {report.completed_count} completed tasks</div>
+          </div>
+        )}
+      </div>
+
+      {/* Cumulative flow */}
+      <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-white font-medium">Cumulative flow ({report.cumulative_flow.length} days)</h4>
+          <div className="flex items-center space-x-3">
+            {DELIVERY_STATUSES.map(status => (
+              <div key={status} className="flex items-center space-x-1">
+                <span className={`w-3 h-3 rounded-sm ${statusColors[status]}`} />
+                <span className="text-white/60 text-xs">{statusLabels[status]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end h-40 gap-px">
+          {report.cumulative_flow.map(point => (
+            <div
+              key={point.date}
+              className="flex-1 flex flex-col-reverse"
+              title={`${point.date}: ${DELIVERY_STATUSES.map(s => `${statusLabels[s]} ${point.counts[s]}`).join(', ')}`}
+            >
+              {/* Done columns at the bottom, as in a classic cumulative flow diagram */}
+              {[...DELIVERY_STATUSES].reverse().map(status => (
+                <div
+                  key={status}
+                  className={statusColors[status]}
+                  style={{ height: `${(point.counts[status] / maxTotal) * 160}px` }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Aging work items */}
+      <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+        <h4 className="text-white font-medium mb-3">Aging work in progress</h4>
+        {report.aging_work.length === 0 ? (
+          <p className="text-white/60 text-sm">Nothing has been in progress for more than 3 days.</p>
+        ) : (
+          <ul className="space-y-2">
+            {report.aging_work.map(item => (
+              <li key={item.task.id} className="flex items-center justify-between text-sm">
+                <span className="text-white">{item.task.title}</span>
+                <span className="text-white/60">
+                  {statusLabels[item.task.status]} • {formatDuration(item.age_hours)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Blocked work and WIP limit overrides */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+          <h4 className="text-white font-medium mb-3">Blocked work</h4>
+          {blockedTasks.length === 0 ? (
+            <p className="text-white/60 text-sm">Nothing is blocked.</p>
+          ) : (
+            <ul className="space-y-2">
+              {blockedTasks.map(task => (
+                <li key={task.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white">{task.title}</span>
+                    <span className="text-white/60">{statusLabels[task.status]}</span>
+                  </div>
+                  {task.blocked_reason && (
+                    <div className="text-red-300/80 text-xs mt-0.5">{task.blocked_reason}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+          <h4 className="text-white font-medium mb-3">WIP limit overrides</h4>
+          {wipOverrides.length === 0 ? (
+            <p className="text-white/60 text-sm">No WIP limits have been broken.</p>
+          ) : (
+            <ul className="space-y-2">
+              {wipOverrides.map(override => (
+                <li key={override.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white">
+                      {statusLabels[override.status]} {override.wip_count}/{override.wip_limit}
+                    </span>
+                    <span className="text-white/50 text-xs">
+                      {new Date(override.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="text-white/60 text-xs mt-0.5">
+                    {override.reason ?? (override.policy === 'warn' ? 'Moved past the limit with a warning' : 'No reason given')}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlowMetricsPanel;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import type { Insight, InsightCategory, InsightCreateRequest, Opportunity } from '../../types/newAgile';
+import { InsightService } from '../../services/insightService';
+
+interface InsightModalProps {
+  insight?: Insight | null; // Edit mode when set
+  opportunities: Opportunity[];
+  onSave: (insight: InsightCreateRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+const categoryOptions: { value: InsightCategory; label: string }[] = [
+  { value: 'interviews', label: 'Interviews' },
+  { value: 'usability_tests', label: 'Usability Tests' },
+  { value: 'analytics', label: 'Analytics' },
+  { value: 'surveys', label: 'Surveys' },
+  { value: 'other', label: 'Other' }
+];
+
+const InsightModal: React.FC<InsightModalProps> = ({ insight, opportunities, onSave, onClose }) => {
+  const [title, setTitle] = useState(insight?.title ?? '');
+  const [description, setDescription] = useState(insight?.description ?? '');
+  const [category, setCategory] = useState<InsightCategory>(insight?.category ?? 'interviews');
+  const [source, setSource] = useState(insight?.source ?? '');
+  const [evidence, setEvidence] = useState((insight?.evidence ?? []).join('\n'));
+  const [impactLevel, setImpactLevel] = useState<Insight['impact_level']>(insight?.impact_level ?? 'medium');
+  const [actionable, setActionable] = useState(insight?.actionable ?? false);
+  const [tags, setTags] = useState((insight?.tags ?? []).join(', '));
+  const [linkedOpportunities, setLinkedOpportunities] = useState<string[]>(insight?.linked_opportunities ?? []);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleOpportunity = (id: string) =>
+    setLinkedOpportunities(prev => (prev.includes(id) ? prev.filter(o => o !== id) : [...prev, id]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      setError('Title is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        title: title.trim(),
+        description: description.trim(),
+        category,
+        source: source.trim(),
+        evidence: evidence.split('\n').map(line => line.trim()).filter(Boolean),
+        impact_level: impactLevel,
+        actionable,
+        tags: [...new Set(tags.split(',').map(tag => InsightService.normalizeTag(tag)).filter(Boolean))],
+        linked_opportunities: linkedOpportunities
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save insight');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-1">{insight ? 'Edit insight' : 'New insight'}</h3>
+            <p className="text-white/70 text-sm">Capture what you learned and which opportunities it supports.</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Title *</label>
+          <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} placeholder="What did you learn?" />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className={inputClass}
+            placeholder="Details, context and why it matters"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Category</label>
+            <select value={category} onChange={(e) => setCategory(e.target.value as InsightCategory)} className={inputClass}>
+              {categoryOptions.map(option => (
+                <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Impact</label>
+            <select
+              value={impactLevel}
+              onChange={(e) => setImpactLevel(e.target.value as Insight['impact_level'])}
+              className={inputClass}
+            >
+              <option value="low" className="bg-gray-800">Low</option>
+              <option value="medium" className="bg-gray-800">Medium</option>
+              <option value="high" className="bg-gray-800">High</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Source</label>
+            <input value={source} onChange={(e) => setSource(e.target.value)} className={inputClass} placeholder="e.g. 5 customer calls" />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Evidence</label>
+          <textarea
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            rows={3}
+            className={inputClass}
+            placeholder="Quotes, data points or observations (one per line)"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Tags</label>
+            <input value={tags} onChange={(e) => setTags(e.target.value)} className={inputClass} placeholder="onboarding, pricing" />
+          </div>
+          <label className="flex items-center space-x-2 text-white/80 text-sm pb-3">
+            <input type="checkbox" checked={actionable} onChange={(e) => setActionable(e.target.checked)} className="rounded" />
+            <span>Actionable now</span>
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Supports opportunities</label>
+          {opportunities.length === 0 ? (
+            <p className="text-white/50 text-sm">No opportunities in this project yet.</p>
+          ) : (
+            <div className="max-h-40 overflow-y-auto space-y-1 bg-white/5 border border-white/10 rounded-xl p-3">
+              {opportunities.map(opportunity => (
+                <label key={opportunity.id} className="flex items-center space-x-2 text-sm text-white/80">
+                  <input
+                    type="checkbox"
+                    checked={linkedOpportunities.includes(opportunity.id)}
+                    onChange={() => toggleOpportunity(opportunity.id)}
+                    className="rounded"
+                  />
+                  <span>{opportunity.title}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save insight'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default InsightModal;
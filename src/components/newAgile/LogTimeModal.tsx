@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { DeliveryTask } from '../../types/newAgile';
+import type { TimeActivityType } from '../../types';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import { ACTIVITY_TYPE_LABELS, TimeTrackingService } from '../../services/timeTrackingService';
+
+interface LogTimeModalProps {
+  task: DeliveryTask;
+  onLogged?: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+// Manual time entry against a delivery task, used to calibrate S/M/L estimates
+const LogTimeModal: React.FC<LogTimeModalProps> = ({ task, onLogged, onClose }) => {
+  const { user } = useAuth();
+  const [date, setDate] = useState(() => new Date().toLocaleDateString('en-CA'));
+  const [startTime, setStartTime] = useState('09:00');
+  const [hours, setHours] = useState('1');
+  const [activity, setActivity] = useState<TimeActivityType>('work');
+  const [isBillable, setIsBillable] = useState(true);
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id) {
+      setError('Sign in to log time');
+      return;
+    }
+    const minutes = Math.round(parseFloat(hours) * 60);
+    const start = new Date(`${date}T${startTime}`);
+    if (Number.isNaN(minutes) || minutes < 1 || Number.isNaN(start.getTime())) {
+      setError('Enter a start time and a positive duration');
+      return;
+    }
+    const rate = parseFloat(hourlyRate);
+
+    setSaving(true);
+    setError(null);
+    const entry = await TimeTrackingService.addManualEntry(user.id, {
+      delivery_task_id: task.id,
+      start_time: start.toISOString(),
+      end_time: new Date(start.getTime() + minutes * 60 * 1000).toISOString(),
+      activity_type: activity,
+      is_billable: isBillable,
+      hourly_rate: isBillable && !Number.isNaN(rate) ? rate : null,
+      description: description.trim() || null
+    });
+    setSaving(false);
+
+    if (!entry) {
+      setError('Failed to log time');
+      return;
+    }
+    onLogged?.();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-lg p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">Log time</h3>
+            <p className="text-white/60 text-sm">{task.title} · estimated {task.effort}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Date</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Start</label>
+            <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Hours</label>
+            <input type="number" min="0.25" step="0.25" value={hours} onChange={(e) => setHours(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Activity</label>
+            <select value={activity} onChange={(e) => setActivity(e.target.value as TimeActivityType)} className={inputClass}>
+              {Object.entries(ACTIVITY_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value} className="bg-gray-800">{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Hourly Rate</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+              disabled={!isBillable}
+              className={`${inputClass} disabled:opacity-50`}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2 text-white/80 text-sm">
+          <input type="checkbox" checked={isBillable} onChange={(e) => setIsBillable(e.target.checked)} />
+          <span>Billable</span>
+        </label>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Notes</label>
+          <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="What did you work on?" />
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Log time'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LogTimeModal;
@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
-import type { Objective, KeyResult } from '../../types/newAgile';
+import React, { useCallback, useEffect, useState } from 'react';
+import type { KeyResult, KeyResultCheckInInput, LinkedProject, Objective } from '../../types';
+import { keyResultService, objectiveService, okrAnalyticsService, okrUtils } from '../../services/okr/okrService';
+import CreateObjectiveForm from '../okr/CreateObjectiveForm';
+import KeyResultCheckInForm from '../okr/KeyResultCheckInForm';
+import KeyResultSparkline from '../okr/KeyResultSparkline';
 
 interface OKRManagementProps {
   projectId: string;
@@ -7,21 +11,73 @@ interface OKRManagementProps {
 }
 
 const OKRManagement: React.FC<OKRManagementProps> = ({ projectId, className = '' }) => {
-  // Mock data - in real app this would come from API
-  const [objectives] = useState<Objective[]>([]);
-  const [keyResults] = useState<KeyResult[]>([]);
+  const [objectives, setObjectives] = useState<Objective[]>([]);
+  const [linkedProjects, setLinkedProjects] = useState<LinkedProject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [checkingInId, setCheckingInId] = useState<string | null>(null);
 
-  const handleNewOKR = () => {
-    // TODO: Open OKR creation modal
-    console.log('Creating new OKR');
+  const loadOKRs = useCallback(async () => {
+    try {
+      setError(null);
+      const projectObjectives = await objectiveService.getObjectivesForProject(projectId);
+      const projects = await objectiveService.getLinkedProjects(projectObjectives.map(objective => objective.id));
+      setObjectives(projectObjectives);
+      setLinkedProjects(projects);
+    } catch (err) {
+      console.error('❌ [OKRManagement] Failed to load OKRs:', err);
+      setError('Failed to load OKRs');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void loadOKRs();
+  }, [loadOKRs]);
+
+  // The objective this project's progress rolls up to
+  const linkedObjectiveId = linkedProjects.find(project => project.id === projectId)?.objective_id ?? null;
+
+  const handleObjectiveCreated = async (objective: Objective) => {
+    setShowCreateForm(false);
+    try {
+      // A project's first objective becomes the one it delivers toward
+      if (!linkedObjectiveId) await objectiveService.linkProject(projectId, objective.id);
+    } catch (err) {
+      console.error('❌ [OKRManagement] Failed to link project to objective:', err);
+    }
+    await loadOKRs();
+  };
+
+  const handleLink = async (objectiveId: string | null) => {
+    try {
+      await objectiveService.linkProject(projectId, objectiveId);
+      await loadOKRs();
+    } catch (err) {
+      console.error('❌ [OKRManagement] Failed to update project link:', err);
+      setError('Failed to update the project link');
+    }
+  };
+
+  const handleCheckIn = async (objective: Objective, keyResult: KeyResult, input: KeyResultCheckInInput) => {
+    const result = await keyResultService.checkIn(keyResult, objective, input);
+    setCheckingInId(null);
+    setObjectives(prev => prev.map(o => o.id === objective.id
+      ? { ...o, key_results: o.key_results?.map(kr => kr.id === keyResult.id ? result.keyResult : kr) }
+      : o
+    ));
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-500/20 text-green-300 border-green-500/30';
-      case 'on_track': return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
+      case 'active': return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
       case 'at_risk': return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
-      case 'not_started': return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
+      case 'blocked':
+      case 'cancelled': return 'bg-red-500/20 text-red-300 border-red-500/30';
       default: return 'bg-gray-500/20 text-gray-300 border-gray-500/30';
     }
   };
@@ -43,7 +99,7 @@ const OKRManagement: React.FC<OKRManagementProps> = ({ projectId, className = ''
       <h3 className="text-lg font-medium text-white/80 mb-2">No OKRs yet</h3>
       <p className="text-white/60 mb-6">Define objectives and key results to track progress</p>
       <button
-        onClick={handleNewOKR}
+        onClick={() => setShowCreateForm(true)}
         className="bg-blue-500/30 hover:bg-blue-500/40 text-blue-100 px-6 py-2 rounded-lg transition-colors inline-flex items-center space-x-2 border border-blue-400/30"
       >
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -54,93 +110,158 @@ const OKRManagement: React.FC<OKRManagementProps> = ({ projectId, className = ''
     </div>
   );
 
-  const ObjectiveCard = ({ objective }: { objective: Objective }) => {
-    const relatedKeyResults = keyResults.filter(kr => kr.objective_id === objective.id);
+  const renderKeyResult = (objective: Objective, kr: KeyResult) => {
+    const progress = kr.target > 0 ? (kr.current_value / kr.target) * 100 : 0;
+    const clampedProgress = Math.min(100, progress);
+    const history = [...(kr.key_result_updates ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const forecast = okrAnalyticsService.forecastKeyResult(kr, history, objective.quarter, objective.year);
+    const { start, end } = okrUtils.getQuarterDateRange(objective.quarter, objective.year);
+
+    return (
+      <div key={kr.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+        <div className="flex justify-between items-start mb-2">
+          <div className="flex-1">
+            <h5 className="text-white font-medium mb-1">{kr.title}</h5>
+            {kr.description && <p className="text-white/60 text-sm">{kr.description}</p>}
+          </div>
+
+          <div className="text-right ml-4">
+            <div className="text-lg font-bold text-white">
+              {kr.current_value.toLocaleString()} / {kr.target.toLocaleString()}
+            </div>
+            <div className="text-white/60 text-xs">{kr.unit}</div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex-1 bg-white/10 rounded-full h-2 mr-4">
+            <div
+              className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(clampedProgress)}`}
+              style={{ width: `${clampedProgress}%` }}
+            />
+          </div>
 
-    // Calculate overall progress
-    const totalProgress = relatedKeyResults.reduce((sum, kr) => {
-      const progress = kr.target > 0 ? (kr.current_value / kr.target) * 100 : 0;
-      return sum + Math.min(100, progress);
-    }, 0);
-    const avgProgress = relatedKeyResults.length > 0 ? totalProgress / relatedKeyResults.length : 0;
+          <div className="flex items-center space-x-3">
+            <span className={`px-2 py-1 rounded text-xs border ${getStatusColor(kr.status)}`}>
+              {kr.status.replace('_', ' ')}
+            </span>
+            <span className="text-white/60 text-xs">
+              {Math.round(clampedProgress)}%
+            </span>
+          </div>
+        </div>
+
+        {forecast && (
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <KeyResultSparkline
+              history={history}
+              baseline={kr.baseline}
+              target={kr.target}
+              forecast={forecast}
+              quarterStart={start}
+              quarterEnd={end}
+            />
+            <div className="text-right text-xs">
+              <div className={forecast.on_track ? 'text-green-300' : 'text-orange-300'}>
+                {forecast.on_track ? 'On track' : 'Misses target'}
+              </div>
+              <div className="text-white/60">Projected {forecast.projected_value} {kr.unit}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-3">
+          {checkingInId === kr.id ? (
+            <KeyResultCheckInForm
+              keyResult={kr}
+              onSubmit={(input) => handleCheckIn(objective, kr, input)}
+              onCancel={() => setCheckingInId(null)}
+            />
+          ) : (
+            <div className="flex items-center justify-between text-xs text-white/50">
+              <button onClick={() => setCheckingInId(kr.id)} className="text-blue-300 hover:text-blue-200 transition-colors">
+                Check In
+              </button>
+              <span>Updated: {new Date(kr.updated_at).toLocaleDateString()}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderObjective = (objective: Objective) => {
+    const rollup = okrAnalyticsService.buildRollup(objective, linkedProjects);
+    const keyResults = objective.key_results ?? [];
+    const isLinked = linkedObjectiveId === objective.id;
 
     return (
-      <div className="bg-white/5 border border-white/10 rounded-xl p-6 hover:bg-white/10 transition-colors">
+      <div key={objective.id} className="bg-white/5 border border-white/10 rounded-xl p-6 hover:bg-white/10 transition-colors">
         <div className="flex justify-between items-start mb-4">
           <div className="flex-1">
             <h3 className="text-xl font-bold text-white mb-2">{objective.title}</h3>
-            <p className="text-white/70 mb-3">{objective.description}</p>
+            {objective.description && <p className="text-white/70 mb-3">{objective.description}</p>}
 
-            <div className="flex items-center space-x-3">
+            <div className="flex flex-wrap items-center gap-3">
               <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(objective.status)}`}>
-                {objective.status.replace('_', ' ').toUpperCase()}
+                {objective.status.toUpperCase()}
+              </span>
+              <span className="text-white/60 text-sm">
+                {okrUtils.getQuarterName(objective.quarter)} {objective.year}
               </span>
-              <span className="text-white/60 text-sm">{objective.quarter}</span>
-              <span className="text-white/60 text-sm">Owner: {objective.owner}</span>
+              {isLinked ? (
+                <span className="text-green-300 text-sm">This project delivers toward it</span>
+              ) : null}
+              <button
+                onClick={() => void handleLink(isLinked ? null : objective.id)}
+                className="text-white/60 hover:text-white text-sm underline transition-colors"
+              >
+                {isLinked ? 'Unlink project' : 'Link this project'}
+              </button>
             </div>
           </div>
 
           <div className="text-right ml-6">
-            <div className="text-2xl font-bold text-white mb-1">{Math.round(avgProgress)}%</div>
+            <div className="text-2xl font-bold text-white mb-1">{rollup.overall_progress}%</div>
             <div className="text-white/70 text-sm mb-2">Progress</div>
-            <div className="w-24 bg-white/20 rounded-full h-2">
+            <div className="w-24 bg-white/20 rounded-full h-2 ml-auto">
               <div
-                className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(avgProgress)}`}
-                style={{ width: `${avgProgress}%` }}
+                className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(rollup.overall_progress)}`}
+                style={{ width: `${Math.min(rollup.overall_progress, 100)}%` }}
               />
             </div>
+            <div className="text-white/50 text-xs mt-2 space-y-0.5">
+              {rollup.key_result_progress !== null && <div>Key results {rollup.key_result_progress}%</div>}
+              {rollup.project_progress !== null && <div>Projects {rollup.project_progress}%</div>}
+            </div>
           </div>
         </div>
 
         {/* Key Results */}
-        {relatedKeyResults.length > 0 && (
+        {keyResults.length > 0 && (
           <div className="space-y-3">
             <h4 className="text-sm font-medium text-white/80 mb-2">Key Results</h4>
-            {relatedKeyResults.map(kr => {
-              const progress = kr.target > 0 ? (kr.current_value / kr.target) * 100 : 0;
-              const clampedProgress = Math.min(100, progress);
-
-              return (
-                <div key={kr.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
-                  <div className="flex justify-between items-start mb-2">
-                    <div className="flex-1">
-                      <h5 className="text-white font-medium mb-1">{kr.title}</h5>
-                      <p className="text-white/60 text-sm">{kr.description}</p>
-                    </div>
-
-                    <div className="text-right ml-4">
-                      <div className="text-lg font-bold text-white">
-                        {kr.current_value.toLocaleString()} / {kr.target.toLocaleString()}
-                      </div>
-                      <div className="text-white/60 text-xs">{kr.unit}</div>
-                    </div>
-                  </div>
-
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1 bg-white/10 rounded-full h-2 mr-4">
-                      <div
-                        className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(clampedProgress)}`}
-                        style={{ width: `${clampedProgress}%` }}
-                      />
-                    </div>
-
-                    <div className="flex items-center space-x-3">
-                      <span className={`px-2 py-1 rounded text-xs border ${getStatusColor(kr.status)}`}>
-                        {kr.status.replace('_', ' ')}
-                      </span>
-                      <span className="text-white/60 text-xs">
-                        {Math.round(clampedProgress)}%
-                      </span>
-                    </div>
-                  </div>
-
-                  <div className="mt-2 flex items-center justify-between text-xs text-white/50">
-                    <span>Owner: {kr.owner}</span>
-                    <span>Updated: {new Date(kr.last_updated).toLocaleDateString()}</span>
-                  </div>
+            {keyResults.map(kr => renderKeyResult(objective, kr))}
+          </div>
+        )}
+
+        {/* Projects delivering toward the objective */}
+        {rollup.projects.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <h4 className="text-sm font-medium text-white/80">Linked Projects</h4>
+            {rollup.projects.map(project => (
+              <div key={project.id} className="flex items-center space-x-3 text-sm">
+                <span className="text-white flex-1 truncate">{project.title}</span>
+                <span className="text-white/50 text-xs">{project.status.replace('_', ' ')}</span>
+                <div className="w-24 bg-white/10 rounded-full h-1.5">
+                  <div
+                    className={`h-1.5 rounded-full ${getProgressColor(project.progress)}`}
+                    style={{ width: `${Math.min(project.progress, 100)}%` }}
+                  />
                 </div>
-              );
-            })}
+                <span className="text-white/60 text-xs w-10 text-right">{project.progress}%</span>
+              </div>
+            ))}
           </div>
         )}
       </div>
@@ -165,7 +286,7 @@ const OKRManagement: React.FC<OKRManagementProps> = ({ projectId, className = ''
           </div>
 
           <button
-            onClick={handleNewOKR}
+            onClick={() => setShowCreateForm(true)}
             className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors inline-flex items-center space-x-2 border border-white/30"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -178,18 +299,35 @@ const OKRManagement: React.FC<OKRManagementProps> = ({ projectId, className = ''
 
       {/* Content */}
       <div className="p-6">
-        {objectives.length === 0 ? (
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 mb-4 text-red-200 text-sm">{error}</div>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin w-8 h-8 border-2 border-white/30 border-t-white rounded-full"></div>
+          </div>
+        ) : objectives.length === 0 ? (
           <EmptyState />
         ) : (
           <div className="space-y-6">
-            {objectives.map(objective => (
-              <ObjectiveCard key={objective.id} objective={objective} />
-            ))}
+            {objectives.map(renderObjective)}
           </div>
         )}
       </div>
+
+      {showCreateForm && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <CreateObjectiveForm
+              projectId={projectId}
+              onObjectiveCreated={(objective) => void handleObjectiveCreated(objective)}
+              onCancel={() => setShowCreateForm(false)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default OKRManagement;
\ No newline at end of file
+export default OKRManagement;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import type { Insight, Opportunity } from '../../types/newAgile';
+import { NewAgileService } from '../../services/newAgileService';
+import { InsightService } from '../../services/insightService';
+
+interface OpportunityInsightsProps {
+  opportunity: Opportunity;
+  insights: Insight[]; // All insights in the project
+  onChange: () => void; // Called after a link is added or removed
+}
+
+const impactStyles: Record<Insight['impact_level'], string> = {
+  high: 'bg-red-500/20 text-red-300',
+  medium: 'bg-yellow-500/20 text-yellow-300',
+  low: 'bg-green-500/20 text-green-300'
+};
+
+// Evidence behind an opportunity: free-text entries plus the Discovery Log insights it cites
+const OpportunityInsights: React.FC<OpportunityInsightsProps> = ({ opportunity, insights, onChange }) => {
+  const [selectedInsightId, setSelectedInsightId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const plainEvidence = InsightService.getPlainEvidence(opportunity);
+  const linkedInsights = InsightService.getOpportunityInsights(opportunity, insights);
+  const linkedIds = new Set(linkedInsights.map(insight => insight.id));
+  const availableInsights = insights.filter(insight => !linkedIds.has(insight.id));
+  // Citations whose insight has since been deleted
+  const missingCitations = InsightService.getCitedInsightIds(opportunity)
+    .filter(id => !insights.some(insight => insight.id === id));
+
+  const runLinkChange = async (change: () => Promise<boolean>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (!(await change())) throw new Error('Failed to update the link');
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLink = () => {
+    const insight = insights.find(i => i.id === selectedInsightId);
+    if (!insight) return;
+    setSelectedInsightId('');
+    void runLinkChange(() => NewAgileService.linkInsightToOpportunity(insight, opportunity));
+  };
+
+  const handleUnlink = (insight: Insight) =>
+    void runLinkChange(() => NewAgileService.unlinkInsightFromOpportunity(insight, opportunity));
+
+  return (
+    <div className="space-y-4 text-sm">
+      {plainEvidence.length > 0 && (
+        <div>
+          <h5 className="text-white/80 font-medium mb-2">Evidence</h5>
+          <ul className="space-y-1 text-white/70">
+            {plainEvidence.map((entry, index) => (
+              <li key={index} className="flex items-start space-x-2">
+                <span className="text-blue-400">•</span>
+                <span>{entry}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h5 className="text-white/80 font-medium mb-2">Insights behind this opportunity</h5>
+        {linkedInsights.length === 0 ? (
+          <p className="text-white/50">No insights linked yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {linkedInsights.map(insight => (
+              <div key={insight.id} className="flex items-start justify-between bg-white/5 border border-white/10 rounded-lg p-3">
+                <div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-white">{insight.title}</span>
+                    <span className={`px-2 py-0.5 rounded text-xs ${impactStyles[insight.impact_level]}`}>
+                      {insight.impact_level}
+                    </span>
+                  </div>
+                  <div className="text-white/50 text-xs">
+                    {insight.category.replace('_', ' ')}
+                    {insight.source && ` • ${insight.source}`}
+                    {insight.tags.length > 0 && ` • ${insight.tags.map(tag => `#${tag}`).join(' ')}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleUnlink(insight)}
+                  disabled={saving}
+                  className="text-white/50 hover:text-red-300 disabled:opacity-50 text-xs transition-colors"
+                >
+                  Unlink
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {missingCitations.length > 0 && (
+          <p className="mt-2 text-yellow-200/80 text-xs">
+            {missingCitations.length} cited insight{missingCitations.length === 1 ? ' no longer exists' : 's no longer exist'}.
+          </p>
+        )}
+      </div>
+
+      {availableInsights.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <select
+            value={selectedInsightId}
+            onChange={(e) => setSelectedInsightId(e.target.value)}
+            className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          >
+            <option value="" className="bg-gray-800">Cite an insight from the Discovery Log...</option>
+            {availableInsights.map(insight => (
+              <option key={insight.id} value={insight.id} className="bg-gray-800">{insight.title}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleLink}
+            disabled={!selectedInsightId || saving}
+            className="px-3 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            Link
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-red-300 text-xs">{error}</div>}
+    </div>
+  );
+};
+
+export default OpportunityInsights;
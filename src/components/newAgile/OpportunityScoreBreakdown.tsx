@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { Opportunity, OpportunityScore } from '../../types/newAgile';
+import { SCORING_MODEL_LABELS } from '../../services/opportunityScoringService';
+
+interface OpportunityScoreBreakdownProps {
+  opportunity: Opportunity;
+  score: OpportunityScore;
+  onReachChange?: (reach: number) => Promise<void>; // Shown for RICE; 0 means not estimated
+}
+
+// Explains how an opportunity's priority score was calculated
+const OpportunityScoreBreakdown: React.FC<OpportunityScoreBreakdownProps> = ({ opportunity, score, onReachChange }) => {
+  const [reach, setReach] = useState(opportunity.reach?.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSaveReach = async () => {
+    if (!onReachChange) return;
+    const parsed = parseInt(reach);
+    setSaving(true);
+    try {
+      await onReachChange(Number.isNaN(parsed) ? 0 : Math.max(parsed, 0));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-white/80 font-medium">Why this score</h5>
+        <span className="text-white/50 text-xs">
+          {SCORING_MODEL_LABELS[score.model]}: {score.formula}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2">
+        {score.components.map(component => (
+          <div key={component.label} className="bg-white/5 border border-white/10 rounded-lg p-2">
+            <div className="text-white/60 text-xs">{component.label}</div>
+            <div className="text-white font-semibold">{component.value}</div>
+            <div className="text-white/50 text-xs">{component.detail}</div>
+          </div>
+        ))}
+      </div>
+
+      {score.notes.map(note => (
+        <p key={note} className="text-yellow-200/80 text-xs">{note}</p>
+      ))}
+
+      {score.model === 'rice' && onReachChange && (
+        <div className="flex items-center space-x-2 mt-3">
+          <label className="text-white/70 text-xs">Reach (users per quarter)</label>
+          <input
+            type="number"
+            min="0"
+            value={reach}
+            onChange={(e) => setReach(e.target.value)}
+            className="w-32 px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+          <button
+            onClick={() => void handleSaveReach()}
+            disabled={saving}
+            className="px-3 py-1 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-xs transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpportunityScoreBreakdown;
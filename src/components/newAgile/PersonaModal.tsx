@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import type { UserPersona, UserPersonaCreateRequest } from '../../types/newAgile';
+
+interface PersonaModalProps {
+  persona?: UserPersona | null; // Edit mode when set
+  onSave: (persona: UserPersonaCreateRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+const colorOptions = ['blue', 'purple', 'green', 'orange'];
+
+// Lists are edited one item per line
+const toLines = (items: string[] = []) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const PersonaModal: React.FC<PersonaModalProps> = ({ persona, onSave, onClose }) => {
+  const [name, setName] = useState(persona?.name ?? '');
+  const [description, setDescription] = useState(persona?.description ?? '');
+  const [icon, setIcon] = useState(persona?.icon ?? '👤');
+  const [color, setColor] = useState(persona?.color ?? 'blue');
+  const [needs, setNeeds] = useState(toLines(persona?.needs));
+  const [painPoints, setPainPoints] = useState(toLines(persona?.pain_points));
+  const [goals, setGoals] = useState(toLines(persona?.goals));
+  const [behaviors, setBehaviors] = useState(toLines(persona?.behaviors));
+  const [demographics, setDemographics] = useState(persona?.demographics ?? {});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDemographic = (field: keyof NonNullable<UserPersona['demographics']>, value: string) =>
+    setDemographics(prev => ({ ...prev, [field]: value || undefined }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        icon: icon.trim() || '👤',
+        color,
+        needs: fromLines(needs),
+        pain_points: fromLines(painPoints),
+        goals: fromLines(goals),
+        behaviors: fromLines(behaviors),
+        demographics
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save persona');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <h3 className="text-xl font-bold text-white">{persona ? 'Edit persona' : 'New persona'}</h3>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-6 gap-4">
+          <div className="col-span-1">
+            <label className="block text-sm font-medium text-white/80 mb-2">Icon</label>
+            <input value={icon} onChange={(e) => setIcon(e.target.value)} maxLength={4} className={`${inputClass} text-center`} />
+          </div>
+          <div className="col-span-3">
+            <label className="block text-sm font-medium text-white/80 mb-2">Name *</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. Switcher" />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-white/80 mb-2">Color</label>
+            <select value={color} onChange={(e) => setColor(e.target.value)} className={inputClass}>
+              {colorOptions.map(option => (
+                <option key={option} value={option} className="bg-gray-800">{option}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Description</label>
+          <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder="Who they are in one line" />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Needs</label>
+            <textarea value={needs} onChange={(e) => setNeeds(e.target.value)} rows={3} className={inputClass} placeholder="One per line" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Pain Points</label>
+            <textarea value={painPoints} onChange={(e) => setPainPoints(e.target.value)} rows={3} className={inputClass} placeholder="One per line" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Goals</label>
+            <textarea value={goals} onChange={(e) => setGoals(e.target.value)} rows={3} className={inputClass} placeholder="One per line" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Behaviors</label>
+            <textarea value={behaviors} onChange={(e) => setBehaviors(e.target.value)} rows={3} className={inputClass} placeholder="One per line" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Age Range</label>
+            <input value={demographics.age_range ?? ''} onChange={(e) => updateDemographic('age_range', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Experience Level</label>
+            <input value={demographics.experience_level ?? ''} onChange={(e) => updateDemographic('experience_level', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Occupation</label>
+            <input value={demographics.occupation ?? ''} onChange={(e) => updateDemographic('occupation', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Location</label>
+            <input value={demographics.location ?? ''} onChange={(e) => updateDemographic('location', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save persona'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PersonaModal;
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { UserPersona } from '../../types/newAgile';
+
+interface PersonaPickerProps {
+  personas: UserPersona[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+// Toggleable persona chips for linking work to the personas it serves
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ personas, selectedIds, onChange, disabled = false }) => {
+  if (personas.length === 0) {
+    return <p className="text-white/50 text-sm">No personas defined for this project yet.</p>;
+  }
+
+  const toggle = (id: string) =>
+    onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {personas.map(persona => {
+        const selected = selectedIds.includes(persona.id);
+        return (
+          <button
+            key={persona.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => toggle(persona.id)}
+            title={persona.description}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-50 ${
+              selected
+                ? 'bg-purple-500/30 border-purple-400/40 text-purple-100'
+                : 'bg-white/5 border-white/20 text-white/60 hover:bg-white/10'
+            }`}
+          >
+            <span className="mr-1">{persona.icon}</span>
+            {persona.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PersonaPicker;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import type { Phase, PhaseStatus, PhaseUpdateRequest } from '../../types/newAgile';
+import { PhaseService } from '../../services/phaseService';
+
+interface PhaseModalProps {
+  phase?: Phase | null; // Edit mode when set
+  phases: Phase[]; // All phases in the project, used for prerequisites
+  onSave: (phase: PhaseUpdateRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+const colorOptions = ['#10b981', '#f59e0b', '#3b82f6', '#8b5cf6', '#ef4444', '#06b6d4'];
+
+const statusOptions: { value: PhaseStatus; label: string }[] = [
+  { value: 'not_started', label: 'Not Started' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'on_hold', label: 'On Hold' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+const PhaseModal: React.FC<PhaseModalProps> = ({ phase, phases, onSave, onClose }) => {
+  const [name, setName] = useState(phase?.name ?? '');
+  const [description, setDescription] = useState(phase?.description ?? '');
+  const [color, setColor] = useState(phase?.color ?? colorOptions[2] ?? '#3b82f6');
+  const [startDate, setStartDate] = useState(phase?.start_date?.slice(0, 10) ?? '');
+  const [endDate, setEndDate] = useState(phase?.end_date?.slice(0, 10) ?? '');
+  const [weeks, setWeeks] = useState(phase?.estimated_duration_weeks?.toString() ?? '');
+  const [dependencies, setDependencies] = useState<string[]>(phase?.dependencies ?? []);
+  const [status, setStatus] = useState<PhaseStatus>(phase?.status ?? 'not_started');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = phases.filter(p => p.id !== phase?.id);
+  const dependencyError = PhaseService.validateDependencies(phase?.id ?? null, dependencies, phases);
+  const startBlockers = status === 'in_progress' && phase?.status !== 'in_progress'
+    ? PhaseService.getStartBlockers({ dependencies }, phases)
+    : [];
+
+  const toggleDependency = (id: string) =>
+    setDependencies(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (startDate && endDate && endDate < startDate) {
+      setError('End date must be on or after the start date');
+      return;
+    }
+    if (dependencyError) {
+      setError(dependencyError);
+      return;
+    }
+    if (startBlockers.length > 0) {
+      setError(`Can't start until ${startBlockers.map(p => p.name).join(', ')} ${startBlockers.length > 1 ? 'are' : 'is'} completed`);
+      return;
+    }
+
+    const parsedWeeks = parseInt(weeks);
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        color,
+        start_date: startDate || undefined,
+        end_date: endDate || undefined,
+        estimated_duration_weeks: Number.isNaN(parsedWeeks) ? undefined : Math.max(parsedWeeks, 1),
+        dependencies,
+        ...(phase ? { status } : {})
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save phase');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <h3 className="text-xl font-bold text-white">{phase ? 'Edit phase' : 'New phase'}</h3>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Name *</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. Beta Launch" />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Description</label>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputClass} placeholder="What this phase delivers" />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Start Date</label>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">End Date</label>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Weeks</label>
+            <input type="number" min="1" value={weeks} onChange={(e) => setWeeks(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Color</label>
+            <div className="flex space-x-2">
+              {colorOptions.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className={`w-8 h-8 rounded-full border-2 ${color === option ? 'border-white' : 'border-transparent'}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          </div>
+          {phase && (
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">Status</label>
+              <select value={status} onChange={(e) => setStatus(e.target.value as PhaseStatus)} className={inputClass}>
+                {statusOptions.map(option => (
+                  <option key={option.value} value={option.value} className="bg-gray-800">{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Must complete first</label>
+          {candidates.length === 0 ? (
+            <p className="text-white/50 text-sm">No other phases in this project yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {candidates.map(candidate => {
+                const selected = dependencies.includes(candidate.id);
+                return (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    onClick={() => toggleDependency(candidate.id)}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                      selected
+                        ? 'bg-blue-500/30 border-blue-400/40 text-blue-100'
+                        : 'bg-white/5 border-white/20 text-white/60 hover:bg-white/10'
+                    }`}
+                  >
+                    {candidate.order}. {candidate.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {dependencyError && (
+            <p className="text-red-300 text-xs mt-2">{dependencyError}</p>
+          )}
+          {startBlockers.length > 0 && (
+            <p className="text-yellow-200/80 text-xs mt-2">
+              Waiting on {startBlockers.map(p => p.name).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !!dependencyError}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save phase'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PhaseModal;
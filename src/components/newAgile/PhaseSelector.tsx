@@ -1,5 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import type { Phase } from '../../types/newAgile';
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Phase, PhaseStatus, PhaseUpdateRequest } from '../../types/newAgile';
+import { NewAgileService } from '../../services/newAgileService';
+import { PhaseService } from '../../services/phaseService';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import PhaseModal from './PhaseModal';
 
 interface PhaseSelectorProps {
   projectId: string;
@@ -8,106 +12,6 @@ interface PhaseSelectorProps {
   className?: string;
 }
 
-// Mock data for demonstration - would be replaced with actual data fetching
-const mockPhases: Phase[] = [
-  {
-    id: 'phase-1',
-    project_id: 'project-1',
-    name: 'Quiz Planning Phase',
-    description: 'Initial planning and strategy for quiz implementation',
-    status: 'completed',
-    order: 1,
-    progress_percentage: 100,
-    task_count: 12,
-    completed_task_count: 12,
-    color: '#10b981',
-    estimated_duration_weeks: 2,
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-15T00:00:00Z',
-    created_by: 'user-1'
-  },
-  {
-    id: 'phase-2',
-    project_id: 'project-1',
-    name: 'Quiz Development',
-    description: 'Core development of quiz functionality and features',
-    status: 'in_progress',
-    order: 2,
-    progress_percentage: 65,
-    task_count: 18,
-    completed_task_count: 12,
-    color: '#f59e0b',
-    estimated_duration_weeks: 4,
-    created_at: '2024-01-15T00:00:00Z',
-    updated_at: '2024-02-01T00:00:00Z',
-    created_by: 'user-1'
-  },
-  {
-    id: 'phase-3',
-    project_id: 'project-1',
-    name: 'User Interface Design',
-    description: 'Design and implement user-friendly quiz interface',
-    status: 'in_progress',
-    order: 3,
-    progress_percentage: 30,
-    task_count: 15,
-    completed_task_count: 5,
-    color: '#3b82f6',
-    estimated_duration_weeks: 3,
-    created_at: '2024-01-20T00:00:00Z',
-    updated_at: '2024-02-01T00:00:00Z',
-    created_by: 'user-1'
-  },
-  {
-    id: 'phase-4',
-    project_id: 'project-1',
-    name: 'Testing & Quality Assurance',
-    description: 'Comprehensive testing and bug fixes',
-    status: 'not_started',
-    order: 4,
-    progress_percentage: 0,
-    task_count: 10,
-    completed_task_count: 0,
-    color: '#8b5cf6',
-    estimated_duration_weeks: 2,
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-    created_by: 'user-1'
-  },
-  {
-    id: 'phase-5',
-    project_id: 'project-1',
-    name: 'Deployment & Launch',
-    description: 'Production deployment and launch preparation',
-    status: 'not_started',
-    order: 5,
-    progress_percentage: 0,
-    task_count: 8,
-    completed_task_count: 0,
-    color: '#ef4444',
-    estimated_duration_weeks: 1,
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-    created_by: 'user-1'
-  },
-  {
-    id: 'phase-6',
-    project_id: 'project-1',
-    name: 'Post-Launch Monitoring',
-    description: 'Monitor performance and gather user feedback',
-    status: 'not_started',
-    order: 6,
-    progress_percentage: 0,
-    task_count: 6,
-    completed_task_count: 0,
-    color: '#06b6d4',
-    estimated_duration_weeks: 2,
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-    created_by: 'user-1'
-  }
-];
-
 const getStatusIcon = (status: string) => {
   switch (status) {
     case 'completed':
@@ -157,17 +61,99 @@ const getStatusBadge = (status: string) => {
 };
 
 const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, onPhaseSelect, className = '' }) => {
+  const { user } = useAuth();
   const [phases, setPhases] = useState<Phase[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPhase, setEditingPhase] = useState<Phase | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Simulate data fetching
-    setTimeout(() => {
-      setPhases(mockPhases);
+  const loadPhases = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPhases(await NewAgileService.getPhases(projectId));
+    } finally {
       setLoading(false);
-    }, 500);
+    }
   }, [projectId]);
 
+  useEffect(() => {
+    void loadPhases();
+  }, [loadPhases]);
+
+  const handleNewPhase = () => {
+    setEditingPhase(null);
+    setShowModal(true);
+  };
+
+  const handleEditPhase = (phase: Phase) => {
+    setEditingPhase(phase);
+    setShowModal(true);
+  };
+
+  const handleSavePhase = async (data: PhaseUpdateRequest) => {
+    const result = editingPhase
+      ? await NewAgileService.updatePhase(editingPhase, data)
+      : await NewAgileService.createPhase(
+          {
+            ...data,
+            name: data.name ?? '',
+            description: data.description ?? '',
+            order: phases.length + 1
+          },
+          projectId,
+          user?.id ?? 'anonymous'
+        );
+    if (!result.phase) {
+      throw new Error(result.error ?? (editingPhase ? 'Failed to update phase' : 'Failed to create phase'));
+    }
+    await loadPhases();
+  };
+
+  const handleStatusChange = async (phase: Phase, status: PhaseStatus) => {
+    setActionError(null);
+    const blockers = status === 'in_progress' ? PhaseService.getStartBlockers(phase, phases) : [];
+    if (blockers.length > 0) {
+      setActionError(`${phase.name} is waiting on ${blockers.map(p => p.name).join(', ')}`);
+      return;
+    }
+    const result = await NewAgileService.updatePhase(phase, { status });
+    if (result.phase) {
+      await loadPhases();
+    } else {
+      setActionError(result.error ?? `Failed to update ${phase.name}`);
+    }
+  };
+
+  const handleMove = async (phase: Phase, direction: -1 | 1) => {
+    const reordered = PhaseService.move(phases, phase.id, direction);
+    setPhases(reordered);
+    if (!await NewAgileService.reorderPhases(reordered.map(p => p.id))) {
+      await loadPhases();
+    }
+  };
+
+  const handleDeletePhase = async (phase: Phase) => {
+    if (!window.confirm(`Delete the phase "${phase.name}"? Its ${phase.task_count} task(s) will be unassigned.`)) return;
+    setActionError(null);
+    if (await NewAgileService.deletePhase(phase, phases)) {
+      const remaining = phases.filter(p => p.id !== phase.id);
+      await NewAgileService.reorderPhases(remaining.map(p => p.id));
+      await loadPhases();
+    } else {
+      setActionError(`Failed to delete ${phase.name}`);
+    }
+  };
+
+  const phaseModal = showModal && (
+    <PhaseModal
+      phase={editingPhase}
+      phases={phases}
+      onSave={handleSavePhase}
+      onClose={() => setShowModal(false)}
+    />
+  );
+
   if (loading) {
     return (
       <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
@@ -184,6 +170,7 @@ const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, o
 
   const phasesInProgress = phases.filter(p => p.status === 'in_progress').length;
   const phasesCompleted = phases.filter(p => p.status === 'completed').length;
+  const orderingConflicts = PhaseService.getOrderingConflicts(phases);
 
   const EmptyState = () => (
     <div className="text-center py-16">
@@ -194,7 +181,10 @@ const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, o
       </div>
       <h3 className="text-lg font-medium text-white/80 mb-2">No phases yet</h3>
       <p className="text-white/60 mb-6">Create project phases to organize your work</p>
-      <button className="bg-blue-500/30 hover:bg-blue-500/40 text-blue-100 px-6 py-2 rounded-lg transition-colors inline-flex items-center space-x-2 border border-blue-400/30">
+      <button
+        onClick={handleNewPhase}
+        className="bg-blue-500/30 hover:bg-blue-500/40 text-blue-100 px-6 py-2 rounded-lg transition-colors inline-flex items-center space-x-2 border border-blue-400/30"
+      >
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
         </svg>
@@ -207,6 +197,7 @@ const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, o
     return (
       <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
         <EmptyState />
+        {phaseModal}
       </div>
     );
   }
@@ -228,7 +219,10 @@ const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, o
             </div>
           </div>
 
-          <button className="px-6 py-3 rounded-lg transition-colors inline-flex items-center space-x-2 border border-white/30 bg-white/20 hover:bg-white/30 text-white">
+          <button
+            onClick={handleNewPhase}
+            className="px-6 py-3 rounded-lg transition-colors inline-flex items-center space-x-2 border border-white/30 bg-white/20 hover:bg-white/30 text-white"
+          >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
@@ -273,72 +267,142 @@ const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, o
 
       {/* Phase Cards */}
       <div className="p-6">
+        {actionError && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm mb-4">{actionError}</div>
+        )}
+        {orderingConflicts.map(({ phase, prerequisite }) => (
+          <div key={`${phase.id}-${prerequisite.id}`} className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-yellow-200 text-sm mb-4">
+            {phase.name} is ordered before its prerequisite {prerequisite.name}
+          </div>
+        ))}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {phases.map((phase) => (
-            <div
-              key={phase.id}
-              className="bg-white/5 border border-white/10 rounded-xl p-6 hover:bg-white/10 transition-all duration-200 cursor-pointer"
-              onClick={() => onPhaseSelect(phase)}
-            >
-              {/* Phase Header */}
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center space-x-3 flex-1 min-w-0">
-                  {getStatusIcon(phase.status)}
-                  <div className="min-w-0 flex-1">
-                    <h3 className="text-lg font-semibold text-white truncate">{phase.name}</h3>
-                    <p className="text-sm text-white/60">Phase {phase.order}</p>
+          {phases.map((phase, index) => {
+            const blockers = PhaseService.getStartBlockers(phase, phases);
+            const prerequisites = (phase.dependencies ?? [])
+              .map(id => phases.find(p => p.id === id))
+              .filter((p): p is Phase => !!p);
+            return (
+              <div
+                key={phase.id}
+                className="bg-white/5 border border-white/10 rounded-xl p-6 hover:bg-white/10 transition-all duration-200 cursor-pointer"
+                onClick={() => onPhaseSelect(phase)}
+              >
+                {/* Phase Header */}
+                <div className="flex items-start justify-between mb-4">
+                  <div className="flex items-center space-x-3 flex-1 min-w-0">
+                    {getStatusIcon(phase.status)}
+                    <div className="min-w-0 flex-1">
+                      <h3 className="text-lg font-semibold text-white truncate">{phase.name}</h3>
+                      <p className="text-sm text-white/60">Phase {phase.order}</p>
+                    </div>
+                  </div>
+                  <div className="ml-3 flex-shrink-0">
+                    {getStatusBadge(phase.status)}
                   </div>
                 </div>
-                <div className="ml-3 flex-shrink-0">
-                  {getStatusBadge(phase.status)}
-                </div>
-              </div>
 
-              {/* Phase Description */}
-              <p className="text-white/70 text-sm mb-4 line-clamp-2">{phase.description}</p>
+                {/* Phase Description */}
+                <p className="text-white/70 text-sm mb-4 line-clamp-2">{phase.description}</p>
 
-              {/* Progress Bar */}
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-xs font-medium text-white/60">Progress</span>
-                  <span className="text-xs font-medium text-white/60">{phase.progress_percentage}%</span>
-                </div>
-                <div className="w-full bg-white/10 rounded-full h-1.5">
-                  <div
-                    className="h-1.5 rounded-full transition-all duration-500"
-                    style={{
-                      width: `${phase.progress_percentage}%`,
-                      backgroundColor: phase.color || '#3b82f6'
-                    }}
-                  ></div>
+                {/* Progress Bar */}
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-medium text-white/60">Progress</span>
+                    <span className="text-xs font-medium text-white/60">{phase.progress_percentage}%</span>
+                  </div>
+                  <div className="w-full bg-white/10 rounded-full h-1.5">
+                    <div
+                      className="h-1.5 rounded-full transition-all duration-500"
+                      style={{
+                        width: `${phase.progress_percentage}%`,
+                        backgroundColor: phase.color ?? '#3b82f6'
+                      }}
+                    ></div>
+                  </div>
                 </div>
-              </div>
 
-              {/* Phase Stats */}
-              <div className="grid grid-cols-2 gap-4 mb-4">
-                <div className="text-center">
-                  <div className="text-lg font-bold text-white">
-                    {phase.completed_task_count}
+                {/* Phase Stats */}
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="text-center">
+                    <div className="text-lg font-bold text-white">
+                      {phase.completed_task_count}
+                    </div>
+                    <div className="text-xs text-white/60">Completed</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-lg font-bold text-white/70">{phase.task_count}</div>
+                    <div className="text-xs text-white/60">Total Tasks</div>
                   </div>
-                  <div className="text-xs text-white/60">Completed</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-lg font-bold text-white/70">{phase.task_count}</div>
-                  <div className="text-xs text-white/60">Total Tasks</div>
                 </div>
-              </div>
 
-              {/* Timeline Info */}
-              {phase.estimated_duration_weeks && (
-                <div className="flex items-center space-x-2 text-xs text-white/60">
-                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                  <span>{phase.estimated_duration_weeks} week{phase.estimated_duration_weeks > 1 ? 's' : ''}</span>
+                {/* Timeline Info */}
+                {phase.estimated_duration_weeks && (
+                  <div className="flex items-center space-x-2 text-xs text-white/60">
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span>{phase.estimated_duration_weeks} week{phase.estimated_duration_weeks > 1 ? 's' : ''}</span>
+                  </div>
+                )}
+
+                {/* Prerequisites */}
+                {prerequisites.length > 0 && (
+                  <div className="mt-3 text-xs text-white/60">
+                    After: {prerequisites.map(p => p.name).join(', ')}
+                  </div>
+                )}
+
+                {/* Phase Actions */}
+                <div className="mt-4 pt-4 border-t border-white/10 flex items-center justify-between" onClick={(e) => e.stopPropagation()}>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => void handleMove(phase, -1)}
+                      disabled={index === 0}
+                      title="Move earlier"
+                      className="px-2 py-1 text-white/60 hover:text-white disabled:opacity-30 transition-colors"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => void handleMove(phase, 1)}
+                      disabled={index === phases.length - 1}
+                      title="Move later"
+                      className="px-2 py-1 text-white/60 hover:text-white disabled:opacity-30 transition-colors"
+                    >
+                      ↓
+                    </button>
+                    <button onClick={() => handleEditPhase(phase)} className="px-2 py-1 text-xs text-white/60 hover:text-white transition-colors">
+                      Edit
+                    </button>
+                    <button onClick={() => void handleDeletePhase(phase)} className="px-2 py-1 text-xs text-red-300/70 hover:text-red-300 transition-colors">
+                      Delete
+                    </button>
+                  </div>
+                  {(phase.status === 'not_started' || phase.status === 'on_hold') && (
+                    <button
+                      onClick={() => void handleStatusChange(phase, 'in_progress')}
+                      disabled={blockers.length > 0}
+                      title={blockers.length > 0 ? `Waiting on ${blockers.map(p => p.name).join(', ')}` : undefined}
+                      className="px-3 py-1 text-xs bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+                    >
+                      {blockers.length > 0 ? 'Blocked' : 'Start'}
+                    </button>
+                  )}
+                  {phase.status === 'in_progress' && (
+                    <button
+                      onClick={() => void handleStatusChange(phase, 'completed')}
+                      className="px-3 py-1 text-xs bg-green-500/30 hover:bg-green-500/40 border border-green-400/30 rounded-lg text-green-100 transition-colors"
+                    >
+                      Complete
+                    </button>
+                  )}
                 </div>
-              )}
-            </div>
-          ))}
+                {blockers.length > 0 && phase.status === 'not_started' && (
+                  <p className="mt-2 text-xs text-yellow-200/80">Waiting on {blockers.map(p => p.name).join(', ')}</p>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         {/* Timeline View Toggle */}
@@ -351,6 +415,7 @@ const PhaseSelector: React.FC<PhaseSelectorProps> = ({ projectId, projectName, o
           </button>
         </div>
       </div>
+      {phaseModal}
     </div>
   );
 };
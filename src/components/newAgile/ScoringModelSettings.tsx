@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { CustomScoringFactor, OpportunityScoringModel, ScoringModelType } from '../../types/newAgile';
+import { CUSTOM_FACTOR_LABELS, SCORING_MODEL_LABELS } from '../../services/opportunityScoringService';
+
+interface ScoringModelSettingsProps {
+  model: OpportunityScoringModel;
+  onSave: (model: OpportunityScoringModel) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const modelDescriptions: Record<ScoringModelType, string> = {
+  wsjf: 'Weighted Shortest Job First: cost of delay divided by job size (effort plus risk). Favours cheap, urgent work.',
+  rice: 'Reach × impact × confidence ÷ effort. Needs a reach estimate on each opportunity.',
+  custom: 'Weighted average of the factors below, scored 0–100. Set a weight to 0 to ignore a factor.'
+};
+
+// Picks the project's scoring model and, for the custom model, its weights
+const ScoringModelSettings: React.FC<ScoringModelSettingsProps> = ({ model, onSave, onClose }) => {
+  const [draft, setDraft] = useState<OpportunityScoringModel>(model);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateWeight = (factor: CustomScoringFactor, value: string) =>
+    setDraft(prev => ({
+      ...prev,
+      weights: { ...prev.weights, [factor]: Math.max(parseFloat(value) || 0, 0) }
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      if (!(await onSave(draft))) throw new Error('Failed to save the scoring model');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the scoring model');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 mb-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-white font-medium">Prioritisation model</h4>
+        <button onClick={onClose} className="text-white/60 hover:text-white text-sm transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="flex space-x-2">
+        {(Object.keys(SCORING_MODEL_LABELS) as ScoringModelType[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setDraft(prev => ({ ...prev, model: option }))}
+            className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+              draft.model === option
+                ? 'bg-blue-500/30 border-blue-400/40 text-blue-100'
+                : 'border-white/20 text-white/70 hover:bg-white/10'
+            }`}
+          >
+            {SCORING_MODEL_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <p className="text-white/60 text-sm">{modelDescriptions[draft.model]}</p>
+
+      {draft.model === 'custom' && (
+        <div className="grid grid-cols-5 gap-3">
+          {(Object.keys(CUSTOM_FACTOR_LABELS) as CustomScoringFactor[]).map(factor => (
+            <div key={factor}>
+              <label className="block text-xs font-medium text-white/70 mb-1">{CUSTOM_FACTOR_LABELS[factor]}</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={draft.weights[factor]}
+                onChange={(e) => updateWeight(factor, e.target.value)}
+                className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-red-300 text-sm">{error}</div>}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => void handleSave()}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-sm transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save for this project'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringModelSettings;
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
-import type { DeliveryTaskCreateRequest, EffortEstimate } from '../../types/newAgile';
+import React, { useEffect, useState } from 'react';
+import type { DeliveryTaskCreateRequest, Phase, UserPersona } from '../../types/newAgile';
+import { NewAgileService } from '../../services/newAgileService';
+import PersonaPicker from './PersonaPicker';
 
 interface TaskModalProps {
   isOpen: boolean;
@@ -12,6 +14,14 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, projectI
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState(1);
+  const [personas, setPersonas] = useState<UserPersona[]>([]);
+  const [phases, setPhases] = useState<Phase[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    void NewAgileService.getPersonas(projectId).then(setPersonas);
+    void NewAgileService.getPhases(projectId).then(setPhases);
+  }, [isOpen, projectId]);
 
   const steps = [
     { id: 1, title: 'Basic Information', description: 'Task details and description' },
@@ -40,6 +50,7 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, projectI
     assignee: '',
     experiment_reference: '',
     hypothesis_reference: '',
+    persona_ids: [],
     acceptance_criteria: [''],
     tags: ['']
   });
@@ -119,6 +130,7 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, projectI
         assignee: '',
         experiment_reference: '',
         hypothesis_reference: '',
+        persona_ids: [],
         acceptance_criteria: [''],
         tags: ['']
       });
@@ -291,6 +303,26 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, projectI
                 placeholder="Who will work on this task? (optional)"
               />
             </div>
+
+            {phases.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-white/80 mb-2">
+                  Phase
+                </label>
+                <select
+                  value={formData.phase_id ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, phase_id: e.target.value || undefined }))}
+                  className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+                >
+                  <option value="" className="bg-gray-800 text-white">No phase</option>
+                  {phases.map(phase => (
+                    <option key={phase.id} value={phase.id} className="bg-gray-800 text-white">
+                      {phase.order}. {phase.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
         );
 
@@ -334,6 +366,17 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, projectI
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-white/80 mb-2">
+                Personas Served
+              </label>
+              <PersonaPicker
+                personas={personas}
+                selectedIds={formData.persona_ids ?? []}
+                onChange={(ids) => setFormData(prev => ({ ...prev, persona_ids: ids }))}
+              />
+            </div>
+
             <div className="bg-white/5 rounded-xl p-4 border border-white/10">
               <h5 className="text-white/90 font-medium mb-2">Task Summary</h5>
               <div className="space-y-1 text-sm text-white/70">
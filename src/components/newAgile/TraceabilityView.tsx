@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { TaskLineage, TraceabilityLevel, TraceabilityReport } from '../../types/newAgile';
+import { TraceabilityService } from '../../services/traceabilityService';
+
+interface TraceabilityViewProps {
+  projectId: string;
+  className?: string;
+}
+
+type LineageFilter = 'all' | 'traced' | 'gaps' | 'orphans';
+
+const levelLabels: Record<TraceabilityLevel, string> = {
+  experiment: 'Experiment',
+  hypothesis: 'Hypothesis',
+  opportunity: 'Opportunity',
+  objective: 'OKR'
+};
+
+const levelColors: Record<TraceabilityLevel, string> = {
+  experiment: 'bg-blue-500/20 border-blue-400/30 text-blue-100',
+  hypothesis: 'bg-purple-500/20 border-purple-400/30 text-purple-100',
+  opportunity: 'bg-yellow-500/20 border-yellow-400/30 text-yellow-100',
+  objective: 'bg-green-500/20 border-green-400/30 text-green-100'
+};
+
+const statusLabels: Record<string, string> = {
+  ready: 'Ready',
+  in_progress: 'In Progress',
+  review: 'Review',
+  released: 'Released',
+  measuring: 'Measuring'
+};
+
+// Title shown for each level of a lineage, if the chain reached it
+const getLevelTitle = (lineage: TaskLineage, level: TraceabilityLevel) => {
+  switch (level) {
+    case 'experiment':
+      return lineage.experiment?.title;
+    case 'hypothesis':
+      return lineage.hypothesis?.title;
+    case 'opportunity':
+      return lineage.opportunity?.title;
+    case 'objective':
+      return lineage.objective
+        ? `${lineage.objective.title}${lineage.objective.quarter ? ` (Q${lineage.objective.quarter} ${lineage.objective.year ?? ''})` : ''}`
+        : undefined;
+  }
+};
+
+const LineageChain: React.FC<{ lineage: TaskLineage }> = ({ lineage }) => (
+  <div className="flex items-center flex-wrap gap-2">
+    <span className="px-3 py-1 rounded-lg border bg-white/10 border-white/20 text-white text-sm font-medium">
+      {lineage.task.title}
+    </span>
+    {(['experiment', 'hypothesis', 'opportunity', 'objective'] as TraceabilityLevel[]).map(level => {
+      const title = getLevelTitle(lineage, level);
+      const broken = lineage.broken_references.includes(level);
+
+      return (
+        <React.Fragment key={level}>
+          <span className="text-white/40">→</span>
+          {title ? (
+            <span className={`px-3 py-1 rounded-lg border text-sm ${levelColors[level]}`}>
+              <span className="text-xs opacity-70 mr-1">{levelLabels[level]}:</span>
+              {title}
+            </span>
+          ) : (
+            <span
+              className={`px-3 py-1 rounded-lg border border-dashed text-sm ${
+                broken ? 'border-red-400/50 text-red-200' : 'border-white/20 text-white/40'
+              }`}
+              title={broken ? 'Linked record no longer exists' : 'No link'}
+            >
+              {broken ? `${levelLabels[level]} missing` : `No ${levelLabels[level].toLowerCase()}`}
+            </span>
+          )}
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+const TraceabilityView: React.FC<TraceabilityViewProps> = ({ projectId, className = '' }) => {
+  const [report, setReport] = useState<TraceabilityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<LineageFilter>('all');
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReport(await TraceabilityService.getProjectTraceability(projectId));
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const visibleLineages = useMemo(() => {
+    if (!report) return [];
+    switch (filter) {
+      case 'traced':
+        return report.lineages.filter(lineage => !!lineage.objective);
+      case 'gaps':
+        return report.lineages.filter(lineage => !lineage.orphan && !lineage.objective);
+      case 'orphans':
+        return report.orphans;
+      default:
+        return report.lineages;
+    }
+  }, [report, filter]);
+
+  if (loading) {
+    return (
+      <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-6 ${className}`}>
+        <p className="text-white/70">Tracing delivery work...</p>
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const filters: { id: LineageFilter; label: string; count: number }[] = [
+    { id: 'all', label: 'All work', count: report.lineages.length },
+    { id: 'traced', label: 'Reaches an OKR', count: report.fully_traced },
+    { id: 'gaps', label: 'Partial lineage', count: report.lineages.length - report.fully_traced - report.orphans.length },
+    { id: 'orphans', label: 'Orphan work', count: report.orphans.length }
+  ];
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-6 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Traceability</h2>
+          <p className="text-white/70">Why is this being built? Each task traced back to the OKR it serves.</p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="text-right">
+            <div className="text-white text-2xl font-semibold">{report.coverage}%</div>
+            <div className="text-white/60 text-xs">of work has discovery lineage</div>
+          </div>
+          <button
+            onClick={() => void loadReport()}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white text-sm transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Orphan warning */}
+      {report.orphans.length > 0 && (
+        <div className="mb-6 bg-red-500/10 border border-red-400/30 rounded-lg p-4">
+          <div className="text-red-200 font-medium mb-1">
+            {report.orphans.length} {report.orphans.length === 1 ? 'task has' : 'tasks have'} no discovery lineage
+          </div>
+          <p className="text-red-200/70 text-sm">
+            Link orphan work to an experiment or hypothesis, or question whether it should be built at all.
+          </p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex space-x-2 mb-4">
+        {filters.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setFilter(option.id)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+              filter === option.id
+                ? 'bg-white/20 text-white'
+                : 'text-white/70 hover:bg-white/10 hover:text-white'
+            }`}
+          >
+            {option.label} ({option.count})
+          </button>
+        ))}
+      </div>
+
+      {/* Lineages */}
+      {visibleLineages.length === 0 ? (
+        <div className="text-center py-12 text-white/60">
+          {report.lineages.length === 0 ? 'No delivery tasks yet.' : 'Nothing matches this filter.'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleLineages.map(lineage => (
+            <div key={lineage.task.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-white/60 text-xs">{statusLabels[lineage.task.status] ?? lineage.task.status}</span>
+                {lineage.orphan ? (
+                  <span className="px-2 py-0.5 rounded bg-red-500/20 text-red-200 text-xs">Orphan</span>
+                ) : lineage.objective ? (
+                  <span className="px-2 py-0.5 rounded bg-green-500/20 text-green-200 text-xs">Traced to OKR</span>
+                ) : (
+                  <span className="px-2 py-0.5 rounded bg-yellow-500/20 text-yellow-200 text-xs">
+                    Stops at {levelLabels[lineage.hypothesis ? (lineage.opportunity ? 'opportunity' : 'hypothesis') : 'experiment']}
+                  </span>
+                )}
+              </div>
+              <LineageChain lineage={lineage} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TraceabilityView;
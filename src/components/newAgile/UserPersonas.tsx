@@ -1,91 +1,72 @@
-import React from 'react';
-import type { UserPersona } from '../../types/newAgile';
+import React, { useCallback, useEffect, useState } from 'react';
+import type { PersonaCoverage, UserPersona, UserPersonaCreateRequest } from '../../types/newAgile';
+import { NewAgileService } from '../../services/newAgileService';
+import PersonaModal from './PersonaModal';
 
 interface UserPersonasProps {
   projectId: string;
   className?: string;
 }
 
+type PersonaView = 'personas' | 'coverage';
+
 const UserPersonas: React.FC<UserPersonasProps> = ({ projectId, className = '' }) => {
-  // Mock data based on the screenshot - in real app this would come from API
-  const personas: UserPersona[] = [
-    {
-      id: '1',
-      name: 'Starter',
-      description: 'First-time solo creator',
-      icon: '👤',
-      color: 'blue',
-      needs: ['Clear onboarding', 'Quick path to value', 'Mobile-friendly tasks'],
-      pain_points: ['Overwhelmed by complexity', 'Unclear where to start'],
-      goals: ['Create first project', 'Learn the basics', 'See immediate progress'],
-      behaviors: ['Prefers simple interfaces', 'Uses mobile frequently', 'Needs guidance'],
-      demographics: {
-        age_range: '22-35',
-        experience_level: 'Beginner',
-        occupation: 'Freelancer/Entrepreneur'
-      },
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    },
-    {
-      id: '2',
-      name: 'Switcher',
-      description: 'Small business owner migrating from spreadsheets',
-      icon: '🔄',
-      color: 'purple',
-      needs: ['Import tools', 'Simple automations', 'Reliability'],
-      pain_points: ['Data migration anxiety', 'Learning new system'],
-      goals: ['Move away from spreadsheets', 'Streamline processes', 'Scale operations'],
-      behaviors: ['Risk-averse', 'Values familiarity', 'Needs reassurance'],
-      demographics: {
-        age_range: '35-50',
-        experience_level: 'Intermediate',
-        occupation: 'Small Business Owner'
-      },
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    },
-    {
-      id: '3',
-      name: 'Operator',
-      description: 'Team coordinator (3-15 people)',
-      icon: '👥',
-      color: 'green',
-      needs: ['Permissions', 'Shared dashboards', 'Recurring workflows', 'Status clarity'],
-      pain_points: ['Team coordination complexity', 'Status tracking challenges'],
-      goals: ['Improve team efficiency', 'Better visibility', 'Reduce meetings'],
-      behaviors: ['Process-oriented', 'Collaborative', 'Data-driven'],
-      demographics: {
-        age_range: '28-45',
-        experience_level: 'Advanced',
-        occupation: 'Team Lead/Manager'
-      },
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    },
-    {
-      id: '4',
-      name: 'Advisor',
-      description: 'External collaborator/client',
-      icon: '🎯',
-      color: 'orange',
-      needs: ['Read-only access', 'Easy status views', 'Limited edit access'],
-      pain_points: ['Too much information', 'Complex interfaces'],
-      goals: ['Stay informed', 'Provide input', 'Track progress'],
-      behaviors: ['Occasional user', 'Prefers summaries', 'Mobile-first'],
-      demographics: {
-        age_range: '30-60',
-        experience_level: 'Various',
-        occupation: 'Consultant/Client'
-      },
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+  const [personas, setPersonas] = useState<UserPersona[]>([]);
+  const [coverage, setCoverage] = useState<PersonaCoverage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<PersonaView>('personas');
+  const [showModal, setShowModal] = useState(false);
+  const [editingPersona, setEditingPersona] = useState<UserPersona | null>(null);
+  const [seeding, setSeeding] = useState(false);
+
+  const loadPersonas = useCallback(async () => {
+    setLoading(true);
+    try {
+      const personaCoverage = await NewAgileService.getPersonaCoverage(projectId);
+      setCoverage(personaCoverage);
+      setPersonas(personaCoverage.map(entry => entry.persona));
+    } finally {
+      setLoading(false);
     }
-  ];
+  }, [projectId]);
+
+  useEffect(() => {
+    void loadPersonas();
+  }, [loadPersonas]);
 
   const handleAddCustomPersona = () => {
-    // TODO: Open custom persona creation modal
-    console.log('Adding custom persona');
+    setEditingPersona(null);
+    setShowModal(true);
+  };
+
+  const handleEditPersona = (persona: UserPersona) => {
+    setEditingPersona(persona);
+    setShowModal(true);
+  };
+
+  const handleSavePersona = async (data: UserPersonaCreateRequest) => {
+    const saved = editingPersona
+      ? await NewAgileService.updatePersona(editingPersona.id, data)
+      : await NewAgileService.createPersona(data, projectId);
+    if (!saved) throw new Error(editingPersona ? 'Failed to update persona' : 'Failed to create persona');
+    await loadPersonas();
+  };
+
+  const handleDeletePersona = async (persona: UserPersona) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"? Links from opportunities and tasks will be ignored.`)) return;
+    if (await NewAgileService.deletePersona(persona.id)) {
+      await loadPersonas();
+    }
+  };
+
+  const handleUseTemplates = async () => {
+    setSeeding(true);
+    try {
+      await NewAgileService.createPersonasFromTemplates(projectId);
+      await loadPersonas();
+    } finally {
+      setSeeding(false);
+    }
   };
 
   const getColorClasses = (color: string) => {
@@ -105,10 +86,18 @@ const UserPersonas: React.FC<UserPersonasProps> = ({ projectId, className = '' }
         <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center text-lg">
           {persona.icon}
         </div>
-        <div>
+        <div className="flex-1">
           <h3 className="text-xl font-bold text-white">{persona.name}</h3>
           <p className="text-white/80 text-sm">{persona.description}</p>
         </div>
+        <div className="flex space-x-2 self-start">
+          <button onClick={() => handleEditPersona(persona)} className="text-xs text-white/70 hover:text-white transition-colors">
+            Edit
+          </button>
+          <button onClick={() => void handleDeletePersona(persona)} className="text-xs text-white/70 hover:text-red-200 transition-colors">
+            Delete
+          </button>
+        </div>
       </div>
 
       {/* Needs */}
@@ -183,6 +172,60 @@ const UserPersonas: React.FC<UserPersonasProps> = ({ projectId, className = '' }
     </div>
   );
 
+  const CoverageView = () => (
+    <div className="space-y-3">
+      {coverage.map(({ persona, opportunities, validated_opportunities, tasks, shipped_tasks, gaps }) => (
+        <div key={persona.id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-lg">{persona.icon}</span>
+              <h3 className="text-white font-semibold">{persona.name}</h3>
+            </div>
+            {gaps.length === 0 ? (
+              <span className="px-2 py-1 bg-green-500/20 text-green-300 rounded text-xs border border-green-500/30">Covered</span>
+            ) : (
+              <div className="flex flex-wrap justify-end gap-1">
+                {gaps.map(gap => (
+                  <span key={gap} className="px-2 py-1 bg-yellow-500/20 text-yellow-200 rounded text-xs border border-yellow-500/30">
+                    {gap}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-white/60 mb-1">
+                Opportunities: {validated_opportunities.length} validated of {opportunities.length}
+              </div>
+              <ul className="text-white/80 space-y-0.5">
+                {opportunities.slice(0, 4).map(opportunity => (
+                  <li key={opportunity.id} className="truncate">
+                    {opportunity.status === 'validated' ? '✓ ' : '• '}{opportunity.title}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <div className="text-white/60 mb-1">
+                Delivery: {shipped_tasks.length} shipped of {tasks.length}
+              </div>
+              <ul className="text-white/80 space-y-0.5">
+                {tasks.slice(0, 4).map(task => (
+                  <li key={task.id} className="truncate">
+                    {shipped_tasks.includes(task) ? '✓ ' : '• '}{task.title}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const uncoveredCount = coverage.filter(entry => entry.gaps.length > 0).length;
+
   return (
     <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
       {/* Header */}
@@ -210,15 +253,65 @@ const UserPersonas: React.FC<UserPersonasProps> = ({ projectId, className = '' }
             <span>Add Custom Persona</span>
           </button>
         </div>
+
+        {personas.length > 0 && (
+          <div className="flex space-x-1 mt-4">
+            <button
+              onClick={() => setView('personas')}
+              className={`px-4 py-2 rounded-lg transition-all duration-200 text-sm font-medium ${
+                view === 'personas' ? 'bg-white/20 text-white' : 'text-white/70 hover:bg-white/10 hover:text-white'
+              }`}
+            >
+              Personas
+            </button>
+            <button
+              onClick={() => setView('coverage')}
+              className={`px-4 py-2 rounded-lg transition-all duration-200 text-sm font-medium ${
+                view === 'coverage' ? 'bg-white/20 text-white' : 'text-white/70 hover:bg-white/10 hover:text-white'
+              }`}
+            >
+              Coverage
+              {uncoveredCount > 0 && (
+                <span className="ml-2 text-xs bg-yellow-500/30 text-yellow-100 px-1.5 py-0.5 rounded">{uncoveredCount}</span>
+              )}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Content */}
       <div className="p-6">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {personas.map(persona => (
-            <PersonaCard key={persona.id} persona={persona} />
-          ))}
-        </div>
+        {loading ? (
+          <div className="text-center py-16 text-white/60">Loading personas...</div>
+        ) : personas.length === 0 ? (
+          <div className="text-center py-16">
+            <h3 className="text-lg font-medium text-white/80 mb-2">No personas yet</h3>
+            <p className="text-white/60 mb-6">Start from the standard set or describe your own users</p>
+            <div className="flex justify-center space-x-3">
+              <button
+                onClick={() => void handleUseTemplates()}
+                disabled={seeding}
+                className="bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 text-blue-100 px-6 py-2 rounded-lg transition-colors border border-blue-400/30"
+              >
+                {seeding ? 'Adding...' : 'Use starter personas'}
+              </button>
+              <button
+                onClick={handleAddCustomPersona}
+                className="bg-white/10 hover:bg-white/20 text-white px-6 py-2 rounded-lg transition-colors border border-white/20"
+              >
+                Create your own
+              </button>
+            </div>
+          </div>
+        ) : view === 'coverage' ? (
+          <CoverageView />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {personas.map(persona => (
+              <PersonaCard key={persona.id} persona={persona} />
+            ))}
+          </div>
+        )}
 
         {/* Tips Section */}
         <div className="mt-8 p-4 bg-blue-500/10 border border-blue-400/30 rounded-lg">
@@ -229,13 +322,21 @@ const UserPersonas: React.FC<UserPersonasProps> = ({ projectId, className = '' }
             <div>
               <h4 className="text-blue-300 font-medium mb-1">Using Personas Effectively</h4>
               <p className="text-blue-200/80 text-sm">
-                Reference these personas when creating opportunities and hypotheses.
+                Link these personas to opportunities and delivery tasks.
                 Ask: "Which persona does this serve?" and "How does this align with their needs and goals?"
               </p>
             </div>
           </div>
         </div>
       </div>
+
+      {showModal && (
+        <PersonaModal
+          persona={editingPersona}
+          onSave={handleSavePersona}
+          onClose={() => setShowModal(false)}
+        />
+      )}
     </div>
   );
 };
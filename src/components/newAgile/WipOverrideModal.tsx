@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { DeliveryTask } from '../../types/newAgile';
+
+interface WipOverrideModalProps {
+  task: DeliveryTask;
+  columnTitle: string;
+  limit: number;
+  count: number;
+  onConfirm: (reason: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Asks for a reason before a task is pulled into a column that is already full
+const WipOverrideModal: React.FC<WipOverrideModalProps> = ({
+  task,
+  columnTitle,
+  limit,
+  count,
+  onConfirm,
+  onCancel
+}) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    if (!reason.trim()) return;
+    setSaving(true);
+    try {
+      await onConfirm(reason.trim());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-lg p-6">
+        <h3 className="text-xl font-bold text-white mb-2">WIP limit reached</h3>
+        <p className="text-white/70 text-sm mb-4">
+          Moving <span className="text-white font-medium">{task.title}</span> into {columnTitle} makes
+          it {count} items against a limit of {limit}. Explain why this work can't wait.
+        </p>
+
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={4}
+          placeholder="e.g. Production incident fix, customer commitment due Friday"
+          className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+
+        <div className="flex justify-end space-x-3 mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-white/70 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleConfirm()}
+            disabled={saving || !reason.trim()}
+            className="px-6 py-2 bg-yellow-500/30 hover:bg-yellow-500/40 disabled:opacity-50 disabled:cursor-not-allowed border border-yellow-400/30 rounded-lg text-yellow-100 transition-colors"
+          >
+            {saving ? 'Moving...' : 'Override limit'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WipOverrideModal;
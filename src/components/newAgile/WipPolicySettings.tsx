@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import type { DeliveryTaskStatus, WIPPolicy, WIPPolicyMode } from '../../types/newAgile';
+import { DELIVERY_STATUSES } from '../../services/flowMetricsService';
+
+interface WipPolicySettingsProps {
+  policy: WIPPolicy;
+  onSave: (policy: WIPPolicy) => Promise<void>;
+  onClose: () => void;
+}
+
+const columnLabels: Record<DeliveryTaskStatus, string> = {
+  ready: 'Ready',
+  in_progress: 'In Progress',
+  review: 'Review',
+  released: 'Released',
+  measuring: 'Measuring'
+};
+
+const policyLabels: Record<WIPPolicyMode, string> = {
+  warn: 'Warn only',
+  block: 'Block the move',
+  require_justification: 'Require a reason'
+};
+
+const WipPolicySettings: React.FC<WipPolicySettingsProps> = ({ policy, onSave, onClose }) => {
+  const [draft, setDraft] = useState<WIPPolicy>(policy);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLimitChange = (status: DeliveryTaskStatus, value: string) => {
+    setDraft(prev => {
+      const limits = { ...prev.limits };
+      const limit = parseInt(value, 10);
+      if (value === '' || Number.isNaN(limit) || limit <= 0) {
+        delete limits[status];
+      } else {
+        limits[status] = limit;
+      }
+      return { ...prev, limits };
+    });
+  };
+
+  const handlePolicyChange = (status: DeliveryTaskStatus, mode: WIPPolicyMode) => {
+    setDraft(prev => ({ ...prev, policies: { ...prev.policies, [status]: mode } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save WIP limits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-white/5 border border-white/20 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-medium">WIP limits</h3>
+        <span className="text-white/50 text-xs">Leave a limit empty for no limit</span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-4">
+        {DELIVERY_STATUSES.map(status => (
+          <div key={status} className="space-y-2">
+            <label className="block text-white/70 text-sm font-medium">{columnLabels[status]}</label>
+            <input
+              type="number"
+              min={1}
+              value={draft.limits[status] ?? ''}
+              onChange={(e) => handleLimitChange(status, e.target.value)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            />
+            <select
+              value={draft.policies[status]}
+              onChange={(e) => handlePolicyChange(status, e.target.value as WIPPolicyMode)}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-1 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {(Object.keys(policyLabels) as WIPPolicyMode[]).map(mode => (
+                <option key={mode} value={mode} className="bg-gray-800 text-white">
+                  {policyLabels[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-3 text-red-300 text-sm">{error}</div>
+      )}
+
+      <div className="flex justify-end space-x-3 mt-4">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-white/70 hover:text-white transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => void handleSave()}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors text-sm"
+        >
+          {saving ? 'Saving...' : 'Save limits'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WipPolicySettings;
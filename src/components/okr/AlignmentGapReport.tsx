@@ -0,0 +1,60 @@
+// Alignment Gap Report - objectives with no parent to support or no project
+// delivering toward them
+
+import React from 'react';
+import { okrUtils } from '../../services/okr/okrService';
+import type { AlignmentGap } from '../../types';
+
+interface AlignmentGapReportProps {
+  gaps: AlignmentGap[];
+  totalObjectives: number;
+  className?: string;
+}
+
+const AlignmentGapReport: React.FC<AlignmentGapReportProps> = ({ gaps, totalObjectives, className = '' }) => {
+  const missingParent = gaps.filter(gap => gap.missing_parent).length;
+  const missingProjects = gaps.filter(gap => gap.missing_projects).length;
+
+  if (gaps.length === 0) {
+    return (
+      <div className={`bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800 ${className}`}>
+        All {totalObjectives} objectives are aligned and have projects delivering toward them.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-lg p-4 space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Alignment Gaps</h3>
+        <div className="flex gap-2 text-xs">
+          <span className="px-2 py-1 rounded-full bg-orange-100 text-orange-800">{missingParent} without parent</span>
+          <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">{missingProjects} without projects</span>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {gaps.map(gap => (
+          <li key={gap.objective.id} className="py-2 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{gap.objective.title}</div>
+              <div className="text-xs text-gray-500 capitalize">
+                {okrUtils.getLevel(gap.objective)} · Q{gap.objective.quarter} {gap.objective.year}
+              </div>
+            </div>
+            <div className="flex gap-1 flex-shrink-0 text-xs">
+              {gap.missing_parent && (
+                <span className="px-2 py-0.5 rounded bg-orange-50 text-orange-700 border border-orange-200">No parent</span>
+              )}
+              {gap.missing_projects && (
+                <span className="px-2 py-0.5 rounded bg-yellow-50 text-yellow-700 border border-yellow-200">No linked projects</span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AlignmentGapReport;
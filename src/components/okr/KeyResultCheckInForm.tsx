@@ -0,0 +1,126 @@
+// Key Result Check-In Form - records the current value with a required note
+// and a 1-10 confidence score
+
+import React, { useState } from 'react';
+import type { KeyResult, KeyResultCheckInInput } from '../../types';
+
+interface KeyResultCheckInFormProps {
+  keyResult: KeyResult;
+  onSubmit: (input: KeyResultCheckInInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CONFIDENCE_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const confidenceColor = (level: number) => {
+  if (level >= 7) return 'bg-green-500 text-white border-green-500';
+  if (level >= 4) return 'bg-yellow-400 text-gray-900 border-yellow-400';
+  return 'bg-red-500 text-white border-red-500';
+};
+
+const KeyResultCheckInForm: React.FC<KeyResultCheckInFormProps> = ({ keyResult, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(String(keyResult.current_value));
+  const [note, setNote] = useState('');
+  const [confidence, setConfidence] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const numericValue = Number(value);
+    if (value.trim() === '' || !Number.isFinite(numericValue)) {
+      setError('Enter the current value');
+      return;
+    }
+    if (!note.trim()) {
+      setError('Add a note describing what changed');
+      return;
+    }
+    if (confidence === null) {
+      setError('Choose how confident you are that this lands');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({ value: numericValue, note, confidence });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record check-in');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={(e) => void handleSubmit(e)} className="space-y-3 bg-gray-50 p-3 rounded-lg">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Current Value</label>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            step="any"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-sm text-gray-600">
+            {keyResult.unit} · target {keyResult.target}
+          </span>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Confidence it lands by quarter end</label>
+        <div className="flex flex-wrap gap-1">
+          {CONFIDENCE_LEVELS.map(level => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => setConfidence(level)}
+              className={`w-8 h-8 rounded border text-sm font-medium ${
+                confidence === level ? confidenceColor(level) : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          placeholder="What changed? Any blockers or insights?"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {submitting ? 'Checking in...' : 'Check In'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 text-gray-600 bg-gray-200 text-sm rounded-lg hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default KeyResultCheckInForm;
@@ -1,12 +1,17 @@
 // Key Result Item component - displays individual key result with progress tracking
 // Part of the New Agile methodology OKR system
 
-import React, { useState } from 'react';
-import { keyResultService } from '../../services/okr/okrService';
-import type { KeyResult } from '../../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { keyResultService, okrAnalyticsService, okrUtils } from '../../services/okr/okrService';
+import type { KeyResult, KeyResultCheckIn, KeyResultCheckInInput } from '../../types';
+import KeyResultCheckInForm from './KeyResultCheckInForm';
+import KeyResultSparkline from './KeyResultSparkline';
 
 interface KeyResultItemProps {
   keyResult: KeyResult;
+  quarter: 1 | 2 | 3 | 4; // The objective's quarter, which the forecast runs to
+  year: number;
+  readOnly?: boolean; // The quarter is closed; shows the grade instead of actions
   onUpdated: (updatedKeyResult: KeyResult) => void;
   onDeleted: (keyResultId: string) => void;
   className?: string;
@@ -14,16 +19,38 @@ interface KeyResultItemProps {
 
 const KeyResultItem: React.FC<KeyResultItemProps> = ({
   keyResult,
+  quarter,
+  year,
+  readOnly = false,
   onUpdated,
   onDeleted,
   className = ''
 }) => {
-  const [isEditing, setIsEditing] = useState(false);
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [newValue, setNewValue] = useState(keyResult.current_value);
-  const [updateNote, setUpdateNote] = useState('');
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [fetchedHistory, setFetchedHistory] = useState<KeyResultCheckIn[]>([]);
   const [error, setError] = useState<string | null>(null);
 
+  // Check-ins arrive embedded with the objective; fetch them otherwise
+  const embeddedHistory = keyResult.key_result_updates;
+  useEffect(() => {
+    if (embeddedHistory) return;
+    keyResultService.getKeyResultUpdates(keyResult.id)
+      .then(setFetchedHistory)
+      .catch(err => console.error('Failed to load check-ins:', err));
+  }, [keyResult.id, embeddedHistory]);
+
+  const history = useMemo(
+    () => [...(embeddedHistory ?? fetchedHistory)].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [embeddedHistory, fetchedHistory]
+  );
+  const latestCheckIn = history[history.length - 1];
+  const forecast = useMemo(
+    () => okrAnalyticsService.forecastKeyResult(keyResult, history, quarter, year),
+    [keyResult, history, quarter, year]
+  );
+  const { start: quarterStart, end: quarterEnd } = okrUtils.getQuarterDateRange(quarter, year);
+
   // Calculate progress percentage
   const progressPercentage = keyResult.target > 0
     ? Math.min((keyResult.current_value / keyResult.target) * 100, 100)
@@ -46,37 +73,20 @@ const KeyResultItem: React.FC<KeyResultItemProps> = ({
     }
   };
 
-  // Handle progress update
-  const handleUpdateProgress = async () => {
-    if (newValue === keyResult.current_value && !updateNote.trim()) {
-      setIsEditing(false);
-      return;
-    }
-
-    setIsUpdating(true);
+  // Handle check-in; errors surface in the form
+  const handleCheckIn = async (input: KeyResultCheckInInput) => {
+    const result = await keyResultService.checkIn(keyResult, { quarter, year }, input);
     setError(null);
-
-    try {
-      const updatedKeyResult = await keyResultService.updateProgress(
-        keyResult.id,
-        newValue,
-        updateNote.trim() || undefined
-      );
-      onUpdated(updatedKeyResult);
-      setIsEditing(false);
-      setUpdateNote('');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update progress');
-    } finally {
-      setIsUpdating(false);
-    }
+    setIsCheckingIn(false);
+    onUpdated(result.keyResult);
   };
 
-  // Handle status change
+  // Handle status change; a status set by hand is no longer the forecast's
   const handleStatusChange = async (newStatus: 'active' | 'completed' | 'at_risk' | 'blocked') => {
     try {
       const updatedKeyResult = await keyResultService.updateKeyResult(keyResult.id, {
-        status: newStatus
+        status: newStatus,
+        forecast_at_risk: false
       });
       onUpdated(updatedKeyResult);
     } catch (err) {
@@ -110,8 +120,15 @@ const KeyResultItem: React.FC<KeyResultItemProps> = ({
         </div>
 
         {/* Status Badge */}
-        <div className={`px-2 py-1 rounded-full text-xs font-medium border ${statusColor}`}>
-          {keyResult.status.replace('_', ' ')}
+        <div className="flex items-center gap-2">
+          {readOnly && keyResult.grade !== null && keyResult.grade !== undefined && (
+            <div className="px-2 py-1 rounded-full text-xs font-medium border bg-gray-100 text-gray-700 border-gray-200">
+              Grade {Number(keyResult.grade).toFixed(1)}
+            </div>
+          )}
+          <div className={`px-2 py-1 rounded-full text-xs font-medium border ${statusColor}`}>
+            {keyResult.status.replace('_', ' ')}
+          </div>
         </div>
       </div>
 
@@ -145,6 +162,31 @@ const KeyResultItem: React.FC<KeyResultItemProps> = ({
         )}
       </div>
 
+      {/* Trend and Forecast */}
+      {forecast && !readOnly && (
+        <div className="flex items-center justify-between gap-4">
+          <KeyResultSparkline
+            history={history}
+            baseline={keyResult.baseline}
+            target={keyResult.target}
+            forecast={forecast}
+            quarterStart={quarterStart}
+            quarterEnd={quarterEnd}
+          />
+          <div className="text-right text-xs">
+            <div className={`font-medium ${forecast.on_track ? 'text-green-700' : 'text-orange-700'}`}>
+              {forecast.on_track ? 'On track' : 'Misses target'}
+            </div>
+            <div className="text-gray-600">
+              Projected {forecast.projected_value} {keyResult.unit} ({forecast.projected_progress}%)
+            </div>
+            <div className="text-gray-500">
+              by {new Date(`${forecast.quarter_end}T00:00:00`).toLocaleDateString()} · {forecast.method === 'linear' ? 'trend' : 'pace'}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">
@@ -152,68 +194,25 @@ const KeyResultItem: React.FC<KeyResultItemProps> = ({
         </div>
       )}
 
-      {/* Update Progress Form */}
-      {isEditing ? (
-        <div className="space-y-3 bg-gray-50 p-3 rounded-lg">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Update Progress
-            </label>
-            <div className="flex items-center space-x-2">
-              <input
-                type="number"
-                value={newValue}
-                onChange={(e) => setNewValue(Number(e.target.value))}
-                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="New value"
-              />
-              <span className="text-sm text-gray-600">{keyResult.unit}</span>
-            </div>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Update Note (optional)
-            </label>
-            <textarea
-              value={updateNote}
-              onChange={(e) => setUpdateNote(e.target.value)}
-              rows={2}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="What changed? Any blockers or insights?"
-            />
-          </div>
-
-          <div className="flex space-x-2">
-            <button
-              onClick={handleUpdateProgress}
-              disabled={isUpdating}
-              className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-blue-400"
-            >
-              {isUpdating ? 'Updating...' : 'Update'}
-            </button>
-            <button
-              onClick={() => {
-                setIsEditing(false);
-                setNewValue(keyResult.current_value);
-                setUpdateNote('');
-                setError(null);
-              }}
-              className="px-3 py-2 text-gray-600 bg-gray-200 text-sm rounded-lg hover:bg-gray-300"
-            >
-              Cancel
-            </button>
-          </div>
-        </div>
+      {/* Check-In Form */}
+      {readOnly ? null : isCheckingIn ? (
+        <KeyResultCheckInForm
+          keyResult={keyResult}
+          onSubmit={handleCheckIn}
+          onCancel={() => {
+            setIsCheckingIn(false);
+            setError(null);
+          }}
+        />
       ) : (
         /* Action Buttons */
         <div className="flex items-center justify-between pt-2 border-t border-gray-100">
           <div className="flex space-x-2">
             <button
-              onClick={() => setIsEditing(true)}
+              onClick={() => setIsCheckingIn(true)}
               className="text-sm text-blue-600 hover:text-blue-700 font-medium"
             >
-              Update Progress
+              Check In
             </button>
 
             {/* Quick Status Updates */}
@@ -251,17 +250,29 @@ const KeyResultItem: React.FC<KeyResultItemProps> = ({
         </div>
       )}
 
-      {/* Recent Updates */}
-      {keyResult.updates && keyResult.updates.length > 0 && (
+      {/* Latest Check-In and History */}
+      {latestCheckIn && (
         <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded">
-          <div className="font-medium mb-1">Latest Update:</div>
-          <div className="flex items-center justify-between">
-            <span>Value: {keyResult.updates[0].value} {keyResult.unit}</span>
-            <span>{new Date(keyResult.updates[0].created_at).toLocaleDateString()}</span>
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium">Latest Check-In</span>
+            {history.length > 1 && (
+              <button onClick={() => setShowHistory(!showHistory)} className="text-blue-600 hover:text-blue-700">
+                {showHistory ? 'Hide history' : `History (${history.length})`}
+              </button>
+            )}
           </div>
-          {keyResult.updates[0].note && (
-            <div className="mt-1 italic">{keyResult.updates[0].note}</div>
-          )}
+          {(showHistory ? [...history].reverse() : [latestCheckIn]).map(checkIn => (
+            <div key={checkIn.id} className="py-1 border-t border-gray-200 first:border-t-0">
+              <div className="flex items-center justify-between">
+                <span>
+                  Value: {checkIn.value} {keyResult.unit}
+                  {checkIn.confidence !== null && ` · confidence ${checkIn.confidence}/10`}
+                </span>
+                <span>{new Date(checkIn.created_at).toLocaleDateString()}</span>
+              </div>
+              {checkIn.note && <div className="mt-1 italic">{checkIn.note}</div>}
+            </div>
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,79 @@
+// Key Result Sparkline - check-in history across the quarter with the target
+// line and the projection to quarter end
+
+import React from 'react';
+import type { KeyResultCheckIn, KeyResultForecast } from '../../types';
+
+interface KeyResultSparklineProps {
+  history: KeyResultCheckIn[];
+  baseline: number;
+  target: number;
+  forecast: KeyResultForecast | null;
+  quarterStart: Date;
+  quarterEnd: Date;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const PADDING = 4;
+
+const KeyResultSparkline: React.FC<KeyResultSparklineProps> = ({
+  history,
+  baseline,
+  target,
+  forecast,
+  quarterStart,
+  quarterEnd,
+  width = 240,
+  height = 48,
+  className = ''
+}) => {
+  const points = history
+    .map(checkIn => ({ t: new Date(checkIn.created_at).getTime(), value: Number(checkIn.value) }))
+    .sort((a, b) => a.t - b.t);
+  const latest = points[points.length - 1];
+  if (!latest) return null;
+
+  const startTime = Math.min(quarterStart.getTime(), points[0]!.t);
+  const endTime = Math.max(quarterEnd.getTime(), latest.t);
+  const values = [baseline, target, ...points.map(p => p.value), ...(forecast ? [forecast.projected_value] : [])];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const x = (t: number) => PADDING + ((t - startTime) / (endTime - startTime || 1)) * (width - PADDING * 2);
+  const y = (value: number) => height - PADDING - ((value - min) / (max - min || 1)) * (height - PADDING * 2);
+
+  const line = points.map(p => `${x(p.t).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+  const projectionColor = forecast?.on_track ? '#22c55e' : '#f97316';
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      role="img"
+      aria-label={`${points.length} check-ins, latest ${latest.value}, target ${target}`}
+    >
+      <line x1={PADDING} x2={width - PADDING} y1={y(target)} y2={y(target)} stroke="#22c55e" strokeWidth={1} strokeDasharray="2 3" />
+      {forecast && (
+        <line
+          x1={x(latest.t)}
+          y1={y(latest.value)}
+          x2={x(endTime)}
+          y2={y(forecast.projected_value)}
+          stroke={projectionColor}
+          strokeWidth={1.5}
+          strokeDasharray="4 3"
+        />
+      )}
+      {points.length > 1 && <polyline points={line} fill="none" stroke="#3b82f6" strokeWidth={2} strokeLinejoin="round" />}
+      {points.map(p => (
+        <circle key={p.t} cx={x(p.t)} cy={y(p.value)} r={2} fill="#3b82f6" />
+      ))}
+    </svg>
+  );
+};
+
+export default KeyResultSparkline;
@@ -1,16 +1,21 @@
 // OKR Manager - Main component for managing Objectives & Key Results
 // Implements New Agile methodology OKR system
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   objectiveService,
   okrAnalyticsService,
+  okrQuarterService,
   okrUtils
 } from '../../services/okr/okrService';
-import type { Objective } from '../../types';
+import type { LinkedProject, Objective, ObjectiveAlignment, OKRQuarterReport } from '../../types';
 import ObjectiveCard from './ObjectiveCard';
 import OKRProgress from './OKRProgress';
 import CreateObjectiveForm from './CreateObjectiveForm';
+import ObjectiveTree from './ObjectiveTree';
+import AlignmentGapReport from './AlignmentGapReport';
+import QuarterCloseForm from './QuarterCloseForm';
+import QuarterReports from './QuarterReports';
 
 interface OKRManagerProps {
   projectId?: string; // If provided, shows OKRs linked to this project
@@ -25,6 +30,21 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
   const [selectedYear, setSelectedYear] = useState(okrUtils.getCurrentYear());
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [healthReport, setHealthReport] = useState<any>(null);
+  const [linkedProjects, setLinkedProjects] = useState<LinkedProject[]>([]);
+  const [view, setView] = useState<'list' | 'tree' | 'reports'>('list');
+  const [reports, setReports] = useState<OKRQuarterReport[]>([]);
+  const [showCloseForm, setShowCloseForm] = useState(false);
+
+  const isQuarterClosed = reports.some(report => report.quarter === selectedQuarter && report.year === selectedYear);
+
+  const objectiveTree = useMemo(
+    () => okrAnalyticsService.buildObjectiveTree(objectives, linkedProjects),
+    [objectives, linkedProjects]
+  );
+  const alignmentGaps = useMemo(
+    () => okrAnalyticsService.getAlignmentGaps(objectives, linkedProjects),
+    [objectives, linkedProjects]
+  );
 
   // Load objectives
   const loadObjectives = async () => {
@@ -43,6 +63,7 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
       }
 
       setObjectives(objectivesData);
+      setLinkedProjects(await objectiveService.getLinkedProjects(objectivesData.map(objective => objective.id)));
 
       // Generate health report for current quarter
       if (selectedQuarter === okrUtils.getCurrentQuarter() && selectedYear === okrUtils.getCurrentYear()) {
@@ -61,6 +82,22 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
     loadObjectives();
   }, [selectedQuarter, selectedYear, projectId]);
 
+  // Archived quarters only apply to the quarter view
+  useEffect(() => {
+    if (projectId) return;
+    okrQuarterService.getQuarterReports()
+      .then(setReports)
+      .catch(err => console.error('Failed to load quarter reports:', err));
+  }, [projectId]);
+
+  // Handle quarter close; the graded objectives are now read-only
+  const handleQuarterClosed = (report: OKRQuarterReport) => {
+    setReports(prev => [report, ...prev]);
+    setShowCloseForm(false);
+    setView('reports');
+    void loadObjectives();
+  };
+
   // Handle objective creation
   const handleObjectiveCreated = (newObjective: Objective) => {
     setObjectives(prev => [newObjective, ...prev]);
@@ -82,6 +119,14 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
     loadObjectives(); // Refresh to get updated health report
   };
 
+  // Handle alignment changes from the tree; keeps the loaded key results
+  const handleAlign = async (objectiveId: string, alignment: ObjectiveAlignment) => {
+    const aligned = await objectiveService.alignObjective(objectiveId, alignment);
+    setObjectives(prev =>
+      prev.map(obj => obj.id === objectiveId ? { ...obj, ...aligned, key_results: obj.key_results } : obj)
+    );
+  };
+
   if (loading) {
     return (
       <div className={`${className} animate-pulse`}>
@@ -135,15 +180,25 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
           </p>
         </div>
 
-        <button
-          onClick={() => setShowCreateForm(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          New Objective
-        </button>
+        <div className="flex items-center gap-2">
+          {!projectId && !isQuarterClosed && objectives.length > 0 && (
+            <button
+              onClick={() => setShowCloseForm(true)}
+              className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50"
+            >
+              Close {okrUtils.getQuarterName(selectedQuarter)}
+            </button>
+          )}
+          <button
+            onClick={() => setShowCreateForm(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            New Objective
+          </button>
+        </div>
       </div>
 
       {/* Quarter/Year Selector (only show if not project-specific) */}
@@ -195,8 +250,37 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
         />
       )}
 
+      {/* Quarter Close */}
+      {showCloseForm && (
+        <QuarterCloseForm
+          quarter={selectedQuarter}
+          year={selectedYear}
+          onClosed={handleQuarterClosed}
+          onCancel={() => setShowCloseForm(false)}
+        />
+      )}
+
+      {/* View Toggle */}
+      {(objectives.length > 0 || reports.length > 0) && (
+        <div className="flex items-center gap-1 bg-gray-100 p-1 rounded-lg w-fit">
+          {(projectId ? ['list', 'tree'] as const : ['list', 'tree', 'reports'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${
+                view === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option === 'list' ? 'List' : option === 'tree' ? 'Alignment Tree' : 'Quarter Reports'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Objectives List */}
-      {objectives.length === 0 ? (
+      {view === 'reports' ? (
+        <QuarterReports reports={reports} />
+      ) : objectives.length === 0 ? (
         <div className="text-center py-12 bg-gray-50 rounded-lg">
           <svg
             className="mx-auto h-12 w-12 text-gray-400"
@@ -227,6 +311,11 @@ const OKRManager: React.FC<OKRManagerProps> = ({ projectId, className = '' }) =>
             </button>
           </div>
         </div>
+      ) : view === 'tree' ? (
+        <div className="space-y-4">
+          <AlignmentGapReport gaps={alignmentGaps} totalObjectives={objectives.length} />
+          <ObjectiveTree nodes={objectiveTree} objectives={objectives} onAlign={handleAlign} />
+        </div>
       ) : (
         <div className="space-y-4">
           {objectives.map((objective) => (
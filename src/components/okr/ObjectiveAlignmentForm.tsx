@@ -0,0 +1,125 @@
+// Objective Alignment Form - picks the objective this one supports, its level
+// and how much it counts toward the parent's progress
+
+import React, { useState } from 'react';
+import { okrUtils } from '../../services/okr/okrService';
+import type { Objective, ObjectiveAlignment, ObjectiveLevel } from '../../types';
+
+interface ObjectiveAlignmentFormProps {
+  objective: Objective;
+  candidates: Objective[]; // Objectives that can be the parent without closing a loop
+  onSubmit: (alignment: ObjectiveAlignment) => Promise<void>;
+  onCancel: () => void;
+}
+
+const LEVELS: { value: ObjectiveLevel; label: string }[] = [
+  { value: 'company', label: 'Company' },
+  { value: 'team', label: 'Team' },
+  { value: 'personal', label: 'Personal' }
+];
+
+const ObjectiveAlignmentForm: React.FC<ObjectiveAlignmentFormProps> = ({
+  objective,
+  candidates,
+  onSubmit,
+  onCancel
+}) => {
+  const [parentId, setParentId] = useState(objective.parent_id ?? '');
+  const [level, setLevel] = useState<ObjectiveLevel>(okrUtils.getLevel(objective));
+  const [weight, setWeight] = useState(String(okrUtils.getContributionWeight(objective)));
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const contributionWeight = Number(weight);
+    if (!Number.isFinite(contributionWeight) || contributionWeight <= 0) {
+      setError('Weight must be greater than zero');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({ parent_id: parentId || null, level, contribution_weight: contributionWeight });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to align objective');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={(e) => void handleSubmit(e)} className="space-y-3 bg-gray-50 p-3 rounded-lg">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Supports</label>
+          <select
+            value={parentId}
+            onChange={(e) => setParentId(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            <option value="">Nothing (top of the tree)</option>
+            {candidates.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.title} · {okrUtils.getLevel(candidate)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Level</label>
+          <select
+            value={level}
+            onChange={(e) => setLevel(e.target.value as ObjectiveLevel)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {LEVELS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Contribution weight</label>
+        <input
+          type="number"
+          min="0.1"
+          step="0.1"
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          disabled={!parentId}
+          className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Relative to the other objectives supporting the same parent
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded text-sm">{error}</div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {submitting ? 'Saving...' : 'Save Alignment'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-2 text-gray-600 bg-gray-200 text-sm rounded-lg hover:bg-gray-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ObjectiveAlignmentForm;
@@ -3,7 +3,7 @@
 
 import React, { useState } from 'react';
 import { objectiveService, okrAnalyticsService } from '../../services/okr/okrService';
-import type { Objective } from '../../types';
+import type { KeyResult, Objective } from '../../types';
 import KeyResultItem from './KeyResultItem';
 import CreateKeyResultForm from './CreateKeyResultForm';
 
@@ -31,6 +31,7 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
   const progress = okrAnalyticsService.calculateObjectiveProgress(objective);
   const keyResultsCount = objective.key_results?.length || 0;
   const completedKeyResults = objective.key_results?.filter(kr => kr.status === 'completed').length || 0;
+  const isClosed = Boolean(objective.closed_at); // Graded at quarter close; read-only from then on
 
   // Get status styling
   const getStatusStyling = (status: string) => {
@@ -97,6 +98,14 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
     }
   };
 
+  // Handle key result check-in or status change
+  const handleKeyResultUpdated = (updatedKeyResult: KeyResult) => {
+    onUpdated({
+      ...objective,
+      key_results: objective.key_results?.map(kr => kr.id === updatedKeyResult.id ? updatedKeyResult : kr)
+    });
+  };
+
   // Handle key result added
   const handleKeyResultAdded = () => {
     setShowKeyResultForm(false);
@@ -153,6 +162,11 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
                   <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getStatusStyling(objective.status)}`}>
                     {objective.status.charAt(0).toUpperCase() + objective.status.slice(1)}
                   </span>
+                  {isClosed && (
+                    <span className="px-2 py-1 text-xs font-medium rounded-full border bg-gray-100 text-gray-700 border-gray-200">
+                      Graded {Number(objective.grade ?? 0).toFixed(1)}
+                    </span>
+                  )}
                 </div>
                 {objective.description && (
                   <p className="text-gray-600 text-sm mb-3">{objective.description}</p>
@@ -162,6 +176,9 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
                   <span>{keyResultsCount} Key Results</span>
                   <span>{completedKeyResults} Completed</span>
                 </div>
+                {isClosed && objective.reflection && (
+                  <p className="mt-2 text-sm text-gray-600 italic">{objective.reflection}</p>
+                )}
               </>
             )}
           </div>
@@ -169,27 +186,31 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
           {!isEditing && (
             <div className="flex items-center gap-2 ml-4">
               {/* Status Dropdown */}
-              <select
-                value={objective.status}
-                onChange={(e) => handleStatusChange(e.target.value as any)}
-                className="text-sm border border-gray-300 rounded px-2 py-1"
-                disabled={loading}
-              >
-                <option value="draft">Draft</option>
-                <option value="active">Active</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
-              </select>
+              {!isClosed && (
+                <select
+                  value={objective.status}
+                  onChange={(e) => handleStatusChange(e.target.value as any)}
+                  className="text-sm border border-gray-300 rounded px-2 py-1"
+                  disabled={loading}
+                >
+                  <option value="draft">Draft</option>
+                  <option value="active">Active</option>
+                  <option value="completed">Completed</option>
+                  <option value="cancelled">Cancelled</option>
+                </select>
+              )}
 
               {/* Actions */}
-              <button
-                onClick={() => setIsEditing(true)}
-                className="p-1 text-gray-400 hover:text-gray-600"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                </svg>
-              </button>
+              {!isClosed && (
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                  </svg>
+                </button>
+              )}
 
               <button
                 onClick={handleDelete}
@@ -244,12 +265,14 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
         <div className="p-6 bg-gray-50">
           <div className="flex items-center justify-between mb-4">
             <h4 className="text-md font-semibold text-gray-900">Key Results</h4>
-            <button
-              onClick={() => setShowKeyResultForm(true)}
-              className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
-            >
-              Add Key Result
-            </button>
+            {!isClosed && (
+                <button
+                  onClick={() => setShowKeyResultForm(true)}
+                  className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
+                >
+                  Add Key Result
+                </button>
+            )}
           </div>
 
           {/* Create Key Result Form */}
@@ -270,7 +293,10 @@ const ObjectiveCard: React.FC<ObjectiveCardProps> = ({
                 <KeyResultItem
                   key={keyResult.id}
                   keyResult={keyResult}
-                  onUpdated={handleKeyResultAdded} // Simple refresh for now
+                  quarter={objective.quarter}
+                  year={objective.year}
+                  readOnly={isClosed}
+                  onUpdated={handleKeyResultUpdated}
                   onDeleted={handleKeyResultAdded} // Simple refresh for now
                 />
               ))}
@@ -0,0 +1,169 @@
+// Objective Tree - company, team and personal objectives in their alignment
+// tree, with progress rolled up from children to parents
+
+import React, { useState } from 'react';
+import { okrUtils } from '../../services/okr/okrService';
+import type { Objective, ObjectiveAlignment, ObjectiveLevel, ObjectiveTreeNode } from '../../types';
+import ObjectiveAlignmentForm from './ObjectiveAlignmentForm';
+
+interface ObjectiveTreeProps {
+  nodes: ObjectiveTreeNode[];
+  objectives: Objective[];
+  onAlign: (objectiveId: string, alignment: ObjectiveAlignment) => Promise<void>;
+  className?: string;
+}
+
+interface ObjectiveTreeRowProps {
+  node: ObjectiveTreeNode;
+  share: number | null; // Percent of the parent's weighted progress
+  objectives: Objective[];
+  onAlign: ObjectiveTreeProps['onAlign'];
+}
+
+const LEVEL_STYLES: Record<ObjectiveLevel, string> = {
+  company: 'bg-purple-100 text-purple-800',
+  team: 'bg-blue-100 text-blue-800',
+  personal: 'bg-gray-100 text-gray-700'
+};
+
+const progressColor = (progress: number) => {
+  if (progress >= 80) return 'bg-green-500';
+  if (progress >= 60) return 'bg-blue-500';
+  if (progress >= 40) return 'bg-yellow-500';
+  return 'bg-gray-400';
+};
+
+// Each child's share of its parent, from the weights of its counted siblings
+const childShares = (node: ObjectiveTreeNode): Map<string, number> => {
+  const counted = node.children.filter(child => child.objective.status !== 'cancelled');
+  const total = counted.reduce((sum, child) => sum + okrUtils.getContributionWeight(child.objective), 0)
+    + (node.own_progress !== null ? 1 : 0);
+  return new Map(counted.map(child => [
+    child.objective.id,
+    Math.round((okrUtils.getContributionWeight(child.objective) / total) * 100)
+  ]));
+};
+
+const ObjectiveTreeRow: React.FC<ObjectiveTreeRowProps> = ({ node, share, objectives, onAlign }) => {
+  const [expanded, setExpanded] = useState(true);
+  const [aligning, setAligning] = useState(false);
+  const { objective } = node;
+  const level = okrUtils.getLevel(objective);
+  const shares = childShares(node);
+
+  const handleAlign = async (alignment: ObjectiveAlignment) => {
+    await onAlign(objective.id, alignment);
+    setAligning(false);
+  };
+
+  return (
+    <li>
+      <div className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-start gap-2 min-w-0">
+            {node.children.length > 0 ? (
+              <button
+                onClick={() => setExpanded(!expanded)}
+                className="mt-0.5 text-gray-400 hover:text-gray-600"
+                title={expanded ? 'Collapse' : 'Expand'}
+              >
+                <svg className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            ) : (
+              <span className="w-4" />
+            )}
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${LEVEL_STYLES[level]}`}>
+                  {level}
+                </span>
+                <span className="font-medium text-gray-900 truncate">{objective.title}</span>
+                {objective.status !== 'active' && (
+                  <span className="text-xs text-gray-500 capitalize">{objective.status}</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                Q{objective.quarter} {objective.year}
+                {share !== null && ` · ${share}% of parent`}
+                {node.own_progress !== null && ` · own progress ${node.own_progress}%`}
+                {node.children.length > 0 && ` · ${node.children.length} aligned`}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 flex-shrink-0">
+            <div className="w-28">
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Rolled up</span>
+                <span className="font-medium text-gray-900">{node.rolled_up_progress}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${progressColor(node.rolled_up_progress)}`}
+                  style={{ width: `${Math.min(node.rolled_up_progress, 100)}%` }}
+                />
+              </div>
+            </div>
+            <button
+              onClick={() => setAligning(!aligning)}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Align
+            </button>
+          </div>
+        </div>
+
+        {aligning && (
+          <ObjectiveAlignmentForm
+            objective={objective}
+            candidates={okrUtils.getAlignmentCandidates(objectives, objective.id)}
+            onSubmit={handleAlign}
+            onCancel={() => setAligning(false)}
+          />
+        )}
+      </div>
+
+      {expanded && node.children.length > 0 && (
+        <ul className="mt-2 ml-6 pl-3 border-l-2 border-gray-200 space-y-2">
+          {node.children.map(child => (
+            <ObjectiveTreeRow
+              key={child.objective.id}
+              node={child}
+              share={shares.get(child.objective.id) ?? null}
+              objectives={objectives}
+              onAlign={onAlign}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const ObjectiveTree: React.FC<ObjectiveTreeProps> = ({ nodes, objectives, onAlign, className = '' }) => {
+  if (nodes.length === 0) {
+    return (
+      <div className={`text-center py-8 bg-gray-50 rounded-lg text-sm text-gray-500 ${className}`}>
+        No objectives to align yet
+      </div>
+    );
+  }
+
+  return (
+    <ul className={`space-y-2 ${className}`}>
+      {nodes.map(node => (
+        <ObjectiveTreeRow
+          key={node.objective.id}
+          node={node}
+          share={null}
+          objectives={objectives}
+          onAlign={onAlign}
+        />
+      ))}
+    </ul>
+  );
+};
+
+export default ObjectiveTree;
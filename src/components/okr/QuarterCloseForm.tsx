@@ -0,0 +1,235 @@
+// Quarter Close Form - grades each key result from 0.0 to 1.0, collects a
+// reflection per objective and picks the objectives to carry into the next
+// quarter before the quarter is archived
+
+import React, { useEffect, useState } from 'react';
+import { okrQuarterService, okrUtils } from '../../services/okr/okrService';
+import type { Objective, ObjectiveCloseInput, OKRQuarterReport } from '../../types';
+
+interface QuarterCloseFormProps {
+  quarter: 1 | 2 | 3 | 4;
+  year: number;
+  onClosed: (report: OKRQuarterReport) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+const gradeColor = (grade: number) => {
+  if (grade >= 0.7) return 'text-green-700';
+  if (grade >= 0.4) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+const QuarterCloseForm: React.FC<QuarterCloseFormProps> = ({
+  quarter,
+  year,
+  onClosed,
+  onCancel,
+  className = ''
+}) => {
+  const [objectives, setObjectives] = useState<Objective[]>([]);
+  const [inputs, setInputs] = useState<Record<string, ObjectiveCloseInput>>({});
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const next = okrUtils.getNextQuarter(quarter, year);
+
+  // Start every key result at its suggested grade and offer unfinished
+  // objectives for carry-over
+  useEffect(() => {
+    setLoading(true);
+    okrQuarterService.getObjectivesToClose(quarter, year)
+      .then(data => {
+        setObjectives(data);
+        setInputs(Object.fromEntries(data.map(objective => {
+          const grades = Object.fromEntries(
+            (objective.key_results ?? []).map(kr => [kr.id, okrQuarterService.suggestGrade(kr)])
+          );
+          const grade = okrQuarterService.gradeObjective(Object.values(grades));
+          return [objective.id, {
+            objective_id: objective.id,
+            reflection: '',
+            key_result_grades: grades,
+            carry_over: okrQuarterService.isUnfinished(objective, grade)
+          }];
+        })));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load objectives'))
+      .finally(() => setLoading(false));
+  }, [quarter, year]);
+
+  const updateInput = (objectiveId: string, changes: Partial<ObjectiveCloseInput>) => {
+    setInputs(prev => {
+      const current = prev[objectiveId];
+      return current ? { ...prev, [objectiveId]: { ...current, ...changes } } : prev;
+    });
+  };
+
+  const handleGradeChange = (objectiveId: string, keyResultId: string, value: string) => {
+    const current = inputs[objectiveId];
+    if (!current) return;
+    updateInput(objectiveId, {
+      key_result_grades: { ...current.key_result_grades, [keyResultId]: Number(value) }
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const missingReflection = objectives.find(objective => !inputs[objective.id]?.reflection.trim());
+    if (missingReflection) {
+      setError(`Add a reflection for "${missingReflection.title}"`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const report = await okrQuarterService.closeQuarter(quarter, year, Object.values(inputs));
+      onClosed(report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close the quarter');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const quarterLabel = `${okrUtils.getQuarterName(quarter)} ${year}`;
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-lg p-6 ${className}`}>
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Close {quarterLabel}</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Grade each key result from 0.0 to 1.0 and reflect on every objective. Closed objectives
+            become read-only and the quarter is archived as a report.
+          </p>
+        </div>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 transition-colors">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-24 bg-gray-200 rounded"></div>
+          <div className="h-24 bg-gray-200 rounded"></div>
+        </div>
+      ) : objectives.length === 0 ? (
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+          )}
+          <p className="text-sm text-gray-500">You have no open objectives in {quarterLabel} to grade.</p>
+        </div>
+      ) : (
+        <form onSubmit={(e) => void handleSubmit(e)} className="space-y-6">
+          {objectives.map(objective => {
+            const input = inputs[objective.id];
+            if (!input) return null;
+            const keyResults = objective.key_results ?? [];
+            const objectiveGrade = okrQuarterService.gradeObjective(
+              keyResults.map(kr => input.key_result_grades[kr.id] ?? 0)
+            );
+
+            return (
+              <div key={objective.id} className="border border-gray-200 rounded-lg p-4 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h4 className="font-medium text-gray-900">{objective.title}</h4>
+                    <div className="text-xs text-gray-500 capitalize mt-1">
+                      {okrUtils.getLevel(objective)} · {objective.status}
+                    </div>
+                  </div>
+                  <div className={`text-lg font-semibold ${gradeColor(objectiveGrade)}`}>
+                    {objectiveGrade.toFixed(2)}
+                  </div>
+                </div>
+
+                {keyResults.length > 0 ? (
+                  <div className="space-y-2">
+                    {keyResults.map(kr => {
+                      const grade = input.key_result_grades[kr.id] ?? 0;
+                      return (
+                        <div key={kr.id} className="flex items-center justify-between gap-4 bg-gray-50 rounded p-2">
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-900 truncate">{kr.title}</div>
+                            <div className="text-xs text-gray-500">
+                              {kr.current_value} / {kr.target} {kr.unit} · suggested {okrQuarterService.suggestGrade(kr).toFixed(1)}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <input
+                              type="range"
+                              min="0"
+                              max="1"
+                              step="0.1"
+                              value={grade}
+                              onChange={(e) => handleGradeChange(objective.id, kr.id, e.target.value)}
+                              className="w-32"
+                            />
+                            <span className={`w-8 text-sm font-medium text-right ${gradeColor(grade)}`}>
+                              {grade.toFixed(1)}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No key results; the objective grades 0.0.</p>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reflection *</label>
+                  <textarea
+                    value={input.reflection}
+                    onChange={(e) => updateInput(objective.id, { reflection: e.target.value })}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="What worked, what didn't, and what would you do differently?"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={input.carry_over}
+                    onChange={(e) => updateInput(objective.id, { carry_over: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Carry into {okrUtils.getQuarterName(next.quarter)} {next.year}, starting from the current values
+                </label>
+              </div>
+            );
+          })}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {submitting ? 'Closing...' : `Close ${quarterLabel}`}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default QuarterCloseForm;
@@ -0,0 +1,117 @@
+// Quarter Reports - archived OKR quarters side by side, each expandable into
+// its read-only snapshot of grades and reflections
+
+import React, { useMemo, useState } from 'react';
+import { okrQuarterService, okrUtils } from '../../services/okr/okrService';
+import type { OKRQuarterReport } from '../../types';
+
+interface QuarterReportsProps {
+  reports: OKRQuarterReport[];
+  className?: string;
+}
+
+const gradeColor = (grade: number) => {
+  if (grade >= 0.7) return 'text-green-700';
+  if (grade >= 0.4) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+const QuarterReports: React.FC<QuarterReportsProps> = ({ reports, className = '' }) => {
+  const [openReportId, setOpenReportId] = useState<string | null>(null);
+  const comparisons = useMemo(() => okrQuarterService.compareReports(reports), [reports]);
+
+  if (reports.length === 0) {
+    return (
+      <div className={`text-center py-8 bg-gray-50 rounded-lg text-sm text-gray-500 ${className}`}>
+        No closed quarters yet. Close a quarter to grade it and archive the report here.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-white border border-gray-200 rounded-lg overflow-hidden ${className}`}>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="text-left font-medium px-4 py-2">Quarter</th>
+            <th className="text-right font-medium px-4 py-2">Average grade</th>
+            <th className="text-right font-medium px-4 py-2">Change</th>
+            <th className="text-right font-medium px-4 py-2">Objectives</th>
+            <th className="text-right font-medium px-4 py-2">Completed</th>
+            <th className="text-right font-medium px-4 py-2">Carried over</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparisons.map(({ report, grade_change }) => {
+            const isOpen = openReportId === report.id;
+            const averageGrade = Number(report.average_grade);
+            return (
+              <React.Fragment key={report.id}>
+                <tr
+                  onClick={() => setOpenReportId(isOpen ? null : report.id)}
+                  className="border-t border-gray-100 cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-4 py-2 font-medium text-gray-900">
+                    {okrUtils.getQuarterName(report.quarter)} {report.year}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-semibold ${gradeColor(averageGrade)}`}>
+                    {averageGrade.toFixed(2)}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${
+                    grade_change === null ? 'text-gray-400' : grade_change >= 0 ? 'text-green-700' : 'text-red-700'
+                  }`}>
+                    {grade_change === null ? '—' : `${grade_change >= 0 ? '+' : ''}${grade_change.toFixed(2)}`}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700">{report.objectives_count}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{report.completed_count}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{report.carried_over_count}</td>
+                </tr>
+
+                {isOpen && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={6} className="px-4 py-3 space-y-3">
+                      <div className="text-xs text-gray-500">
+                        Closed {new Date(report.closed_at).toLocaleDateString()} · {report.key_results_count} key results
+                      </div>
+                      {report.snapshot.map(objective => (
+                        <div key={objective.id} className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+                          <div className="flex items-start justify-between gap-3">
+                            <div>
+                              <div className="font-medium text-gray-900">{objective.title}</div>
+                              <div className="text-xs text-gray-500 capitalize">
+                                {objective.level} · {objective.status}
+                                {objective.carried_over && ' · carried over'}
+                              </div>
+                            </div>
+                            <span className={`font-semibold ${gradeColor(objective.grade)}`}>
+                              {objective.grade.toFixed(2)}
+                            </span>
+                          </div>
+                          {objective.reflection && (
+                            <p className="text-sm text-gray-600 italic">{objective.reflection}</p>
+                          )}
+                          <ul className="text-xs text-gray-600 space-y-1">
+                            {objective.key_results.map(kr => (
+                              <li key={kr.id} className="flex justify-between gap-3">
+                                <span className="truncate">
+                                  {kr.title} · {kr.current_value} / {kr.target} {kr.unit}
+                                </span>
+                                <span className={`font-medium ${gradeColor(kr.grade)}`}>{kr.grade.toFixed(1)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default QuarterReports;
@@ -5,6 +5,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/SimpleAuthContext';
 import Navigation from '../common/Navigation';
+import Timesheet from '../Timesheet';
 
 const DashboardKPI: React.FC = () => {
   const navigate = useNavigate();
@@ -454,6 +455,9 @@ const DashboardKPI: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Timesheet */}
+        {user && <Timesheet className="mt-8" />}
       </div>
 
     </div>
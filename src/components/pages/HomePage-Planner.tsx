@@ -10,6 +10,7 @@ import WeeklyGoalsCardDashboard from '../WeeklyGoalsCard-Dashboard';
 import WeeklyGoalsModal from '../WeeklyGoalsModal';
 import Timer from '../Timer';
 import Navigation from '../common/Navigation';
+import PlannerCalendar from '../calendar/PlannerCalendar';
 import type { Task } from '../../types';
 
 interface DailyNote {
@@ -151,81 +152,6 @@ const HomePagePlanner: React.FC = () => {
     }
   };
 
-  // Mock calendar events - in real app this would come from projects/tasks
-  const getCalendarEvents = (date: Date) => {
-    const dateStr = date.getDate();
-    const events = [];
-
-    // Sample events based on date
-    if (dateStr === 9) {
-      events.push({ title: 'ProjectFlow - Start', type: 'project' });
-      events.push({ title: 'ProjectFlow - Start', type: 'project' });
-    }
-    if (dateStr === 14) {
-      events.push({ title: 'PromptWise-AI - Start', type: 'development' });
-    }
-    if (dateStr === 15) {
-      events.push({ title: 'Geboortevarief planner...', type: 'meeting' });
-    }
-
-    return events;
-  };
-
-  // Calendar helpers
-  const getDaysInMonth = (date: Date): Date[] => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const startingDayOfWeek = firstDay.getDay();
-
-    const days: Date[] = [];
-
-    // Add empty cells for days before the first day of the month
-    for (let i = 0; i < startingDayOfWeek; i++) {
-      days.push(new Date(year, month, -startingDayOfWeek + i + 1));
-    }
-
-    // Add all days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      days.push(new Date(year, month, day));
-    }
-
-    return days;
-  };
-
-  // Event type colors
-  const getEventTypeColor = (type: string) => {
-    switch (type) {
-      case 'project':
-        return 'bg-blue-500/80 text-blue-100';
-      case 'meeting':
-        return 'bg-green-500/80 text-green-100';
-      case 'development':
-        return 'bg-orange-500/80 text-orange-100';
-      case 'testing':
-        return 'bg-pink-500/80 text-pink-100';
-      case 'launch':
-        return 'bg-yellow-500/80 text-yellow-100';
-      default:
-        return 'bg-gray-500/80 text-gray-100';
-    }
-  };
-
-  const isToday = (date: Date): boolean => {
-    const today = new Date();
-    return date.toDateString() === today.toDateString();
-  };
-
-  const isSameMonth = (date: Date, month: Date): boolean => {
-    return date.getMonth() === month.getMonth() && date.getFullYear() === month.getFullYear();
-  };
-
-  const isSelectedDate = (date: Date): boolean => {
-    return date.toDateString() === selectedDate.toDateString();
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-cyan-400 via-blue-500 to-orange-400">
       {/* Navigation */}
@@ -313,7 +239,7 @@ const HomePagePlanner: React.FC = () => {
 
           {/* Timer - Takes 1/3 width on large screens */}
           <div className="lg:col-span-1">
-            <Timer />
+            <Timer tasks={todayTasks} />
           </div>
         </div>
 
@@ -356,166 +282,16 @@ const HomePagePlanner: React.FC = () => {
           </div>
         </div>
 
-        {/* Calendar Overview Section - Same as Landing Page */}
-        <section className="mt-8">
-          <div className="flex justify-between items-center mb-8">
-            <div className="flex items-center space-x-4">
-              <h2 className="text-3xl font-bold text-white">Calendar Overview</h2>
-              <h3 className="text-2xl font-light text-white/90">October 2025</h3>
-            </div>
-          </div>
-
-          {/* Glass Calendar Grid */}
-          <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-xl p-6">
-            {/* Calendar Header */}
-            <div className="grid grid-cols-7 gap-px mb-4">
-              {['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'].map((day) => (
-                <div key={day} className="p-4 text-center">
-                  <span className="text-white/80 font-medium text-sm">{day}</span>
-                </div>
-              ))}
-            </div>
-
-            {/* Calendar Days */}
-            <div className="grid grid-cols-7 gap-px">
-              {/* Week 1 */}
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white/60 text-sm"></span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">1</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">2</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">3</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Project Kickoff</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">4</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Design Sprint</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">5</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">6</span>
-              </div>
-
-              {/* Week 2 */}
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">7</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">8</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">9</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">10</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Team Meeting</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">11</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">12</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Development Phase</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">13</span>
-              </div>
-
-              {/* Week 3 */}
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">14</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">15</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">16</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">17</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">18</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Testing Phase</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">19</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">20</span>
-              </div>
-
-              {/* Week 4 */}
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">21</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">22</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">23</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">24</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">25</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Launch Prep</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">26</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">27</span>
-              </div>
-
-              {/* Week 5 */}
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">28</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">29</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">30</span>
-                <div className="mt-1">
-                  <div className="text-xs text-white/90 bg-white/20 rounded px-1 py-0.5 mb-1">Product Launch</div>
-                </div>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white text-sm font-medium">31</span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white/60 text-sm"></span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white/60 text-sm"></span>
-              </div>
-              <div className="aspect-square border border-white/20 p-3 relative">
-                <span className="text-white/60 text-sm"></span>
-              </div>
-            </div>
-          </div>
-        </section>
+        {/* Calendar Overview */}
+        {user?.id && (
+          <PlannerCalendar
+            className="mt-8"
+            userId={user.id}
+            selectedDate={selectedDate}
+            onSelectDate={setSelectedDate}
+            refreshKey={savedNote?.updated_at}
+          />
+        )}
       </div>
 
       {/* Weekly Goals Modal */}
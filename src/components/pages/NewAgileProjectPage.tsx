@@ -7,8 +7,9 @@ import OKRManagement from '../newAgile/OKRManagement';
 import DiscoveryLog from '../newAgile/DiscoveryLog';
 import UserPersonas from '../newAgile/UserPersonas';
 import DecisionLog from '../newAgile/DecisionLog';
+import TraceabilityView from '../newAgile/TraceabilityView';
 
-type TabType = 'discovery' | 'delivery' | 'okrs' | 'insights' | 'personas' | 'decisions';
+type TabType = 'discovery' | 'delivery' | 'traceability' | 'okrs' | 'insights' | 'personas' | 'decisions';
 
 const NewAgileProjectPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
@@ -36,6 +37,15 @@ const NewAgileProjectPage: React.FC = () => {
         </svg>
       )
     },
+    {
+      id: 'traceability' as TabType,
+      label: 'Traceability',
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+      )
+    },
     {
       id: 'okrs' as TabType,
       label: 'OKRs',
@@ -82,6 +92,8 @@ const NewAgileProjectPage: React.FC = () => {
         return <DiscoveryPipeline projectId={projectId} />;
       case 'delivery':
         return <DeliveryFlow projectId={projectId} />;
+      case 'traceability':
+        return <TraceabilityView projectId={projectId} />;
       case 'okrs':
         return <OKRManagement projectId={projectId} />;
       case 'insights':
@@ -12,6 +12,11 @@ import DecisionLog from '../newAgile/DecisionLog';
 import PhaseSelector from '../newAgile/PhaseSelector';
 import TasksManagement from '../newAgile/TasksManagement';
 import ProjectDocuments from '../newAgile/ProjectDocuments';
+import AttachmentPanel from '../projects/AttachmentPanel';
+import MilestonePanel from '../projects/MilestonePanel';
+import ProjectSchedule from '../projects/ProjectSchedule';
+import ProjectTimeline from '../projects/ProjectTimeline';
+import Timesheet from '../Timesheet';
 import OpportunityModal from '../newAgile/OpportunityModal';
 import Navigation from '../common/Navigation';
 import { NewAgileService } from '../../services/newAgileService';
@@ -41,7 +46,7 @@ const ProjectDetailsPage: React.FC = () => {
   const [taskFilter, setTaskFilter] = useState<'all' | 'todo' | 'in_progress' | 'completed'>('all');
 
   // Tab navigation state
-  const [activeTab, setActiveTab] = useState<'discovery' | 'delivery' | 'phases' | 'okrs' | 'insights' | 'personas' | 'tasks' | 'documents' | 'decisions'>('discovery');
+  const [activeTab, setActiveTab] = useState<'discovery' | 'delivery' | 'phases' | 'timeline' | 'milestones' | 'schedule' | 'time' | 'okrs' | 'insights' | 'personas' | 'tasks' | 'documents' | 'files' | 'decisions'>('discovery');
 
   // Discovery sub-tab state
   const [discoveryTab, setDiscoveryTab] = useState<'opportunities' | 'hypotheses' | 'experiments'>('opportunities');
@@ -263,6 +268,14 @@ const ProjectDetailsPage: React.FC = () => {
             onPhaseSelect={handlePhaseSelect}
           />
         );
+      case 'timeline':
+        return project ? <ProjectTimeline project={project} /> : null;
+      case 'milestones':
+        return project ? <MilestonePanel project={project} /> : null;
+      case 'schedule':
+        return project ? <ProjectSchedule project={project} /> : null;
+      case 'time':
+        return project ? <Timesheet project={project} /> : null;
       case 'okrs':
         return <OKRManagement projectId={id} />;
       case 'insights':
@@ -286,6 +299,12 @@ const ProjectDetailsPage: React.FC = () => {
             projectName={project?.title || 'Untitled Project'}
           />
         );
+      case 'files':
+        return (
+          <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-6">
+            <AttachmentPanel projectId={id} />
+          </div>
+        );
       default:
         return <DiscoveryPipeline projectId={id} />;
     }
@@ -391,6 +410,42 @@ const ProjectDetailsPage: React.FC = () => {
                   </svg>
                 )
               },
+              {
+                key: 'timeline',
+                label: 'Timeline',
+                icon: (
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h10M8 12h12M6 18h8" />
+                  </svg>
+                )
+              },
+              {
+                key: 'milestones',
+                label: 'Milestones',
+                icon: (
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2z" />
+                  </svg>
+                )
+              },
+              {
+                key: 'schedule',
+                label: 'Schedule',
+                icon: (
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                )
+              },
+              {
+                key: 'time',
+                label: 'Time',
+                icon: (
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                )
+              },
               {
                 key: 'delivery',
                 label: 'Delivery',
@@ -445,6 +500,15 @@ const ProjectDetailsPage: React.FC = () => {
                   </svg>
                 )
               },
+              {
+                key: 'files',
+                label: 'Files',
+                icon: (
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                  </svg>
+                )
+              },
               {
                 key: 'decisions',
                 label: 'Decisions',
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/SimpleAuthContext';
 import { SupabaseProjectService } from '../../services/supabaseProjectService';
 import type { SupabaseProject } from '../../services/supabaseProjectService';
 import Navigation from '../common/Navigation';
+import MilestoneSlipReport from '../projects/MilestoneSlipReport';
 
 const ProjectsPage: React.FC = () => {
   const navigate = useNavigate();
@@ -226,6 +227,11 @@ const ProjectsPage: React.FC = () => {
     loadProjects();
   }, [user?.id]);
 
+  const slipReportProjects = useMemo(
+    () => projects.map(project => ({ id: project.id, title: project.name })),
+    [projects]
+  );
+
   const filteredProjects = projects.filter(project => {
     if (filter === 'all') return true;
     return project.status === filter;
@@ -492,6 +498,11 @@ const ProjectsPage: React.FC = () => {
           </div>
         )}
 
+        {/* Milestone Slip */}
+        {!loading && !error && projects.length > 0 && (
+          <MilestoneSlipReport projects={slipReportProjects} className="mt-8" />
+        )}
+
 {!loading && !error && sortedProjects.length === 0 && (
           <div className="text-center py-12">
             <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-8 max-w-md mx-auto">
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/SimpleAuthContext';
+import TaskComments from '../tasks/TaskComments';
 
 interface Task {
   id: string;
@@ -104,6 +105,7 @@ const TaskPage: React.FC = () => {
 
   const [filter, setFilter] = useState<'all' | 'todo' | 'in-progress' | 'completed'>('all');
   const [isAddingTask, setIsAddingTask] = useState(false);
+  const [discussionTaskId, setDiscussionTaskId] = useState<string | null>(null);
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
@@ -357,6 +359,16 @@ const TaskPage: React.FC = () => {
                   Updated {new Date(task.updatedAt).toLocaleDateString()}
                 </span>
               </div>
+
+              <button
+                onClick={() => setDiscussionTaskId(discussionTaskId === task.id ? null : task.id)}
+                className="mt-4 text-white/70 hover:text-white text-xs transition-colors"
+              >
+                {discussionTaskId === task.id ? 'Hide discussion' : 'Discussion'}
+              </button>
+              {discussionTaskId === task.id && projectId && (
+                <TaskComments taskId={task.id} projectId={projectId} className="mt-4 pt-4 border-t border-white/20" />
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE, AttachmentService } from '../../services/attachmentService';
+import type { ProjectAttachment } from '../../types';
+import AttachmentPreviewModal from './AttachmentPreviewModal';
+
+interface AttachmentPanelProps {
+  projectId: string;
+  taskId?: string; // Without a task, lists every file in the project and uploads to the project itself
+  className?: string;
+}
+
+const inputClass =
+  'bg-white/10 border border-white/20 rounded-lg text-white text-sm px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-white/30 placeholder-white/50';
+
+const fileIcon = (mimeType: string) => {
+  if (mimeType === 'application/pdf') return '📕';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return '📝';
+  if (mimeType.includes('spreadsheet') || mimeType.includes('excel')) return '📊';
+  if (mimeType.includes('presentation') || mimeType.includes('powerpoint')) return '📽️';
+  if (mimeType === 'application/zip') return '🗜️';
+  return '📄';
+};
+
+// File attachments with drag-and-drop upload, tag filtering and previews
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ projectId, taskId, className = '' }) => {
+  const { user } = useAuth();
+  const [attachments, setAttachments] = useState<ProjectAttachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState<string[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [uploadTags, setUploadTags] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [editingTags, setEditingTags] = useState<{ id: string; value: string } | null>(null);
+  const [previewing, setPreviewing] = useState<ProjectAttachment | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Image rows show a thumbnail from a signed URL
+  const loadThumbnails = useCallback(async (items: ProjectAttachment[]) => {
+    const paths = items
+      .filter(item => AttachmentService.getPreviewKind(item.mime_type) === 'image')
+      .map(item => item.file_path);
+    const urls = await AttachmentService.getSignedUrls(paths);
+    setThumbnails(prev => ({ ...prev, ...urls }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const items = await AttachmentService.getAttachments(projectId, taskId);
+      if (cancelled) return;
+      setAttachments(items);
+      setSelectedTags([]);
+      setLoading(false);
+      await loadThumbnails(items);
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, taskId, loadThumbnails]);
+
+  const tagCounts = useMemo(() => AttachmentService.getTagCounts(attachments), [attachments]);
+  const visible = useMemo(() => AttachmentService.filterByTags(attachments, selectedTags), [attachments, selectedTags]);
+
+  const handleFiles = async (files: File[]) => {
+    if (!user || files.length === 0) return;
+
+    const problems: string[] = [];
+    const valid = files.filter(file => {
+      const problem = AttachmentService.validateFile(file);
+      if (problem) problems.push(problem);
+      return !problem;
+    });
+
+    setErrors(problems);
+    setUploading(valid.map(file => file.name));
+    const tags = AttachmentService.parseTags(uploadTags);
+    const added: ProjectAttachment[] = [];
+
+    for (const file of valid) {
+      const attachment = await AttachmentService.uploadAttachment(file, { projectId, taskId, userId: user.id, tags });
+      if (attachment) {
+        added.push(attachment);
+      } else {
+        problems.push(`"${file.name}" could not be uploaded`);
+      }
+      setUploading(prev => prev.filter(name => name !== file.name));
+    }
+
+    setErrors([...problems]);
+    if (added.length > 0) {
+      setAttachments(prev => [...added.reverse(), ...prev]);
+      await loadThumbnails(added);
+    }
+  };
+
+  const handleDownload = async (attachment: ProjectAttachment) => {
+    const urls = await AttachmentService.getSignedUrls([attachment.file_path], { download: attachment.original_filename });
+    const url = urls[attachment.file_path];
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      setErrors([`"${attachment.original_filename}" could not be downloaded`]);
+    }
+  };
+
+  const handleSaveTags = async () => {
+    if (!editingTags) return;
+    const updated = await AttachmentService.updateAttachment(editingTags.id, {
+      tags: AttachmentService.parseTags(editingTags.value)
+    });
+    if (!updated) {
+      setErrors(['Failed to update tags']);
+      return;
+    }
+    setAttachments(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+    setEditingTags(null);
+  };
+
+  const handleDelete = async (attachment: ProjectAttachment) => {
+    if (!window.confirm(`Delete "${attachment.original_filename}"?`)) return;
+    const deleted = await AttachmentService.deleteAttachment(attachment);
+    if (!deleted) {
+      setErrors([`"${attachment.original_filename}" could not be deleted`]);
+      return;
+    }
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  return (
+    <div className={className}>
+      <h4 className="text-white font-medium text-sm mb-3">
+        Attachments{attachments.length > 0 ? ` (${attachments.length})` : ''}
+      </h4>
+
+      {/* Upload */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          void handleFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`border-2 border-dashed rounded-xl p-4 mb-4 transition-colors ${
+          dragging ? 'border-blue-400/60 bg-blue-500/10' : 'border-white/20 bg-white/5'
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!user || uploading.length > 0}
+            className="px-4 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-sm transition-colors"
+          >
+            {uploading.length > 0 ? `Uploading ${uploading.length}...` : 'Choose Files'}
+          </button>
+          <span className="text-white/60 text-sm">
+            or drop them here · up to {AttachmentService.formatFileSize(MAX_ATTACHMENT_SIZE)} each
+          </span>
+          <input
+            value={uploadTags}
+            onChange={(e) => setUploadTags(e.target.value)}
+            className={`flex-1 min-w-[10rem] ${inputClass}`}
+            placeholder="Tags for new files, comma separated"
+          />
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            void handleFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 mb-4 text-red-200 text-sm space-y-1">
+          {errors.map(message => <p key={message}>{message}</p>)}
+        </div>
+      )}
+
+      {/* Tag filter */}
+      {tagCounts.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <span className="text-white/70 font-medium">Tags:</span>
+          {tagCounts.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                selectedTags.includes(tag)
+                  ? 'bg-purple-500/40 border-purple-400/50 text-white'
+                  : 'bg-white/5 border-white/20 text-white/70 hover:text-white'
+              }`}
+            >
+              #{tag} <span className="text-white/50">{count}</span>
+            </button>
+          ))}
+          {selectedTags.length > 0 && (
+            <button onClick={() => setSelectedTags([])} className="text-xs text-white/60 hover:text-white transition-colors">
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Files */}
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin w-6 h-6 border-2 border-white/30 border-t-white rounded-full"></div>
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-white/50 text-sm">
+          {attachments.length === 0 ? 'No files attached yet.' : 'No files carry the selected tags.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map(attachment => {
+            const kind = AttachmentService.getPreviewKind(attachment.mime_type);
+            const thumbnail = thumbnails[attachment.file_path];
+            return (
+              <div key={attachment.id} className="flex items-center space-x-3 bg-white/5 border border-white/10 rounded-xl p-3">
+                <button
+                  type="button"
+                  onClick={() => (kind === 'none' ? void handleDownload(attachment) : setPreviewing(attachment))}
+                  className="w-12 h-12 flex-shrink-0 rounded-lg bg-white/10 flex items-center justify-center overflow-hidden"
+                  title={kind === 'none' ? 'Download' : 'Preview'}
+                >
+                  {kind === 'image' && thumbnail ? (
+                    <img src={thumbnail} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-2xl">{fileIcon(attachment.mime_type)}</span>
+                  )}
+                </button>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-white text-sm truncate">{attachment.original_filename}</span>
+                    {!taskId && attachment.task_id && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-white/10 text-white/60">Task</span>
+                    )}
+                  </div>
+                  <div className="text-white/50 text-xs">
+                    {AttachmentService.formatFileSize(attachment.file_size)} · {new Date(attachment.created_at).toLocaleDateString()}
+                  </div>
+                  {editingTags?.id === attachment.id ? (
+                    <div className="flex items-center gap-2 mt-1">
+                      <input
+                        value={editingTags.value}
+                        onChange={(e) => setEditingTags({ ...editingTags, value: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            void handleSaveTags();
+                          }
+                        }}
+                        className={`flex-1 ${inputClass}`}
+                        placeholder="Comma separated tags"
+                        autoFocus
+                      />
+                      <button type="button" onClick={() => void handleSaveTags()} className="text-xs text-blue-200 hover:text-white transition-colors">
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setEditingTags(null)} className="text-xs text-white/60 hover:text-white transition-colors">
+                        Cancel
+                      </button>
+                    </div>
+                  ) : attachment.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {attachment.tags.map(tag => (
+                        <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-200">#{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-3 text-xs flex-shrink-0">
+                  {kind !== 'none' && (
+                    <button type="button" onClick={() => setPreviewing(attachment)} className="text-white/60 hover:text-white transition-colors">
+                      Preview
+                    </button>
+                  )}
+                  <button type="button" onClick={() => void handleDownload(attachment)} className="text-white/60 hover:text-white transition-colors">
+                    Download
+                  </button>
+                  {attachment.uploaded_by === user?.id && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setEditingTags({ id: attachment.id, value: attachment.tags.join(', ') })}
+                        className="text-white/60 hover:text-white transition-colors"
+                      >
+                        Tags
+                      </button>
+                      <button type="button" onClick={() => void handleDelete(attachment)} className="text-red-300/80 hover:text-red-200 transition-colors">
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {previewing && (
+        <AttachmentPreviewModal
+          attachment={previewing}
+          onDownload={() => void handleDownload(previewing)}
+          onClose={() => setPreviewing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPanel;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import type { ProjectAttachment } from '../../types';
+import { AttachmentService } from '../../services/attachmentService';
+
+interface AttachmentPreviewModalProps {
+  attachment: ProjectAttachment;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+// Full-size image or inline PDF view of an attachment through a signed URL
+const AttachmentPreviewModal: React.FC<AttachmentPreviewModalProps> = ({ attachment, onDownload, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const kind = AttachmentService.getPreviewKind(attachment.mime_type);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const urls = await AttachmentService.getSignedUrls([attachment.file_path]);
+      if (cancelled) return;
+      setUrl(urls[attachment.file_path] ?? null);
+      setLoading(false);
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.file_path]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-white/20">
+          <div className="min-w-0">
+            <h3 className="text-white font-semibold truncate">{attachment.original_filename}</h3>
+            <p className="text-white/60 text-xs">
+              {AttachmentService.formatFileSize(attachment.file_size)} · {new Date(attachment.created_at).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3 ml-4">
+            <button
+              onClick={onDownload}
+              className="px-3 py-1.5 bg-blue-500/30 hover:bg-blue-500/40 border border-blue-400/30 rounded-lg text-blue-100 text-sm transition-colors"
+            >
+              Download
+            </button>
+            <button onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto p-4 flex items-center justify-center">
+          {loading ? (
+            <div className="animate-spin w-8 h-8 border-2 border-white/30 border-t-white rounded-full"></div>
+          ) : !url ? (
+            <p className="text-red-200 text-sm">This file could not be loaded.</p>
+          ) : kind === 'image' ? (
+            <img src={url} alt={attachment.original_filename} className="max-w-full max-h-[75vh] object-contain rounded-lg" />
+          ) : kind === 'pdf' ? (
+            <iframe src={url} title={attachment.original_filename} className="w-full h-[75vh] rounded-lg bg-white" />
+          ) : (
+            <p className="text-white/60 text-sm">No preview is available for this file type.</p>
+          )}
+        </div>
+
+        {attachment.description && (
+          <p className="px-4 pb-4 text-white/70 text-sm">{attachment.description}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentPreviewModal;
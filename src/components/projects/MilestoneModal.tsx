@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import type { MilestoneStatus, MilestoneType, ProjectMilestone, ProjectMilestoneInsert } from '../../types';
+import { MILESTONE_STATUS_LABELS, MILESTONE_TYPE_LABELS, MilestoneService } from '../../services/milestoneService';
+
+interface MilestoneModalProps {
+  milestone?: ProjectMilestone | null; // Edit mode when set
+  milestones: ProjectMilestone[]; // All milestones in the project, used for dependencies
+  onSave: (milestone: ProjectMilestoneInsert) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+const MilestoneModal: React.FC<MilestoneModalProps> = ({ milestone, milestones, onSave, onClose }) => {
+  const [name, setName] = useState(milestone?.name ?? '');
+  const [description, setDescription] = useState(milestone?.description ?? '');
+  const [milestoneType, setMilestoneType] = useState<MilestoneType>(milestone?.milestone_type ?? 'checkpoint');
+  const [plannedDate, setPlannedDate] = useState(milestone?.planned_date?.slice(0, 10) ?? '');
+  const [dueDate, setDueDate] = useState(milestone?.due_date?.slice(0, 10) ?? '');
+  const [status, setStatus] = useState<MilestoneStatus>(milestone?.status ?? 'pending');
+  const [isCritical, setIsCritical] = useState(milestone?.is_critical ?? false);
+  const [completion, setCompletion] = useState(milestone?.completion_percentage ?? 0);
+  const [dependsOn, setDependsOn] = useState(milestone?.depends_on_milestone ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = milestones.filter(m => m.id !== milestone?.id);
+  const dependencyError = MilestoneService.wouldCreateCycle(milestone?.id ?? null, dependsOn || null, milestones)
+    ? 'That dependency would create a cycle'
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    // Mirrors the table's check constraint
+    if (plannedDate && dueDate && plannedDate > dueDate) {
+      setError('Planned date must be on or before the due date');
+      return;
+    }
+    if (dependencyError) {
+      setError(dependencyError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim() || null,
+        milestone_type: milestoneType,
+        planned_date: plannedDate || null,
+        due_date: dueDate || null,
+        status,
+        is_critical: isCritical,
+        completion_percentage: status === 'completed' ? 100 : completion,
+        depends_on_milestone: dependsOn || null
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save milestone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => void handleSubmit(e)}
+        className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5"
+      >
+        <div className="flex items-start justify-between">
+          <h3 className="text-xl font-bold text-white">{milestone ? 'Edit milestone' : 'New milestone'}</h3>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Name *</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g. Design sign-off" />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/80 mb-2">Description</label>
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} className={inputClass} placeholder="What marks this milestone as reached" />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Type</label>
+            <select value={milestoneType} onChange={(e) => setMilestoneType(e.target.value as MilestoneType)} className={inputClass}>
+              {Object.entries(MILESTONE_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value} className="bg-gray-800">{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Status</label>
+            <select value={status} onChange={(e) => setStatus(e.target.value as MilestoneStatus)} className={inputClass}>
+              {Object.entries(MILESTONE_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value} className="bg-gray-800">{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Planned Date</label>
+            <input type="date" value={plannedDate} onChange={(e) => setPlannedDate(e.target.value)} className={inputClass} />
+            <p className="text-white/50 text-xs mt-1">Baseline used for slip reporting</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Due Date</label>
+            <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Completion: {status === 'completed' ? 100 : completion}%</label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={status === 'completed' ? 100 : completion}
+              disabled={status === 'completed'}
+              onChange={(e) => setCompletion(Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">Depends on</label>
+            <select value={dependsOn} onChange={(e) => setDependsOn(e.target.value)} className={inputClass}>
+              <option value="" className="bg-gray-800">None</option>
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id} className="bg-gray-800">{candidate.name}</option>
+              ))}
+            </select>
+            {dependencyError && (
+              <p className="text-red-300 text-xs mt-2">{dependencyError}</p>
+            )}
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2 text-white/80 text-sm">
+          <input type="checkbox" checked={isCritical} onChange={(e) => setIsCritical(e.target.checked)} />
+          <span>Critical milestone</span>
+        </label>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-white/70 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !!dependencyError}
+            className="px-6 py-2 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save milestone'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MilestoneModal;
@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { MilestoneSlipStatus, MilestoneStatus, Project, ProjectMilestone, ProjectMilestoneInsert } from '../../types';
+import {
+  MILESTONE_STATUS_LABELS,
+  MILESTONE_TYPE_LABELS,
+  MilestoneService,
+  SLIP_STATUS_LABELS
+} from '../../services/milestoneService';
+import MilestoneModal from './MilestoneModal';
+
+interface MilestonePanelProps {
+  project: Project;
+  className?: string;
+}
+
+const formatDay = (day: string | null) =>
+  day ? new Date(`${day.slice(0, 10)}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '—';
+
+const statusColors: Record<MilestoneStatus, string> = {
+  pending: 'bg-white/10 text-white/70',
+  in_progress: 'bg-blue-500/20 text-blue-300',
+  completed: 'bg-green-500/20 text-green-300',
+  delayed: 'bg-orange-500/20 text-orange-300',
+  cancelled: 'bg-gray-500/20 text-gray-400'
+};
+
+const slipColors: Record<MilestoneSlipStatus, string> = {
+  early: 'text-green-300',
+  on_time: 'text-green-300',
+  late: 'text-red-300',
+  overdue: 'text-red-300',
+  upcoming: 'text-white/60',
+  unplanned: 'text-white/40'
+};
+
+// Milestones for a single project with planned vs actual slip
+const MilestonePanel: React.FC<MilestonePanelProps> = ({ project, className = '' }) => {
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingMilestone, setEditingMilestone] = useState<ProjectMilestone | null>(null);
+
+  const loadMilestones = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMilestones(await MilestoneService.getMilestones(project.id));
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    void loadMilestones();
+  }, [loadMilestones]);
+
+  const report = useMemo(() => MilestoneService.buildSlipReport(milestones, [project]), [milestones, project]);
+
+  const handleSave = async (data: ProjectMilestoneInsert) => {
+    const saved = editingMilestone
+      ? await MilestoneService.updateMilestone(editingMilestone.id, data)
+      : await MilestoneService.createMilestone(project.id, { ...data, sort_order: milestones.length });
+    if (!saved) {
+      throw new Error('Failed to save milestone');
+    }
+    await loadMilestones();
+  };
+
+  const handleComplete = async (milestone: ProjectMilestone) => {
+    setError(null);
+    const blocker = milestones.find(m => m.id === milestone.depends_on_milestone);
+    if (blocker && blocker.status !== 'completed' && blocker.status !== 'cancelled') {
+      if (!window.confirm(`"${milestone.name}" depends on "${blocker.name}", which is not completed yet. Complete it anyway?`)) return;
+    }
+    if (!(await MilestoneService.completeMilestone(milestone.id))) {
+      setError(`Couldn't complete "${milestone.name}"`);
+      return;
+    }
+    await loadMilestones();
+  };
+
+  const handleDelete = async (milestone: ProjectMilestone) => {
+    const dependents = milestones.filter(m => m.depends_on_milestone === milestone.id);
+    const warning = dependents.length > 0
+      ? ` ${dependents.map(m => `"${m.name}"`).join(', ')} will no longer depend on it.`
+      : '';
+    if (!window.confirm(`Delete milestone "${milestone.name}"?${warning}`)) return;
+    setError(null);
+    if (!(await MilestoneService.deleteMilestone(milestone, milestones))) {
+      setError(`Couldn't delete "${milestone.name}"`);
+    }
+    await loadMilestones();
+  };
+
+  const openModal = (milestone: ProjectMilestone | null) => {
+    setEditingMilestone(milestone);
+    setShowModal(true);
+  };
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
+      {/* Header */}
+      <div className="p-6 border-b border-white/20">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Milestones</h2>
+            <p className="text-white/70">Checkpoints, deliverables and sign-offs for {project.title}</p>
+          </div>
+          <button
+            onClick={() => openModal(null)}
+            className="px-4 py-2 rounded-lg transition-colors border border-white/30 bg-white/20 hover:bg-white/30 text-white text-sm"
+          >
+            New milestone
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-white">{report.completed}/{milestones.length}</div>
+            <div className="text-sm text-white/60">Completed</div>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-green-300">{report.on_time}</div>
+            <div className="text-sm text-white/60">On Time</div>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-red-300">{report.late + report.overdue}</div>
+            <div className="text-sm text-white/60">Late or Overdue</div>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-white">
+              {report.average_slip_days === null ? '—' : `${report.average_slip_days > 0 ? '+' : ''}${report.average_slip_days}d`}
+            </div>
+            <div className="text-sm text-white/60">Average Slip</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin w-8 h-8 border-2 border-white/30 border-t-white rounded-full"></div>
+          </div>
+        ) : milestones.length === 0 ? (
+          <p className="text-white/60 text-sm text-center py-8">No milestones yet. Add one to start tracking planned against actual dates.</p>
+        ) : (
+          report.slips.map(({ milestone, slip_days, status }) => {
+            const dependsOn = milestones.find(m => m.id === milestone.depends_on_milestone);
+            const isDone = milestone.status === 'completed' || milestone.status === 'cancelled';
+            return (
+              <div key={milestone.id} className="bg-white/5 border border-white/10 rounded-xl p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      {milestone.is_critical && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-300">Critical</span>
+                      )}
+                      <span className="text-white font-medium">{milestone.name}</span>
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-purple-500/20 text-purple-300">
+                        {MILESTONE_TYPE_LABELS[milestone.milestone_type]}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${statusColors[milestone.status]}`}>
+                        {MILESTONE_STATUS_LABELS[milestone.status]}
+                      </span>
+                    </div>
+                    {milestone.description && <p className="text-white/60 text-sm">{milestone.description}</p>}
+                    {dependsOn && <p className="text-white/50 text-xs mt-1">Depends on {dependsOn.name}</p>}
+                    {!isDone && milestone.completion_percentage > 0 && (
+                      <div className="w-48 bg-white/10 rounded-full h-1.5 mt-2">
+                        <div className="bg-blue-400 h-1.5 rounded-full" style={{ width: `${milestone.completion_percentage}%` }} />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="text-right text-xs text-white/60 shrink-0">
+                    <div>Planned {formatDay(milestone.planned_date)}</div>
+                    <div>Due {formatDay(milestone.due_date)}</div>
+                    {milestone.actual_date && <div>Actual {formatDay(milestone.actual_date)}</div>}
+                    <div className={slipColors[status]}>
+                      {SLIP_STATUS_LABELS[status]}
+                      {slip_days !== null && slip_days !== 0 && ` (${slip_days > 0 ? '+' : ''}${slip_days}d)`}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-3 mt-3 text-sm">
+                  {!isDone && (
+                    <button onClick={() => void handleComplete(milestone)} className="text-green-300 hover:text-green-200 transition-colors">
+                      Complete
+                    </button>
+                  )}
+                  <button onClick={() => openModal(milestone)} className="text-white/70 hover:text-white transition-colors">
+                    Edit
+                  </button>
+                  <button onClick={() => void handleDelete(milestone)} className="text-red-300 hover:text-red-200 transition-colors">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {showModal && (
+        <MilestoneModal
+          milestone={editingMilestone}
+          milestones={milestones}
+          onSave={handleSave}
+          onClose={() => setShowModal(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MilestonePanel;
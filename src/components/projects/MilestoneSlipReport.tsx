@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Project, ProjectMilestone } from '../../types';
+import { MilestoneService } from '../../services/milestoneService';
+
+interface MilestoneSlipReportProps {
+  projects: Pick<Project, 'id' | 'title'>[];
+  className?: string;
+}
+
+const formatSlip = (days: number | null) => (days === null ? '—' : `${days > 0 ? '+' : ''}${days}d`);
+
+// Planned vs actual milestone dates across a set of projects
+const MilestoneSlipReport: React.FC<MilestoneSlipReportProps> = ({ projects, className = '' }) => {
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const projectIds = useMemo(() => projects.map(project => project.id), [projects]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadMilestones = async () => {
+      setLoading(true);
+      const data = await MilestoneService.getMilestonesForProjects(projectIds);
+      if (!cancelled) {
+        setMilestones(data);
+        setLoading(false);
+      }
+    };
+    void loadMilestones();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectIds]);
+
+  const report = useMemo(() => MilestoneService.buildSlipReport(milestones, projects), [milestones, projects]);
+
+  if (loading || milestones.length === 0) return null;
+
+  const worstSlips = report.slips
+    .filter(slip => (slip.status === 'late' || slip.status === 'overdue') && slip.slip_days !== null)
+    .sort((a, b) => (b.slip_days ?? 0) - (a.slip_days ?? 0))
+    .slice(0, 5);
+  const projectTitle = (projectId: string) => projects.find(project => project.id === projectId)?.title ?? 'Unknown project';
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-white">Milestone Slip</h2>
+          <p className="text-white/70 text-sm">Planned dates compared with when milestones were actually reached</p>
+        </div>
+        <div className="flex space-x-4 text-sm text-white/60">
+          <span>On time: <span className="text-green-300">{report.on_time}</span></span>
+          <span>Late: <span className="text-red-300">{report.late}</span></span>
+          <span>Overdue: <span className="text-red-300">{report.overdue}</span></span>
+          <span>Avg slip: <span className="text-white">{formatSlip(report.average_slip_days)}</span></span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/60 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Project</th>
+                <th className="py-2 pr-4 font-medium">Completed</th>
+                <th className="py-2 pr-4 font-medium">Late</th>
+                <th className="py-2 pr-4 font-medium">Overdue</th>
+                <th className="py-2 font-medium">Avg Slip</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.projects.map(summary => (
+                <tr key={summary.project_id} className="border-b border-white/5 text-white/80">
+                  <td className="py-2 pr-4">{summary.project_title}</td>
+                  <td className="py-2 pr-4">{summary.completed}</td>
+                  <td className={`py-2 pr-4 ${summary.late > 0 ? 'text-red-300' : ''}`}>{summary.late}</td>
+                  <td className={`py-2 pr-4 ${summary.overdue > 0 ? 'text-red-300' : ''}`}>{summary.overdue}</td>
+                  <td className="py-2">{formatSlip(summary.average_slip_days)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-white/80 mb-3">Largest slips</h3>
+          {worstSlips.length === 0 ? (
+            <p className="text-white/60 text-sm">Every milestone is on plan.</p>
+          ) : (
+            <div className="space-y-2">
+              {worstSlips.map(slip => (
+                <div key={slip.milestone.id} className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-white text-sm truncate">{slip.milestone.name}</div>
+                    <div className="text-white/50 text-xs">
+                      {projectTitle(slip.milestone.project_id)} · {slip.status === 'overdue' ? 'still open' : 'completed late'}
+                    </div>
+                  </div>
+                  <span className="text-red-300 text-sm shrink-0">{formatSlip(slip.slip_days)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MilestoneSlipReport;
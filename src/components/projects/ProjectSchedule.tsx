@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Project, ProjectSchedule as ProjectScheduleData } from '../../types';
+import { ScheduleService } from '../../services/scheduleService';
+
+interface ProjectScheduleProps {
+  project: Project;
+  className?: string;
+}
+
+const formatDay = (day: string | null) =>
+  day ? new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '—';
+
+// Critical path, slack and milestone forecast for a project's tasks
+const ProjectSchedule: React.FC<ProjectScheduleProps> = ({ project, className = '' }) => {
+  const [schedule, setSchedule] = useState<ProjectScheduleData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAllTasks, setShowAllTasks] = useState(false);
+
+  const loadSchedule = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSchedule(await ScheduleService.getProjectSchedule(project));
+    } finally {
+      setLoading(false);
+    }
+  }, [project]);
+
+  useEffect(() => {
+    void loadSchedule();
+  }, [loadSchedule]);
+
+  if (loading || !schedule) {
+    return (
+      <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin w-8 h-8 border-2 border-white/30 border-t-white rounded-full"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const variance = schedule.finish_variance_days;
+  const unreachable = schedule.milestones.filter(forecast => !forecast.is_reachable);
+  const visibleTasks = showAllTasks ? schedule.tasks : schedule.tasks.filter(entry => entry.is_critical || entry.is_late);
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
+      {/* Header */}
+      <div className="p-6 border-b border-white/20">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Schedule Forecast</h2>
+            <p className="text-white/70">Critical path from task estimates and dependencies, as of {formatDay(schedule.as_of)}</p>
+          </div>
+          <button
+            onClick={() => void loadSchedule()}
+            className="px-4 py-2 rounded-lg transition-colors border border-white/30 bg-white/20 hover:bg-white/30 text-white text-sm"
+          >
+            Recalculate
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-white">{formatDay(schedule.projected_finish)}</div>
+            <div className="text-sm text-white/60">Projected Finish</div>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-white">{formatDay(schedule.due_date)}</div>
+            <div className="text-sm text-white/60">Project Due Date</div>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className={`text-2xl font-bold ${variance === null ? 'text-white/60' : variance > 0 ? 'text-red-300' : 'text-green-300'}`}>
+              {variance === null ? '—' : variance > 0 ? `${variance}d late` : `${-variance}d early`}
+            </div>
+            <div className="text-sm text-white/60">Variance</div>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="text-2xl font-bold text-orange-300">{schedule.critical_path.length}</div>
+            <div className="text-sm text-white/60">Critical Tasks</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {schedule.cyclic_tasks.length > 0 && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">
+            Left out of the forecast because their dependencies form a cycle: {schedule.cyclic_tasks.map(task => task.name).join(', ')}
+          </div>
+        )}
+
+        {/* Milestones */}
+        {schedule.milestones.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-3">
+              Milestones
+              {unreachable.length > 0 && (
+                <span className="ml-2 px-2 py-1 rounded-full text-xs bg-red-500/20 text-red-300">{unreachable.length} unreachable</span>
+              )}
+            </h3>
+            <div className="space-y-2">
+              {schedule.milestones.map(forecast => (
+                <div
+                  key={forecast.milestone.id}
+                  className={`flex items-center justify-between rounded-lg p-3 border ${
+                    forecast.is_reachable ? 'bg-white/5 border-white/10' : 'bg-red-500/10 border-red-500/30'
+                  }`}
+                >
+                  <div>
+                    <div className="text-white font-medium">{forecast.milestone.name}</div>
+                    {forecast.reason && <div className="text-red-200 text-xs">{forecast.reason}</div>}
+                  </div>
+                  <div className="text-right text-xs text-white/60">
+                    <div>Due {formatDay(forecast.milestone.due_date)}</div>
+                    <div>Projected {formatDay(forecast.projected_date)}</div>
+                    {forecast.slip_days > 0 && <div className="text-red-300">+{forecast.slip_days}d</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Critical Path */}
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-3">Critical Path</h3>
+          {schedule.critical_path.length === 0 ? (
+            <p className="text-white/60 text-sm">No open tasks to schedule.</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              {schedule.critical_path.map((entry, index) => (
+                <React.Fragment key={entry.task.id}>
+                  {index > 0 && <span className="text-white/40">→</span>}
+                  <span className="px-3 py-1 rounded-full text-sm bg-orange-500/20 text-orange-200 border border-orange-400/30">
+                    {entry.task.name} · {entry.duration_days}d
+                  </span>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Task Table */}
+        {schedule.tasks.length > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-white">Task Slack</h3>
+              <button
+                onClick={() => setShowAllTasks(prev => !prev)}
+                className="text-sm text-white/70 hover:text-white transition-colors"
+              >
+                {showAllTasks ? 'Show critical and late only' : `Show all ${schedule.tasks.length} tasks`}
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/60 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">Task</th>
+                    <th className="py-2 pr-4 font-medium">Estimate</th>
+                    <th className="py-2 pr-4 font-medium">Earliest Start</th>
+                    <th className="py-2 pr-4 font-medium">Projected Finish</th>
+                    <th className="py-2 pr-4 font-medium">Due</th>
+                    <th className="py-2 font-medium">Slack</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleTasks.map(entry => (
+                    <tr key={entry.task.id} className="border-b border-white/5 text-white/80">
+                      <td className="py-2 pr-4">
+                        <span className={entry.is_critical ? 'text-orange-200 font-medium' : ''}>{entry.task.name}</span>
+                      </td>
+                      <td className="py-2 pr-4">{entry.duration_days}d</td>
+                      <td className="py-2 pr-4">{formatDay(entry.earliest_start)}</td>
+                      <td className={`py-2 pr-4 ${entry.is_late ? 'text-red-300' : ''}`}>{formatDay(entry.earliest_finish)}</td>
+                      <td className="py-2 pr-4">{formatDay(entry.task.due_date?.slice(0, 10) ?? null)}</td>
+                      <td className="py-2">{entry.is_critical ? <span className="text-orange-300">critical</span> : `${entry.slack_days}d`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSchedule;
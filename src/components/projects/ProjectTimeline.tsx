@@ -0,0 +1,312 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Project, ProjectMilestone, Task, TaskDependency } from '../../types';
+import type { Phase } from '../../types/newAgile';
+import { TaskService } from '../../services/taskService';
+import { TaskDependencyService } from '../../services/taskDependencyService';
+import { MilestoneService } from '../../services/milestoneService';
+import { NewAgileService } from '../../services/newAgileService';
+import { ScheduleService, daysBetween } from '../../services/scheduleService';
+import { TimelineService, ZOOM_DAY_WIDTH, type TimelineItem, type TimelineZoom } from '../../services/timelineService';
+
+interface ProjectTimelineProps {
+  project: Project;
+  className?: string;
+}
+
+type TimelineRow = { kind: 'section'; label: string } | { kind: 'item'; item: TimelineItem };
+
+interface DragState {
+  id: string;
+  originX: number;
+  deltaDays: number;
+}
+
+const HEADER_HEIGHT = 40;
+const SECTION_HEIGHT = 28;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+
+const zoomOptions: { value: TimelineZoom; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' }
+];
+
+// Gantt view of phases, milestones and tasks; task bars can be dragged to a new due date
+const ProjectTimeline: React.FC<ProjectTimelineProps> = ({ project, className = '' }) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [milestones, setMilestones] = useState<ProjectMilestone[]>([]);
+  const [phases, setPhases] = useState<Phase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [zoom, setZoom] = useState<TimelineZoom>('week');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [fetchedTasks, fetchedMilestones, fetchedPhases] = await Promise.all([
+        TaskService.getTasks(project.id),
+        MilestoneService.getMilestones(project.id),
+        NewAgileService.getPhases(project.id)
+      ]);
+      setTasks(fetchedTasks);
+      setMilestones(fetchedMilestones);
+      setPhases(fetchedPhases);
+      setDependencies(await TaskDependencyService.getDependencies(fetchedTasks.map(task => task.id)));
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    void loadTimeline();
+  }, [loadTimeline]);
+
+  const schedule = useMemo(
+    () => ScheduleService.buildSchedule({ projectId: project.id, tasks, dependencies, milestones, dueDate: project.due_date }),
+    [project.id, project.due_date, tasks, dependencies, milestones]
+  );
+  const { items, unscheduled } = useMemo(
+    () => TimelineService.buildItems(phases, milestones, tasks, schedule),
+    [phases, milestones, tasks, schedule]
+  );
+
+  const dayWidth = ZOOM_DAY_WIDTH[zoom];
+  const range = TimelineService.getRange(items, zoom, schedule.as_of);
+  const ticks = TimelineService.getTicks(range, zoom);
+  const arrows = TimelineService.getArrows(items, dependencies);
+
+  const rows: TimelineRow[] = [];
+  const addSection = (label: string, kind: TimelineItem['kind']) => {
+    const sectionItems = items.filter(item => item.kind === kind).sort((a, b) => a.start.localeCompare(b.start));
+    if (sectionItems.length === 0) return;
+    rows.push({ kind: 'section', label });
+    sectionItems.forEach(item => rows.push({ kind: 'item', item }));
+  };
+  addSection('Phases', 'phase');
+  addSection('Milestones', 'milestone');
+  addSection('Tasks', 'task');
+
+  const rowTops = new Map<string, number>();
+  let contentHeight = 0;
+  for (const row of rows) {
+    if (row.kind === 'item') rowTops.set(row.item.id, contentHeight);
+    contentHeight += row.kind === 'section' ? SECTION_HEIGHT : ROW_HEIGHT;
+  }
+
+  const offsetFor = (item: TimelineItem) => (drag?.id === item.id ? drag.deltaDays : 0);
+  const barLeft = (item: TimelineItem) => (daysBetween(range.start, item.start) + offsetFor(item)) * dayWidth;
+  const barWidth = (item: TimelineItem) => Math.max((daysBetween(item.start, item.end) + 1) * dayWidth, 4);
+  const barCenter = (item: TimelineItem) => (rowTops.get(item.id) ?? 0) + ROW_HEIGHT / 2;
+  const timelineWidth = range.days * dayWidth;
+  const todayLeft = daysBetween(range.start, schedule.as_of) * dayWidth + dayWidth / 2;
+
+  const canDrag = (item: TimelineItem) =>
+    item.kind === 'task' && !!item.task && TaskDependencyService.isOpen(item.task) && savingId !== item.id;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, item: TimelineItem) => {
+    if (!canDrag(item)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id: item.id, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>, item: TimelineItem) => {
+    if (drag?.id !== item.id) return;
+    const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+  };
+
+  const handlePointerUp = async (item: TimelineItem) => {
+    if (drag?.id !== item.id) return;
+    const { deltaDays } = drag;
+    setDrag(null);
+    if (deltaDays === 0 || !item.task) return;
+
+    const dueDate = TimelineService.shiftDueDate(item, deltaDays);
+    setSavingId(item.id);
+    setError(null);
+    try {
+      const updated = await TaskService.updateTask(item.task.id, { due_date: dueDate });
+      if (updated) {
+        setTasks(prev => prev.map(task => (task.id === updated.id ? updated : task)));
+      } else {
+        setError(`Failed to reschedule "${item.label}"`);
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const getBarClass = (item: TimelineItem) => {
+    if (item.task && !TaskDependencyService.isOpen(item.task)) return 'bg-green-500/40 border-green-400/50';
+    if (item.is_late) return 'bg-red-500/40 border-red-400/60';
+    if (item.is_critical) return 'bg-orange-500/40 border-orange-400/60';
+    return 'bg-blue-500/40 border-blue-400/50';
+  };
+
+  if (loading) {
+    return (
+      <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin w-8 h-8 border-2 border-white/30 border-t-white rounded-full"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl ${className}`}>
+      {/* Header */}
+      <div className="p-6 border-b border-white/20 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Timeline</h2>
+          <p className="text-white/70 text-sm">Drag a task bar to move its due date. Dashed bars are forecast dates.</p>
+        </div>
+        <div className="flex items-center space-x-1 bg-white/5 border border-white/10 rounded-xl p-1">
+          {zoomOptions.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setZoom(option.value)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                zoom === option.value ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-white/60 text-center py-16">Add due dates to tasks, phases or milestones to see them here.</p>
+      ) : (
+        <div className="flex p-6">
+          {/* Labels */}
+          <div className="w-56 flex-shrink-0 pr-3">
+            <div style={{ height: HEADER_HEIGHT }} />
+            {rows.map((row, index) =>
+              row.kind === 'section' ? (
+                <div key={`section-${index}`} style={{ height: SECTION_HEIGHT }} className="text-xs uppercase tracking-wide text-white/50 flex items-end pb-1">
+                  {row.label}
+                </div>
+              ) : (
+                <div key={row.item.id} style={{ height: ROW_HEIGHT }} className="flex items-center text-sm text-white/80 truncate" title={row.item.label}>
+                  {row.item.label}
+                </div>
+              )
+            )}
+          </div>
+
+          {/* Chart */}
+          <div className="flex-1 overflow-x-auto">
+            <div className="relative" style={{ width: timelineWidth, height: HEADER_HEIGHT + contentHeight }}>
+              {/* Ticks */}
+              {ticks.map(tick => (
+                <div
+                  key={tick.day}
+                  className="absolute top-0 bottom-0 border-l border-white/10"
+                  style={{ left: daysBetween(range.start, tick.day) * dayWidth }}
+                >
+                  <span className="absolute top-2 left-1 text-xs text-white/50 whitespace-nowrap">{tick.label}</span>
+                </div>
+              ))}
+
+              {/* Today */}
+              <div className="absolute top-0 bottom-0 border-l-2 border-cyan-300/60" style={{ left: todayLeft }} title="Today" />
+
+              <div className="absolute left-0 right-0" style={{ top: HEADER_HEIGHT }}>
+                {/* Dependency arrows */}
+                <svg className="absolute inset-0 pointer-events-none overflow-visible" width={timelineWidth} height={contentHeight}>
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0,0 L8,4 L0,8 z" fill="rgba(255,255,255,0.6)" />
+                    </marker>
+                    <marker id="timeline-arrow-conflict" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M0,0 L8,4 L0,8 z" fill="rgba(252,165,165,0.9)" />
+                    </marker>
+                  </defs>
+                  {arrows.map(arrow => {
+                    const x1 = barLeft(arrow.from) + barWidth(arrow.from);
+                    const y1 = barCenter(arrow.from);
+                    const x2 = barLeft(arrow.to);
+                    const y2 = barCenter(arrow.to);
+                    return (
+                      <path
+                        key={`${arrow.from.id}-${arrow.to.id}`}
+                        d={`M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`}
+                        fill="none"
+                        stroke={arrow.conflict ? 'rgba(252,165,165,0.9)' : 'rgba(255,255,255,0.4)'}
+                        strokeWidth={1.5}
+                        strokeDasharray={arrow.type === 'relates_to' ? '4 3' : undefined}
+                        markerEnd={`url(#${arrow.conflict ? 'timeline-arrow-conflict' : 'timeline-arrow'})`}
+                      />
+                    );
+                  })}
+                </svg>
+
+                {/* Bars */}
+                {rows.map((row, index) => {
+                  if (row.kind === 'section') return null;
+                  const { item } = row;
+                  const top = (rowTops.get(item.id) ?? 0) + (ROW_HEIGHT - BAR_HEIGHT) / 2;
+
+                  if (item.kind === 'milestone') {
+                    return (
+                      <div
+                        key={`${item.id}-${index}`}
+                        className="absolute w-4 h-4 rotate-45 bg-purple-400/80 border border-purple-200"
+                        style={{ top: top + 2, left: barLeft(item) + dayWidth / 2 - 8 }}
+                        title={`${item.label} · ${item.end}`}
+                      />
+                    );
+                  }
+
+                  return (
+                    <div
+                      key={`${item.id}-${index}`}
+                      onPointerDown={(e) => handlePointerDown(e, item)}
+                      onPointerMove={(e) => handlePointerMove(e, item)}
+                      onPointerUp={() => void handlePointerUp(item)}
+                      className={`absolute rounded-md border text-xs text-white px-2 flex items-center overflow-hidden whitespace-nowrap select-none ${
+                        item.kind === 'phase' ? 'bg-white/20 border-white/30' : getBarClass(item)
+                      } ${item.projected ? 'border-dashed' : ''} ${canDrag(item) ? 'cursor-grab active:cursor-grabbing' : ''} ${
+                        savingId === item.id ? 'animate-pulse' : ''
+                      }`}
+                      style={{
+                        top,
+                        height: BAR_HEIGHT,
+                        left: barLeft(item),
+                        width: barWidth(item),
+                        backgroundColor: item.kind === 'phase' ? item.color : undefined,
+                        touchAction: 'none'
+                      }}
+                      title={`${item.label} · ${item.start} → ${item.end}`}
+                    >
+                      {dayWidth * (daysBetween(item.start, item.end) + 1) > 60 && item.label}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {unscheduled.length > 0 && (
+        <div className="px-6 pb-6 text-sm text-white/60">
+          Not on the timeline (no due date): {unscheduled.map(task => task.name).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectTimeline;
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { TaskLabel } from '../../types';
+
+interface LabelChipsProps {
+  labels: TaskLabel[];
+  max?: number; // Further labels are summarised as "+n"
+  className?: string;
+}
+
+// Colored label badges, tinted from each label's hex color
+const LabelChips: React.FC<LabelChipsProps> = ({ labels, max, className = '' }) => {
+  if (labels.length === 0) return null;
+  const shown = max === undefined ? labels : labels.slice(0, max);
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {shown.map(label => (
+        <span
+          key={label.id}
+          title={label.description ?? label.name}
+          className="text-xs px-2 py-0.5 rounded-full border"
+          style={{ backgroundColor: `${label.color}33`, borderColor: `${label.color}80`, color: '#fff' }}
+        >
+          {label.name}
+        </span>
+      ))}
+      {labels.length > shown.length && (
+        <span className="text-xs text-white/50">+{labels.length - shown.length}</span>
+      )}
+    </div>
+  );
+};
+
+export default LabelChips;
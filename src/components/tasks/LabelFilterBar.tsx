@@ -0,0 +1,82 @@
+import React from 'react';
+import type { TaskLabel } from '../../types';
+import type { LabelMatch } from '../../services/taskLabelService';
+
+interface LabelFilterBarProps {
+  labels: TaskLabel[];
+  selectedIds: string[];
+  onSelectedChange: (labelIds: string[]) => void;
+  match: LabelMatch;
+  onMatchChange: (match: LabelMatch) => void;
+  groupByLabel: boolean;
+  onGroupByLabelChange: (groupByLabel: boolean) => void;
+  onManage?: () => void;
+}
+
+// Label filter chips with any/all matching and a group-by-label toggle
+const LabelFilterBar: React.FC<LabelFilterBarProps> = ({
+  labels,
+  selectedIds,
+  onSelectedChange,
+  match,
+  onMatchChange,
+  groupByLabel,
+  onGroupByLabelChange,
+  onManage
+}) => {
+  const toggle = (labelId: string) => {
+    onSelectedChange(selectedIds.includes(labelId) ? selectedIds.filter(id => id !== labelId) : [...selectedIds, labelId]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-white/70 font-medium">Labels:</span>
+      {labels.length === 0 ? (
+        <span className="text-white/50">None yet</span>
+      ) : (
+        labels.map(label => {
+          const selected = selectedIds.includes(label.id);
+          return (
+            <button
+              key={label.id}
+              onClick={() => toggle(label.id)}
+              className={`text-xs px-2 py-0.5 rounded-full border transition-opacity ${selected ? '' : 'opacity-60 hover:opacity-90'}`}
+              style={{ backgroundColor: `${label.color}${selected ? '55' : '22'}`, borderColor: `${label.color}80`, color: '#fff' }}
+              title={`${label.usage_count} use${label.usage_count === 1 ? '' : 's'}`}
+            >
+              {label.name} <span className="text-white/60">{label.usage_count}</span>
+            </button>
+          );
+        })
+      )}
+
+      {selectedIds.length > 1 && (
+        <select
+          value={match}
+          onChange={(e) => onMatchChange(e.target.value as LabelMatch)}
+          className="bg-white/10 border border-white/20 rounded-lg px-2 py-0.5 text-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          <option value="any" className="bg-gray-800 text-white">Match any</option>
+          <option value="all" className="bg-gray-800 text-white">Match all</option>
+        </select>
+      )}
+      {selectedIds.length > 0 && (
+        <button onClick={() => onSelectedChange([])} className="text-xs text-white/60 hover:text-white transition-colors">
+          Clear
+        </button>
+      )}
+
+      <label className="flex items-center space-x-1 text-white/70 text-xs ml-2">
+        <input type="checkbox" checked={groupByLabel} onChange={(e) => onGroupByLabelChange(e.target.checked)} />
+        <span>Group by label</span>
+      </label>
+      {onManage && (
+        <button onClick={onManage} className="text-xs text-white/60 hover:text-white underline transition-colors">
+          Manage labels
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LabelFilterBar;
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import type { TaskLabel } from '../../types';
+import { LABEL_COLORS, TaskLabelService } from '../../services/taskLabelService';
+
+interface LabelManagerProps {
+  projectId: string;
+  labels: TaskLabel[];
+  onChanged: () => Promise<void>; // Reload labels and assignments
+  onClose: () => void;
+}
+
+const inputClass =
+  'bg-white/10 border border-white/20 rounded-lg text-white text-sm px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-white/30 placeholder-white/50';
+
+const uses = (count: number) => `${count} use${count === 1 ? '' : 's'}`;
+
+// Create, rename, recolor, merge and delete a project's labels
+const LabelManager: React.FC<LabelManagerProps> = ({ projectId, labels, onChanged, onClose }) => {
+  const [editing, setEditing] = useState<{ id: string | null; name: string; color: string } | null>(null);
+  const [merging, setMerging] = useState<{ sourceId: string; targetId: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A rename onto an existing name is offered as a merge into that label
+  const clash = editing
+    ? labels.find(l => l.id !== editing.id && l.name.toLowerCase() === editing.name.trim().toLowerCase())
+    : undefined;
+
+  const run = async (action: () => Promise<boolean>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    const ok = await action();
+    if (ok) {
+      await onChanged();
+    } else {
+      setError(failure);
+    }
+    setBusy(false);
+    return ok;
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const problem = TaskLabelService.validateLabel(editing.name, editing.color, labels, editing.id ?? undefined);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const saved = await run(
+      async () => (editing.id
+        ? await TaskLabelService.updateLabel(editing.id, { name: editing.name, color: editing.color })
+        : await TaskLabelService.createLabel(projectId, { name: editing.name, color: editing.color })) !== null,
+      'Failed to save label'
+    );
+    if (saved) setEditing(null);
+  };
+
+  const startMerge = (source: TaskLabel) => {
+    // Default to folding into the most used other label
+    const target = labels.find(l => l.id !== source.id);
+    if (!target) return;
+    setEditing(null);
+    setMerging({ sourceId: source.id, targetId: target.id });
+  };
+
+  const handleMerge = async (sourceId: string, targetId: string) => {
+    const source = labels.find(l => l.id === sourceId);
+    const target = labels.find(l => l.id === targetId);
+    if (!source || !target) return;
+    const message = `Merge "${source.name}" (${uses(source.usage_count)}) into "${target.name}" (${uses(target.usage_count)})? ` +
+      `"${source.name}" will be deleted; items carrying both keep a single "${target.name}".`;
+    if (!window.confirm(message)) return;
+
+    const merged = await run(
+      async () => (await TaskLabelService.mergeLabels(sourceId, targetId)) !== null,
+      'Failed to merge labels'
+    );
+    if (merged) {
+      setMerging(null);
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async (label: TaskLabel) => {
+    const message = label.usage_count > 0
+      ? `Delete "${label.name}"? It will be removed from ${label.usage_count} item${label.usage_count === 1 ? '' : 's'}.`
+      : `Delete "${label.name}"?`;
+    if (!window.confirm(message)) return;
+    await run(() => TaskLabelService.deleteLabel(label.id), 'Failed to delete label');
+  };
+
+  const renderEditor = () => editing && (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={editing.name}
+          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+          className={`flex-1 min-w-[8rem] ${inputClass}`}
+          placeholder="Label name"
+          autoFocus
+        />
+        <div className="flex gap-1">
+          {LABEL_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              type="button"
+              onClick={() => setEditing({ ...editing, color: swatch })}
+              className={`w-5 h-5 rounded-full border-2 ${editing.color === swatch ? 'border-white' : 'border-transparent'}`}
+              style={{ backgroundColor: swatch }}
+              title={swatch}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end space-x-2">
+        {clash && editing.id && (
+          <button
+            onClick={() => void handleMerge(editing.id!, clash.id)}
+            disabled={busy}
+            className="px-3 py-1.5 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-400/30 rounded-lg text-yellow-100 text-xs transition-colors"
+          >
+            Merge into "{clash.name}"
+          </button>
+        )}
+        <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-white/60 hover:text-white text-xs transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => void handleSave()}
+          disabled={busy || (!!clash && !!editing.id)}
+          className="px-3 py-1.5 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-xs transition-colors"
+        >
+          {busy ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-5">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-white">Labels</h3>
+            <p className="text-white/60 text-sm">Shared by this project's tasks and delivery tasks</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {labels.length === 0 && <p className="text-white/50 text-sm">No labels yet.</p>}
+          {labels.map(label => (
+            <div key={label.id} className="bg-white/5 border border-white/10 rounded-xl p-3">
+              {editing?.id === label.id ? renderEditor() : (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: label.color }} />
+                    <span className="text-white">{label.name}</span>
+                    <span className="text-white/50 text-xs">{uses(label.usage_count)}</span>
+                  </div>
+                  <div className="flex items-center space-x-3 text-xs">
+                    <button
+                      onClick={() => {
+                        setMerging(null);
+                        setEditing({ id: label.id, name: label.name, color: label.color });
+                      }}
+                      className="text-white/60 hover:text-white transition-colors"
+                    >
+                      Edit
+                    </button>
+                    {labels.length > 1 && (
+                      <button onClick={() => startMerge(label)} className="text-white/60 hover:text-white transition-colors">
+                        Merge
+                      </button>
+                    )}
+                    <button onClick={() => void handleDelete(label)} className="text-red-300/80 hover:text-red-200 transition-colors">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {merging?.sourceId === label.id && (
+                <div className="flex items-center gap-2 mt-3">
+                  <span className="text-white/70 text-xs">Merge into</span>
+                  <select
+                    value={merging.targetId}
+                    onChange={(e) => setMerging({ ...merging, targetId: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                  >
+                    {labels.filter(l => l.id !== label.id).map(l => (
+                      <option key={l.id} value={l.id} className="bg-gray-800">{l.name} ({uses(l.usage_count)})</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => void handleMerge(merging.sourceId, merging.targetId)}
+                    disabled={busy}
+                    className="px-3 py-1.5 bg-yellow-500/20 hover:bg-yellow-500/30 disabled:opacity-50 border border-yellow-400/30 rounded-lg text-yellow-100 text-xs transition-colors"
+                  >
+                    Merge
+                  </button>
+                  <button onClick={() => setMerging(null)} className="px-2 py-1.5 text-white/60 hover:text-white text-xs transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {editing?.id === null ? (
+          <div className="bg-white/5 border border-white/10 rounded-xl p-3">{renderEditor()}</div>
+        ) : (
+          <button
+            onClick={() => {
+              setMerging(null);
+              setEditing({ id: null, name: '', color: LABEL_COLORS[labels.length % LABEL_COLORS.length]! });
+            }}
+            className="w-full px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/20 rounded-lg text-white/70 transition-colors"
+          >
+            + New Label
+          </button>
+        )}
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabelManager;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import type { TaskLabel } from '../../types';
+import { LABEL_COLORS, TaskLabelService } from '../../services/taskLabelService';
+
+interface LabelPickerProps {
+  labels: TaskLabel[];
+  selectedIds: string[];
+  onChange: (labelIds: string[]) => void;
+  onCreate?: (name: string, color: string) => Promise<TaskLabel | null>;
+  disabled?: boolean;
+}
+
+// Toggles project labels on an item, with an inline form for a new label
+const LabelPicker: React.FC<LabelPickerProps> = ({ labels, selectedIds, onChange, onCreate, disabled = false }) => {
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(LABEL_COLORS[0]!);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const toggle = (labelId: string) => {
+    onChange(selectedIds.includes(labelId) ? selectedIds.filter(id => id !== labelId) : [...selectedIds, labelId]);
+  };
+
+  const handleCreate = async () => {
+    if (!onCreate) return;
+    const problem = TaskLabelService.validateLabel(name, color, labels);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    const label = await onCreate(name, color);
+    setSaving(false);
+    if (!label) {
+      setError('Failed to create label');
+      return;
+    }
+    onChange([...selectedIds, label.id]);
+    setName('');
+    setError(null);
+    setCreating(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {labels.length === 0 && !creating && <span className="text-white/50 text-sm">No labels in this project yet.</span>}
+        {labels.map(label => {
+          const selected = selectedIds.includes(label.id);
+          return (
+            <button
+              key={label.id}
+              type="button"
+              onClick={() => toggle(label.id)}
+              disabled={disabled}
+              className={`text-xs px-3 py-1 rounded-full border transition-opacity ${selected ? '' : 'opacity-50 hover:opacity-80'}`}
+              style={{ backgroundColor: `${label.color}${selected ? '55' : '22'}`, borderColor: `${label.color}80`, color: '#fff' }}
+            >
+              {selected ? '✓ ' : ''}{label.name}
+            </button>
+          );
+        })}
+        {onCreate && !creating && (
+          <button
+            type="button"
+            onClick={() => setCreating(true)}
+            disabled={disabled}
+            className="text-xs px-3 py-1 rounded-full border border-dashed border-white/30 text-white/70 hover:text-white transition-colors"
+          >
+            + New label
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                void handleCreate();
+              }
+            }}
+            className="flex-1 min-w-[8rem] bg-white/10 border border-white/20 rounded-lg text-white text-sm px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-white/30 placeholder-white/50"
+            placeholder="Label name"
+            autoFocus
+          />
+          <div className="flex gap-1">
+            {LABEL_COLORS.map(swatch => (
+              <button
+                key={swatch}
+                type="button"
+                onClick={() => setColor(swatch)}
+                className={`w-5 h-5 rounded-full border-2 ${color === swatch ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: swatch }}
+                title={swatch}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={saving}
+            className="px-3 py-1.5 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-xs transition-colors"
+          >
+            {saving ? 'Adding...' : 'Add'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setCreating(false);
+              setError(null);
+            }}
+            className="px-2 py-1.5 text-white/60 hover:text-white text-xs transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {error && <p className="text-red-300 text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default LabelPicker;
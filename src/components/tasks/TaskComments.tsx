@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { useAuth } from '../../contexts/SimpleAuthContext';
+import { realtime } from '../../lib/supabase.client';
+import { DELETED_COMMENT_CONTENT, TaskCommentService } from '../../services/taskCommentService';
+import { renderMarkdown } from '../../utils/markdown';
+import type { ProjectMember, TaskComment } from '../../types';
+
+interface TaskCommentsProps {
+  taskId: string;
+  projectId: string;
+  className?: string;
+}
+
+interface CommentEditorProps {
+  members: ProjectMember[];
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50';
+
+// Text area with @mention suggestions for the member handle being typed
+const CommentEditor: React.FC<CommentEditorProps> = ({
+  members,
+  initialValue = '',
+  placeholder = 'Write a comment… Markdown and @mentions are supported',
+  submitLabel,
+  onSubmit,
+  onCancel
+}) => {
+  const [content, setContent] = useState(initialValue);
+  const [saving, setSaving] = useState(false);
+
+  const mentionQuery = /(?:^|\s)@([\w.-]*)$/.exec(content)?.[1]?.toLowerCase();
+  const suggestions = mentionQuery === undefined
+    ? []
+    : members.filter(member => member.handle.startsWith(mentionQuery)).slice(0, 5);
+
+  const insertMention = (member: ProjectMember) => {
+    setContent(prev => prev.replace(/@[\w.-]*$/, `@${member.handle} `));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    setSaving(true);
+    const saved = await onSubmit(content);
+    setSaving(false);
+    if (saved && !onCancel) setContent('');
+  };
+
+  return (
+    <form onSubmit={(e) => void handleSubmit(e)} className="space-y-2">
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={3}
+        className={`${inputClass} resize-y`}
+        placeholder={placeholder}
+        disabled={saving}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map(member => (
+            <button
+              key={member.id}
+              type="button"
+              onClick={() => insertMention(member)}
+              className="px-2 py-1 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 border border-blue-400/30 text-blue-100 text-xs transition-colors"
+            >
+              @{member.handle}{member.email ? ` · ${member.email}` : ''}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 text-white/70 hover:text-white text-sm transition-colors">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={saving || !content.trim()}
+          className="px-4 py-1.5 bg-blue-500/30 hover:bg-blue-500/40 disabled:opacity-50 border border-blue-400/30 rounded-lg text-blue-100 text-sm transition-colors"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Threaded discussion on a task, kept live through a realtime subscription
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, projectId, className = '' }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [fetchedComments, fetchedMembers] = await Promise.all([
+        TaskCommentService.getComments(taskId),
+        TaskCommentService.getProjectMembers(projectId)
+      ]);
+      setComments(fetchedComments);
+      setMembers(fetchedMembers);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId, projectId]);
+
+  useEffect(() => {
+    void loadComments();
+  }, [loadComments]);
+
+  useEffect(() => {
+    const channel = realtime.subscribeToTable(
+      'task_comments',
+      (payload: RealtimePostgresChangesPayload<TaskComment>) => {
+        setComments(prev => TaskCommentService.applyChange(prev, payload));
+      },
+      { filter: `task_id=eq.${taskId}` }
+    );
+    return () => {
+      void realtime.unsubscribe(channel);
+    };
+  }, [taskId]);
+
+  const threads = useMemo(() => TaskCommentService.buildThreads(comments), [comments]);
+  const handles = useMemo(() => members.map(member => member.handle), [members]);
+
+  const authorName = (userId: string) => {
+    if (userId === user?.id) return 'You';
+    const member = members.find(m => m.id === userId);
+    return member ? `@${member.handle}` : `Member ${userId.slice(0, 8)}`;
+  };
+
+  // Own changes are applied straight away; the realtime echo is deduplicated by id
+  const upsertComment = (comment: TaskComment) => {
+    setComments(prev => TaskCommentService.mergeComment(prev, comment));
+  };
+
+  const handleAdd = async (content: string, parent: TaskComment | null = null) => {
+    if (!user?.id) {
+      setError('Sign in to comment');
+      return false;
+    }
+    setError(null);
+    const comment = await TaskCommentService.addComment(taskId, user.id, content, members, parent);
+    if (!comment) {
+      setError('Failed to post comment');
+      return false;
+    }
+    upsertComment(comment);
+    setReplyingTo(null);
+    return true;
+  };
+
+  const handleEdit = async (comment: TaskComment, content: string) => {
+    setError(null);
+    const updated = await TaskCommentService.updateComment(comment.id, content, members);
+    if (!updated) {
+      setError('Failed to update comment');
+      return false;
+    }
+    upsertComment(updated);
+    setEditingId(null);
+    return true;
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!window.confirm('Delete this comment?')) return;
+    setError(null);
+    if (!(await TaskCommentService.deleteComment(comment.id))) {
+      setError('Failed to delete comment');
+      return;
+    }
+    upsertComment({ ...comment, deleted_at: new Date().toISOString(), content: DELETED_COMMENT_CONTENT, mentions: [] });
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    if (comment.deleted_at) {
+      return <p className="text-white/40 text-sm italic">This comment was deleted.</p>;
+    }
+    const isOwn = comment.user_id === user?.id;
+    const edited = new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <div className="text-sm">
+            <span className="text-white font-medium">{authorName(comment.user_id)}</span>
+            <span className="text-white/50 ml-2">{new Date(comment.created_at).toLocaleString()}</span>
+            {edited && <span className="text-white/40 ml-1">(edited)</span>}
+          </div>
+          <div className="flex items-center space-x-3 text-xs">
+            {!isReply && (
+              <button onClick={() => setReplyingTo(comment.id)} className="text-white/60 hover:text-white transition-colors">
+                Reply
+              </button>
+            )}
+            {isOwn && (
+              <>
+                <button onClick={() => setEditingId(comment.id)} className="text-white/60 hover:text-white transition-colors">
+                  Edit
+                </button>
+                <button onClick={() => void handleDelete(comment)} className="text-red-300/80 hover:text-red-200 transition-colors">
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        {editingId === comment.id ? (
+          <CommentEditor
+            members={members}
+            initialValue={comment.content}
+            submitLabel="Save"
+            onSubmit={(content) => handleEdit(comment, content)}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : comment.content_type === 'markdown' ? (
+          <div className="text-white/85 text-sm space-y-2 break-words">
+            {renderMarkdown(comment.content, { mentions: handles })}
+          </div>
+        ) : (
+          <p className="text-white/85 text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={className}>
+      <h4 className="text-white font-medium text-sm mb-3">
+        Discussion{threads.length > 0 ? ` (${comments.filter(c => !c.deleted_at).length})` : ''}
+      </h4>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin w-6 h-6 border-2 border-white/30 border-t-white rounded-full"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {threads.length === 0 && <p className="text-white/50 text-sm">No comments yet.</p>}
+
+          {threads.map(({ comment, replies }) => (
+            <div key={comment.id} className="bg-white/5 border border-white/10 rounded-xl p-4">
+              {renderComment(comment, false)}
+
+              {(replies.length > 0 || replyingTo === comment.id) && (
+                <div className="mt-3 pl-4 border-l border-white/20 space-y-3">
+                  {replies.map(reply => (
+                    <div key={reply.id}>{renderComment(reply, true)}</div>
+                  ))}
+                  {replyingTo === comment.id && (
+                    <CommentEditor
+                      members={members}
+                      placeholder="Write a reply…"
+                      submitLabel="Reply"
+                      onSubmit={(content) => handleAdd(content, comment)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {error && (
+            <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3 text-red-200 text-sm">{error}</div>
+          )}
+
+          <CommentEditor members={members} submitLabel="Comment" onSubmit={(content) => handleAdd(content)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskComments;
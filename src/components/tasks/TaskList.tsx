@@ -1,8 +1,15 @@
-import React, { useState } from 'react';
-import type { Task } from '../../types';
+import React, { useEffect, useState } from 'react';
+import type { Task, TaskDependency, TaskLabel, TaskLabelAssignment } from '../../types';
+import { TaskDependencyService } from '../../services/taskDependencyService';
+import { TaskLabelService, type LabelMatch } from '../../services/taskLabelService';
+import LabelChips from './LabelChips';
+import LabelFilterBar from './LabelFilterBar';
 
 interface TaskListProps {
   tasks: Task[];
+  labels?: TaskLabel[]; // The project's labels
+  labelAssignments?: TaskLabelAssignment[];
+  onManageLabels?: () => void;
   onTaskUpdate: (task: Task) => Promise<void>;
   onTaskDelete: (taskId: string) => Promise<void>;
   onTaskEdit: (task: Task) => void;
@@ -14,9 +21,28 @@ const TaskList: React.FC<TaskListProps> = ({
   onTaskUpdate,
   onTaskDelete,
   onTaskEdit,
+  labels = [],
+  labelAssignments = [],
+  onManageLabels,
   loading = false
 }) => {
   const [updatingTasks, setUpdatingTasks] = useState<Set<string>>(new Set());
+  const [selectedLabelIds, setSelectedLabelIds] = useState<string[]>([]);
+  const [labelMatch, setLabelMatch] = useState<LabelMatch>('any');
+  const [groupByLabel, setGroupByLabel] = useState(false);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+
+  // Dependencies of the listed tasks, reloaded when the set of tasks changes
+  const taskIdsKey = tasks.map(task => task.id).join(',');
+  useEffect(() => {
+    let current = true;
+    void TaskDependencyService.getDependencies(taskIdsKey ? taskIdsKey.split(',') : []).then(loaded => {
+      if (current) setDependencies(loaded);
+    });
+    return () => {
+      current = false;
+    };
+  }, [taskIdsKey]);
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -65,6 +91,11 @@ const TaskList: React.FC<TaskListProps> = ({
 
   const handleToggleCompletion = async (task: Task) => {
     const taskId = task.id;
+    if (!task.completed) {
+      const warning = TaskDependencyService.getTransitionWarning(task, 'completed', dependencies, tasks);
+      if (warning && !confirm(`${warning} Complete it anyway?`)) return;
+    }
+
     setUpdatingTasks(prev => new Set(prev).add(taskId));
 
     try {
@@ -143,115 +174,172 @@ const TaskList: React.FC<TaskListProps> = ({
     );
   }
 
-  return (
-    <div className="space-y-3">
-      {tasks.map((task) => {
-        const isUpdating = updatingTasks.has(task.id);
-        const overdue = isOverdue(task);
-
-        return (
-          <div
-            key={task.id}
-            className={`bg-white/10 border rounded-lg p-4 transition-all duration-300 hover:bg-white/15 ${
-              overdue ? 'border-red-400/30' : 'border-white/20'
-            } ${task.completed ? 'opacity-75' : ''}`}
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex items-start space-x-3 flex-1">
-                {/* Completion Checkbox */}
-                <button
-                  onClick={() => handleToggleCompletion(task)}
-                  disabled={isUpdating}
-                  className={`mt-1 w-5 h-5 rounded border-2 flex items-center justify-center transition-all duration-200 ${
-                    task.completed
-                      ? 'bg-green-500/30 border-green-400'
-                      : 'border-white/30 hover:border-white/50'
-                  } ${isUpdating ? 'animate-pulse' : ''}`}
-                >
-                  {task.completed && (
-                    <svg className="w-3 h-3 text-green-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
-                    </svg>
-                  )}
-                </button>
-
-                {/* Task Content */}
-                <div className="flex-1">
-                  <div className="flex items-center space-x-2 mb-2">
-                    <h4 className={`font-medium ${task.completed ? 'line-through text-white/60' : 'text-white'}`}>
-                      {task.name}
-                    </h4>
-                    {overdue && (
-                      <span className="text-red-300 text-xs bg-red-500/20 px-2 py-1 rounded-full">
-                        Overdue
-                      </span>
-                    )}
-                  </div>
-
-                  {task.description && (
-                    <p className={`text-sm mb-2 ${task.completed ? 'text-white/40' : 'text-white/70'}`}>
-                      {task.description}
-                    </p>
-                  )}
-
-                  <div className="flex flex-wrap items-center gap-2 text-xs">
-                    {/* Status */}
-                    <span className={`px-2 py-1 rounded-full font-medium ${getStatusColor(task.status)}`}>
-                      {getStatusText(task.status)}
-                    </span>
-
-                    {/* Priority */}
-                    <span className={`px-2 py-1 rounded-full border font-medium ${getPriorityColor(task.priority)}`}>
-                      {task.priority?.toUpperCase()}
-                    </span>
-
-                    {/* Due Date */}
-                    {task.due_date && (
-                      <span className={`px-2 py-1 rounded-full ${
-                        overdue ? 'text-red-300 bg-red-500/20' : 'text-white/60 bg-white/10'
-                      }`}>
-                        Due {formatDate(task.due_date)}
-                      </span>
-                    )}
-
-                    {/* Assigned To */}
-                    {task.assigned_to && (
-                      <span className="px-2 py-1 rounded-full text-white/60 bg-white/10">
-                        @{task.assigned_to}
-                      </span>
-                    )}
-                  </div>
-                </div>
+  const renderTask = (task: Task) => {
+    const isUpdating = updatingTasks.has(task.id);
+    const overdue = isOverdue(task);
+    const blockers = task.completed ? [] : TaskDependencyService.getOpenBlockers(task.id, dependencies, tasks);
+    const blockedTasks = TaskDependencyService.getBlockedTasks(task.id, dependencies, tasks);
+
+    return (
+      <div
+        key={task.id}
+        className={`bg-white/10 border rounded-lg p-4 transition-all duration-300 hover:bg-white/15 ${
+          overdue ? 'border-red-400/30' : 'border-white/20'
+        } ${task.completed ? 'opacity-75' : ''}`}
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-3 flex-1">
+            {/* Completion Checkbox */}
+            <button
+              onClick={() => handleToggleCompletion(task)}
+              disabled={isUpdating}
+              className={`mt-1 w-5 h-5 rounded border-2 flex items-center justify-center transition-all duration-200 ${
+                task.completed
+                  ? 'bg-green-500/30 border-green-400'
+                  : 'border-white/30 hover:border-white/50'
+              } ${isUpdating ? 'animate-pulse' : ''}`}
+            >
+              {task.completed && (
+                <svg className="w-3 h-3 text-green-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
+                </svg>
+              )}
+            </button>
+
+            {/* Task Content */}
+            <div className="flex-1">
+              <div className="flex items-center space-x-2 mb-2">
+                <h4 className={`font-medium ${task.completed ? 'line-through text-white/60' : 'text-white'}`}>
+                  {task.name}
+                </h4>
+                {overdue && (
+                  <span className="text-red-300 text-xs bg-red-500/20 px-2 py-1 rounded-full">
+                    Overdue
+                  </span>
+                )}
+                {blockers.length > 0 && (
+                  <span
+                    className="text-orange-300 text-xs bg-orange-500/20 px-2 py-1 rounded-full"
+                    title={blockers.map(t => t.name).join(', ')}
+                  >
+                    Blocked by {blockers.length === 1 ? blockers[0]?.name : `${blockers.length} tasks`}
+                  </span>
+                )}
               </div>
 
-              {/* Action Buttons */}
-              <div className="flex items-center space-x-1 ml-4">
-                <button
-                  onClick={() => onTaskEdit(task)}
-                  disabled={isUpdating}
-                  className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded transition-colors"
-                  title="Edit task"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                  </svg>
-                </button>
-
-                <button
-                  onClick={() => handleDelete(task.id)}
-                  disabled={isUpdating}
-                  className="p-2 text-white/60 hover:text-red-300 hover:bg-red-500/10 rounded transition-colors"
-                  title="Delete task"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                </button>
+              {task.description && (
+                <p className={`text-sm mb-2 ${task.completed ? 'text-white/40' : 'text-white/70'}`}>
+                  {task.description}
+                </p>
+              )}
+
+              <LabelChips
+                labels={TaskLabelService.getItemLabels(task.id, labels, labelAssignments, 'task_id')}
+                className="mb-2"
+              />
+
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                {/* Status */}
+                <span className={`px-2 py-1 rounded-full font-medium ${getStatusColor(task.status)}`}>
+                  {getStatusText(task.status)}
+                </span>
+
+                {/* Priority */}
+                <span className={`px-2 py-1 rounded-full border font-medium ${getPriorityColor(task.priority)}`}>
+                  {task.priority?.toUpperCase()}
+                </span>
+
+                {/* Due Date */}
+                {task.due_date && (
+                  <span className={`px-2 py-1 rounded-full ${
+                    overdue ? 'text-red-300 bg-red-500/20' : 'text-white/60 bg-white/10'
+                  }`}>
+                    Due {formatDate(task.due_date)}
+                  </span>
+                )}
+
+                {/* Blocking */}
+                {blockedTasks.length > 0 && !task.completed && (
+                  <span
+                    className="px-2 py-1 rounded-full text-white/60 bg-white/10"
+                    title={blockedTasks.map(t => t.name).join(', ')}
+                  >
+                    Blocking {blockedTasks.length}
+                  </span>
+                )}
+
+                {/* Assigned To */}
+                {task.assigned_to && (
+                  <span className="px-2 py-1 rounded-full text-white/60 bg-white/10">
+                    @{task.assigned_to}
+                  </span>
+                )}
               </div>
             </div>
           </div>
-        );
-      })}
+
+          {/* Action Buttons */}
+          <div className="flex items-center space-x-1 ml-4">
+            <button
+              onClick={() => onTaskEdit(task)}
+              disabled={isUpdating}
+              className="p-2 text-white/60 hover:text-white hover:bg-white/10 rounded transition-colors"
+              title="Edit task"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+
+            <button
+              onClick={() => handleDelete(task.id)}
+              disabled={isUpdating}
+              className="p-2 text-white/60 hover:text-red-300 hover:bg-red-500/10 rounded transition-colors"
+              title="Delete task"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const visibleTasks = TaskLabelService.filterByLabels(tasks, selectedLabelIds, labelAssignments, 'task_id', labelMatch);
+
+  return (
+    <div className="space-y-3">
+      {(labels.length > 0 || onManageLabels) && (
+        <LabelFilterBar
+          labels={labels}
+          selectedIds={selectedLabelIds}
+          onSelectedChange={setSelectedLabelIds}
+          match={labelMatch}
+          onMatchChange={setLabelMatch}
+          groupByLabel={groupByLabel}
+          onGroupByLabelChange={setGroupByLabel}
+          onManage={onManageLabels}
+        />
+      )}
+
+      {visibleTasks.length === 0 && (
+        <p className="text-white/60 text-sm text-center py-6">No tasks match the selected labels.</p>
+      )}
+
+      {groupByLabel
+        ? TaskLabelService.groupByLabel(visibleTasks, labels, labelAssignments, 'task_id').map(group => (
+            <div key={group.label?.id ?? 'unlabeled'} className="space-y-3">
+              <h4 className="flex items-center space-x-2 text-white/80 text-sm font-medium pt-2">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: group.label?.color ?? '#6B7280' }} />
+                <span>{group.label?.name ?? 'No label'}</span>
+                <span className="text-white/50">{group.items.length}</span>
+              </h4>
+              {group.items.map(task => renderTask(task))}
+            </div>
+          ))
+        : visibleTasks.map(task => renderTask(task))}
     </div>
   );
 };
@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/SimpleAuthContext';
-import type { Task } from '../../types';
+import type { Task, TaskDependency, TaskDependencyType, TaskLabel, TaskLabelAssignment } from '../../types';
+import { TaskService } from '../../services/taskService';
+import { DEPENDENCY_TYPE_LABELS, TaskDependencyService, type DependencyDraft } from '../../services/taskDependencyService';
+import { TaskLabelService } from '../../services/taskLabelService';
+import TaskComments from './TaskComments';
+import AttachmentPanel from '../projects/AttachmentPanel';
+import LabelPicker from './LabelPicker';
 
 interface TaskModalProps {
   isOpen: boolean;
@@ -29,9 +35,85 @@ const TaskModal: React.FC<TaskModalProps> = ({
     priority: 'medium' as 'low' | 'medium' | 'high' | 'urgent',
     status: 'todo' as 'todo' | 'in_progress' | 'completed' | 'cancelled',
     due_date: '',
-    assigned_to: ''
+    assigned_to: '',
+    estimated_days: 1
   });
 
+  // Dependency pickers, only available once the task exists
+  const [projectTasks, setProjectTasks] = useState<Task[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [dependencyDrafts, setDependencyDrafts] = useState<DependencyDraft[]>([]);
+
+  // Labels, likewise assigned once the task exists
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const [labelAssignments, setLabelAssignments] = useState<TaskLabelAssignment[]>([]);
+  const [selectedLabelIds, setSelectedLabelIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen || !task) {
+      setDependencyDrafts([]);
+      setSelectedLabelIds([]);
+      return;
+    }
+
+    const loadDependencies = async () => {
+      const [fetchedTasks, fetchedLabels, fetchedAssignments] = await Promise.all([
+        TaskService.getTasks(projectId),
+        TaskLabelService.getLabels(projectId),
+        TaskLabelService.getAssignments('task_id', [task.id])
+      ]);
+      const fetchedDependencies = await TaskDependencyService.getDependencies(fetchedTasks.map(t => t.id));
+      setLabels(fetchedLabels);
+      setLabelAssignments(fetchedAssignments);
+      setSelectedLabelIds(TaskLabelService.getLabelIds(task.id, fetchedAssignments, 'task_id'));
+      setProjectTasks(fetchedTasks);
+      setDependencies(fetchedDependencies);
+      setDependencyDrafts(
+        fetchedDependencies
+          .filter(d => d.task_id === task.id)
+          .map(d => ({ depends_on_task_id: d.depends_on_task_id, dependency_type: d.dependency_type }))
+      );
+    };
+    void loadDependencies();
+  }, [isOpen, task, projectId]);
+
+  // Other rows are replaced on save, so only dependencies of other tasks can close a cycle
+  const otherDependencies = dependencies.filter(d => d.task_id !== task?.id);
+  const candidateTasks = projectTasks.filter(t => t.id !== task?.id);
+  const getDraftError = (draft: DependencyDraft, index: number) => {
+    if (dependencyDrafts.some((d, i) => i < index && d.depends_on_task_id === draft.depends_on_task_id)) {
+      return 'Already linked above';
+    }
+    if (task && TaskDependencyService.wouldCreateCycle(task.id, draft.depends_on_task_id, otherDependencies)) {
+      return 'This would create a circular dependency';
+    }
+    return null;
+  };
+  const hasDraftErrors = dependencyDrafts.some((draft, index) => getDraftError(draft, index) !== null);
+  const statusWarning = task
+    ? TaskDependencyService.getTransitionWarning(
+        task,
+        formData.status,
+        dependencyDrafts.map(draft => ({ ...draft, task_id: task.id })),
+        projectTasks
+      )
+    : null;
+  const blockedTasks = task ? TaskDependencyService.getBlockedTasks(task.id, dependencies, projectTasks) : [];
+
+  const addDependencyDraft = () => {
+    const next = candidateTasks.find(t => !dependencyDrafts.some(d => d.depends_on_task_id === t.id));
+    if (!next) return;
+    setDependencyDrafts(prev => [...prev, { depends_on_task_id: next.id, dependency_type: 'blocks' }]);
+  };
+
+  const updateDependencyDraft = (index: number, changes: Partial<DependencyDraft>) => {
+    setDependencyDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const removeDependencyDraft = (index: number) => {
+    setDependencyDrafts(prev => prev.filter((_, i) => i !== index));
+  };
+
   // Reset form when modal opens/closes or task changes
   useEffect(() => {
     if (isOpen) {
@@ -43,7 +125,8 @@ const TaskModal: React.FC<TaskModalProps> = ({
           priority: task.priority || 'medium',
           status: task.status || 'todo',
           due_date: task.due_date || '',
-          assigned_to: task.assigned_to || ''
+          assigned_to: task.assigned_to ?? '',
+          estimated_days: task.estimated_days ?? 1
         });
       } else {
         // Creating new task
@@ -53,7 +136,8 @@ const TaskModal: React.FC<TaskModalProps> = ({
           priority: 'medium',
           status: 'todo',
           due_date: '',
-          assigned_to: ''
+          assigned_to: '',
+          estimated_days: 1
         });
       }
       setError(null);
@@ -76,6 +160,15 @@ const TaskModal: React.FC<TaskModalProps> = ({
       return;
     }
 
+    if (hasDraftErrors) {
+      setError('Fix the highlighted dependencies before saving');
+      return;
+    }
+
+    if (statusWarning && !window.confirm(`${statusWarning} Continue anyway?`)) {
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -93,6 +186,26 @@ const TaskModal: React.FC<TaskModalProps> = ({
       }
 
       await onSave(taskData);
+
+      if (task) {
+        const synced = await TaskDependencyService.syncDependencies(
+          task.id,
+          dependencyDrafts,
+          dependencies,
+          user?.id ?? null
+        );
+        if (!synced) {
+          setError('Task saved, but some dependencies could not be updated');
+          return;
+        }
+
+        const labelled = await TaskLabelService.syncLabels('task_id', task.id, selectedLabelIds, labelAssignments, user?.id ?? null);
+        if (!labelled) {
+          setError('Task saved, but its labels could not be updated');
+          return;
+        }
+      }
+
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save task');
@@ -205,20 +318,46 @@ const TaskModal: React.FC<TaskModalProps> = ({
             </div>
           </div>
 
-          {/* Due Date */}
-          <div>
-            <label htmlFor="due_date" className="block text-white font-medium text-sm mb-2">
-              Due Date
-            </label>
-            <input
-              type="date"
-              id="due_date"
-              name="due_date"
-              value={formData.due_date}
-              onChange={handleInputChange}
-              className="w-full bg-white/10 border border-white/20 rounded-lg text-white px-4 py-3 focus:outline-none focus:ring-2 focus:ring-white/30"
-              disabled={loading}
-            />
+          {statusWarning && (
+            <div className="bg-yellow-500/20 border border-yellow-400/30 rounded-lg p-4">
+              <p className="text-yellow-100 text-sm">{statusWarning}</p>
+            </div>
+          )}
+
+          {/* Due Date and Estimate Row */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="due_date" className="block text-white font-medium text-sm mb-2">
+                Due Date
+              </label>
+              <input
+                type="date"
+                id="due_date"
+                name="due_date"
+                value={formData.due_date}
+                onChange={handleInputChange}
+                className="w-full bg-white/10 border border-white/20 rounded-lg text-white px-4 py-3 focus:outline-none focus:ring-2 focus:ring-white/30"
+                disabled={loading}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="estimated_days" className="block text-white font-medium text-sm mb-2">
+                Estimate (days)
+              </label>
+              <input
+                type="number"
+                id="estimated_days"
+                min={1}
+                value={formData.estimated_days}
+                onChange={(e) => {
+                  const days = parseInt(e.target.value);
+                  setFormData(prev => ({ ...prev, estimated_days: Number.isNaN(days) ? 1 : Math.max(days, 1) }));
+                }}
+                className="w-full bg-white/10 border border-white/20 rounded-lg text-white px-4 py-3 focus:outline-none focus:ring-2 focus:ring-white/30"
+                disabled={loading}
+              />
+            </div>
           </div>
 
           {/* Assigned To */}
@@ -238,6 +377,98 @@ const TaskModal: React.FC<TaskModalProps> = ({
             />
           </div>
 
+          {/* Labels */}
+          <div>
+            <label className="block text-white font-medium text-sm mb-2">
+              Labels
+            </label>
+            {!task ? (
+              <p className="text-white/50 text-sm">Save the task first to add labels.</p>
+            ) : (
+              <LabelPicker
+                labels={labels}
+                selectedIds={selectedLabelIds}
+                onChange={setSelectedLabelIds}
+                onCreate={async (name, color) => {
+                  const label = await TaskLabelService.createLabel(projectId, { name, color });
+                  if (label) setLabels(prev => [...prev, label]);
+                  return label;
+                }}
+                disabled={loading}
+              />
+            )}
+          </div>
+
+          {/* Dependencies */}
+          <div>
+            <label className="block text-white font-medium text-sm mb-2">
+              Dependencies
+            </label>
+            {!task ? (
+              <p className="text-white/50 text-sm">Save the task first to link it to other tasks.</p>
+            ) : (
+              <div className="space-y-3">
+                {dependencyDrafts.map((draft, index) => {
+                  const draftError = getDraftError(draft, index);
+                  return (
+                    <div key={index}>
+                      <div className="flex gap-2">
+                        <select
+                          value={draft.dependency_type}
+                          onChange={(e) => updateDependencyDraft(index, { dependency_type: e.target.value as TaskDependencyType })}
+                          className="bg-white/10 border border-white/20 rounded-lg text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-white/30"
+                          disabled={loading}
+                        >
+                          {(Object.keys(DEPENDENCY_TYPE_LABELS) as TaskDependencyType[]).map(type => (
+                            <option key={type} value={type}>{DEPENDENCY_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={draft.depends_on_task_id}
+                          onChange={(e) => updateDependencyDraft(index, { depends_on_task_id: e.target.value })}
+                          className={`flex-1 bg-white/10 border rounded-lg text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-white/30 ${
+                            draftError ? 'border-red-400/50' : 'border-white/20'
+                          }`}
+                          disabled={loading}
+                        >
+                          {candidateTasks.map(t => (
+                            <option key={t.id} value={t.id}>
+                              {t.name}{TaskDependencyService.isOpen(t) ? '' : ' (done)'}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => removeDependencyDraft(index)}
+                          className="px-3 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-400/30 rounded-lg text-red-300 transition-colors"
+                          disabled={loading}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      {draftError && <p className="text-red-300 text-xs mt-1">{draftError}</p>}
+                    </div>
+                  );
+                })}
+                {candidateTasks.length > dependencyDrafts.length && (
+                  <button
+                    type="button"
+                    onClick={addDependencyDraft}
+                    className="w-full px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/20 rounded-lg text-white/70 transition-colors"
+                    disabled={loading}
+                  >
+                    + Add Dependency
+                  </button>
+                )}
+                {blockedTasks.length > 0 && (
+                  <p className="text-white/60 text-xs">
+                    Blocking: {blockedTasks.map(t => t.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-between pt-4">
             <button
@@ -268,6 +499,14 @@ const TaskModal: React.FC<TaskModalProps> = ({
             </button>
           </div>
         </form>
+
+        {/* Attachments and discussion - outside the form, both save on their own */}
+        {task && (
+          <div className="px-6 pb-6 space-y-6">
+            <AttachmentPanel projectId={projectId} taskId={task.id} className="border-t border-white/20 pt-6" />
+            <TaskComments taskId={task.id} projectId={projectId} className="border-t border-white/20 pt-6" />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -34,6 +34,7 @@ export type Database = {
           ai_generated: boolean | null
           context: Json | null
           success_score: number | null
+          objective_id: string | null
         }
         Insert: {
           id?: string
@@ -51,6 +52,7 @@ export type Database = {
           ai_generated?: boolean | null
           context?: Json | null
           success_score?: number | null
+          objective_id?: string | null
         }
         Update: {
           id?: string
@@ -68,6 +70,7 @@ export type Database = {
           ai_generated?: boolean | null
           context?: Json | null
           success_score?: number | null
+          objective_id?: string | null
         }
       }
       tasks: {
@@ -87,6 +90,7 @@ export type Database = {
           order_index: number | null
           assigned_to: string | null
           completed_at: string | null
+          estimated_days: number | null
         }
         Insert: {
           id?: string
@@ -104,6 +108,7 @@ export type Database = {
           order_index?: number | null
           assigned_to?: string | null
           completed_at?: string | null
+          estimated_days?: number | null
         }
         Update: {
           id?: string
@@ -121,6 +126,7 @@ export type Database = {
           order_index?: number | null
           assigned_to?: string | null
           completed_at?: string | null
+          estimated_days?: number | null
         }
       }
       users: {
@@ -277,12 +283,59 @@ export type Database = {
           created_at?: string
         }
       }
+      task_comments: {
+        Row: {
+          id: string
+          task_id: string
+          parent_id: string | null
+          user_id: string
+          content: string
+          content_type: 'text' | 'markdown'
+          is_internal: boolean
+          mentions: string[]
+          created_at: string
+          updated_at: string
+          deleted_at: string | null
+        }
+        Insert: {
+          id?: string
+          task_id: string
+          parent_id?: string | null
+          user_id: string
+          content: string
+          content_type?: 'text' | 'markdown'
+          is_internal?: boolean
+          mentions?: string[]
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+        Update: {
+          id?: string
+          task_id?: string
+          parent_id?: string | null
+          user_id?: string
+          content?: string
+          content_type?: 'text' | 'markdown'
+          is_internal?: boolean
+          mentions?: string[]
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      merge_task_labels: {
+        Args: {
+          source_label_id: string
+          target_label_id: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       project_status: 'planning' | 'in_progress' | 'completed' | 'on_hold'
@@ -1,7 +1,7 @@
 // Enhanced Supabase client with latest 2025 best practices
 // https://supabase.com/docs/reference/javascript/typescript-support
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type RealtimeChannel } from '@supabase/supabase-js';
 import type { Database } from './database.types';
 
 // Environment validation with graceful fallback
@@ -225,7 +225,7 @@ export const realtime = {
     }
   ) => {
     return supabase
-      .channel(`${table}-changes`)
+      .channel(options?.filter ? `${table}-changes:${options.filter}` : `${table}-changes`)
       .on(
         'postgres_changes',
         {
@@ -239,6 +239,11 @@ export const realtime = {
       .subscribe();
   },
 
+  // Stop a subscription and drop its channel so it can be created again
+  unsubscribe: (channel: RealtimeChannel) => {
+    return supabase.removeChannel(channel);
+  },
+
   // Subscribe to presence (user online status)
   subscribeToPresence: (room: string, callback: (payload: any) => void) => {
     return supabase
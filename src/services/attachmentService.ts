@@ -0,0 +1,316 @@
+import { supabase } from '../lib/supabase.client'
+import type { AttachmentPreviewKind, ProjectAttachment, ProjectAttachmentUpdate } from '../types'
+
+// General file attachments on projects and tasks. Files go to the private
+// project-attachments bucket and are read through short-lived signed URLs;
+// the bucket's size and type limits mirror the ones checked here.
+
+export const ATTACHMENT_BUCKET = 'project-attachments'
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+
+// Extension fallbacks for files the browser reports without a type
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  zip: 'application/zip'
+}
+
+const ALLOWED_MIME_TYPES = new Set(Object.values(MIME_TYPES))
+
+export const ATTACHMENT_ACCEPT = Object.keys(MIME_TYPES).map(ext => `.${ext}`).join(',')
+
+// Storage.remove takes a bounded list of paths per request
+const REMOVE_BATCH_SIZE = 100
+
+export interface AttachmentUpload {
+  projectId: string
+  taskId?: string | null
+  userId: string
+  tags?: string[]
+  description?: string | null
+}
+
+export class AttachmentService {
+  // Newest first. taskId undefined lists every file in the project, null
+  // only the project-level ones
+  static async getAttachments(projectId: string, taskId?: string | null): Promise<ProjectAttachment[]> {
+    try {
+      let query = supabase
+        .from('project_attachments')
+        .select('*')
+        .eq('project_id', projectId)
+
+      if (taskId === null) {
+        query = query.is('task_id', null)
+      } else if (taskId !== undefined) {
+        query = query.eq('task_id', taskId)
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false })
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [AttachmentService] project_attachments table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [AttachmentService] Error fetching attachments:', error)
+        return []
+      }
+
+      return (data ?? []) as ProjectAttachment[]
+    } catch (error) {
+      console.error('❌ [AttachmentService] Error in getAttachments:', error)
+      return []
+    }
+  }
+
+  // Callers validate first; the stored object is removed again if its row
+  // cannot be written
+  static async uploadAttachment(file: File, upload: AttachmentUpload): Promise<ProjectAttachment | null> {
+    const filename = this.buildFilename(file.name)
+    const filePath = `${upload.projectId}/${upload.taskId ?? 'project'}/${filename}`
+
+    try {
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(filePath, file, { contentType: this.getMimeType(file), upsert: false })
+
+      if (uploadError) {
+        console.error('❌ [AttachmentService] Error uploading file:', uploadError)
+        return null
+      }
+
+      const { data, error } = await supabase
+        .from('project_attachments')
+        .insert([{
+          project_id: upload.projectId,
+          task_id: upload.taskId ?? null,
+          filename,
+          original_filename: file.name,
+          file_path: filePath,
+          file_size: file.size,
+          mime_type: this.getMimeType(file),
+          description: upload.description ?? null,
+          tags: this.normalizeTags(upload.tags ?? []),
+          uploaded_by: upload.userId
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [AttachmentService] Error saving attachment:', error)
+        await supabase.storage.from(ATTACHMENT_BUCKET).remove([filePath])
+        return null
+      }
+
+      return data as ProjectAttachment
+    } catch (error) {
+      console.error('❌ [AttachmentService] Error in uploadAttachment:', error)
+      return null
+    }
+  }
+
+  static async updateAttachment(id: string, updates: ProjectAttachmentUpdate): Promise<ProjectAttachment | null> {
+    try {
+      const { data, error } = await supabase
+        .from('project_attachments')
+        .update({
+          ...updates,
+          ...(updates.tags !== undefined && { tags: this.normalizeTags(updates.tags) }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [AttachmentService] Error updating attachment:', error)
+        return null
+      }
+
+      return data as ProjectAttachment
+    } catch (error) {
+      console.error('❌ [AttachmentService] Error in updateAttachment:', error)
+      return null
+    }
+  }
+
+  // The row goes first so a failed storage removal leaves an unreferenced
+  // object rather than a row pointing at nothing
+  static async deleteAttachment(attachment: ProjectAttachment): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('project_attachments')
+        .delete()
+        .eq('id', attachment.id)
+
+      if (error) {
+        console.error('❌ [AttachmentService] Error deleting attachment:', error)
+        return false
+      }
+
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .remove([attachment.file_path])
+
+      if (storageError) {
+        console.warn('⚠️ [AttachmentService] Attachment deleted but its file was not removed:', storageError)
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [AttachmentService] Error in deleteAttachment:', error)
+      return false
+    }
+  }
+
+  // Removes every stored file of a project. Run before the project itself is
+  // deleted: the rows cascade away with it, and the storage policies check
+  // the project's owner
+  static async removeProjectFiles(projectId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('project_attachments')
+        .select('file_path')
+        .eq('project_id', projectId)
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [AttachmentService] project_attachments table not found, no files to remove')
+          return true
+        }
+        console.error('❌ [AttachmentService] Error listing project files:', error)
+        return false
+      }
+
+      const paths = ((data ?? []) as { file_path: string }[]).map(row => row.file_path)
+      for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+        const { error: storageError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .remove(paths.slice(i, i + REMOVE_BATCH_SIZE))
+
+        if (storageError) {
+          console.error('❌ [AttachmentService] Error removing project files:', storageError)
+          return false
+        }
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [AttachmentService] Error in removeProjectFiles:', error)
+      return false
+    }
+  }
+
+  // Signed URLs keyed by file path. download makes the browser save the
+  // file, under the given name when it is a string
+  static async getSignedUrls(
+    paths: string[],
+    options?: { download?: string | boolean; expiresIn?: number }
+  ): Promise<Record<string, string>> {
+    if (paths.length === 0) return {}
+
+    try {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrls(paths, options?.expiresIn ?? 3600, { download: options?.download ?? false })
+
+      if (error) {
+        console.error('❌ [AttachmentService] Error signing file URLs:', error)
+        return {}
+      }
+
+      const urls: Record<string, string> = {}
+      for (const item of data) {
+        if (item.path && item.signedUrl) urls[item.path] = item.signedUrl
+      }
+      return urls
+    } catch (error) {
+      console.error('❌ [AttachmentService] Error in getSignedUrls:', error)
+      return {}
+    }
+  }
+
+  // Returns a message describing why the file cannot be attached, or null
+  static validateFile(file: File): string | null {
+    if (file.size === 0) return `"${file.name}" is empty`
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return `"${file.name}" is ${this.formatFileSize(file.size)}; the limit is ${this.formatFileSize(MAX_ATTACHMENT_SIZE)}`
+    }
+    if (!ALLOWED_MIME_TYPES.has(this.getMimeType(file))) {
+      return `"${file.name}" is not a supported file type`
+    }
+    return null
+  }
+
+  static getMimeType(file: { name: string; type: string }): string {
+    if (file.type) return file.type
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+    return MIME_TYPES[extension] ?? 'application/octet-stream'
+  }
+
+  static getPreviewKind(mimeType: string): AttachmentPreviewKind {
+    if (mimeType.startsWith('image/')) return 'image'
+    if (mimeType === 'application/pdf') return 'pdf'
+    return 'none'
+  }
+
+  static formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  // Trimmed, lower-cased and de-duplicated
+  static normalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))]
+  }
+
+  static parseTags(input: string): string[] {
+    return this.normalizeTags(input.split(','))
+  }
+
+  // Every tag in use, most used first
+  static getTagCounts(attachments: ProjectAttachment[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>()
+    for (const attachment of attachments) {
+      for (const tag of attachment.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+  }
+
+  // Attachments carrying every selected tag
+  static filterByTags(attachments: ProjectAttachment[], tags: string[]): ProjectAttachment[] {
+    if (tags.length === 0) return attachments
+    return attachments.filter(attachment => tags.every(tag => attachment.tags.includes(tag)))
+  }
+
+  // Unique object name that keeps the original extension
+  private static buildFilename(originalName: string): string {
+    const safeName = originalName
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\w.-]+/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/-\./g, '.')
+      .replace(/^[-.]+/, '')
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${safeName || 'file'}`
+  }
+}
@@ -0,0 +1,292 @@
+import { supabase } from '../lib/supabase.client'
+import type {
+  CalendarEvent,
+  CalendarEventType,
+  CalendarRange,
+  CalendarView,
+  Project,
+  ProjectMilestone,
+  Task
+} from '../types'
+import { ProjectService } from './projectService'
+import { MilestoneService, MILESTONE_TYPE_LABELS } from './milestoneService'
+import { addDays } from './scheduleService'
+import { toLocalDay } from '../utils/localDate'
+
+// Planner calendar built from task due dates, project start and due dates,
+// project milestones, weekly goals and daily notes. Days are YYYY-MM-DD; the
+// grid runs Sunday to Saturday like the rest of the planner.
+
+export const CALENDAR_EVENT_STYLES: Record<CalendarEventType, { label: string; className: string; dotClassName: string }> = {
+  task: { label: 'Task', className: 'bg-blue-500/80 text-blue-100', dotClassName: 'bg-blue-400' },
+  project_start: { label: 'Project start', className: 'bg-green-500/80 text-green-100', dotClassName: 'bg-green-400' },
+  project_due: { label: 'Project due', className: 'bg-red-500/80 text-red-100', dotClassName: 'bg-red-400' },
+  milestone: { label: 'Milestone', className: 'bg-purple-500/80 text-purple-100', dotClassName: 'bg-purple-400' },
+  goal: { label: 'Weekly goal', className: 'bg-yellow-500/80 text-yellow-100', dotClassName: 'bg-yellow-400' },
+  note: { label: 'Note', className: 'bg-pink-500/80 text-pink-100', dotClassName: 'bg-pink-400' }
+}
+
+// Order of events within a day
+const EVENT_TYPE_ORDER: CalendarEventType[] = ['project_due', 'milestone', 'project_start', 'task', 'goal', 'note']
+
+// weekly_goals.day names, from the Monday in week_start
+const GOAL_DAYS = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY']
+
+export const AGENDA_DAYS = 30
+
+interface WeeklyGoalRow {
+  id: string;
+  text: string;
+  completed: boolean;
+  day: string;
+  week_start: string;
+  task_id: string | null;
+}
+
+interface DailyNoteRow {
+  id: string;
+  content: string;
+  date: string;
+}
+
+export interface CalendarSources {
+  tasks: Task[];
+  projects: Project[];
+  milestones: ProjectMilestone[];
+  goals: WeeklyGoalRow[];
+  notes: DailyNoteRow[];
+}
+
+const dayOfWeek = (day: string) => new Date(`${day}T00:00:00Z`).getUTCDay()
+
+export class CalendarService {
+  // Local calendar day of a date
+  static toDay(date: Date): string {
+    return toLocalDay(date)
+  }
+
+  // Days shown for a view around the anchor day: whole weeks covering the
+  // month, the week containing the anchor, or AGENDA_DAYS from the anchor
+  static getRange(view: CalendarView, anchor: string): CalendarRange {
+    if (view === 'agenda') return { start: anchor, end: addDays(anchor, AGENDA_DAYS - 1) }
+    if (view === 'week') {
+      const start = addDays(anchor, -dayOfWeek(anchor))
+      return { start, end: addDays(start, 6) }
+    }
+
+    const first = `${anchor.slice(0, 7)}-01`
+    const last = addDays(`${addDays(first, 31).slice(0, 7)}-01`, -1)
+    return {
+      start: addDays(first, -dayOfWeek(first)),
+      end: addDays(last, 6 - dayOfWeek(last))
+    }
+  }
+
+  static getDays(range: CalendarRange): string[] {
+    const days: string[] = []
+    for (let day = range.start; day <= range.end; day = addDays(day, 1)) days.push(day)
+    return days
+  }
+
+  // Anchor one month, week or agenda page forward or back
+  static shiftAnchor(view: CalendarView, anchor: string, direction: 1 | -1): string {
+    if (view === 'week') return addDays(anchor, 7 * direction)
+    if (view === 'agenda') return addDays(anchor, AGENDA_DAYS * direction)
+
+    const first = `${anchor.slice(0, 7)}-01`
+    return direction === 1
+      ? `${addDays(first, 31).slice(0, 7)}-01`
+      : `${addDays(first, -1).slice(0, 7)}-01`
+  }
+
+  static async getEvents(userId: string, range: CalendarRange): Promise<CalendarEvent[]> {
+    const projects = await ProjectService.getAllProjects(userId)
+    const [tasks, milestones, goals, notes] = await Promise.all([
+      this.getTasksDue(userId, range),
+      MilestoneService.getMilestonesForProjects(projects.map(project => project.id)),
+      this.getWeeklyGoals(userId, range),
+      this.getDailyNotes(userId, range)
+    ])
+
+    return this.buildEvents({ tasks, projects, milestones, goals, notes }, range)
+  }
+
+  // Events in the range, by day, then type, then title. Cancelled tasks and
+  // milestones are left out.
+  static buildEvents(sources: CalendarSources, range: CalendarRange): CalendarEvent[] {
+    const projectTitles = new Map(sources.projects.map(project => [project.id, project.title]))
+    const events: CalendarEvent[] = []
+
+    for (const task of sources.tasks) {
+      if (!task.due_date || task.status === 'cancelled') continue
+      events.push({
+        id: `task-${task.id}`,
+        type: 'task',
+        date: task.due_date.slice(0, 10),
+        title: task.name,
+        detail: projectTitles.get(task.project_id) ?? task.description,
+        completed: task.status === 'completed' || task.completed,
+        project_id: task.project_id
+      })
+    }
+
+    for (const project of sources.projects) {
+      const completed = project.status === 'completed'
+      if (project.start_date) {
+        events.push({
+          id: `project_start-${project.id}`,
+          type: 'project_start',
+          date: project.start_date.slice(0, 10),
+          title: project.title,
+          detail: project.description,
+          completed,
+          project_id: project.id
+        })
+      }
+      if (project.due_date) {
+        events.push({
+          id: `project_due-${project.id}`,
+          type: 'project_due',
+          date: project.due_date.slice(0, 10),
+          title: project.title,
+          detail: project.description,
+          completed,
+          project_id: project.id
+        })
+      }
+    }
+
+    for (const milestone of sources.milestones) {
+      const date = milestone.due_date ?? milestone.planned_date
+      if (!date || milestone.status === 'cancelled') continue
+      events.push({
+        id: `milestone-${milestone.id}`,
+        type: 'milestone',
+        date: date.slice(0, 10),
+        title: milestone.name,
+        detail: [projectTitles.get(milestone.project_id), MILESTONE_TYPE_LABELS[milestone.milestone_type]]
+          .filter(Boolean)
+          .join(' · '),
+        completed: milestone.status === 'completed',
+        project_id: milestone.project_id
+      })
+    }
+
+    for (const goal of sources.goals) {
+      const offset = GOAL_DAYS.indexOf(goal.day)
+      if (offset < 0) continue
+      events.push({
+        id: `goal-${goal.id}`,
+        type: 'goal',
+        date: addDays(goal.week_start, offset),
+        title: goal.text,
+        detail: null,
+        completed: goal.completed,
+        project_id: null
+      })
+    }
+
+    for (const note of sources.notes) {
+      const content = note.content.trim()
+      if (!content) continue
+      const firstLine = content.split('\n')[0] ?? ''
+      events.push({
+        id: `note-${note.id}`,
+        type: 'note',
+        date: note.date.slice(0, 10),
+        title: firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine,
+        detail: content,
+        completed: false,
+        project_id: null
+      })
+    }
+
+    return events
+      .filter(event => event.date >= range.start && event.date <= range.end)
+      .sort((a, b) =>
+        a.date.localeCompare(b.date) ||
+        EVENT_TYPE_ORDER.indexOf(a.type) - EVENT_TYPE_ORDER.indexOf(b.type) ||
+        a.title.localeCompare(b.title)
+      )
+  }
+
+  static groupByDay(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+    const byDay = new Map<string, CalendarEvent[]>()
+    for (const event of events) {
+      byDay.set(event.date, [...(byDay.get(event.date) ?? []), event])
+    }
+    return byDay
+  }
+
+  private static async getTasksDue(userId: string, range: CalendarRange): Promise<Task[]> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('due_date', range.start)
+        .lte('due_date', `${range.end}T23:59:59`)
+
+      if (error) {
+        console.error('❌ [CalendarService] Error fetching tasks:', error)
+        return []
+      }
+
+      return (data ?? []) as Task[]
+    } catch (error) {
+      console.error('❌ [CalendarService] Error in getTasksDue:', error)
+      return []
+    }
+  }
+
+  // Goals of every week that overlaps the range
+  private static async getWeeklyGoals(userId: string, range: CalendarRange): Promise<WeeklyGoalRow[]> {
+    try {
+      const { data, error } = await supabase
+        .from('weekly_goals')
+        .select('id, text, completed, day, week_start, task_id')
+        .eq('user_id', userId)
+        .gte('week_start', addDays(range.start, -6))
+        .lte('week_start', range.end)
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [CalendarService] weekly_goals table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [CalendarService] Error fetching weekly goals:', error)
+        return []
+      }
+
+      return (data ?? []) as WeeklyGoalRow[]
+    } catch (error) {
+      console.error('❌ [CalendarService] Error in getWeeklyGoals:', error)
+      return []
+    }
+  }
+
+  private static async getDailyNotes(userId: string, range: CalendarRange): Promise<DailyNoteRow[]> {
+    try {
+      const { data, error } = await supabase
+        .from('daily_notes')
+        .select('id, content, date')
+        .eq('user_id', userId)
+        .gte('date', range.start)
+        .lte('date', range.end)
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [CalendarService] daily_notes table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [CalendarService] Error fetching daily notes:', error)
+        return []
+      }
+
+      return (data ?? []) as DailyNoteRow[]
+    } catch (error) {
+      console.error('❌ [CalendarService] Error in getDailyNotes:', error)
+      return []
+    }
+  }
+}
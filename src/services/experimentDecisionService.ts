@@ -0,0 +1,319 @@
+import type {
+  Decision,
+  DecisionCreateRequest,
+  Experiment,
+  ExperimentDecision,
+  ExperimentEvaluation,
+  Hypothesis,
+  HypothesisStatus,
+  MetricEvaluation
+} from '../types/newAgile';
+import { NewAgileService } from './newAgileService';
+import { analyseABTest } from '../utils/abTestStats';
+import { toLocalDay } from '../utils/localDate';
+
+// Experiment decision engine
+// Scores a finished experiment against its success metrics and the parent
+// hypothesis' scale/iterate/kill thresholds, then records the accepted call
+
+// A threshold such as "Conversion up by 15%" or "NPS above 40"
+export interface ParsedThreshold {
+  value: number;
+  relative: boolean; // Percentage change vs baseline rather than an absolute metric value
+}
+
+export interface AcceptedExperimentDecision {
+  experiment: Experiment;
+  hypothesis: Hypothesis | null;
+  decision: Decision;
+}
+
+// Below this many participants a result is treated as directional only
+const MIN_RELIABLE_PARTICIPANTS = 30;
+const REVIEW_AFTER_DAYS = 30;
+
+const HYPOTHESIS_STATUS_BY_DECISION: Record<ExperimentDecision, HypothesisStatus> = {
+  scale: 'scaled',
+  iterate: 'learning',
+  kill: 'killed'
+};
+
+const DECISION_LABELS: Record<ExperimentDecision, string> = {
+  scale: 'Scale',
+  iterate: 'Iterate',
+  kill: 'Kill'
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export class ExperimentDecisionService {
+  // Pull the first number out of a free-text threshold
+  static parseThreshold(text: string | undefined): ParsedThreshold | null {
+    if (!text) return null;
+    const match = /(-?\d+(?:\.\d+)?)\s*(%)?/.exec(text);
+    if (!match?.[1]) return null;
+    return { value: parseFloat(match[1]), relative: !!match[2] };
+  }
+
+  static evaluateMetric(metric: Experiment['success_metrics'][number]): MetricEvaluation {
+    const { actual, baseline, target } = metric;
+    // Metrics where lower is better (churn, load time) have a target below baseline
+    const direction = target >= baseline ? 1 : -1;
+
+    if (actual === undefined || Number.isNaN(actual)) {
+      return { ...metric, attainment: null, improvement_pct: null, met: false };
+    }
+
+    const attainment = target !== baseline
+      ? (actual - baseline) / (target - baseline)
+      : (actual - target) * direction >= 0 ? 1 : 0;
+    const improvement = baseline !== 0
+      ? ((actual - baseline) / Math.abs(baseline)) * 100 * direction
+      : null;
+
+    return {
+      ...metric,
+      attainment: round(attainment * 100) / 100,
+      improvement_pct: improvement !== null ? round(improvement) : null,
+      met: attainment >= 1
+    };
+  }
+
+  // Does the result clear a threshold? Relative thresholds compare the average
+  // improvement, absolute ones compare the primary metric's actual value
+  static meetsThreshold(
+    threshold: ParsedThreshold,
+    improvement: number | null,
+    primary: MetricEvaluation,
+    comparison: 'at_least' | 'at_most'
+  ): boolean | null {
+    let difference: number;
+    if (threshold.relative) {
+      if (improvement === null) return null;
+      difference = improvement - threshold.value;
+    } else {
+      if (primary.actual === undefined) return null;
+      const direction = primary.target >= primary.baseline ? 1 : -1;
+      difference = (primary.actual - threshold.value) * direction;
+    }
+    return comparison === 'at_least' ? difference >= 0 : difference <= 0;
+  }
+
+  // Returns null when no metric has an actual value yet
+  static evaluate(experiment: Experiment, hypothesis?: Hypothesis | null): ExperimentEvaluation | null {
+    const metrics = experiment.success_metrics.map(metric => this.evaluateMetric(metric));
+    const evaluated = metrics.filter(metric => metric.attainment !== null);
+    const primary = evaluated[0];
+    if (!primary) return null;
+
+    const improvements = evaluated
+      .map(metric => metric.improvement_pct)
+      .filter((value): value is number => value !== null);
+    const improvement = improvements.length > 0 ? round(average(improvements)) : null;
+    const attainment = average(evaluated.map(metric => metric.attainment ?? 0));
+    const metCount = evaluated.filter(metric => metric.met).length;
+
+    const reasoning: string[] = [];
+    reasoning.push(`${metCount} of ${evaluated.length} metrics reached their target (average attainment ${Math.round(attainment * 100)}%).`);
+    if (improvement !== null) {
+      reasoning.push(`Metrics moved ${improvement >= 0 ? '+' : ''}${improvement}% from baseline on average.`);
+    }
+    if (evaluated.length < metrics.length) {
+      reasoning.push(`${metrics.length - evaluated.length} metrics have no actual value and were left out.`);
+    }
+
+    const scaleThreshold = this.parseThreshold(hypothesis?.scale_threshold);
+    const killThreshold = this.parseThreshold(hypothesis?.kill_threshold);
+
+    const meetsScale = scaleThreshold
+      ? this.meetsThreshold(scaleThreshold, improvement, primary, 'at_least')
+      : null;
+    const meetsKill = killThreshold
+      ? this.meetsThreshold(killThreshold, improvement, primary, 'at_most')
+      : null;
+
+    let recommendation: ExperimentDecision;
+    if (meetsScale ?? (metCount === evaluated.length)) {
+      recommendation = 'scale';
+      reasoning.push(meetsScale !== null && hypothesis
+        ? `Result clears the scale threshold: "${hypothesis.scale_threshold}".`
+        : 'Every evaluated metric hit its target.');
+    } else if (meetsKill ?? (attainment <= 0)) {
+      recommendation = 'kill';
+      reasoning.push(meetsKill !== null && hypothesis
+        ? `Result falls within the kill threshold: "${hypothesis.kill_threshold}".`
+        : 'Metrics did not move towards their targets.');
+    } else {
+      recommendation = 'iterate';
+      reasoning.push(hypothesis?.iterate_threshold
+        ? `Result sits between the kill and scale thresholds (iterate: "${hypothesis.iterate_threshold}").`
+        : 'Some progress towards the targets, but not enough to scale.');
+    }
+
+    // Variant-level results outrank the summary metrics: don't scale on noise
+    const abResult = experiment.ab_test ? analyseABTest(experiment.ab_test) : null;
+    if (abResult) {
+      const pValue = abResult.p_value < 0.001 ? '< 0.001' : abResult.p_value.toFixed(3);
+      if (abResult.significant) {
+        reasoning.push(`The A/B difference is statistically significant (p = ${pValue}).`);
+      } else {
+        reasoning.push(`The A/B difference is not statistically significant (p = ${pValue}).`);
+        if (recommendation === 'scale') {
+          recommendation = 'iterate';
+          reasoning.push('Downgraded from scale to iterate until the result is significant.');
+        }
+      }
+      if (!abResult.sample_size_reached && abResult.required_sample_size !== null) {
+        reasoning.push(`Each variant needs ${abResult.required_sample_size} participants to detect the planned lift.`);
+      }
+    } else if (experiment.participants > 0 && experiment.participants < MIN_RELIABLE_PARTICIPANTS) {
+      reasoning.push(`Only ${experiment.participants} participants took part, so treat this as directional.`);
+    }
+
+    return {
+      experiment_id: experiment.id,
+      hypothesis_id: experiment.hypothesis_id,
+      recommendation,
+      score: Math.round(attainment * 100),
+      improvement_pct: improvement,
+      metrics,
+      thresholds_used: meetsScale !== null || meetsKill !== null,
+      reasoning,
+      evaluated_at: new Date().toISOString()
+    };
+  }
+
+  static getHypothesisStatus(decision: ExperimentDecision): HypothesisStatus {
+    return HYPOTHESIS_STATUS_BY_DECISION[decision];
+  }
+
+  // Decision log entry for an accepted experiment call
+  static buildDecisionRecord(
+    experiment: Experiment,
+    hypothesis: Hypothesis | null,
+    evaluation: ExperimentEvaluation,
+    decision: ExperimentDecision,
+    userId: string,
+    rationale?: string
+  ): DecisionCreateRequest {
+    const subject = hypothesis?.title ?? experiment.title;
+    const overridden = decision !== evaluation.recommendation;
+    const reviewDate = new Date();
+    reviewDate.setDate(reviewDate.getDate() + REVIEW_AFTER_DAYS);
+
+    return {
+      title: `${DECISION_LABELS[decision]}: ${subject}`,
+      context: [
+        hypothesis?.hypothesis_statement,
+        `Experiment "${experiment.title}" (${experiment.method.replace('_', ' ')}, ${experiment.participants} participants).`
+      ].filter(Boolean).join('\n\n'),
+      options_considered: [
+        {
+          option: 'Scale',
+          pros: ['Captures the measured gain for all users'],
+          cons: hypothesis?.scale_threshold ? [`Requires: ${hypothesis.scale_threshold}`] : []
+        },
+        {
+          option: 'Iterate',
+          pros: ['Keeps learning without a full rollout'],
+          cons: ['Delays the outcome by another experiment cycle']
+        },
+        {
+          option: 'Kill',
+          pros: ['Frees the team for other opportunities'],
+          cons: hypothesis?.kill_threshold ? [`Only if: ${hypothesis.kill_threshold}`] : []
+        }
+      ],
+      decision: DECISION_LABELS[decision],
+      rationale: [
+        overridden
+          ? `Engine recommended ${DECISION_LABELS[evaluation.recommendation].toLowerCase()}; overridden.`
+          : `Accepted the engine's recommendation (score ${evaluation.score}%).`,
+        rationale,
+        ...evaluation.reasoning
+      ].filter(Boolean).join(' '),
+      evidence: evaluation.metrics.map(metric =>
+        `${metric.metric}: baseline ${metric.baseline}, target ${metric.target}, actual ${metric.actual ?? 'n/a'}`
+      ),
+      owner: userId,
+      stakeholders: [],
+      success_criteria: hypothesis?.success_criteria ? [hypothesis.success_criteria] : [],
+      review_date: toLocalDay(reviewDate),
+      experiment_id: experiment.id,
+      hypothesis_id: hypothesis?.id
+    };
+  }
+
+  // Saves the results on the experiment, moves the hypothesis on and logs the
+  // decision. The writes are not one transaction, so when a later step fails
+  // the earlier ones are put back and the experiment stays open.
+  static async acceptDecision(
+    experiment: Experiment,
+    hypothesis: Hypothesis | null,
+    evaluation: ExperimentEvaluation,
+    decision: ExperimentDecision,
+    projectId: string,
+    userId: string,
+    rationale?: string
+  ): Promise<AcceptedExperimentDecision | null> {
+    console.log('🧪 [ExperimentDecisionService] Accepting decision:', decision, 'for experiment', experiment.id);
+
+    const updatedExperiment = await NewAgileService.updateExperiment(experiment.id, {
+      status: 'completed',
+      decision,
+      success_metrics: evaluation.metrics.map(({ metric, baseline, target, actual }) => ({ metric, baseline, target, actual })),
+      results: evaluation.reasoning.join(' '),
+      ab_test: experiment.ab_test
+    });
+
+    if (!updatedExperiment) {
+      console.error('❌ [ExperimentDecisionService] Could not save experiment results');
+      return null;
+    }
+
+    const updatedHypothesis = hypothesis
+      ? await NewAgileService.updateHypothesis(hypothesis.id, { status: this.getHypothesisStatus(decision) })
+      : null;
+
+    if (hypothesis && !updatedHypothesis) {
+      console.error('❌ [ExperimentDecisionService] Could not update hypothesis status');
+      await this.revertDecision(experiment, null);
+      return null;
+    }
+
+    const record = await NewAgileService.createDecision(
+      this.buildDecisionRecord(experiment, hypothesis, evaluation, decision, userId, rationale),
+      projectId
+    );
+
+    if (!record) {
+      console.error('❌ [ExperimentDecisionService] Could not log the decision');
+      await this.revertDecision(experiment, hypothesis);
+      return null;
+    }
+
+    console.log('✅ [ExperimentDecisionService] Decision accepted:', decision);
+    return { experiment: updatedExperiment, hypothesis: updatedHypothesis, decision: record };
+  }
+
+  // Restores the experiment, and the hypothesis when it was moved, to how they
+  // were before the decision was accepted
+  private static async revertDecision(experiment: Experiment, hypothesis: Hypothesis | null): Promise<void> {
+    const [revertedExperiment, revertedHypothesis] = await Promise.all([
+      NewAgileService.updateExperiment(experiment.id, {
+        status: experiment.status,
+        decision: experiment.decision,
+        success_metrics: experiment.success_metrics,
+        results: experiment.results
+      }),
+      hypothesis ? NewAgileService.updateHypothesis(hypothesis.id, { status: hypothesis.status }) : Promise.resolve(null)
+    ]);
+
+    if (!revertedExperiment || (hypothesis && !revertedHypothesis)) {
+      console.error('❌ [ExperimentDecisionService] Could not revert the decision for experiment', experiment.id);
+    }
+  }
+}
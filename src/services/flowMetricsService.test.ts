@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { FlowMetricsService } from './flowMetricsService';
+import type { DeliveryTask, DeliveryTaskStatus, DeliveryTaskTransition, WIPPolicy } from '../types/newAgile';
+
+const task = (id: string, status: DeliveryTaskStatus, overrides: Partial<DeliveryTask> = {}): DeliveryTask => ({
+  id,
+  project_id: 'project-1',
+  title: `Task ${id}`,
+  description: '',
+  status,
+  priority: 'medium',
+  effort: 'M',
+  acceptance_criteria: [],
+  definition_of_ready: [],
+  definition_of_done: [],
+  blocked: false,
+  tags: [],
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  created_by: 'user-1',
+  ...overrides
+});
+
+let transitionId = 0;
+const transition = (
+  taskId: string,
+  from: DeliveryTaskStatus | null,
+  to: DeliveryTaskStatus,
+  at: string
+): DeliveryTaskTransition => ({
+  id: `transition-${++transitionId}`,
+  task_id: taskId,
+  project_id: 'project-1',
+  from_status: from,
+  to_status: to,
+  transitioned_at: at
+});
+
+const policy: WIPPolicy = {
+  project_id: 'project-1',
+  limits: { in_progress: 2 },
+  policies: { ready: 'warn', in_progress: 'block', review: 'warn', released: 'warn', measuring: 'warn' }
+};
+
+describe('FlowMetricsService.percentile', () => {
+  it('uses the nearest rank', () => {
+    const values = [15, 20, 35, 40, 50];
+    expect(FlowMetricsService.percentile(values, 30)).toBe(20);
+    expect(FlowMetricsService.percentile(values, 40)).toBe(20);
+    expect(FlowMetricsService.percentile(values, 50)).toBe(35);
+    expect(FlowMetricsService.percentile(values, 100)).toBe(50);
+  });
+
+  it('does not depend on input order and handles edge cases', () => {
+    expect(FlowMetricsService.percentile([50, 15, 40, 20, 35], 50)).toBe(35);
+    expect(FlowMetricsService.percentile([], 50)).toBe(0);
+    expect(FlowMetricsService.percentile([7], 95)).toBe(7);
+    expect(FlowMetricsService.percentile([3, 1, 2], 0)).toBe(1);
+  });
+
+  it('reports p50, p85 and p95 cycle times', () => {
+    const cycleTimes = Array.from({ length: 20 }, (_, i) => i + 1);
+    expect(FlowMetricsService.getCycleTimePercentiles(cycleTimes)).toEqual({ p50: 10, p85: 17, p95: 19 });
+  });
+});
+
+describe('FlowMetricsService.getTimeline', () => {
+  it('starts when the task leaves ready and completes when it reaches done', () => {
+    const history = [
+      transition('a', 'ready', 'in_progress', '2026-10-02T00:00:00Z'),
+      transition('a', 'in_progress', 'released', '2026-10-04T00:00:00Z'),
+      transition('a', 'released', 'measuring', '2026-10-05T00:00:00Z')
+    ];
+    expect(FlowMetricsService.getTimeline(task('a', 'measuring'), history)).toEqual({
+      startedAt: Date.parse('2026-10-02T00:00:00Z'),
+      completedAt: Date.parse('2026-10-04T00:00:00Z')
+    });
+  });
+
+  it('uses the last release when a task was reopened', () => {
+    const history = [
+      transition('a', 'ready', 'in_progress', '2026-10-02T00:00:00Z'),
+      transition('a', 'in_progress', 'released', '2026-10-03T00:00:00Z'),
+      transition('a', 'released', 'in_progress', '2026-10-04T00:00:00Z'),
+      transition('a', 'in_progress', 'released', '2026-10-06T00:00:00Z')
+    ];
+    expect(FlowMetricsService.getTimeline(task('a', 'released'), history).completedAt)
+      .toBe(Date.parse('2026-10-06T00:00:00Z'));
+  });
+
+  it('is not complete while a reopened task is still in progress', () => {
+    const history = [
+      transition('a', 'ready', 'in_progress', '2026-10-02T00:00:00Z'),
+      transition('a', 'in_progress', 'released', '2026-10-03T00:00:00Z'),
+      transition('a', 'released', 'review', '2026-10-04T00:00:00Z')
+    ];
+    expect(FlowMetricsService.getTimeline(task('a', 'review'), history).completedAt).toBeUndefined();
+  });
+
+  it('falls back to the task stamps without history', () => {
+    const stamped = task('a', 'released', {
+      started_at: '2026-10-02T00:00:00Z',
+      completed_at: '2026-10-03T12:00:00Z'
+    });
+    expect(FlowMetricsService.getTimeline(stamped)).toEqual({
+      startedAt: Date.parse('2026-10-02T00:00:00Z'),
+      completedAt: Date.parse('2026-10-03T12:00:00Z')
+    });
+  });
+});
+
+describe('FlowMetricsService.getStatusAt', () => {
+  const history = [
+    transition('a', 'ready', 'in_progress', '2026-10-02T00:00:00Z'),
+    transition('a', 'in_progress', 'review', '2026-10-03T00:00:00Z')
+  ];
+
+  it('replays the history up to the given time', () => {
+    const current = task('a', 'review');
+    expect(FlowMetricsService.getStatusAt(current, history, Date.parse('2026-09-30T00:00:00Z'))).toBeNull();
+    expect(FlowMetricsService.getStatusAt(current, history, Date.parse('2026-10-01T12:00:00Z'))).toBe('ready');
+    expect(FlowMetricsService.getStatusAt(current, history, Date.parse('2026-10-02T12:00:00Z'))).toBe('in_progress');
+    expect(FlowMetricsService.getStatusAt(current, history, Date.parse('2026-10-03T00:00:00Z'))).toBe('review');
+  });
+});
+
+describe('FlowMetricsService.getCumulativeFlow', () => {
+  it('counts every task in its column at the end of each day', () => {
+    const tasks = [task('a', 'released'), task('b', 'in_progress'), task('c', 'ready')];
+    const historyByTask = FlowMetricsService.groupTransitions([
+      transition('a', 'ready', 'in_progress', '2026-10-02T09:00:00Z'),
+      transition('a', 'in_progress', 'released', '2026-10-03T09:00:00Z'),
+      transition('b', 'ready', 'in_progress', '2026-10-03T10:00:00Z')
+    ]);
+
+    const points = FlowMetricsService.getCumulativeFlow(tasks, historyByTask, 3, new Date('2026-10-03T12:00:00Z'));
+
+    expect(points.map(point => point.date)).toEqual(['2026-10-01', '2026-10-02', '2026-10-03']);
+    expect(points[0]?.counts).toEqual({ ready: 3, in_progress: 0, review: 0, released: 0, measuring: 0 });
+    expect(points[1]?.counts).toEqual({ ready: 2, in_progress: 1, review: 0, released: 0, measuring: 0 });
+    expect(points[2]?.counts).toEqual({ ready: 1, in_progress: 1, review: 0, released: 1, measuring: 0 });
+  });
+});
+
+describe('FlowMetricsService.checkWipLimit', () => {
+  const tasks = [task('a', 'in_progress'), task('b', 'in_progress'), task('c', 'ready')];
+
+  it('counts the column as it would be after the move', () => {
+    expect(FlowMetricsService.checkWipLimit(policy, tasks, 'c', 'in_progress')).toEqual({
+      exceeded: true,
+      limit: 2,
+      count: 3,
+      policy: 'block'
+    });
+  });
+
+  it('does not count a task moving within its own column twice', () => {
+    expect(FlowMetricsService.checkWipLimit(policy, tasks, 'a', 'in_progress').exceeded).toBe(false);
+  });
+
+  it('never exceeds a column without a limit', () => {
+    expect(FlowMetricsService.checkWipLimit(policy, tasks, 'a', 'review')).toEqual({
+      exceeded: false,
+      limit: undefined,
+      count: 1,
+      policy: 'warn'
+    });
+  });
+});
+
+describe('FlowMetricsService.calculate', () => {
+  it('averages cycle and lead times and reports throughput and aging work', () => {
+    const tasks = [
+      task('a', 'released'),
+      task('b', 'released'),
+      task('c', 'in_progress', { blocked: true })
+    ];
+    const transitions = [
+      transition('a', 'ready', 'in_progress', '2026-10-02T00:00:00Z'),
+      transition('a', 'in_progress', 'released', '2026-10-03T00:00:00Z'),
+      transition('b', 'ready', 'in_progress', '2026-10-02T00:00:00Z'),
+      transition('b', 'in_progress', 'released', '2026-10-05T00:00:00Z'),
+      transition('c', 'ready', 'in_progress', '2026-10-06T00:00:00Z')
+    ];
+
+    const report = FlowMetricsService.calculate(tasks, transitions, {
+      now: new Date('2026-10-10T00:00:00Z'),
+      throughputWeeks: 2,
+      cumulativeFlowDays: 5
+    });
+
+    expect(report.cycle_time_avg).toBe(48);
+    expect(report.lead_time_avg).toBe(72);
+    expect(report.cycle_time_percentiles).toEqual({ p50: 24, p85: 72, p95: 72 });
+    expect(report.completed_count).toBe(2);
+    expect(report.throughput_weekly).toBe(1);
+    expect(report.total_wip).toBe(1);
+    expect(report.blocked_items).toBe(1);
+    expect(report.aging_items).toBe(1);
+    expect(report.aging_work[0]?.age_hours).toBe(96);
+    expect(report.cumulative_flow).toHaveLength(5);
+  });
+});
@@ -0,0 +1,218 @@
+import type {
+  DeliveryTask,
+  DeliveryTaskStatus,
+  DeliveryTaskTransition,
+  FlowMetricsReport,
+  CycleTimePercentiles,
+  CumulativeFlowPoint,
+  AgingWorkItem,
+  WIPPolicy,
+  WIPPolicyMode
+} from '../types/newAgile';
+
+// Flow metrics engine for the delivery board
+// Pure calculations over delivery tasks and their status history
+
+export interface FlowMetricsOptions {
+  now?: Date;
+  agingThresholdHours?: number; // WIP older than this counts as aging
+  throughputWeeks?: number; // Window used to average weekly throughput
+  cumulativeFlowDays?: number; // Number of days in the cumulative flow series
+}
+
+export interface WIPLimitCheck {
+  exceeded: boolean;
+  limit?: number;
+  count: number; // Items in the column once the task has moved
+  policy: WIPPolicyMode;
+}
+
+interface TaskTimeline {
+  startedAt?: number;
+  completedAt?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DELIVERY_STATUSES: DeliveryTaskStatus[] = ['ready', 'in_progress', 'review', 'released', 'measuring'];
+export const DONE_STATUSES: DeliveryTaskStatus[] = ['released', 'measuring'];
+const WIP_STATUSES: DeliveryTaskStatus[] = ['in_progress', 'review'];
+
+const toHours = (ms: number) => Math.round((ms / HOUR_MS) * 10) / 10;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export class FlowMetricsService {
+  // Group transitions by task, oldest first
+  static groupTransitions(transitions: DeliveryTaskTransition[]): Map<string, DeliveryTaskTransition[]> {
+    const byTask = new Map<string, DeliveryTaskTransition[]>();
+    for (const transition of transitions) {
+      const list = byTask.get(transition.task_id) ?? [];
+      list.push(transition);
+      byTask.set(transition.task_id, list);
+    }
+    for (const list of byTask.values()) {
+      list.sort((a, b) => new Date(a.transitioned_at).getTime() - new Date(b.transitioned_at).getTime());
+    }
+    return byTask;
+  }
+
+  // Work starts when the task first leaves 'ready' and finishes when it last
+  // reaches a done column; moving back out of done reopens it. Tasks without
+  // history fall back to their own stamps.
+  static getTimeline(task: DeliveryTask, history: DeliveryTaskTransition[] = []): TaskTimeline {
+    const started = history.find(t => t.to_status !== 'ready');
+    let completed: DeliveryTaskTransition | undefined;
+    for (const transition of history) {
+      if (!DONE_STATUSES.includes(transition.to_status)) completed = undefined;
+      else completed ??= transition;
+    }
+
+    const startedAt = started
+      ? new Date(started.transitioned_at).getTime()
+      : task.started_at ? new Date(task.started_at).getTime() : undefined;
+    const completedAt = completed
+      ? new Date(completed.transitioned_at).getTime()
+      : task.completed_at ? new Date(task.completed_at).getTime() : undefined;
+
+    return { startedAt, completedAt };
+  }
+
+  // Nearest-rank percentile of a list of hours
+  static percentile(values: number[], p: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1] ?? 0;
+  }
+
+  static getCycleTimePercentiles(cycleTimes: number[]): CycleTimePercentiles {
+    return {
+      p50: this.percentile(cycleTimes, 50),
+      p85: this.percentile(cycleTimes, 85),
+      p95: this.percentile(cycleTimes, 95)
+    };
+  }
+
+  // Status of a task at a point in time, replayed from its history
+  static getStatusAt(
+    task: DeliveryTask,
+    history: DeliveryTaskTransition[],
+    time: number
+  ): DeliveryTaskStatus | null {
+    if (new Date(task.created_at).getTime() > time) return null;
+    if (history.length === 0) return task.status;
+
+    let status: DeliveryTaskStatus | null = null;
+    for (const transition of history) {
+      if (new Date(transition.transitioned_at).getTime() > time) break;
+      status = transition.to_status;
+    }
+    // Created before history was recorded: assume it sat in its first known 'from' column
+    return status ?? history[0]?.from_status ?? 'ready';
+  }
+
+  static getCumulativeFlow(
+    tasks: DeliveryTask[],
+    historyByTask: Map<string, DeliveryTaskTransition[]>,
+    days: number,
+    now: Date
+  ): CumulativeFlowPoint[] {
+    const points: CumulativeFlowPoint[] = [];
+    const today = new Date(now);
+    today.setUTCHours(23, 59, 59, 999);
+
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const endOfDay = Math.min(today.getTime() - offset * DAY_MS, now.getTime());
+      const counts = DELIVERY_STATUSES.reduce((acc, status) => {
+        acc[status] = 0;
+        return acc;
+      }, {} as Record<DeliveryTaskStatus, number>);
+
+      for (const task of tasks) {
+        const status = this.getStatusAt(task, historyByTask.get(task.id) ?? [], endOfDay);
+        if (status) counts[status] += 1;
+      }
+
+      points.push({ date: dayKey(endOfDay), counts });
+    }
+
+    return points;
+  }
+
+  // Would moving this task into the column break its WIP limit?
+  static checkWipLimit(
+    policy: WIPPolicy,
+    tasks: DeliveryTask[],
+    taskId: string,
+    status: DeliveryTaskStatus
+  ): WIPLimitCheck {
+    const limit = policy.limits[status];
+    const count = tasks.filter(task => task.status === status && task.id !== taskId).length + 1;
+
+    return {
+      exceeded: limit !== undefined && count > limit,
+      limit,
+      count,
+      policy: policy.policies[status]
+    };
+  }
+
+  static calculate(
+    tasks: DeliveryTask[],
+    transitions: DeliveryTaskTransition[],
+    options: FlowMetricsOptions = {}
+  ): FlowMetricsReport {
+    const now = options.now ?? new Date();
+    const agingThresholdHours = options.agingThresholdHours ?? 72;
+    const throughputWeeks = options.throughputWeeks ?? 4;
+    const cumulativeFlowDays = options.cumulativeFlowDays ?? 30;
+    const nowMs = now.getTime();
+
+    const historyByTask = this.groupTransitions(transitions);
+    const cycleTimes: number[] = [];
+    const leadTimes: number[] = [];
+    const agingWork: AgingWorkItem[] = [];
+    let completedInWindow = 0;
+
+    for (const task of tasks) {
+      const { startedAt, completedAt } = this.getTimeline(task, historyByTask.get(task.id));
+
+      if (completedAt !== undefined) {
+        leadTimes.push(toHours(completedAt - new Date(task.created_at).getTime()));
+        if (startedAt !== undefined) {
+          cycleTimes.push(toHours(completedAt - startedAt));
+        }
+        if (nowMs - completedAt <= throughputWeeks * 7 * DAY_MS) {
+          completedInWindow += 1;
+        }
+      }
+
+      if (WIP_STATUSES.includes(task.status)) {
+        const ageHours = toHours(nowMs - (startedAt ?? new Date(task.updated_at).getTime()));
+        if (ageHours > agingThresholdHours) {
+          agingWork.push({ task, age_hours: ageHours });
+        }
+      }
+    }
+
+    agingWork.sort((a, b) => b.age_hours - a.age_hours);
+
+    return {
+      total_wip: tasks.filter(task => WIP_STATUSES.includes(task.status)).length,
+      aging_items: agingWork.length,
+      cycle_time_avg: toHours(average(cycleTimes) * HOUR_MS),
+      lead_time_avg: toHours(average(leadTimes) * HOUR_MS),
+      throughput_weekly: Math.round((completedInWindow / throughputWeeks) * 10) / 10,
+      blocked_items: tasks.filter(task => task.blocked).length,
+      cycle_time_percentiles: this.getCycleTimePercentiles(cycleTimes),
+      completed_count: leadTimes.length,
+      aging_work: agingWork,
+      cumulative_flow: this.getCumulativeFlow(tasks, historyByTask, cumulativeFlowDays, now)
+    };
+  }
+}
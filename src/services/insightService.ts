@@ -0,0 +1,89 @@
+import type { Insight, InsightFilters, Opportunity } from '../types/newAgile';
+
+// Insight search and evidence linking
+// Opportunities cite insights through entries in their evidence list, and
+// insights point back through linked_opportunities, so either side can be
+// read on its own
+
+const CITATION_PREFIX = 'insight:';
+
+export class InsightService {
+  // Evidence entry that cites an insight
+  static getCitation(insightId: string): string {
+    return `${CITATION_PREFIX}${insightId}`;
+  }
+
+  static isCitation(evidence: string): boolean {
+    return evidence.startsWith(CITATION_PREFIX);
+  }
+
+  static getCitedInsightIds(opportunity: Pick<Opportunity, 'evidence'>): string[] {
+    return (opportunity.evidence ?? [])
+      .filter(entry => this.isCitation(entry))
+      .map(entry => entry.slice(CITATION_PREFIX.length));
+  }
+
+  // Evidence entries that are free text rather than insight citations
+  static getPlainEvidence(opportunity: Pick<Opportunity, 'evidence'>): string[] {
+    return (opportunity.evidence ?? []).filter(entry => !this.isCitation(entry));
+  }
+
+  static addCitation(evidence: string[], insightId: string): string[] {
+    const citation = this.getCitation(insightId);
+    return evidence.includes(citation) ? evidence : [...evidence, citation];
+  }
+
+  static removeCitation(evidence: string[], insightId: string): string[] {
+    const citation = this.getCitation(insightId);
+    return evidence.filter(entry => entry !== citation);
+  }
+
+  // Insights behind an opportunity, whichever side recorded the link
+  static getOpportunityInsights(opportunity: Opportunity, insights: Insight[]): Insight[] {
+    const cited = new Set(this.getCitedInsightIds(opportunity));
+    return insights.filter(insight =>
+      cited.has(insight.id) || insight.linked_opportunities.includes(opportunity.id)
+    );
+  }
+
+  static normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+  }
+
+  // Every tag in use, most used first
+  static getAllTags(insights: Insight[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    for (const insight of insights) {
+      for (const tag of insight.tags) {
+        const normalized = this.normalizeTag(tag);
+        if (normalized) counts.set(normalized, (counts.get(normalized) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  static filterInsights(insights: Insight[], filters: InsightFilters): Insight[] {
+    const query = filters.query?.trim().toLowerCase() ?? '';
+    // A "#tag" query searches tags only
+    const tagQuery = query.startsWith('#') ? this.normalizeTag(query) : null;
+    const requiredTags = (filters.tags ?? []).map(tag => this.normalizeTag(tag));
+
+    return insights.filter(insight => {
+      if (filters.category && insight.category !== filters.category) return false;
+
+      const tags = insight.tags.map(tag => this.normalizeTag(tag));
+      if (!requiredTags.every(tag => tags.includes(tag))) return false;
+
+      if (tagQuery !== null) {
+        return tags.some(tag => tag.includes(tagQuery));
+      }
+      if (query) {
+        return [insight.title, insight.description, insight.source, ...tags]
+          .some(text => text.toLowerCase().includes(query));
+      }
+      return true;
+    });
+  }
+}
@@ -0,0 +1,230 @@
+import { supabase } from '../lib/supabase.client'
+import type {
+  MilestoneSlip,
+  MilestoneSlipStatus,
+  MilestoneStatus,
+  MilestoneType,
+  MilestoneSlipReport,
+  Project,
+  ProjectMilestone,
+  ProjectMilestoneInsert,
+  ProjectMilestoneUpdate,
+  ProjectSlipSummary
+} from '../types'
+import { daysBetween, toDay } from './scheduleService'
+import { toLocalDay } from '../utils/localDate'
+
+// Completion fields (completed_at, completed_by, actual_date) are maintained by
+// the update_milestone_completion trigger whenever status moves to or from
+// 'completed', so they are never written from here.
+
+export const MILESTONE_TYPE_LABELS: Record<MilestoneType, string> = {
+  checkpoint: 'Checkpoint',
+  deliverable: 'Deliverable',
+  deadline: 'Deadline',
+  approval: 'Approval'
+}
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  delayed: 'Delayed',
+  cancelled: 'Cancelled'
+}
+
+export const SLIP_STATUS_LABELS: Record<MilestoneSlipStatus, string> = {
+  early: 'Early',
+  on_time: 'On time',
+  late: 'Late',
+  overdue: 'Overdue',
+  upcoming: 'Upcoming',
+  unplanned: 'Unplanned'
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null
+
+export class MilestoneService {
+  // Get all milestones for a project in display order
+  static async getMilestones(projectId: string): Promise<ProjectMilestone[]> {
+    return this.getMilestonesForProjects([projectId])
+  }
+
+  static async getMilestonesForProjects(projectIds: string[]): Promise<ProjectMilestone[]> {
+    if (projectIds.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('project_milestones')
+        .select('*')
+        .in('project_id', projectIds)
+        .order('sort_order', { ascending: true })
+        .order('due_date', { ascending: true })
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [MilestoneService] project_milestones table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [MilestoneService] Error fetching milestones:', error)
+        return []
+      }
+
+      return (data ?? []) as ProjectMilestone[]
+    } catch (error) {
+      console.error('❌ [MilestoneService] Error in getMilestonesForProjects:', error)
+      return []
+    }
+  }
+
+  static async createMilestone(projectId: string, milestone: ProjectMilestoneInsert): Promise<ProjectMilestone | null> {
+    try {
+      const { data, error } = await supabase
+        .from('project_milestones')
+        .insert([{ ...milestone, project_id: projectId }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [MilestoneService] Error creating milestone:', error)
+        return null
+      }
+
+      return data as ProjectMilestone
+    } catch (error) {
+      console.error('❌ [MilestoneService] Error in createMilestone:', error)
+      return null
+    }
+  }
+
+  static async updateMilestone(id: string, updates: ProjectMilestoneUpdate): Promise<ProjectMilestone | null> {
+    try {
+      const { data, error } = await supabase
+        .from('project_milestones')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [MilestoneService] Error updating milestone:', error)
+        return null
+      }
+
+      return data as ProjectMilestone
+    } catch (error) {
+      console.error('❌ [MilestoneService] Error in updateMilestone:', error)
+      return null
+    }
+  }
+
+  static async completeMilestone(id: string): Promise<ProjectMilestone | null> {
+    return this.updateMilestone(id, { status: 'completed' })
+  }
+
+  // depends_on_milestone has no ON DELETE rule, so dependents are detached first
+  static async deleteMilestone(milestone: ProjectMilestone, milestones: ProjectMilestone[]): Promise<boolean> {
+    try {
+      const dependents = milestones.filter(m => m.depends_on_milestone === milestone.id)
+      const detached = await Promise.all(
+        dependents.map(m => this.updateMilestone(m.id, { depends_on_milestone: null }))
+      )
+      if (detached.some(result => !result)) {
+        return false
+      }
+
+      const { error } = await supabase
+        .from('project_milestones')
+        .delete()
+        .eq('id', milestone.id)
+
+      if (error) {
+        console.error('❌ [MilestoneService] Error deleting milestone:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [MilestoneService] Error in deleteMilestone:', error)
+      return false
+    }
+  }
+
+  // True when milestoneId would end up depending on itself through the chain
+  static wouldCreateCycle(milestoneId: string | null, dependsOnId: string | null, milestones: ProjectMilestone[]): boolean {
+    if (!milestoneId || !dependsOnId) return false
+
+    const visited = new Set<string>()
+    let current: string | null = dependsOnId
+    while (current) {
+      if (current === milestoneId) return true
+      if (visited.has(current)) return false
+      visited.add(current)
+      const next: ProjectMilestone | undefined = milestones.find(m => m.id === current)
+      current = next?.depends_on_milestone ?? null
+    }
+    return false
+  }
+
+  static getSlip(milestone: ProjectMilestone, now: Date = new Date()): MilestoneSlip {
+    const today = toLocalDay(now)
+    const baseline = milestone.planned_date ?? milestone.due_date
+    const baselineDay = baseline ? toDay(baseline) : null
+
+    if (milestone.status === 'cancelled' || !baselineDay) {
+      return { milestone, baseline_date: baselineDay, slip_days: null, status: 'unplanned' }
+    }
+
+    if (milestone.status === 'completed') {
+      const actual = milestone.actual_date ?? milestone.completed_at
+      if (!actual) {
+        return { milestone, baseline_date: baselineDay, slip_days: null, status: 'on_time' }
+      }
+      const slip = daysBetween(baselineDay, toDay(actual))
+      return {
+        milestone,
+        baseline_date: baselineDay,
+        slip_days: slip,
+        status: slip > 0 ? 'late' : slip < 0 ? 'early' : 'on_time'
+      }
+    }
+
+    const slip = daysBetween(baselineDay, today)
+    return slip > 0
+      ? { milestone, baseline_date: baselineDay, slip_days: slip, status: 'overdue' }
+      : { milestone, baseline_date: baselineDay, slip_days: null, status: 'upcoming' }
+  }
+
+  static buildSlipReport(milestones: ProjectMilestone[], projects: Pick<Project, 'id' | 'title'>[], now: Date = new Date()): MilestoneSlipReport {
+    const slips = milestones.map(milestone => this.getSlip(milestone, now))
+    const completedSlips = slips.filter(slip => slip.milestone.status === 'completed' && slip.slip_days !== null)
+
+    const projectSummaries: ProjectSlipSummary[] = projects
+      .map(project => {
+        const projectSlips = slips.filter(slip => slip.milestone.project_id === project.id)
+        const projectCompleted = projectSlips.filter(slip => slip.milestone.status === 'completed')
+        return {
+          project_id: project.id,
+          project_title: project.title,
+          completed: projectCompleted.length,
+          late: projectSlips.filter(slip => slip.status === 'late').length,
+          overdue: projectSlips.filter(slip => slip.status === 'overdue').length,
+          average_slip_days: average(
+            projectCompleted.map(slip => slip.slip_days).filter((days): days is number => days !== null)
+          )
+        }
+      })
+      .filter(summary => slips.some(slip => slip.milestone.project_id === summary.project_id))
+
+    return {
+      slips,
+      completed: slips.filter(slip => slip.milestone.status === 'completed').length,
+      on_time: slips.filter(slip => slip.status === 'on_time' || slip.status === 'early').length,
+      late: slips.filter(slip => slip.status === 'late').length,
+      overdue: slips.filter(slip => slip.status === 'overdue').length,
+      average_slip_days: average(completedSlips.map(slip => slip.slip_days ?? 0)),
+      projects: projectSummaries
+    }
+  }
+}
@@ -2,13 +2,44 @@ import { supabase } from '../lib/supabase';
 import type {
   Opportunity,
   OpportunityCreateRequest,
+  OpportunityScoringModel,
+  RankedOpportunity,
+  ScoringModelType,
+  UserPersona,
+  UserPersonaCreateRequest,
+  PersonaCoverage,
+  Phase,
+  PhaseCreateRequest,
+  PhaseSaveResult,
+  PhaseUpdateRequest,
   Hypothesis,
   HypothesisCreateRequest,
   Experiment,
   ExperimentCreateRequest,
+  Decision,
+  DecisionCreateRequest,
+  DecisionUpdateRequest,
+  Insight,
+  InsightCreateRequest,
+  InsightFilters,
   DeliveryTask,
-  DeliveryTaskCreateRequest
+  DeliveryTaskCreateRequest,
+  DeliveryTaskUpdateRequest,
+  DeliveryTaskStatus,
+  DeliveryTaskTransition,
+  FlowMetricsReport,
+  WIPPolicy,
+  WIPPolicyMode,
+  WIPLimitOverride,
+  Objective
 } from '../types/newAgile';
+import { DONE_STATUSES, FlowMetricsService } from './flowMetricsService';
+import { InsightService } from './insightService';
+import { objectiveService, okrAnalyticsService } from './okr/okrService';
+import { OpportunityScoringService } from './opportunityScoringService';
+import { PersonaService } from './personaService';
+import { PhaseService } from './phaseService';
+import { toLocalDay } from '../utils/localDate';
 
 // Check if Supabase is available
 const isSupabaseAvailable = () => {
@@ -155,6 +186,75 @@ export class NewAgileService {
     }
   }
 
+  // Opportunity Scoring Methods
+  static async getScoringModel(projectId: string): Promise<OpportunityScoringModel> {
+    const model = OpportunityScoringService.getDefaultModel(projectId);
+
+    try {
+      const { data, error } = await supabase
+        .from('opportunity_scoring_models')
+        .select('*')
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching scoring model:', error);
+
+        // Fall back to WSJF until the table exists
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Scoring model table not found, using defaults');
+          return model;
+        }
+
+        throw error;
+      }
+
+      if (!data) return model;
+
+      const row = data as { model: ScoringModelType; weights: Partial<OpportunityScoringModel['weights']> | null };
+      return {
+        project_id: projectId,
+        model: row.model,
+        weights: { ...model.weights, ...row.weights }
+      };
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getScoringModel:', error);
+      return model;
+    }
+  }
+
+  static async saveScoringModel(model: OpportunityScoringModel): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('opportunity_scoring_models')
+        .upsert({
+          project_id: model.project_id,
+          model: model.model,
+          weights: model.weights,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'project_id' });
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error saving scoring model:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in saveScoringModel:', error);
+      return false;
+    }
+  }
+
+  static async getRankedOpportunities(projectId: string): Promise<RankedOpportunity[]> {
+    const [opportunities, insights, model] = await Promise.all([
+      this.getOpportunities(projectId),
+      this.getInsights(projectId),
+      this.getScoringModel(projectId)
+    ]);
+    return OpportunityScoringService.rankOpportunities(opportunities, model, insights);
+  }
+
   // Hypothesis Methods
   static async createHypothesis(
     hypothesisData: HypothesisCreateRequest,
@@ -249,6 +349,33 @@ export class NewAgileService {
     }
   }
 
+  static async updateHypothesis(
+    id: string,
+    updates: Partial<Omit<Hypothesis, 'id' | 'created_at' | 'created_by'>>
+  ): Promise<Hypothesis | null> {
+    try {
+      const { data, error } = await supabase
+        .from('hypotheses')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating hypothesis:', error);
+        throw error;
+      }
+
+      return data as Hypothesis;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updateHypothesis:', error);
+      return null;
+    }
+  }
+
   // Experiment Methods
   static async createExperiment(
     experimentData: ExperimentCreateRequest,
@@ -310,115 +437,1058 @@ export class NewAgileService {
     }
   }
 
-  // Delivery Task Methods
-  static async createDeliveryTask(
-    taskData: DeliveryTaskCreateRequest,
+  static async updateExperiment(
+    id: string,
+    updates: Partial<Omit<Experiment, 'id' | 'created_at' | 'created_by'>>
+  ): Promise<Experiment | null> {
+    try {
+      const { data, error } = await supabase
+        .from('experiments')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating experiment:', error);
+        throw error;
+      }
+
+      return data as Experiment;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updateExperiment:', error);
+      return null;
+    }
+  }
+
+  // Decision Methods
+  static async createDecision(
+    decisionData: DecisionCreateRequest,
+    projectId: string
+  ): Promise<Decision | null> {
+    try {
+      console.log('🏗️ [NewAgileService] Recording decision:', decisionData.title);
+
+      const fullDecisionData = {
+        ...decisionData,
+        project_id: projectId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = await supabase
+        .from('decisions')
+        .insert(fullDecisionData)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error creating decision:', error);
+
+        // If table doesn't exist, create a mock response for now
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Decisions table not found, returning mock data');
+          return {
+            id: `mock-dec-${Date.now()}`,
+            ...fullDecisionData
+          } as Decision;
+        }
+
+        throw error;
+      }
+
+      console.log('✅ [NewAgileService] Decision recorded successfully:', data);
+      return data as Decision;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in createDecision:', error);
+      return null;
+    }
+  }
+
+  static async getDecisions(projectId: string): Promise<Decision[]> {
+    try {
+      const { data, error } = await supabase
+        .from('decisions')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching decisions:', error);
+
+        // If table doesn't exist, return empty array for now
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Decisions table not found, returning empty array');
+          return [];
+        }
+
+        throw error;
+      }
+
+      return (data ?? []) as Decision[];
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getDecisions:', error);
+      return [];
+    }
+  }
+
+  static async updateDecision(
+    id: string,
+    updates: DecisionUpdateRequest
+  ): Promise<Decision | null> {
+    try {
+      const { data, error } = await supabase
+        .from('decisions')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating decision:', error);
+        throw error;
+      }
+
+      return data as Decision;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updateDecision:', error);
+      return null;
+    }
+  }
+
+  static async deleteDecision(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('decisions')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error deleting decision:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in deleteDecision:', error);
+      return false;
+    }
+  }
+
+  // A decision is due for review once its review date has passed and neither
+  // an outcome nor lessons learned have been written down. review_date is a
+  // calendar day, so it is compared with today's local day rather than parsed
+  // as a UTC timestamp.
+  static isDecisionDueForReview(decision: Decision, now: Date = new Date()): boolean {
+    if (!decision.review_date) return false;
+    return decision.review_date.slice(0, 10) < toLocalDay(now) && !decision.outcome?.trim() && !decision.lessons_learned?.trim();
+  }
+
+  static async getDecisionsDueForReview(projectId: string): Promise<Decision[]> {
+    const decisions = await this.getDecisions(projectId);
+    return decisions
+      .filter(decision => this.isDecisionDueForReview(decision))
+      .sort((a, b) => (a.review_date ?? '').localeCompare(b.review_date ?? ''));
+  }
+
+  // Insight Methods
+  static async createInsight(
+    insightData: InsightCreateRequest,
+    projectId: string,
     userId: string
-  ): Promise<DeliveryTask | null> {
+  ): Promise<Insight | null> {
     try {
-      const fullTaskData = {
-        ...taskData,
-        status: 'ready' as const,
-        blocked: false,
+      console.log('🏗️ [NewAgileService] Logging insight:', insightData.title);
+
+      const fullInsightData = {
+        ...insightData,
+        project_id: projectId,
+        created_by: userId,
         created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        created_by: userId
+        updated_at: new Date().toISOString()
       };
 
       const { data, error } = await supabase
-        .from('delivery_tasks')
-        .insert(fullTaskData)
+        .from('insights')
+        .insert(fullInsightData)
         .select()
         .single();
 
       if (error) {
-        console.error('❌ [NewAgileService] Error creating delivery task:', error);
+        console.error('❌ [NewAgileService] Error creating insight:', error);
+
+        // If table doesn't exist, create a mock response for now
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Insights table not found, returning mock data');
+          return {
+            id: `mock-ins-${Date.now()}`,
+            ...fullInsightData
+          } as Insight;
+        }
+
         throw error;
       }
 
-      return data;
+      console.log('✅ [NewAgileService] Insight logged successfully:', data);
+      return data as Insight;
     } catch (error) {
-      console.error('❌ [NewAgileService] Service error in createDeliveryTask:', error);
+      console.error('❌ [NewAgileService] Service error in createInsight:', error);
       return null;
     }
   }
 
-  static async getDeliveryTasks(projectId?: string): Promise<DeliveryTask[]> {
+  static async getInsights(projectId: string, filters: InsightFilters = {}): Promise<Insight[]> {
     try {
       let query = supabase
-        .from('delivery_tasks')
+        .from('insights')
         .select('*')
-        .order('created_at', { ascending: false });
+        .eq('project_id', projectId);
 
-      // Note: DeliveryTask doesn't have project_id in the interface,
-      // might need to add it or filter differently
-      // For now, we'll get all tasks
+      if (filters.category) {
+        query = query.eq('category', filters.category);
+      }
+      if (filters.tags?.length) {
+        query = query.contains('tags', filters.tags);
+      }
 
-      const { data, error } = await query;
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) {
-        console.error('❌ [NewAgileService] Error fetching delivery tasks:', error);
+        console.error('❌ [NewAgileService] Error fetching insights:', error);
+
+        // If table doesn't exist, return empty array for now
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Insights table not found, returning empty array');
+          return [];
+        }
+
         throw error;
       }
 
-      return data || [];
+      // Free-text search also covers tags, so it runs client side
+      return InsightService.filterInsights((data ?? []) as Insight[], { query: filters.query });
     } catch (error) {
-      console.error('❌ [NewAgileService] Service error in getDeliveryTasks:', error);
+      console.error('❌ [NewAgileService] Service error in getInsights:', error);
       return [];
     }
   }
 
-  // Dashboard & Analytics Methods
-  static async getNewAgileDashboard(projectId: string) {
+  static async updateInsight(
+    id: string,
+    updates: Partial<InsightCreateRequest>
+  ): Promise<Insight | null> {
     try {
-      const [opportunities, experiments, deliveryTasks] = await Promise.all([
-        this.getOpportunities(projectId),
-        this.getExperiments(),
-        this.getDeliveryTasks()
-      ]);
+      const { data, error } = await supabase
+        .from('insights')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
 
-      return {
-        opportunities: {
-          total: opportunities.length,
-          by_status: opportunities.reduce((acc, opp) => {
-            acc[opp.status] = (acc[opp.status] || 0) + 1;
-            return acc;
-          }, {} as any),
-          high_value_count: opportunities.filter(opp => opp.cost_of_delay === 'high').length
-        },
-        experiments: {
-          total: experiments.length,
-          running: experiments.filter(exp => exp.status === 'running').length,
-          completed_this_month: experiments.filter(exp =>
-            exp.status === 'completed' &&
-            new Date(exp.updated_at).getMonth() === new Date().getMonth()
-          ).length,
-          win_rate: experiments.length > 0 ?
-            (experiments.filter(exp => exp.decision === 'scale').length / experiments.length) * 100 : 0
-        },
-        delivery: {
-          wip: {
-            total_wip: deliveryTasks.filter(task =>
-              ['in_progress', 'review'].includes(task.status)
-            ).length,
-            aging_items: 0, // Would need to calculate based on updated_at
-            cycle_time_avg: 0, // Would need historical data
-            lead_time_avg: 0, // Would need historical data
-            throughput_weekly: 0, // Would need historical data
-            blocked_items: deliveryTasks.filter(task => task.blocked).length
-          },
-          recently_released: deliveryTasks.filter(task => task.status === 'released').slice(0, 5),
-          blocked_items: deliveryTasks.filter(task => task.blocked)
-        },
-        okr_progress: {
-          objectives_on_track: 0, // Would need OKR implementation
-          total_objectives: 0,
-          key_results: {
-            completed: 0,
-            at_risk: 0,
-            total: 0
-          }
-        }
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating insight:', error);
+        throw error;
+      }
+
+      return data as Insight;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updateInsight:', error);
+      return null;
+    }
+  }
+
+  // Deleting an insight also drops its citations from the opportunities it supported
+  static async deleteInsight(insight: Insight, opportunities: Opportunity[]): Promise<boolean> {
+    try {
+      await this.syncInsightCitations(insight.id, insight.linked_opportunities, [], opportunities);
+
+      const { error } = await supabase
+        .from('insights')
+        .delete()
+        .eq('id', insight.id);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error deleting insight:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in deleteInsight:', error);
+      return false;
+    }
+  }
+
+  // Brings opportunity evidence in line with an insight's linked_opportunities:
+  // newly linked opportunities gain a citation, unlinked ones lose it
+  static async syncInsightCitations(
+    insightId: string,
+    previousIds: string[],
+    nextIds: string[],
+    opportunities: Opportunity[]
+  ): Promise<boolean> {
+    const added = nextIds.filter(id => !previousIds.includes(id));
+    const removed = previousIds.filter(id => !nextIds.includes(id));
+
+    const results = await Promise.all(
+      [...added, ...removed].map(async opportunityId => {
+        const opportunity = opportunities.find(o => o.id === opportunityId);
+        if (!opportunity) return true; // Opportunity deleted since the link was made
+
+        const evidence = added.includes(opportunityId)
+          ? InsightService.addCitation(opportunity.evidence ?? [], insightId)
+          : InsightService.removeCitation(opportunity.evidence ?? [], insightId);
+        if (evidence === opportunity.evidence) return true;
+
+        return (await this.updateOpportunity(opportunityId, { evidence })) !== null;
+      })
+    );
+
+    return results.every(Boolean);
+  }
+
+  // Links from the opportunity side; both records are updated
+  static async linkInsightToOpportunity(insight: Insight, opportunity: Opportunity): Promise<boolean> {
+    if (!insight.linked_opportunities.includes(opportunity.id)) {
+      const updated = await this.updateInsight(insight.id, {
+        linked_opportunities: [...insight.linked_opportunities, opportunity.id]
+      });
+      if (!updated) return false;
+    }
+
+    return this.syncInsightCitations(insight.id, [], [opportunity.id], [opportunity]);
+  }
+
+  static async unlinkInsightFromOpportunity(insight: Insight, opportunity: Opportunity): Promise<boolean> {
+    if (insight.linked_opportunities.includes(opportunity.id)) {
+      const updated = await this.updateInsight(insight.id, {
+        linked_opportunities: insight.linked_opportunities.filter(id => id !== opportunity.id)
+      });
+      if (!updated) return false;
+    }
+
+    return this.syncInsightCitations(insight.id, [opportunity.id], [], [opportunity]);
+  }
+
+  // Persona Methods
+  static async createPersona(
+    personaData: UserPersonaCreateRequest,
+    projectId: string
+  ): Promise<UserPersona | null> {
+    try {
+      const { data, error } = await supabase
+        .from('user_personas')
+        .insert({
+          ...personaData,
+          project_id: projectId,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error creating persona:', error);
+        throw error;
+      }
+
+      return data as UserPersona;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in createPersona:', error);
+      return null;
+    }
+  }
+
+  static async getPersonas(projectId: string): Promise<UserPersona[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_personas')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching personas:', error);
+
+        // If table doesn't exist, return empty array for now
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Personas table not found, returning empty array');
+          return [];
+        }
+
+        throw error;
+      }
+
+      return (data ?? []) as UserPersona[];
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getPersonas:', error);
+      return [];
+    }
+  }
+
+  static async updatePersona(
+    id: string,
+    updates: Partial<UserPersonaCreateRequest>
+  ): Promise<UserPersona | null> {
+    try {
+      const { data, error } = await supabase
+        .from('user_personas')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating persona:', error);
+        throw error;
+      }
+
+      return data as UserPersona;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updatePersona:', error);
+      return null;
+    }
+  }
+
+  static async deletePersona(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_personas')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error deleting persona:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in deletePersona:', error);
+      return false;
+    }
+  }
+
+  // Seeds a project with the template personas
+  static async createPersonasFromTemplates(projectId: string): Promise<UserPersona[]> {
+    const created = await Promise.all(
+      PersonaService.getTemplates().map(template => this.createPersona(template, projectId))
+    );
+    return created.filter((persona): persona is UserPersona => persona !== null);
+  }
+
+  static async getPersonaCoverage(projectId: string): Promise<PersonaCoverage[]> {
+    const [personas, opportunities, tasks] = await Promise.all([
+      this.getPersonas(projectId),
+      this.getOpportunities(projectId),
+      this.getDeliveryTasks(projectId)
+    ]);
+    return PersonaService.getCoverage(personas, opportunities, tasks ?? []);
+  }
+
+  // Phase Methods
+  private static async getPhaseRows(projectId: string): Promise<Phase[]> {
+    const { data, error } = await supabase
+      .from('phases')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('order', { ascending: true });
+
+    if (error) {
+      // If table doesn't exist, return empty array for now
+      if (error.code === '42P01') {
+        console.warn('⚠️ [NewAgileService] Phases table not found, returning empty array');
+        return [];
+      }
+      throw error;
+    }
+
+    return (data ?? []) as Phase[];
+  }
+
+  static async getPhases(projectId: string, tasks?: DeliveryTask[]): Promise<Phase[]> {
+    try {
+      const [phases, deliveryTasks] = await Promise.all([
+        this.getPhaseRows(projectId),
+        tasks ? Promise.resolve(tasks) : this.getDeliveryTasks(projectId)
+      ]);
+      return PhaseService.withTaskStats(phases, deliveryTasks ?? []);
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getPhases:', error);
+      return [];
+    }
+  }
+
+  static async createPhase(
+    phaseData: PhaseCreateRequest,
+    projectId: string,
+    userId: string
+  ): Promise<PhaseSaveResult> {
+    try {
+      const phases = await this.getPhaseRows(projectId);
+      const dependencyError = PhaseService.validateDependencies(null, phaseData.dependencies ?? [], phases);
+      if (dependencyError) {
+        return { phase: null, error: dependencyError };
+      }
+
+      const { data, error } = await supabase
+        .from('phases')
+        .insert({
+          ...phaseData,
+          project_id: projectId,
+          status: 'not_started',
+          dependencies: phaseData.dependencies ?? [],
+          created_by: userId,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error creating phase:', error);
+        throw error;
+      }
+
+      return { phase: PhaseService.withTaskStats([data as Phase], [])[0] ?? null };
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in createPhase:', error);
+      return { phase: null };
+    }
+  }
+
+  // Rejects dependency cycles and starting a phase before its prerequisites complete
+  static async updatePhase(
+    phase: Phase,
+    updates: PhaseUpdateRequest
+  ): Promise<PhaseSaveResult> {
+    try {
+      const phases = await this.getPhaseRows(phase.project_id);
+      const next = { ...phase, ...updates };
+
+      if (updates.dependencies) {
+        const dependencyError = PhaseService.validateDependencies(phase.id, updates.dependencies, phases);
+        if (dependencyError) {
+          return { phase: null, error: dependencyError };
+        }
+      }
+
+      if (updates.status === 'in_progress' && phase.status !== 'in_progress') {
+        const blockers = PhaseService.getStartBlockers(next, phases);
+        if (blockers.length > 0) {
+          return { phase: null, error: `Waiting on prerequisite phases: ${blockers.map(p => p.name).join(', ')}` };
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('phases')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', phase.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating phase:', error);
+        throw error;
+      }
+
+      return { phase: { ...phase, ...(data as Phase) } };
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updatePhase:', error);
+      return { phase: null };
+    }
+  }
+
+  // Persists the given order, numbering phases from 1
+  static async reorderPhases(orderedIds: string[]): Promise<boolean> {
+    try {
+      const results = await Promise.all(
+        orderedIds.map((id, index) =>
+          supabase
+            .from('phases')
+            .update({ order: index + 1, updated_at: new Date().toISOString() })
+            .eq('id', id)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        console.error('❌ [NewAgileService] Error reordering phases:', failed.error);
+        throw failed.error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in reorderPhases:', error);
+      return false;
+    }
+  }
+
+  // Removes the phase from other phases' dependencies and unassigns its tasks
+  static async deletePhase(phase: Phase, phases: Phase[]): Promise<boolean> {
+    try {
+      const dependents = phases.filter(p => p.dependencies?.includes(phase.id));
+      const results = await Promise.all(
+        dependents.map(p =>
+          supabase
+            .from('phases')
+            .update({ dependencies: (p.dependencies ?? []).filter(id => id !== phase.id) })
+            .eq('id', p.id)
+        )
+      );
+
+      // A dependency left pointing at a deleted phase would block its dependent forever
+      const failed = results.find(result => result.error);
+      if (failed?.error) {
+        console.error('❌ [NewAgileService] Error removing phase from dependencies:', failed.error);
+        throw failed.error;
+      }
+
+      const { error: taskError } = await supabase
+        .from('delivery_tasks')
+        .update({ phase_id: null })
+        .eq('phase_id', phase.id);
+
+      if (taskError) {
+        console.error('❌ [NewAgileService] Error unassigning phase tasks:', taskError);
+        throw taskError;
+      }
+
+      const { error } = await supabase
+        .from('phases')
+        .delete()
+        .eq('id', phase.id);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error deleting phase:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in deletePhase:', error);
+      return false;
+    }
+  }
+
+  // Delivery Task Methods
+  static async createDeliveryTask(
+    taskData: DeliveryTaskCreateRequest,
+    projectId: string,
+    userId: string
+  ): Promise<DeliveryTask | null> {
+    try {
+      const fullTaskData = {
+        ...taskData,
+        project_id: projectId,
+        status: 'ready' as const,
+        blocked: false,
+        definition_of_ready: [],
+        definition_of_done: [],
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        created_by: userId
+      };
+
+      const { data, error } = await supabase
+        .from('delivery_tasks')
+        .insert(fullTaskData)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error creating delivery task:', error);
+        throw error;
+      }
+
+      return data as DeliveryTask;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in createDeliveryTask:', error);
+      return null;
+    }
+  }
+
+  // Returns null when the tasks could not be loaded, so the board can tell a
+  // failed load from an empty project
+  static async getDeliveryTasks(projectId: string): Promise<DeliveryTask[] | null> {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_tasks')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching delivery tasks:', error);
+        throw error;
+      }
+
+      return (data ?? []) as DeliveryTask[];
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getDeliveryTasks:', error);
+      return null;
+    }
+  }
+
+  static async getDeliveryTasksByIds(ids: string[]): Promise<DeliveryTask[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('delivery_tasks')
+        .select('*')
+        .in('id', ids);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching delivery tasks by id:', error);
+        throw error;
+      }
+
+      return (data ?? []) as DeliveryTask[];
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getDeliveryTasksByIds:', error);
+      return [];
+    }
+  }
+
+  static async updateDeliveryTask(
+    id: string,
+    updates: DeliveryTaskUpdateRequest
+  ): Promise<DeliveryTask | null> {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_tasks')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error updating delivery task:', error);
+        throw error;
+      }
+
+      return data as DeliveryTask;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in updateDeliveryTask:', error);
+      return null;
+    }
+  }
+
+  // Moves a task to another board column, stamping started_at/completed_at
+  // and cycle_time the first time the task enters or leaves active work
+  static async moveDeliveryTask(
+    task: DeliveryTask,
+    status: DeliveryTaskStatus
+  ): Promise<DeliveryTask | null> {
+    try {
+      const now = new Date().toISOString();
+      const flowFields: { started_at?: string; completed_at?: string | null; cycle_time?: number | null } = {};
+
+      if (status !== 'ready' && !task.started_at) {
+        flowFields.started_at = now;
+      }
+
+      // Moving back out of a done column reopens the task, so the next release
+      // stamps a fresh completion and cycle time
+      if (!DONE_STATUSES.includes(status)) {
+        if (task.completed_at) {
+          flowFields.completed_at = null;
+          flowFields.cycle_time = null;
+        }
+      } else if (!task.completed_at) {
+        const startedAt = task.started_at ?? flowFields.started_at ?? now;
+        flowFields.completed_at = now;
+        flowFields.cycle_time = Math.round(
+          ((new Date(now).getTime() - new Date(startedAt).getTime()) / (1000 * 60 * 60)) * 10
+        ) / 10;
+      }
+
+      const { data, error } = await supabase
+        .from('delivery_tasks')
+        .update({
+          status,
+          ...flowFields,
+          updated_at: now
+        })
+        .eq('id', task.id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error moving delivery task:', error);
+        throw error;
+      }
+
+      return data as DeliveryTask;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in moveDeliveryTask:', error);
+      return null;
+    }
+  }
+
+  static async deleteDeliveryTask(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('delivery_tasks')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error deleting delivery task:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in deleteDeliveryTask:', error);
+      return false;
+    }
+  }
+
+  static async getDeliveryTaskTransitions(projectId: string): Promise<DeliveryTaskTransition[]> {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_task_status_history')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('transitioned_at', { ascending: true });
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching delivery task history:', error);
+
+        // Without the history table, metrics fall back to task timestamps
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] Delivery task history table not found, returning empty array');
+          return [];
+        }
+
+        throw error;
+      }
+
+      return (data ?? []) as DeliveryTaskTransition[];
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getDeliveryTaskTransitions:', error);
+      return [];
+    }
+  }
+
+  static async getFlowMetrics(projectId: string, tasks?: DeliveryTask[]): Promise<FlowMetricsReport> {
+    const [deliveryTasks, transitions] = await Promise.all([
+      tasks ? Promise.resolve(tasks) : this.getDeliveryTasks(projectId),
+      this.getDeliveryTaskTransitions(projectId)
+    ]);
+
+    return FlowMetricsService.calculate(deliveryTasks ?? [], transitions);
+  }
+
+  // WIP Policy Methods
+  static getDefaultWipPolicy(projectId: string): WIPPolicy {
+    return {
+      project_id: projectId,
+      limits: {
+        ready: 10,
+        in_progress: 3,
+        review: 3,
+        measuring: 3
+      },
+      policies: {
+        ready: 'warn',
+        in_progress: 'warn',
+        review: 'warn',
+        released: 'warn',
+        measuring: 'warn'
+      }
+    };
+  }
+
+  static async getWipPolicy(projectId: string): Promise<WIPPolicy> {
+    const policy = this.getDefaultWipPolicy(projectId);
+
+    try {
+      const { data, error } = await supabase
+        .from('delivery_wip_policies')
+        .select('*')
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching WIP policy:', error);
+
+        // Fall back to the default limits until the table exists
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] WIP policy table not found, using defaults');
+          return policy;
+        }
+
+        throw error;
+      }
+
+      const rows = (data ?? []) as { status: DeliveryTaskStatus; wip_limit: number | null; policy: WIPPolicyMode }[];
+      for (const row of rows) {
+        if (row.wip_limit === null) {
+          delete policy.limits[row.status];
+        } else {
+          policy.limits[row.status] = row.wip_limit;
+        }
+        policy.policies[row.status] = row.policy;
+      }
+
+      return policy;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getWipPolicy:', error);
+      return policy;
+    }
+  }
+
+  static async saveWipPolicy(policy: WIPPolicy): Promise<boolean> {
+    try {
+      const rows = (Object.keys(policy.policies) as DeliveryTaskStatus[]).map(status => ({
+        project_id: policy.project_id,
+        status,
+        wip_limit: policy.limits[status] ?? null,
+        policy: policy.policies[status],
+        updated_at: new Date().toISOString()
+      }));
+
+      const { error } = await supabase
+        .from('delivery_wip_policies')
+        .upsert(rows, { onConflict: 'project_id,status' });
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error saving WIP policy:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in saveWipPolicy:', error);
+      return false;
+    }
+  }
+
+  static async logWipOverride(
+    override: Omit<WIPLimitOverride, 'id' | 'created_at'>
+  ): Promise<WIPLimitOverride | null> {
+    try {
+      const { data, error } = await supabase
+        .from('wip_limit_overrides')
+        .insert({
+          ...override,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error logging WIP override:', error);
+        throw error;
+      }
+
+      return data as WIPLimitOverride;
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in logWipOverride:', error);
+      return null;
+    }
+  }
+
+  static async getWipOverrides(projectId: string, limit = 20): Promise<WIPLimitOverride[]> {
+    try {
+      const { data, error } = await supabase
+        .from('wip_limit_overrides')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('❌ [NewAgileService] Error fetching WIP overrides:', error);
+
+        if (error.code === '42P01') {
+          console.warn('⚠️ [NewAgileService] WIP override table not found, returning empty array');
+          return [];
+        }
+
+        throw error;
+      }
+
+      return (data ?? []) as WIPLimitOverride[];
+    } catch (error) {
+      console.error('❌ [NewAgileService] Service error in getWipOverrides:', error);
+      return [];
+    }
+  }
+
+  // Dashboard & Analytics Methods
+  static async getNewAgileDashboard(projectId: string) {
+    try {
+      const [opportunities, insights, scoringModel, experiments, deliveryTasks, objectives] = await Promise.all([
+        this.getOpportunities(projectId),
+        this.getInsights(projectId),
+        this.getScoringModel(projectId),
+        this.getExperiments(),
+        this.getDeliveryTasks(projectId).then(loaded => loaded ?? []),
+        // The OKR service throws; the rest of the dashboard does not depend on it
+        objectiveService.getObjectivesForProject(projectId).catch((error: unknown) => {
+          console.warn('⚠️ [NewAgileService] Could not load objectives for dashboard:', error);
+          return [] as Objective[];
+        })
+      ]);
+      const flow = await this.getFlowMetrics(projectId, deliveryTasks);
+      const openOpportunities = opportunities.filter(opp => opp.status !== 'archived');
+
+      return {
+        opportunities: {
+          total: opportunities.length,
+          by_status: opportunities.reduce((acc, opp) => {
+            acc[opp.status] = (acc[opp.status] || 0) + 1;
+            return acc;
+          }, {} as any),
+          high_value_count: opportunities.filter(opp => opp.cost_of_delay === 'high').length,
+          scoring_model: scoringModel.model,
+          top_ranked: OpportunityScoringService.rankOpportunities(openOpportunities, scoringModel, insights).slice(0, 5)
+        },
+        experiments: {
+          total: experiments.length,
+          running: experiments.filter(exp => exp.status === 'running').length,
+          completed_this_month: experiments.filter(exp =>
+            exp.status === 'completed' &&
+            new Date(exp.updated_at).getMonth() === new Date().getMonth()
+          ).length,
+          win_rate: experiments.length > 0 ?
+            (experiments.filter(exp => exp.decision === 'scale').length / experiments.length) * 100 : 0
+        },
+        delivery: {
+          wip: {
+            total_wip: flow.total_wip,
+            aging_items: flow.aging_items,
+            cycle_time_avg: flow.cycle_time_avg,
+            lead_time_avg: flow.lead_time_avg,
+            throughput_weekly: flow.throughput_weekly,
+            blocked_items: flow.blocked_items
+          },
+          flow,
+          recently_released: deliveryTasks.filter(task => task.status === 'released').slice(0, 5),
+          blocked_items: deliveryTasks.filter(task => task.blocked)
+        },
+        okr_progress: okrAnalyticsService.summarizeProgress(objectives)
       };
     } catch (error) {
       console.error('❌ [NewAgileService] Error getting dashboard data:', error);
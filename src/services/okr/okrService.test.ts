@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { okrAnalyticsService } from './okrService';
+import type { KeyResult, KeyResultCheckIn } from '../../types';
+
+const keyResult = (overrides: Partial<KeyResult> = {}): KeyResult => ({
+  id: 'kr-1',
+  objective_id: 'objective-1',
+  title: 'Weekly active teams',
+  baseline: 0,
+  target: 100,
+  current_value: 0,
+  unit: 'teams',
+  measurement_frequency: 'weekly',
+  status: 'active',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+// Check-ins at local noon; quarters run on local calendar days
+const checkIn = (month: number, day: number, value: number): KeyResultCheckIn => ({
+  id: `check-in-${month}-${day}`,
+  key_result_id: 'kr-1',
+  value,
+  note: null,
+  confidence: null,
+  updated_by: 'user-1',
+  created_at: new Date(2026, month - 1, day, 12).toISOString()
+});
+
+const midQuarter = new Date(2026, 10, 20, 12);
+
+describe('okrAnalyticsService.forecastKeyResult', () => {
+  it('returns null until there is a check-in', () => {
+    expect(okrAnalyticsService.forecastKeyResult(keyResult(), [], 4, 2026, midQuarter)).toBeNull();
+  });
+
+  it('fits a line through three or more check-ins', () => {
+    // One team a day from 10 on 1 October, so 101.5 by the end of 31 December
+    const history = [checkIn(10, 21, 30), checkIn(10, 1, 10), checkIn(10, 11, 20)];
+    const forecast = okrAnalyticsService.forecastKeyResult(keyResult(), history, 4, 2026, midQuarter)!;
+
+    expect(forecast.method).toBe('linear');
+    expect(forecast.projected_value).toBeCloseTo(101.5, 0);
+    expect(forecast.projected_progress).toBeGreaterThanOrEqual(101);
+    expect(forecast.projected_progress).toBeLessThanOrEqual(102);
+    expect(forecast.on_track).toBe(true);
+    expect(forecast.quarter_end).toBe('2026-12-31');
+  });
+
+  it('extends the pace since quarter start with fewer check-ins', () => {
+    // 45 in the 45.5 days since 1 October, continued for the 46.5 days left
+    const forecast = okrAnalyticsService.forecastKeyResult(keyResult(), [checkIn(11, 15, 45)], 4, 2026, midQuarter)!;
+
+    expect(forecast.method).toBe('pace');
+    expect(forecast.projected_value).toBeCloseTo(91, 0);
+    expect(forecast.projected_progress).toBe(91);
+    expect(forecast.on_track).toBe(false);
+  });
+
+  it('keeps the latest value once the quarter has ended', () => {
+    const history = [checkIn(10, 1, 10), checkIn(11, 1, 40), checkIn(12, 1, 70)];
+    const forecast = okrAnalyticsService.forecastKeyResult(keyResult(), history, 4, 2026, new Date(2027, 0, 5))!;
+
+    expect(forecast.projected_value).toBe(70);
+    expect(forecast.projected_progress).toBe(70);
+    expect(forecast.on_track).toBe(false);
+  });
+
+  it('meets targets below the baseline from above', () => {
+    const reduction = keyResult({ baseline: 50, target: 20 });
+    const history = [checkIn(10, 1, 50), checkIn(10, 21, 40), checkIn(11, 10, 30)];
+    const forecast = okrAnalyticsService.forecastKeyResult(reduction, history, 4, 2026, midQuarter)!;
+
+    expect(forecast.projected_value).toBeLessThan(20);
+    expect(forecast.projected_progress).toBeGreaterThan(100);
+    expect(forecast.on_track).toBe(true);
+  });
+});
+
+describe('okrAnalyticsService.getForecastStatus', () => {
+  const onTrack = { method: 'linear' as const, projected_value: 120, projected_progress: 120, on_track: true, quarter_end: '2026-12-31' };
+  const offTrack = { ...onTrack, projected_value: 60, projected_progress: 60, on_track: false };
+
+  it('flags active key results that are off track', () => {
+    expect(okrAnalyticsService.getForecastStatus(keyResult(), offTrack)).toEqual({ status: 'at_risk', forecast_at_risk: true });
+    expect(okrAnalyticsService.getForecastStatus(keyResult(), onTrack)).toBeNull();
+    expect(okrAnalyticsService.getForecastStatus(keyResult(), null)).toBeNull();
+  });
+
+  it('clears only the flags the forecast set', () => {
+    expect(okrAnalyticsService.getForecastStatus(keyResult({ status: 'at_risk', forecast_at_risk: true }), onTrack))
+      .toEqual({ status: 'active', forecast_at_risk: false });
+    expect(okrAnalyticsService.getForecastStatus(keyResult({ status: 'at_risk', forecast_at_risk: false }), onTrack)).toBeNull();
+  });
+});
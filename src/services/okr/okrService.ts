@@ -6,12 +6,31 @@ import type {
   Objective,
   ObjectiveInsert,
   ObjectiveUpdate,
+  ObjectiveLevel,
   KeyResult,
   KeyResultInsert,
   KeyResultUpdate as KeyResultUpdateType,
   KeyResultUpdateInsert,
-  OKRProgressSummary
+  KeyResultCheckIn,
+  KeyResultCheckInInput,
+  KeyResultForecast,
+  KeyResultFormData,
+  LinkedProject,
+  ObjectiveAlignment,
+  ObjectiveRollup,
+  ObjectiveTreeNode,
+  AlignmentGap,
+  OKRProgressOverview,
+  OKRProgressSummary,
+  ObjectiveCloseInput,
+  OKRQuarterReport,
+  QuarterComparison,
+  QuarterReportObjective,
+  Project
 } from '../../types';
+import { toLocalDay } from '../../utils/localDate';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Objective CRUD operations
 export const objectiveService = {
@@ -54,8 +73,11 @@ export const objectiveService = {
     return data;
   },
 
-  // Create new objective
-  async createObjective(objective: ObjectiveInsert): Promise<Objective> {
+  // Create new objective, with its first key results
+  async createObjective(
+    objective: Omit<ObjectiveInsert, 'owner_id'>,
+    keyResults: KeyResultFormData[] = []
+  ): Promise<Objective> {
     const { data: user } = await supabase.auth.getUser();
     if (!user.user) throw new Error('User not authenticated');
 
@@ -71,7 +93,20 @@ export const objectiveService = {
       .single();
 
     if (error) throw error;
-    return data;
+    const created = data as Objective;
+    if (keyResults.length === 0) return { ...created, key_results: [] };
+
+    const { data: createdKeyResults, error: keyResultError } = await supabase
+      .from('key_results')
+      .insert(keyResults.map(kr => ({
+        ...kr,
+        objective_id: created.id,
+        current_value: kr.baseline
+      })))
+      .select();
+
+    if (keyResultError) throw keyResultError;
+    return { ...created, key_results: (createdKeyResults ?? []) as KeyResult[] };
   },
 
   // Update existing objective
@@ -109,6 +144,83 @@ export const objectiveService = {
 
     if (error) throw error;
     return data || [];
+  },
+
+  // Objectives set within a project plus the one the project delivers
+  // toward through projects.objective_id, with key results and check-ins
+  async getObjectivesForProject(projectId: string): Promise<Objective[]> {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('objective_id')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError) throw projectError;
+    const linkedObjectiveId = (project as { objective_id: string | null } | null)?.objective_id;
+    const filter = linkedObjectiveId
+      ? `project_id.eq.${projectId},id.eq.${linkedObjectiveId}`
+      : `project_id.eq.${projectId}`;
+
+    const { data, error } = await supabase
+      .from('objectives')
+      .select(`
+        *,
+        key_results (
+          *,
+          key_result_updates (*)
+        )
+      `)
+      .or(filter)
+      .order('year', { ascending: false })
+      .order('quarter', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as Objective[];
+  },
+
+  // Projects whose objective_id points at one of the objectives
+  async getLinkedProjects(objectiveIds: string[]): Promise<LinkedProject[]> {
+    if (objectiveIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('projects')
+      .select('id, name, status, progress, objective_id')
+      .in('objective_id', objectiveIds);
+
+    if (error) throw error;
+    return ((data ?? []) as { id: string; name: string; status: Project['status']; progress: number | null; objective_id: string }[])
+      .map(row => ({
+        id: row.id,
+        objective_id: row.objective_id,
+        title: row.name,
+        status: row.status,
+        progress: row.progress ?? 0
+      }));
+  },
+
+  // Set the objective's parent, level and contribution weight. The database
+  // also rejects parents that would close a loop.
+  async alignObjective(id: string, alignment: ObjectiveAlignment): Promise<Objective> {
+    if (alignment.parent_id === id) throw new Error('An objective cannot support itself');
+    if (!Number.isFinite(alignment.contribution_weight) || alignment.contribution_weight <= 0) {
+      throw new Error('Contribution weight must be greater than zero');
+    }
+
+    return this.updateObjective(id, {
+      parent_id: alignment.parent_id,
+      level: alignment.level,
+      contribution_weight: alignment.contribution_weight
+    });
+  },
+
+  // Point a project at the objective it delivers toward, or clear the link
+  async linkProject(projectId: string, objectiveId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('projects')
+      .update({ objective_id: objectiveId })
+      .eq('id', projectId);
+
+    if (error) throw error;
   }
 };
 
@@ -189,7 +301,7 @@ export const keyResultService = {
   },
 
   // Get progress history for key result
-  async getKeyResultUpdates(keyResultId: string): Promise<any[]> {
+  async getKeyResultUpdates(keyResultId: string): Promise<KeyResultCheckIn[]> {
     const { data, error } = await supabase
       .from('key_result_updates')
       .select('*')
@@ -197,7 +309,47 @@ export const keyResultService = {
       .order('created_at', { ascending: true });
 
     if (error) throw error;
-    return data || [];
+    return (data ?? []) as KeyResultCheckIn[];
+  },
+
+  // Record a check-in and re-forecast the key result. The insert trigger
+  // copies the value to current_value; the status moves to at_risk when the
+  // forecast misses target and back once a forecast-set flag recovers
+  async checkIn(
+    keyResult: KeyResult,
+    objective: Pick<Objective, 'quarter' | 'year'>,
+    input: KeyResultCheckInInput
+  ): Promise<{ keyResult: KeyResult; history: KeyResultCheckIn[]; forecast: KeyResultForecast | null }> {
+    const note = input.note.trim();
+    if (!Number.isFinite(input.value)) throw new Error('Enter the current value');
+    if (!note) throw new Error('Add a note describing what changed');
+    if (!Number.isInteger(input.confidence) || input.confidence < 1 || input.confidence > 10) {
+      throw new Error('Confidence must be a whole number from 1 to 10');
+    }
+
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('key_result_updates')
+      .insert({
+        key_result_id: keyResult.id,
+        value: input.value,
+        note,
+        confidence: input.confidence,
+        updated_by: user.user.id
+      });
+
+    if (error) throw error;
+
+    const history = await this.getKeyResultUpdates(keyResult.id);
+    const checkedIn: KeyResult = { ...keyResult, current_value: input.value, key_result_updates: history };
+    const forecast = okrAnalyticsService.forecastKeyResult(checkedIn, history, objective.quarter, objective.year);
+    const statusChange = okrAnalyticsService.getForecastStatus(checkedIn, forecast);
+    if (!statusChange) return { keyResult: checkedIn, history, forecast };
+
+    const updated = await this.updateKeyResult(keyResult.id, statusChange);
+    return { keyResult: { ...updated, key_result_updates: history }, history, forecast };
   }
 };
 
@@ -231,6 +383,200 @@ export const okrAnalyticsService = {
     return Math.round(totalProgress / objective.key_results.length);
   },
 
+  // Project a key result to quarter end from its check-ins. Three or more
+  // check-ins are fitted with a least-squares line; fewer extend the pace
+  // from the baseline at quarter start. Past quarter end the latest value
+  // stands. Returns null until there is a check-in.
+  forecastKeyResult(
+    keyResult: KeyResult,
+    history: KeyResultCheckIn[],
+    quarter: number,
+    year: number,
+    now: Date = new Date()
+  ): KeyResultForecast | null {
+    const points = history
+      .map(checkIn => ({ t: new Date(checkIn.created_at).getTime(), value: Number(checkIn.value) }))
+      .filter(point => Number.isFinite(point.t) && Number.isFinite(point.value))
+      .sort((a, b) => a.t - b.t);
+    const latest = points[points.length - 1];
+    if (!latest) return null;
+
+    const { start, end } = okrUtils.getQuarterDateRange(quarter, year);
+    const endTime = end.getTime() + DAY_MS - 1; // Through the last day of the quarter
+    const baseline = Number(keyResult.baseline);
+    const target = Number(keyResult.target);
+
+    let method: KeyResultForecast['method'] = 'pace';
+    let projected = latest.value;
+
+    if (now.getTime() < endTime) {
+      const first = points[0]!;
+      if (points.length >= 3 && latest.t > first.t) {
+        method = 'linear';
+        const meanT = points.reduce((sum, p) => sum + p.t, 0) / points.length;
+        const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+        const covariance = points.reduce((sum, p) => sum + (p.t - meanT) * (p.value - meanValue), 0);
+        const variance = points.reduce((sum, p) => sum + (p.t - meanT) ** 2, 0);
+        const slope = covariance / variance;
+        projected = meanValue + slope * (endTime - meanT);
+      } else {
+        const origin = latest.t > start.getTime() ? { t: start.getTime(), value: baseline } : first;
+        const elapsed = latest.t - origin.t;
+        const rate = elapsed > 0 ? (latest.value - origin.value) / elapsed : 0;
+        projected = latest.value + rate * (endTime - latest.t);
+      }
+    }
+
+    // Targets below the baseline (reduce churn, cut costs) are met from above
+    const span = target - baseline;
+    const onTrack = span >= 0 ? projected >= target : projected <= target;
+    const projectedProgress = span === 0 ? (onTrack ? 100 : 0) : ((projected - baseline) / span) * 100;
+
+    return {
+      method,
+      projected_value: Math.round(projected * 100) / 100,
+      projected_progress: Math.round(projectedProgress),
+      on_track: onTrack,
+      quarter_end: toLocalDay(end)
+    };
+  },
+
+  // Status change implied by a forecast, or null when none. Only active key
+  // results are flagged, and only forecast-set flags are cleared
+  getForecastStatus(
+    keyResult: KeyResult,
+    forecast: KeyResultForecast | null
+  ): { status: KeyResult['status']; forecast_at_risk: boolean } | null {
+    if (!forecast) return null;
+    if (keyResult.status === 'active' && !forecast.on_track) {
+      return { status: 'at_risk', forecast_at_risk: true };
+    }
+    if (keyResult.status === 'at_risk' && keyResult.forecast_at_risk && forecast.on_track) {
+      return { status: 'active', forecast_at_risk: false };
+    }
+    return null;
+  },
+
+  // Key result progress alongside the delivery progress of the projects
+  // linked to the objective
+  buildRollup(objective: Objective, linkedProjects: LinkedProject[]): ObjectiveRollup {
+    const projects = linkedProjects.filter(project => project.objective_id === objective.id);
+    const keyResultProgress = objective.key_results && objective.key_results.length > 0
+      ? this.calculateObjectiveProgress(objective)
+      : null;
+    const projectProgress = projects.length > 0
+      ? Math.round(projects.reduce((sum, project) => sum + Math.min(project.progress, 100), 0) / projects.length)
+      : null;
+    const parts = [keyResultProgress, projectProgress].filter((part): part is number => part !== null);
+
+    return {
+      objective_id: objective.id,
+      key_result_progress: keyResultProgress,
+      project_progress: projectProgress,
+      overall_progress: parts.length > 0 ? Math.round(parts.reduce((sum, part) => sum + part, 0) / parts.length) : 0,
+      projects
+    };
+  },
+
+  // Alignment tree of the objectives. An objective whose parent is not in the
+  // set becomes a root. Cancelled objectives stay in the tree but carry no
+  // weight in their parent's progress.
+  buildObjectiveTree(objectives: Objective[], linkedProjects: LinkedProject[]): ObjectiveTreeNode[] {
+    const ids = new Set(objectives.map(objective => objective.id));
+    const childrenOf = new Map<string, Objective[]>();
+    for (const objective of objectives) {
+      if (!objective.parent_id || !ids.has(objective.parent_id) || objective.parent_id === objective.id) continue;
+      childrenOf.set(objective.parent_id, [...(childrenOf.get(objective.parent_id) ?? []), objective]);
+    }
+
+    const visited = new Set<string>();
+    const buildNode = (objective: Objective, depth: number): ObjectiveTreeNode => {
+      visited.add(objective.id);
+      const rollup = this.buildRollup(objective, linkedProjects);
+      const ownProgress = rollup.key_result_progress === null && rollup.project_progress === null
+        ? null
+        : rollup.overall_progress;
+      const children = (childrenOf.get(objective.id) ?? [])
+        .filter(child => !visited.has(child.id))
+        .map(child => buildNode(child, depth + 1));
+
+      const parts = [
+        ...(ownProgress !== null ? [{ progress: ownProgress, weight: 1 }] : []),
+        ...children
+          .filter(child => child.objective.status !== 'cancelled')
+          .map(child => ({ progress: child.rolled_up_progress, weight: okrUtils.getContributionWeight(child.objective) }))
+      ];
+      const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+
+      return {
+        objective,
+        depth,
+        own_progress: ownProgress,
+        rolled_up_progress: totalWeight > 0
+          ? Math.round(parts.reduce((sum, part) => sum + part.progress * part.weight, 0) / totalWeight)
+          : 0,
+        children
+      };
+    };
+
+    const byLevel = (a: Objective, b: Objective) => okrUtils.getLevelRank(a) - okrUtils.getLevelRank(b);
+    const roots = objectives
+      .filter(objective => !objective.parent_id || !ids.has(objective.parent_id) || objective.parent_id === objective.id)
+      .sort(byLevel)
+      .map(objective => buildNode(objective, 0));
+
+    // Objectives caught in a loop have no root above them; break in at the top level
+    for (const objective of [...objectives].sort(byLevel)) {
+      if (!visited.has(objective.id)) roots.push(buildNode(objective, 0));
+    }
+    return roots;
+  },
+
+  // Objectives below company level with no parent, and objectives with no
+  // linked project on them or anywhere below them. Cancelled objectives are
+  // left out.
+  getAlignmentGaps(objectives: Objective[], linkedProjects: LinkedProject[]): AlignmentGap[] {
+    const gaps: AlignmentGap[] = [];
+    const linkedObjectiveIds = new Set(linkedProjects.map(project => project.objective_id));
+
+    const visit = (node: ObjectiveTreeNode): boolean => {
+      const position = gaps.length; // Parents are listed ahead of their children
+      const childrenHaveProjects = node.children.map(visit).some(Boolean);
+      const hasProjects = linkedObjectiveIds.has(node.objective.id) || childrenHaveProjects;
+      const missingParent = okrUtils.getLevel(node.objective) !== 'company' && !node.objective.parent_id;
+
+      if (node.objective.status !== 'cancelled' && (missingParent || !hasProjects)) {
+        gaps.splice(position, 0, { objective: node.objective, missing_parent: missingParent, missing_projects: !hasProjects });
+      }
+      return hasProjects;
+    };
+
+    this.buildObjectiveTree(objectives, linkedProjects).forEach(visit);
+    return gaps;
+  },
+
+  // Counts for dashboards; cancelled objectives are left out
+  summarizeProgress(objectives: Objective[]): OKRProgressOverview {
+    const counted = objectives.filter(objective => objective.status !== 'cancelled');
+    const keyResults = counted.flatMap(objective => objective.key_results ?? []);
+
+    return {
+      objectives_on_track: counted.filter(objective => {
+        if (objective.status === 'completed') return true;
+        const objectiveKeyResults = objective.key_results ?? [];
+        return objective.status === 'active' &&
+          objectiveKeyResults.length > 0 &&
+          objectiveKeyResults.every(kr => kr.status !== 'at_risk' && kr.status !== 'blocked');
+      }).length,
+      total_objectives: counted.length,
+      key_results: {
+        completed: keyResults.filter(kr => kr.status === 'completed').length,
+        at_risk: keyResults.filter(kr => kr.status === 'at_risk').length,
+        total: keyResults.length
+      }
+    };
+  },
+
   // Get objectives at risk (< 50% progress with < 30 days left in quarter)
   async getObjectivesAtRisk(): Promise<Objective[]> {
     const objectives = await objectiveService.getObjectives();
@@ -285,6 +631,239 @@ export const okrAnalyticsService = {
   }
 };
 
+// Quarter close: grading, reflections, carry-over and the archived reports
+export const okrQuarterService = {
+  // Grade suggested from how far the key result got from baseline to target,
+  // to one decimal. Completed key results get 1.0.
+  suggestGrade(keyResult: KeyResult): number {
+    if (keyResult.status === 'completed') return 1;
+    const baseline = Number(keyResult.baseline);
+    const target = Number(keyResult.target);
+    const current = Number(keyResult.current_value);
+    const span = target - baseline;
+    const ratio = span === 0 ? (current === target ? 1 : 0) : (current - baseline) / span;
+    return Math.round(Math.min(Math.max(ratio, 0), 1) * 10) / 10;
+  },
+
+  // Objective grade: the average of its key result grades, to two decimals
+  gradeObjective(grades: number[]): number {
+    if (grades.length === 0) return 0;
+    return Math.round((grades.reduce((sum, grade) => sum + grade, 0) / grades.length) * 100) / 100;
+  },
+
+  // Finished objectives are completed or graded 1.0; the rest are offered
+  // for carry-over
+  isUnfinished(objective: Objective, grade: number): boolean {
+    return objective.status !== 'completed' && grade < 1;
+  },
+
+  // The current user's objectives in the quarter that still need grading.
+  // Cancelled objectives are not graded.
+  async getObjectivesToClose(quarter: number, year: number): Promise<Objective[]> {
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('objectives')
+      .select(`
+        *,
+        key_results (*)
+      `)
+      .eq('owner_id', user.user.id)
+      .eq('quarter', quarter)
+      .eq('year', year)
+      .is('closed_at', null)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as Objective[];
+  },
+
+  // Grade and close every open objective of the quarter, copy the ones marked
+  // for carry-over into the next quarter and archive the quarter. The steps
+  // run one objective at a time; running the close again after a failure
+  // picks up the objectives that are still open without copying any of them
+  // twice.
+  async closeQuarter(quarter: 1 | 2 | 3 | 4, year: number, inputs: ObjectiveCloseInput[]): Promise<OKRQuarterReport> {
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) throw new Error('User not authenticated');
+
+    const { data: existing, error: existingError } = await supabase
+      .from('okr_quarter_reports')
+      .select('id')
+      .eq('owner_id', user.user.id)
+      .eq('quarter', quarter)
+      .eq('year', year)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) throw new Error(`${okrUtils.getQuarterName(quarter)} ${year} is already closed`);
+
+    const objectives = await this.getObjectivesToClose(quarter, year);
+    const inputsById = new Map(inputs.map(input => [input.objective_id, input]));
+    for (const objective of objectives) {
+      const input = inputsById.get(objective.id);
+      if (!input) throw new Error(`Grade "${objective.title}" before closing the quarter`);
+      if (!input.reflection.trim()) throw new Error(`Add a reflection for "${objective.title}"`);
+      for (const keyResult of objective.key_results ?? []) {
+        const grade = input.key_result_grades[keyResult.id];
+        if (grade === undefined || !Number.isFinite(grade) || grade < 0 || grade > 1) {
+          throw new Error(`Grade "${keyResult.title}" between 0.0 and 1.0`);
+        }
+      }
+    }
+
+    const next = okrUtils.getNextQuarter(quarter, year);
+    const closedAt = new Date().toISOString();
+
+    for (const objective of objectives) {
+      const input = inputsById.get(objective.id)!;
+      const keyResults = objective.key_results ?? [];
+
+      for (const keyResult of keyResults) {
+        await keyResultService.updateKeyResult(keyResult.id, { grade: input.key_result_grades[keyResult.id]! });
+      }
+
+      if (input.carry_over) {
+        // A copy left by an earlier close that failed part-way is not made again
+        const { data: carried, error: carriedError } = await supabase
+          .from('objectives')
+          .select('id')
+          .eq('carried_from_id', objective.id)
+          .limit(1);
+
+        if (carriedError) throw carriedError;
+
+        if ((carried ?? []).length === 0) {
+          await objectiveService.createObjective({
+            title: objective.title,
+            description: objective.description,
+            quarter: next.quarter,
+            year: next.year,
+            project_id: objective.project_id,
+            parent_id: objective.parent_id,
+            level: objective.level,
+            contribution_weight: objective.contribution_weight,
+            status: 'active',
+            carried_from_id: objective.id
+          }, keyResults.map(keyResult => ({
+            title: keyResult.title,
+            description: keyResult.description ?? '',
+            baseline: Number(keyResult.current_value), // The copy starts from where this quarter ended
+            target: Number(keyResult.target),
+            unit: keyResult.unit,
+            measurement_frequency: keyResult.measurement_frequency
+          })));
+        }
+      }
+
+      await objectiveService.updateObjective(objective.id, {
+        grade: this.gradeObjective(keyResults.map(keyResult => input.key_result_grades[keyResult.id]!)),
+        reflection: input.reflection.trim(),
+        closed_at: closedAt
+      });
+    }
+
+    return this.archiveQuarter(user.user.id, quarter, year);
+  },
+
+  // Write the read-only report from the closed objectives of the quarter
+  async archiveQuarter(ownerId: string, quarter: 1 | 2 | 3 | 4, year: number): Promise<OKRQuarterReport> {
+    const { data, error } = await supabase
+      .from('objectives')
+      .select(`
+        *,
+        key_results (*)
+      `)
+      .eq('owner_id', ownerId)
+      .eq('quarter', quarter)
+      .eq('year', year)
+      .not('closed_at', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    const closed = (data ?? []) as Objective[];
+
+    const { data: copies, error: copiesError } = closed.length > 0
+      ? await supabase
+          .from('objectives')
+          .select('carried_from_id')
+          .in('carried_from_id', closed.map(objective => objective.id))
+      : { data: [], error: null };
+
+    if (copiesError) throw copiesError;
+    const carriedIds = new Set((copies as { carried_from_id: string }[]).map(copy => copy.carried_from_id));
+
+    const snapshot: QuarterReportObjective[] = closed.map(objective => ({
+      id: objective.id,
+      title: objective.title,
+      level: okrUtils.getLevel(objective),
+      status: objective.status,
+      grade: Number(objective.grade ?? 0),
+      reflection: objective.reflection ?? '',
+      carried_over: carriedIds.has(objective.id),
+      key_results: (objective.key_results ?? []).map(keyResult => ({
+        id: keyResult.id,
+        title: keyResult.title,
+        baseline: Number(keyResult.baseline),
+        target: Number(keyResult.target),
+        current_value: Number(keyResult.current_value),
+        unit: keyResult.unit,
+        grade: Number(keyResult.grade ?? 0)
+      }))
+    }));
+
+    const { data: report, error: reportError } = await supabase
+      .from('okr_quarter_reports')
+      .insert({
+        owner_id: ownerId,
+        quarter,
+        year,
+        average_grade: this.gradeObjective(snapshot.map(objective => objective.grade)),
+        objectives_count: snapshot.length,
+        key_results_count: snapshot.reduce((sum, objective) => sum + objective.key_results.length, 0),
+        completed_count: snapshot.filter(objective => objective.status === 'completed').length,
+        carried_over_count: snapshot.filter(objective => objective.carried_over).length,
+        snapshot
+      })
+      .select()
+      .single();
+
+    if (reportError) throw reportError;
+    return report as OKRQuarterReport;
+  },
+
+  // Archived quarters of the current user, newest first
+  async getQuarterReports(): Promise<OKRQuarterReport[]> {
+    const { data, error } = await supabase
+      .from('okr_quarter_reports')
+      .select('*')
+      .order('year', { ascending: false })
+      .order('quarter', { ascending: false });
+
+    if (error) throw error;
+    return (data ?? []) as OKRQuarterReport[];
+  },
+
+  // Reports newest first, each with its grade change from the quarter archived
+  // before it
+  compareReports(reports: OKRQuarterReport[]): QuarterComparison[] {
+    const chronological = [...reports].sort((a, b) => a.year - b.year || a.quarter - b.quarter);
+    return chronological
+      .map((report, index) => {
+        const previous = chronological[index - 1];
+        return {
+          report,
+          grade_change: previous
+            ? Math.round((Number(report.average_grade) - Number(previous.average_grade)) * 100) / 100
+            : null
+        };
+      })
+      .reverse();
+  }
+};
+
 // Utility functions
 export const okrUtils = {
   // Get current quarter
@@ -311,6 +890,45 @@ export const okrUtils = {
     return quarters[quarter - 1] || 'Q1';
   },
 
+  // Objectives saved before alignment existed are team objectives
+  getLevel(objective: Objective): ObjectiveLevel {
+    return objective.level ?? 'team';
+  },
+
+  // Company objectives sort first, personal ones last
+  getLevelRank(objective: Objective): number {
+    return ['company', 'team', 'personal'].indexOf(this.getLevel(objective));
+  },
+
+  getContributionWeight(objective: Objective): number {
+    const weight = Number(objective.contribution_weight ?? 1);
+    return Number.isFinite(weight) && weight > 0 ? weight : 1;
+  },
+
+  // Objectives that can be the parent of the given one: anything but itself
+  // and the objectives already below it
+  getAlignmentCandidates(objectives: Objective[], objectiveId: string): Objective[] {
+    const below = new Set([objectiveId]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const objective of objectives) {
+        if (objective.parent_id && below.has(objective.parent_id) && !below.has(objective.id)) {
+          below.add(objective.id);
+          grew = true;
+        }
+      }
+    }
+    return objectives.filter(objective => !below.has(objective.id));
+  },
+
+  // Quarter after the given one, rolling over into the next year
+  getNextQuarter(quarter: number, year: number): { quarter: 1 | 2 | 3 | 4; year: number } {
+    return quarter >= 4
+      ? { quarter: 1, year: year + 1 }
+      : { quarter: (quarter + 1) as 1 | 2 | 3 | 4, year };
+  },
+
   // Get quarter date range
   getQuarterDateRange(quarter: number, year: number): { start: Date; end: Date } {
     const start = new Date(year, (quarter - 1) * 3, 1);
@@ -322,14 +940,6 @@ export const okrUtils = {
   isObjectiveOverdue(objective: Objective): boolean {
     const now = new Date();
     const { end } = this.getQuarterDateRange(objective.quarter, objective.year);
-    return now > end && objective.status !== 'completed';
+    return now > end && objective.status !== 'completed' && !objective.closed_at;
   }
 };
-
-// Export all services
-export {
-  objectiveService,
-  keyResultService,
-  okrAnalyticsService,
-  okrUtils
-};
\ No newline at end of file
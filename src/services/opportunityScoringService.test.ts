@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { OpportunityScoringService } from './opportunityScoringService';
+import type { CustomScoringFactor, Opportunity, OpportunityScoringModel } from '../types/newAgile';
+
+const opportunity = (id: string, overrides: Partial<Opportunity> = {}): Opportunity => ({
+  id,
+  title: `Opportunity ${id}`,
+  problem_statement: '',
+  affected_users: '',
+  evidence: [],
+  expected_impact: '',
+  constraints: [],
+  cost_of_delay: 'medium',
+  confidence: 5,
+  effort: 'M',
+  risk: 'medium',
+  status: 'backlog',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  created_by: 'user-1',
+  ...overrides
+});
+
+const model = (type: OpportunityScoringModel['model']): OpportunityScoringModel => ({
+  ...OpportunityScoringService.getDefaultModel('project-1'),
+  model: type
+});
+
+const zeroWeights: Record<CustomScoringFactor, number> = { value: 0, confidence: 0, ease: 0, low_risk: 0, evidence: 0 };
+
+describe('OpportunityScoringService.scoreWsjf', () => {
+  it('divides cost of delay by job size, with risk added to the job size', () => {
+    // 8 / (3 + 1)
+    expect(OpportunityScoringService.scoreWsjf(opportunity('a', { cost_of_delay: 'high' })).score).toBe(2);
+    // 1 / (8 + 3)
+    expect(OpportunityScoringService.scoreWsjf(
+      opportunity('b', { cost_of_delay: 'low', effort: 'L', risk: 'high' })
+    ).score).toBe(0.09);
+  });
+});
+
+describe('OpportunityScoringService.scoreRice', () => {
+  it('multiplies reach, impact and confidence and divides by effort', () => {
+    const score = OpportunityScoringService.scoreRice(
+      opportunity('a', { reach: 500, cost_of_delay: 'high', confidence: 8 })
+    );
+    // 500 × 2 × 0.8 / 1
+    expect(score.score).toBe(800);
+    expect(score.notes).toEqual([]);
+  });
+
+  it('counts a missing reach as 1 and says so', () => {
+    // 1 × 1 × 0.5 / 0.5
+    const score = OpportunityScoringService.scoreRice(opportunity('a', { effort: 'S' }));
+    expect(score.score).toBe(1);
+    expect(score.notes).toHaveLength(1);
+  });
+});
+
+describe('OpportunityScoringService.scoreCustom', () => {
+  const { weights } = OpportunityScoringService.getDefaultModel('project-1');
+
+  it('scores 100 when every factor is at its best', () => {
+    const best = opportunity('a', { cost_of_delay: 'high', confidence: 10, effort: 'S', risk: 'low' });
+    expect(OpportunityScoringService.scoreCustom(best, weights, 5).score).toBe(100);
+    expect(OpportunityScoringService.scoreCustom(best, weights, 12).score).toBe(100);
+  });
+
+  it('takes the weighted average of the factors', () => {
+    // (3 × 0.5 + 2 × 3/9 + 2 × 0.5 + 1 × 0.5 + 1 × 2/5) / 9 = 0.4519
+    const score = OpportunityScoringService.scoreCustom(opportunity('a', { confidence: 4 }), weights, 2);
+    expect(score.score).toBe(45);
+    expect(score.components.map(component => component.value)).toEqual([0.5, 0.33, 0.5, 0.5, 0.4]);
+  });
+
+  it('ignores factors without a positive weight', () => {
+    const score = OpportunityScoringService.scoreCustom(
+      opportunity('a', { cost_of_delay: 'high', effort: 'L' }),
+      { ...zeroWeights, value: 1, ease: -4 },
+      0
+    );
+    expect(score.score).toBe(100);
+    expect(score.components).toHaveLength(1);
+  });
+
+  it('scores 0 with a note when every weight is zero', () => {
+    const score = OpportunityScoringService.scoreCustom(opportunity('a'), zeroWeights, 3);
+    expect(score.score).toBe(0);
+    expect(score.notes).toHaveLength(1);
+  });
+});
+
+describe('OpportunityScoringService.rankOpportunities', () => {
+  it('ranks by score, then cost of delay, then age', () => {
+    const ranked = OpportunityScoringService.rankOpportunities([
+      opportunity('low-score', { cost_of_delay: 'low', effort: 'L' }),
+      opportunity('newer', { created_at: '2026-10-03T00:00:00Z' }),
+      opportunity('older', { created_at: '2026-10-02T00:00:00Z' }),
+      opportunity('low-delay', { cost_of_delay: 'low', effort: 'S', risk: 'low' }),
+      opportunity('high-delay', { cost_of_delay: 'high', effort: 'L', risk: 'low' })
+    ], model('wsjf'));
+
+    // Scores: 0.11, 0.75, 0.75, 1 (1 / 1) and 1 (8 / 8)
+    expect(ranked.map(entry => [entry.opportunity.id, entry.rank])).toEqual([
+      ['high-delay', 1],
+      ['low-delay', 2],
+      ['older', 3],
+      ['newer', 4],
+      ['low-score', 5]
+    ]);
+  });
+
+  it('scores with the project model', () => {
+    const [first] = OpportunityScoringService.rankOpportunities([opportunity('a', { reach: 100 })], model('rice'));
+    expect(first?.score.model).toBe('rice');
+    expect(first?.score.score).toBe(50);
+  });
+});
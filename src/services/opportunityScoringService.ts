@@ -0,0 +1,189 @@
+import type {
+  CostOfDelay,
+  CustomScoringFactor,
+  EffortEstimate,
+  Insight,
+  Opportunity,
+  OpportunityScore,
+  OpportunityScoringModel,
+  RankedOpportunity,
+  RiskLevel,
+  ScoreComponent,
+  ScoringModelType
+} from '../types/newAgile';
+import { InsightService } from './insightService';
+
+// Opportunity prioritisation
+// Every model works from the fields an opportunity already carries, so scores
+// can be recomputed whenever the project switches model or weights
+
+// WSJF uses relative Fibonacci points
+const WSJF_COST_OF_DELAY: Record<CostOfDelay, number> = { low: 1, medium: 3, high: 8 };
+const WSJF_JOB_SIZE: Record<EffortEstimate, number> = { S: 1, M: 3, L: 8 };
+const WSJF_RISK_PENALTY: Record<RiskLevel, number> = { low: 0, medium: 1, high: 3 }; // Added to job size
+
+// RICE impact uses Intercom's 0.25–3 scale; effort is in person-months
+const RICE_IMPACT: Record<CostOfDelay, number> = { low: 0.5, medium: 1, high: 2 };
+const RICE_EFFORT: Record<EffortEstimate, number> = { S: 0.5, M: 1, L: 3 };
+
+// Custom factors are normalised to 0–1 before weighting
+const VALUE_FACTOR: Record<CostOfDelay, number> = { low: 0, medium: 0.5, high: 1 };
+const EASE_FACTOR: Record<EffortEstimate, number> = { S: 1, M: 0.5, L: 0 };
+const LOW_RISK_FACTOR: Record<RiskLevel, number> = { low: 1, medium: 0.5, high: 0 };
+const EVIDENCE_SATURATION = 5; // Linked insights beyond this add nothing
+
+export const SCORING_MODEL_LABELS: Record<ScoringModelType, string> = {
+  wsjf: 'WSJF',
+  rice: 'RICE',
+  custom: 'Custom weights'
+};
+
+export const CUSTOM_FACTOR_LABELS: Record<CustomScoringFactor, string> = {
+  value: 'Cost of delay',
+  confidence: 'Confidence',
+  ease: 'Ease (small effort)',
+  low_risk: 'Low risk',
+  evidence: 'Evidence (linked insights)'
+};
+
+const round = (value: number, digits = 2) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export class OpportunityScoringService {
+  static getDefaultModel(projectId: string): OpportunityScoringModel {
+    return {
+      project_id: projectId,
+      model: 'wsjf',
+      weights: {
+        value: 3,
+        confidence: 2,
+        ease: 2,
+        low_risk: 1,
+        evidence: 1
+      }
+    };
+  }
+
+  static scoreWsjf(opportunity: Opportunity): OpportunityScore {
+    const costOfDelay = WSJF_COST_OF_DELAY[opportunity.cost_of_delay];
+    const effort = WSJF_JOB_SIZE[opportunity.effort];
+    const riskPenalty = WSJF_RISK_PENALTY[opportunity.risk];
+    const jobSize = effort + riskPenalty;
+
+    return {
+      model: 'wsjf',
+      score: round(costOfDelay / jobSize),
+      formula: 'Cost of delay ÷ job size',
+      components: [
+        { label: 'Cost of delay', value: costOfDelay, detail: `${opportunity.cost_of_delay} cost of delay` },
+        { label: 'Job size', value: jobSize, detail: `effort ${opportunity.effort} (${effort}) + ${opportunity.risk} risk (${riskPenalty})` }
+      ],
+      notes: []
+    };
+  }
+
+  static scoreRice(opportunity: Opportunity): OpportunityScore {
+    const notes: string[] = [];
+    const estimatedReach = opportunity.reach && opportunity.reach > 0 ? opportunity.reach : null;
+    const reach = estimatedReach ?? 1;
+    if (estimatedReach === null) {
+      notes.push('Reach not estimated, counted as 1. Set it to rank this fairly.');
+    }
+
+    const impact = RICE_IMPACT[opportunity.cost_of_delay];
+    const confidence = opportunity.confidence / 10;
+    const effort = RICE_EFFORT[opportunity.effort];
+
+    return {
+      model: 'rice',
+      score: round((reach * impact * confidence) / effort, 1),
+      formula: 'Reach × impact × confidence ÷ effort',
+      components: [
+        { label: 'Reach', value: reach, detail: estimatedReach !== null ? 'users per quarter' : 'not estimated' },
+        { label: 'Impact', value: impact, detail: `${opportunity.cost_of_delay} cost of delay` },
+        { label: 'Confidence', value: confidence, detail: `${opportunity.confidence}/10` },
+        { label: 'Effort', value: effort, detail: `size ${opportunity.effort} in person-months` }
+      ],
+      notes
+    };
+  }
+
+  static scoreCustom(
+    opportunity: Opportunity,
+    weights: Record<CustomScoringFactor, number>,
+    insightCount: number
+  ): OpportunityScore {
+    const factors: Record<CustomScoringFactor, { value: number; detail: string }> = {
+      value: { value: VALUE_FACTOR[opportunity.cost_of_delay], detail: `${opportunity.cost_of_delay} cost of delay` },
+      confidence: { value: (opportunity.confidence - 1) / 9, detail: `${opportunity.confidence}/10` },
+      ease: { value: EASE_FACTOR[opportunity.effort], detail: `effort ${opportunity.effort}` },
+      low_risk: { value: LOW_RISK_FACTOR[opportunity.risk], detail: `${opportunity.risk} risk` },
+      evidence: {
+        value: Math.min(insightCount, EVIDENCE_SATURATION) / EVIDENCE_SATURATION,
+        detail: `${insightCount} linked insight${insightCount === 1 ? '' : 's'}`
+      }
+    };
+
+    const factorKeys = Object.keys(factors) as CustomScoringFactor[];
+    const totalWeight = factorKeys.reduce((sum, key) => sum + Math.max(weights[key], 0), 0);
+    const notes: string[] = [];
+    if (totalWeight === 0) {
+      notes.push('All weights are zero, so every opportunity scores 0.');
+    }
+
+    const components: ScoreComponent[] = factorKeys
+      .filter(key => weights[key] > 0)
+      .map(key => ({
+        label: CUSTOM_FACTOR_LABELS[key],
+        value: round(factors[key].value),
+        detail: `${factors[key].detail}, weight ${weights[key]}`
+      }));
+
+    const weighted = factorKeys.reduce((sum, key) => sum + factors[key].value * Math.max(weights[key], 0), 0);
+
+    return {
+      model: 'custom',
+      score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+      formula: 'Weighted average of factors (0–100)',
+      components,
+      notes
+    };
+  }
+
+  static scoreOpportunity(
+    opportunity: Opportunity,
+    model: OpportunityScoringModel,
+    insights: Insight[] = []
+  ): OpportunityScore {
+    switch (model.model) {
+      case 'rice':
+        return this.scoreRice(opportunity);
+      case 'custom':
+        return this.scoreCustom(
+          opportunity,
+          model.weights,
+          InsightService.getOpportunityInsights(opportunity, insights).length
+        );
+      default:
+        return this.scoreWsjf(opportunity);
+    }
+  }
+
+  // Highest score first; ties go to the higher cost of delay, then the older opportunity
+  static rankOpportunities(
+    opportunities: Opportunity[],
+    model: OpportunityScoringModel,
+    insights: Insight[] = []
+  ): RankedOpportunity[] {
+    return opportunities
+      .map(opportunity => ({ opportunity, score: this.scoreOpportunity(opportunity, model, insights) }))
+      .sort((a, b) =>
+        b.score.score - a.score.score ||
+        WSJF_COST_OF_DELAY[b.opportunity.cost_of_delay] - WSJF_COST_OF_DELAY[a.opportunity.cost_of_delay] ||
+        a.opportunity.created_at.localeCompare(b.opportunity.created_at)
+      )
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+}
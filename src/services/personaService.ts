@@ -0,0 +1,118 @@
+import type {
+  DeliveryTask,
+  Opportunity,
+  PersonaCoverage,
+  UserPersona,
+  UserPersonaCreateRequest
+} from '../types/newAgile';
+import { DONE_STATUSES } from './flowMetricsService';
+
+// Persona templates and coverage
+// A persona is covered once it has at least one validated opportunity and
+// some shipped delivery work linked to it
+
+export class PersonaService {
+  // Starting set offered to projects without personas
+  static getTemplates(): UserPersonaCreateRequest[] {
+    return [
+      {
+        name: 'Starter',
+        description: 'First-time solo creator',
+        icon: '👤',
+        color: 'blue',
+        needs: ['Clear onboarding', 'Quick path to value', 'Mobile-friendly tasks'],
+        pain_points: ['Overwhelmed by complexity', 'Unclear where to start'],
+        goals: ['Create first project', 'Learn the basics', 'See immediate progress'],
+        behaviors: ['Prefers simple interfaces', 'Uses mobile frequently', 'Needs guidance'],
+        demographics: {
+          age_range: '22-35',
+          experience_level: 'Beginner',
+          occupation: 'Freelancer/Entrepreneur'
+        }
+      },
+      {
+        name: 'Switcher',
+        description: 'Small business owner migrating from spreadsheets',
+        icon: '🔄',
+        color: 'purple',
+        needs: ['Import tools', 'Simple automations', 'Reliability'],
+        pain_points: ['Data migration anxiety', 'Learning new system'],
+        goals: ['Move away from spreadsheets', 'Streamline processes', 'Scale operations'],
+        behaviors: ['Risk-averse', 'Values familiarity', 'Needs reassurance'],
+        demographics: {
+          age_range: '35-50',
+          experience_level: 'Intermediate',
+          occupation: 'Small Business Owner'
+        }
+      },
+      {
+        name: 'Operator',
+        description: 'Team coordinator (3-15 people)',
+        icon: '👥',
+        color: 'green',
+        needs: ['Permissions', 'Shared dashboards', 'Recurring workflows', 'Status clarity'],
+        pain_points: ['Team coordination complexity', 'Status tracking challenges'],
+        goals: ['Improve team efficiency', 'Better visibility', 'Reduce meetings'],
+        behaviors: ['Process-oriented', 'Collaborative', 'Data-driven'],
+        demographics: {
+          age_range: '28-45',
+          experience_level: 'Advanced',
+          occupation: 'Team Lead/Manager'
+        }
+      },
+      {
+        name: 'Advisor',
+        description: 'External collaborator/client',
+        icon: '🎯',
+        color: 'orange',
+        needs: ['Read-only access', 'Easy status views', 'Limited edit access'],
+        pain_points: ['Too much information', 'Complex interfaces'],
+        goals: ['Stay informed', 'Provide input', 'Track progress'],
+        behaviors: ['Occasional user', 'Prefers summaries', 'Mobile-first'],
+        demographics: {
+          age_range: '30-60',
+          experience_level: 'Various',
+          occupation: 'Consultant/Client'
+        }
+      }
+    ];
+  }
+
+  static isShipped(task: DeliveryTask): boolean {
+    return DONE_STATUSES.includes(task.status);
+  }
+
+  static getCoverage(
+    personas: UserPersona[],
+    opportunities: Opportunity[],
+    tasks: DeliveryTask[]
+  ): PersonaCoverage[] {
+    return personas.map(persona => {
+      const personaOpportunities = opportunities.filter(o => o.persona_ids?.includes(persona.id));
+      const validated = personaOpportunities.filter(o => o.status === 'validated');
+      const personaTasks = tasks.filter(t => t.persona_ids?.includes(persona.id));
+      const shipped = personaTasks.filter(t => this.isShipped(t));
+
+      const gaps: string[] = [];
+      if (validated.length === 0) {
+        gaps.push(personaOpportunities.length === 0
+          ? 'No opportunities linked'
+          : 'No validated opportunities');
+      }
+      if (shipped.length === 0) {
+        gaps.push(personaTasks.length === 0
+          ? 'No delivery work linked'
+          : 'Nothing shipped yet');
+      }
+
+      return {
+        persona,
+        opportunities: personaOpportunities,
+        validated_opportunities: validated,
+        tasks: personaTasks,
+        shipped_tasks: shipped,
+        gaps
+      };
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import type { DeliveryTask, Phase } from '../types/newAgile';
+import { DONE_STATUSES } from './flowMetricsService';
+
+// Phase scheduling rules
+// Task counts and progress always come from the delivery tasks linked through
+// phase_id; dependencies must form a DAG and gate when a phase may start
+
+export class PhaseService {
+  // Fills task_count, completed_task_count and progress_percentage from linked tasks
+  static withTaskStats(phases: Phase[], tasks: DeliveryTask[]): Phase[] {
+    return phases.map(phase => {
+      const phaseTasks = tasks.filter(task => task.phase_id === phase.id);
+      const completed = phaseTasks.filter(task => DONE_STATUSES.includes(task.status)).length;
+      return {
+        ...phase,
+        dependencies: phase.dependencies ?? [],
+        task_count: phaseTasks.length,
+        completed_task_count: completed,
+        progress_percentage: phaseTasks.length > 0 ? Math.round((completed / phaseTasks.length) * 100) : 0
+      };
+    });
+  }
+
+  // Returns the dependency path that would loop back to the phase, or null if
+  // the proposed dependencies keep the graph acyclic
+  static findDependencyCycle(
+    phaseId: string | null,
+    dependencies: string[],
+    phases: Phase[]
+  ): string[] | null {
+    // A new phase can't be anyone's prerequisite yet, so it can't close a loop
+    if (!phaseId) return null;
+    if (dependencies.includes(phaseId)) return [phaseId, phaseId];
+
+    const graph = new Map(phases.map(phase => [phase.id, phase.dependencies ?? []]));
+    graph.set(phaseId, dependencies);
+
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (id: string, path: string[]): string[] | null => {
+      if (visiting.has(id)) return [...path.slice(path.indexOf(id)), id];
+      if (visited.has(id)) return null;
+
+      visiting.add(id);
+      for (const dependency of graph.get(id) ?? []) {
+        const cycle = visit(dependency, [...path, id]);
+        if (cycle) return cycle;
+      }
+      visiting.delete(id);
+      visited.add(id);
+      return null;
+    };
+
+    return visit(phaseId, []);
+  }
+
+  // Validation message for a proposed set of dependencies, or null when valid
+  static validateDependencies(phaseId: string | null, dependencies: string[], phases: Phase[]): string | null {
+    const unknown = dependencies.filter(id => !phases.some(phase => phase.id === id));
+    if (unknown.length > 0) {
+      return 'Some prerequisite phases no longer exist';
+    }
+
+    const cycle = this.findDependencyCycle(phaseId, dependencies, phases);
+    if (!cycle) return null;
+
+    const names = cycle.map(id => phases.find(phase => phase.id === id)?.name ?? 'this phase');
+    return `Dependencies would create a cycle: ${names.join(' → ')}`;
+  }
+
+  // Prerequisite phases that are not completed yet
+  static getStartBlockers(phase: Pick<Phase, 'dependencies'>, phases: Phase[]): Phase[] {
+    return (phase.dependencies ?? [])
+      .map(id => phases.find(p => p.id === id))
+      .filter((p): p is Phase => !!p && p.status !== 'completed');
+  }
+
+  static canStart(phase: Phase, phases: Phase[]): boolean {
+    return this.getStartBlockers(phase, phases).length === 0;
+  }
+
+  // Phases ordered before one of their own prerequisites
+  static getOrderingConflicts(phases: Phase[]): { phase: Phase; prerequisite: Phase }[] {
+    const conflicts: { phase: Phase; prerequisite: Phase }[] = [];
+    for (const phase of phases) {
+      for (const id of phase.dependencies ?? []) {
+        const prerequisite = phases.find(p => p.id === id);
+        if (prerequisite && prerequisite.order > phase.order) {
+          conflicts.push({ phase, prerequisite });
+        }
+      }
+    }
+    return conflicts;
+  }
+
+  // Moves a phase one slot up or down and renumbers from 1
+  static move(phases: Phase[], phaseId: string, direction: -1 | 1): Phase[] {
+    const ordered = [...phases].sort((a, b) => a.order - b.order);
+    const index = ordered.findIndex(phase => phase.id === phaseId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= ordered.length) return ordered;
+
+    const [moved] = ordered.splice(index, 1);
+    if (moved) ordered.splice(target, 0, moved);
+    return ordered.map((phase, i) => ({ ...phase, order: i + 1 }));
+  }
+}
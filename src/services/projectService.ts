@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase.client'
+import { AttachmentService } from './attachmentService'
 import type { Project, ProjectInsert, ProjectUpdate, DbProject, DbProjectInsert } from '../types'
 
 export class ProjectService {
@@ -19,6 +20,7 @@ export class ProjectService {
       user_id: dbProject.user_id,
       team_members: dbProject.team_members,
       ai_generated: dbProject.ai_generated,
+      objective_id: dbProject.objective_id ?? null,
       metadata: {
         context: dbProject.context,
         success_score: dbProject.success_score,
@@ -123,6 +125,13 @@ export class ProjectService {
   // Delete a project
   static async deleteProject(id: string): Promise<boolean> {
     try {
+      // Attachment rows cascade with the project but their stored files do not
+      const filesRemoved = await AttachmentService.removeProjectFiles(id)
+      if (!filesRemoved) {
+        console.error('Error deleting project: attachment files could not be removed')
+        return false
+      }
+
       const { error } = await supabase
         .from('projects')
         .delete()
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest'
+import { ScheduleService, addDays, daysBetween } from './scheduleService'
+import type { ProjectMilestone, Task, TaskDependency, TaskDependencyType } from '../types'
+
+const task = (id: string, estimatedDays: number, overrides: Partial<Task> = {}): Task => ({
+  id,
+  project_id: 'project-1',
+  name: `Task ${id}`,
+  description: null,
+  due_date: null,
+  priority: 'medium',
+  status: 'todo',
+  completed: false,
+  created_at: '2026-09-01T00:00:00Z',
+  updated_at: '2026-09-01T00:00:00Z',
+  user_id: 'user-1',
+  ai_suggested: null,
+  order_index: null,
+  assigned_to: null,
+  completed_at: null,
+  estimated_days: estimatedDays,
+  ...overrides
+})
+
+const dependency = (taskId: string, dependsOn: string, type: TaskDependencyType = 'blocks'): TaskDependency => ({
+  id: `${taskId}-${dependsOn}`,
+  task_id: taskId,
+  depends_on_task_id: dependsOn,
+  dependency_type: type,
+  description: null,
+  created_at: '2026-09-01T00:00:00Z',
+  created_by: null
+})
+
+const milestone = (id: string, overrides: Partial<ProjectMilestone> = {}): ProjectMilestone => ({
+  id,
+  project_id: 'project-1',
+  name: id,
+  description: null,
+  milestone_type: 'checkpoint',
+  due_date: null,
+  planned_date: null,
+  actual_date: null,
+  status: 'pending',
+  is_critical: false,
+  completion_percentage: 0,
+  depends_on_milestone: null,
+  sort_order: 0,
+  completed_at: null,
+  completed_by: null,
+  notify_days_before: 3,
+  notification_sent: false,
+  created_at: '2026-09-01T00:00:00Z',
+  updated_at: '2026-09-01T00:00:00Z',
+  ...overrides
+})
+
+// Local time, so the schedule starts on 1 October in any time zone
+const now = new Date(2026, 9, 1, 9, 0)
+
+// a (2 days) blocks b (3 days) and c (1 day); d (1 day) stands alone
+const tasks = [
+  task('a', 2),
+  task('b', 3, { due_date: '2026-10-06' }),
+  task('c', 1, { due_date: '2026-10-02' }),
+  task('d', 1),
+  task('done', 5, { status: 'completed', completed: true }),
+  task('f', 1),
+  task('g', 1)
+]
+const dependencies = [
+  dependency('b', 'a'),
+  dependency('c', 'a', 'follows'),
+  dependency('b', 'done'),
+  dependency('d', 'b', 'relates_to'),
+  dependency('f', 'g'),
+  dependency('g', 'f')
+]
+
+describe('day helpers', () => {
+  it('adds days and counts the days between calendar days', () => {
+    expect(addDays('2026-10-30', 3)).toBe('2026-11-02')
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28')
+    expect(daysBetween('2026-10-04', '2026-10-01')).toBe(-3)
+    expect(daysBetween('2026-10-25', '2026-10-26')).toBe(1)
+  })
+})
+
+describe('ScheduleService.buildSchedule', () => {
+  const schedule = ScheduleService.buildSchedule({
+    projectId: 'project-1',
+    tasks,
+    dependencies,
+    milestones: [],
+    dueDate: '2026-10-04',
+    now
+  })
+  const byId = new Map(schedule.tasks.map(entry => [entry.task.id, entry]))
+
+  it('schedules every open task as early as its predecessors allow', () => {
+    expect(schedule.as_of).toBe('2026-10-01')
+    expect(byId.get('a')).toMatchObject({ earliest_start: '2026-10-01', earliest_finish: '2026-10-02' })
+    expect(byId.get('b')).toMatchObject({ earliest_start: '2026-10-03', earliest_finish: '2026-10-05' })
+    expect(byId.get('c')).toMatchObject({ earliest_start: '2026-10-03', earliest_finish: '2026-10-03' })
+    expect(byId.get('d')).toMatchObject({ earliest_start: '2026-10-01', earliest_finish: '2026-10-01' })
+    expect(byId.has('done')).toBe(false)
+  })
+
+  it('finds the slack and the critical path', () => {
+    expect(byId.get('c')).toMatchObject({ slack_days: 2, latest_start: '2026-10-05', latest_finish: '2026-10-05' })
+    expect(byId.get('d')?.slack_days).toBe(4)
+    expect(schedule.critical_path.map(entry => entry.task.id)).toEqual(['a', 'b'])
+  })
+
+  it('projects the finish against the due dates', () => {
+    expect(schedule.projected_finish).toBe('2026-10-05')
+    expect(schedule.finish_variance_days).toBe(1)
+    expect(byId.get('c')?.is_late).toBe(true)
+    expect(byId.get('b')?.is_late).toBe(false)
+  })
+
+  it('leaves out tasks whose dependencies form a cycle', () => {
+    expect(schedule.cyclic_tasks.map(entry => entry.id)).toEqual(['f', 'g'])
+  })
+
+  it('has no finish without open work', () => {
+    const empty = ScheduleService.buildSchedule({ projectId: 'project-1', tasks: [], dependencies: [], milestones: [], now })
+    expect(empty.projected_finish).toBeNull()
+    expect(empty.finish_variance_days).toBeNull()
+  })
+})
+
+describe('ScheduleService.forecastMilestones', () => {
+  const { tasks: scheduled } = ScheduleService.buildSchedule({ projectId: 'project-1', tasks, dependencies, milestones: [], now })
+  const milestones = [
+    milestone('late', { due_date: '2026-10-02' }),
+    milestone('on-track', { due_date: '2026-10-06' }),
+    milestone('upstream', { due_date: '2026-10-04', depends_on_milestone: 'on-track' }),
+    milestone('done', { due_date: '2026-09-20', status: 'completed', actual_date: '2026-09-21' }),
+    milestone('past', { due_date: '2026-09-28' })
+  ]
+  const forecasts = new Map(
+    ScheduleService.forecastMilestones(milestones, scheduled, '2026-10-01').map(forecast => [forecast.milestone.id, forecast])
+  )
+
+  it('is reachable when the work due before it lands in time', () => {
+    expect(forecasts.get('on-track')).toMatchObject({ projected_date: '2026-10-05', is_reachable: true, slip_days: 0, reason: null })
+  })
+
+  it('slips when work due before it finishes late', () => {
+    expect(forecasts.get('late')).toMatchObject({
+      projected_date: '2026-10-03',
+      is_reachable: false,
+      slip_days: 1,
+      reason: '1 task due before it is projected to finish 2026-10-03'
+    })
+  })
+
+  it('slips with the milestone it depends on', () => {
+    expect(forecasts.get('upstream')).toMatchObject({
+      projected_date: '2026-10-05',
+      is_reachable: false,
+      slip_days: 1,
+      reason: 'Depends on "on-track", projected 2026-10-05'
+    })
+  })
+
+  it('counts a passed due date from today', () => {
+    expect(forecasts.get('past')).toMatchObject({ projected_date: null, is_reachable: false, slip_days: 3, reason: 'Due date has passed' })
+    expect(forecasts.get('done')).toMatchObject({ projected_date: '2026-09-21', is_reachable: true, slip_days: 0 })
+  })
+})
@@ -0,0 +1,225 @@
+import type {
+  MilestoneForecast,
+  Project,
+  ProjectMilestone,
+  ProjectSchedule,
+  ScheduledTask,
+  Task,
+  TaskDependency
+} from '../types'
+import { TaskService } from './taskService'
+import { TaskDependencyService } from './taskDependencyService'
+import { MilestoneService } from './milestoneService'
+import { toLocalDay } from '../utils/localDate'
+
+// Critical path scheduling
+// Open tasks form a DAG through 'blocks' and 'follows' dependencies; finished
+// predecessors no longer constrain anything. Every open task is scheduled as
+// early as its predecessors allow, starting today, and a task is critical when
+// delaying it would delay the projected finish.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Calendar-day helpers shared with the timeline; days are YYYY-MM-DD in UTC
+export const toDay = (date: string) => date.slice(0, 10)
+const dayToTime = (day: string) => new Date(`${toDay(day)}T00:00:00Z`).getTime()
+export const addDays = (day: string, days: number) => new Date(dayToTime(day) + days * DAY_MS).toISOString().slice(0, 10)
+export const daysBetween = (from: string, to: string) => Math.round((dayToTime(to) - dayToTime(from)) / DAY_MS)
+
+export interface ScheduleInput {
+  projectId: string;
+  tasks: Task[];
+  dependencies: TaskDependency[];
+  milestones: ProjectMilestone[];
+  dueDate?: string | null;
+  now?: Date;
+}
+
+export class ScheduleService {
+  static getDuration(task: Task): number {
+    return Math.max(task.estimated_days ?? 1, 1)
+  }
+
+  static buildSchedule({ projectId, tasks, dependencies, milestones, dueDate = null, now = new Date() }: ScheduleInput): ProjectSchedule {
+    const asOf = toLocalDay(now)
+    const open = tasks.filter(task => TaskDependencyService.isOpen(task))
+    const openIds = new Set(open.map(task => task.id))
+
+    const predecessors = new Map<string, string[]>(open.map(task => [task.id, []]))
+    const successors = new Map<string, string[]>(open.map(task => [task.id, []]))
+    for (const dependency of dependencies) {
+      if (dependency.dependency_type === 'relates_to') continue
+      if (!openIds.has(dependency.task_id) || !openIds.has(dependency.depends_on_task_id)) continue
+      predecessors.get(dependency.task_id)?.push(dependency.depends_on_task_id)
+      successors.get(dependency.depends_on_task_id)?.push(dependency.task_id)
+    }
+
+    // Kahn's algorithm; whatever never reaches in-degree zero sits on a cycle
+    const inDegree = new Map(open.map(task => [task.id, predecessors.get(task.id)?.length ?? 0]))
+    const queue = open.filter(task => inDegree.get(task.id) === 0).map(task => task.id)
+    const order: string[] = []
+    while (queue.length > 0) {
+      const id = queue.shift()
+      if (!id) break
+      order.push(id)
+      for (const next of successors.get(id) ?? []) {
+        const remaining = (inDegree.get(next) ?? 0) - 1
+        inDegree.set(next, remaining)
+        if (remaining === 0) queue.push(next)
+      }
+    }
+    const scheduledIds = new Set(order)
+    const cyclicTasks = open.filter(task => !scheduledIds.has(task.id))
+
+    const taskById = new Map(open.map(task => [task.id, task]))
+    const duration = (id: string) => {
+      const task = taskById.get(id)
+      return task ? this.getDuration(task) : 1
+    }
+
+    // Forward pass: offsets in days from today
+    const earliestStart = new Map<string, number>()
+    const earliestFinish = new Map<string, number>()
+    for (const id of order) {
+      const start = Math.max(0, ...(predecessors.get(id) ?? []).map(p => earliestFinish.get(p) ?? 0))
+      earliestStart.set(id, start)
+      earliestFinish.set(id, start + duration(id))
+    }
+    const projectEnd = Math.max(0, ...earliestFinish.values())
+
+    // Backward pass
+    const latestStart = new Map<string, number>()
+    const latestFinish = new Map<string, number>()
+    for (const id of [...order].reverse()) {
+      const next = (successors.get(id) ?? []).filter(s => scheduledIds.has(s))
+      const finish = next.length > 0 ? Math.min(...next.map(s => latestStart.get(s) ?? projectEnd)) : projectEnd
+      latestFinish.set(id, finish)
+      latestStart.set(id, finish - duration(id))
+    }
+
+    // A task occupying offsets [start, finish) ends on day finish - 1
+    const startDay = (offset: number) => addDays(asOf, offset)
+    const finishDay = (offset: number) => addDays(asOf, offset - 1)
+
+    const scheduled: ScheduledTask[] = order.map(id => {
+      const task = taskById.get(id)!
+      const es = earliestStart.get(id) ?? 0
+      const ef = earliestFinish.get(id) ?? es
+      const ls = latestStart.get(id) ?? es
+      const lf = latestFinish.get(id) ?? ef
+      const earliestFinishDay = finishDay(ef)
+      return {
+        task,
+        duration_days: duration(id),
+        earliest_start: startDay(es),
+        earliest_finish: earliestFinishDay,
+        latest_start: startDay(ls),
+        latest_finish: finishDay(lf),
+        slack_days: ls - es,
+        is_critical: ls - es === 0,
+        is_late: !!task.due_date && earliestFinishDay > toDay(task.due_date)
+      }
+    })
+
+    const criticalPath = scheduled
+      .filter(entry => entry.is_critical)
+      .sort((a, b) => a.earliest_start.localeCompare(b.earliest_start) || a.earliest_finish.localeCompare(b.earliest_finish))
+
+    const projectedFinish = scheduled.length > 0 ? finishDay(projectEnd) : null
+
+    return {
+      project_id: projectId,
+      as_of: asOf,
+      tasks: scheduled,
+      critical_path: criticalPath,
+      projected_finish: projectedFinish,
+      due_date: dueDate ? toDay(dueDate) : null,
+      finish_variance_days: projectedFinish && dueDate ? daysBetween(toDay(dueDate), projectedFinish) : null,
+      milestones: this.forecastMilestones(milestones, scheduled, asOf),
+      cyclic_tasks: cyclicTasks
+    }
+  }
+
+  // A milestone is reachable when the open work due on or before it, and the
+  // milestone it depends on, are projected to land by its due date
+  static forecastMilestones(milestones: ProjectMilestone[], scheduled: ScheduledTask[], asOf: string): MilestoneForecast[] {
+    const forecasts = new Map<string, MilestoneForecast>()
+    const byId = new Map(milestones.map(milestone => [milestone.id, milestone]))
+
+    const forecast = (milestone: ProjectMilestone, visiting: Set<string>): MilestoneForecast => {
+      const cached = forecasts.get(milestone.id)
+      if (cached) return cached
+
+      if (milestone.status === 'completed' || milestone.status === 'cancelled') {
+        const done: MilestoneForecast = {
+          milestone,
+          projected_date: milestone.actual_date,
+          is_reachable: true,
+          slip_days: 0,
+          reason: null
+        }
+        forecasts.set(milestone.id, done)
+        return done
+      }
+
+      const dueDay = milestone.due_date ? toDay(milestone.due_date) : null
+      const feeding = dueDay
+        ? scheduled.filter(entry => entry.task.due_date && toDay(entry.task.due_date) <= dueDay)
+        : []
+      let projected = feeding.reduce<string | null>(
+        (latest, entry) => (!latest || entry.earliest_finish > latest ? entry.earliest_finish : latest),
+        null
+      )
+      let reason: string | null = null
+      if (dueDay && projected && projected > dueDay) {
+        const late = feeding.filter(entry => entry.earliest_finish > dueDay).length
+        reason = `${late} task${late === 1 ? '' : 's'} due before it ${late === 1 ? 'is' : 'are'} projected to finish ${projected}`
+      }
+
+      const predecessor = milestone.depends_on_milestone ? byId.get(milestone.depends_on_milestone) : undefined
+      if (predecessor && !visiting.has(predecessor.id)) {
+        const upstream = forecast(predecessor, new Set([...visiting, milestone.id]))
+        if (upstream.projected_date && (!projected || upstream.projected_date > projected)) {
+          projected = upstream.projected_date
+          if (dueDay && projected > dueDay) {
+            reason = `Depends on "${predecessor.name}", projected ${projected}`
+          }
+        }
+      }
+
+      if (dueDay && dueDay < asOf && !reason) {
+        reason = 'Due date has passed'
+      }
+
+      const finish = projected && projected > asOf ? projected : asOf
+      const slipDays = dueDay && reason ? Math.max(daysBetween(dueDay, finish), 0) : 0
+      const result: MilestoneForecast = {
+        milestone,
+        projected_date: projected,
+        is_reachable: !reason,
+        slip_days: slipDays,
+        reason
+      }
+      forecasts.set(milestone.id, result)
+      return result
+    }
+
+    return milestones.map(milestone => forecast(milestone, new Set()))
+  }
+
+  static async getProjectSchedule(project: Project): Promise<ProjectSchedule> {
+    const [tasks, milestones] = await Promise.all([
+      TaskService.getTasks(project.id),
+      MilestoneService.getMilestones(project.id)
+    ])
+    const dependencies = await TaskDependencyService.getDependencies(tasks.map(task => task.id))
+
+    return this.buildSchedule({
+      projectId: project.id,
+      tasks,
+      dependencies,
+      milestones,
+      dueDate: project.due_date
+    })
+  }
+}
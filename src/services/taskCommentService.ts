@@ -0,0 +1,206 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from '../lib/supabase.client'
+import type { ProjectMember, TaskComment, TaskCommentThread } from '../types'
+import { ProjectService } from './projectService'
+
+// Task discussions
+// Comments are soft-deleted and threads are one level deep, so replying to a
+// reply attaches to the thread's top-level comment. @mentions resolve to
+// project members by handle, the local part of their email address.
+
+// Text left on a deleted comment; the row stays as a thread placeholder, so
+// its original text and mentions are cleared rather than kept readable
+export const DELETED_COMMENT_CONTENT = '[deleted]'
+
+const MENTION_PATTERN = /(^|[^\w@.])@([a-z0-9][\w.-]*)/gi
+
+const toHandle = (email: string | null, userId: string) => {
+  const local = email?.split('@')[0]?.toLowerCase().replace(/[^a-z0-9._-]/g, '')
+  if (local) return local
+  return `member-${userId.slice(0, 8)}`
+}
+
+export class TaskCommentService {
+  static async getComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [TaskCommentService] task_comments table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [TaskCommentService] Error fetching comments:', error)
+        return []
+      }
+
+      return (data ?? []) as TaskComment[]
+    } catch (error) {
+      console.error('❌ [TaskCommentService] Error in getComments:', error)
+      return []
+    }
+  }
+
+  static async addComment(
+    taskId: string,
+    userId: string,
+    content: string,
+    members: ProjectMember[],
+    parent: TaskComment | null = null
+  ): Promise<TaskComment | null> {
+    if (!content.trim()) return null
+
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .insert([{
+          task_id: taskId,
+          user_id: userId,
+          parent_id: parent ? parent.parent_id ?? parent.id : null,
+          content: content.trim(),
+          content_type: 'markdown',
+          mentions: this.parseMentions(content, members)
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TaskCommentService] Error adding comment:', error)
+        return null
+      }
+
+      return data as TaskComment
+    } catch (error) {
+      console.error('❌ [TaskCommentService] Error in addComment:', error)
+      return null
+    }
+  }
+
+  static async updateComment(id: string, content: string, members: ProjectMember[]): Promise<TaskComment | null> {
+    if (!content.trim()) return null
+
+    try {
+      const { data, error } = await supabase
+        .from('task_comments')
+        .update({
+          content: content.trim(),
+          content_type: 'markdown',
+          mentions: this.parseMentions(content, members)
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TaskCommentService] Error updating comment:', error)
+        return null
+      }
+
+      return data as TaskComment
+    } catch (error) {
+      console.error('❌ [TaskCommentService] Error in updateComment:', error)
+      return null
+    }
+  }
+
+  static async deleteComment(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('task_comments')
+        .update({ deleted_at: new Date().toISOString(), content: DELETED_COMMENT_CONTENT, mentions: [] })
+        .eq('id', id)
+
+      if (error) {
+        console.error('❌ [TaskCommentService] Error deleting comment:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [TaskCommentService] Error in deleteComment:', error)
+      return false
+    }
+  }
+
+  // The project owner and team members, with a unique handle each
+  static async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    const project = await ProjectService.getProject(projectId)
+    if (!project) return []
+
+    const ids = [...new Set([project.user_id, ...(project.team_members ?? [])].filter((id): id is string => !!id))]
+    if (ids.length === 0) return []
+
+    const emails = new Map<string, string>()
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email')
+        .in('id', ids)
+
+      if (error) {
+        console.warn('⚠️ [TaskCommentService] Could not load member emails:', error)
+      }
+      for (const row of (data ?? []) as { id: string; email: string }[]) emails.set(row.id, row.email)
+    } catch (error) {
+      console.error('❌ [TaskCommentService] Error in getProjectMembers:', error)
+    }
+
+    const taken = new Set<string>()
+    return ids.map(id => {
+      const base = toHandle(emails.get(id) ?? null, id)
+      let handle = base
+      for (let suffix = 2; taken.has(handle); suffix++) handle = `${base}${suffix}`
+      taken.add(handle)
+      return { id, email: emails.get(id) ?? null, handle, is_owner: id === project.user_id }
+    })
+  }
+
+  // Ids of the members mentioned in content, in order of first mention
+  static parseMentions(content: string, members: ProjectMember[]): string[] {
+    const ids: string[] = []
+    for (const match of content.matchAll(MENTION_PATTERN)) {
+      const handle = match[2]!.toLowerCase().replace(/[.-]+$/, '')
+      const member = members.find(m => m.handle === handle)
+      if (member && !ids.includes(member.id)) ids.push(member.id)
+    }
+    return ids
+  }
+
+  // Groups live comments into threads, oldest first. A deleted top-level
+  // comment stays as a placeholder while it still has replies.
+  static buildThreads(comments: TaskComment[]): TaskCommentThread[] {
+    const byCreated = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+    const loaded = new Set(comments.map(c => c.id))
+    const isRoot = (c: TaskComment) => c.parent_id === null || !loaded.has(c.parent_id)
+
+    // A reply whose parent is not loaded becomes its own thread
+    const threads = new Map<string, TaskCommentThread>(
+      byCreated.filter(isRoot).map(comment => [comment.id, { comment, replies: [] }])
+    )
+    for (const comment of byCreated) {
+      if (isRoot(comment) || comment.deleted_at) continue
+      threads.get(comment.parent_id!)?.replies.push(comment)
+    }
+
+    return [...threads.values()].filter(thread => !thread.comment.deleted_at || thread.replies.length > 0)
+  }
+
+  // Adds a comment to a loaded list, or replaces the copy already there
+  static mergeComment(comments: TaskComment[], comment: TaskComment): TaskComment[] {
+    return comments.some(c => c.id === comment.id)
+      ? comments.map(c => (c.id === comment.id ? comment : c))
+      : [...comments, comment]
+  }
+
+  // Applies a realtime change to a loaded comment list
+  static applyChange(comments: TaskComment[], payload: RealtimePostgresChangesPayload<TaskComment>): TaskComment[] {
+    if (payload.eventType === 'DELETE') {
+      return comments.filter(c => c.id !== payload.old.id)
+    }
+    return this.mergeComment(comments, payload.new)
+  }
+}
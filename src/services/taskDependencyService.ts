@@ -0,0 +1,174 @@
+import { supabase } from '../lib/supabase.client'
+import type { Task, TaskDependency, TaskDependencyInsert, TaskDependencyType } from '../types'
+
+// A dependency row reads "task_id depends on depends_on_task_id". Only
+// 'blocks' dependencies hold a task back; the database trigger
+// check_circular_dependency rejects cycles across all types.
+
+export const DEPENDENCY_TYPE_LABELS: Record<TaskDependencyType, string> = {
+  blocks: 'Blocked by',
+  follows: 'Follows',
+  relates_to: 'Relates to'
+}
+
+// Statuses that require every blocking task to be finished first
+const GUARDED_STATUSES: Task['status'][] = ['in_progress', 'completed']
+
+export interface DependencyDraft {
+  depends_on_task_id: string;
+  dependency_type: TaskDependencyType;
+}
+
+// Saved rows or unsaved drafts attached to a task
+type DependencyLink = Pick<TaskDependency, 'task_id' | 'depends_on_task_id' | 'dependency_type'>
+
+export class TaskDependencyService {
+  // Dependencies declared by any of the given tasks
+  static async getDependencies(taskIds: string[]): Promise<TaskDependency[]> {
+    if (taskIds.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .select('*')
+        .in('task_id', taskIds)
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [TaskDependencyService] task_dependencies table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [TaskDependencyService] Error fetching dependencies:', error)
+        return []
+      }
+
+      return (data ?? []) as TaskDependency[]
+    } catch (error) {
+      console.error('❌ [TaskDependencyService] Error in getDependencies:', error)
+      return []
+    }
+  }
+
+  static async addDependency(dependency: TaskDependencyInsert): Promise<TaskDependency | null> {
+    try {
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .insert([{ ...dependency, dependency_type: dependency.dependency_type ?? 'blocks' }])
+        .select()
+        .single()
+
+      if (error) {
+        // P0001 is raised by check_circular_dependency, 23505 by unique_task_dependency
+        if (error.code === 'P0001' || error.code === '23505') {
+          console.warn('⚠️ [TaskDependencyService] Dependency rejected:', error.message)
+          return null
+        }
+        console.error('❌ [TaskDependencyService] Error adding dependency:', error)
+        return null
+      }
+
+      return data as TaskDependency
+    } catch (error) {
+      console.error('❌ [TaskDependencyService] Error in addDependency:', error)
+      return null
+    }
+  }
+
+  static async removeDependency(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('❌ [TaskDependencyService] Error removing dependency:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [TaskDependencyService] Error in removeDependency:', error)
+      return false
+    }
+  }
+
+  // Brings a task's outgoing dependencies in line with the drafts, replacing
+  // rows whose type changed
+  static async syncDependencies(
+    taskId: string,
+    drafts: DependencyDraft[],
+    current: TaskDependency[],
+    userId: string | null
+  ): Promise<boolean> {
+    const existing = current.filter(d => d.task_id === taskId)
+    const toRemove = existing.filter(d =>
+      !drafts.some(draft =>
+        draft.depends_on_task_id === d.depends_on_task_id && draft.dependency_type === d.dependency_type
+      )
+    )
+    const kept = existing.filter(d => !toRemove.includes(d))
+    const toAdd = drafts.filter(draft => !kept.some(d => d.depends_on_task_id === draft.depends_on_task_id))
+
+    const removed = await Promise.all(toRemove.map(d => this.removeDependency(d.id)))
+    const added = await Promise.all(
+      toAdd.map(draft => this.addDependency({ ...draft, task_id: taskId, created_by: userId }))
+    )
+
+    return removed.every(Boolean) && added.every(Boolean)
+  }
+
+  static isOpen(task: Task): boolean {
+    return !task.completed && task.status !== 'completed' && task.status !== 'cancelled'
+  }
+
+  // Unfinished tasks that block the given task
+  static getOpenBlockers(taskId: string, dependencies: DependencyLink[], tasks: Task[]): Task[] {
+    return dependencies
+      .filter(d => d.task_id === taskId && d.dependency_type === 'blocks')
+      .map(d => tasks.find(t => t.id === d.depends_on_task_id))
+      .filter((t): t is Task => !!t && this.isOpen(t))
+  }
+
+  // Tasks held back by the given task
+  static getBlockedTasks(taskId: string, dependencies: DependencyLink[], tasks: Task[]): Task[] {
+    return dependencies
+      .filter(d => d.depends_on_task_id === taskId && d.dependency_type === 'blocks')
+      .map(d => tasks.find(t => t.id === d.task_id))
+      .filter((t): t is Task => !!t)
+  }
+
+  // Mirrors check_circular_dependency so the UI can reject a cycle before saving
+  static wouldCreateCycle(taskId: string, dependsOnTaskId: string, dependencies: DependencyLink[]): boolean {
+    if (taskId === dependsOnTaskId) return true
+
+    const visited = new Set<string>()
+    const stack = [dependsOnTaskId]
+    while (stack.length > 0) {
+      const current = stack.pop()
+      if (!current || visited.has(current)) continue
+      if (current === taskId) return true
+      visited.add(current)
+      dependencies
+        .filter(d => d.task_id === current)
+        .forEach(d => stack.push(d.depends_on_task_id))
+    }
+    return false
+  }
+
+  // Warning to show before moving a task to a status its open blockers forbid
+  static getTransitionWarning(
+    task: Task,
+    nextStatus: Task['status'],
+    dependencies: DependencyLink[],
+    tasks: Task[]
+  ): string | null {
+    if (!GUARDED_STATUSES.includes(nextStatus) || nextStatus === task.status) return null
+
+    const blockers = this.getOpenBlockers(task.id, dependencies, tasks)
+    if (blockers.length === 0) return null
+
+    const names = blockers.map(t => `"${t.name}"`).join(', ')
+    return `"${task.name}" is blocked by ${names}, which ${blockers.length > 1 ? 'are' : 'is'} still open.`
+  }
+}
@@ -0,0 +1,260 @@
+import { supabase } from '../lib/supabase.client'
+import type { LabelGroup, TaskLabel, TaskLabelAssignment, TaskLabelInsert, TaskLabelUpdate } from '../types'
+
+// Project-scoped labels shared by tasks and delivery tasks. usage_count is
+// maintained by the update_label_usage trigger as assignments are added,
+// removed or moved, so it is never written from here.
+
+export type LabelTarget = 'task_id' | 'delivery_task_id'
+export type LabelMatch = 'any' | 'all'
+
+export const LABEL_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280']
+
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/
+
+export class TaskLabelService {
+  // Most used first, then by name
+  static async getLabels(projectId: string): Promise<TaskLabel[]> {
+    try {
+      const { data, error } = await supabase
+        .from('task_labels')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('usage_count', { ascending: false })
+        .order('name', { ascending: true })
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [TaskLabelService] task_labels table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [TaskLabelService] Error fetching labels:', error)
+        return []
+      }
+
+      return (data ?? []) as TaskLabel[]
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in getLabels:', error)
+      return []
+    }
+  }
+
+  static async createLabel(projectId: string, label: TaskLabelInsert): Promise<TaskLabel | null> {
+    try {
+      const { data, error } = await supabase
+        .from('task_labels')
+        .insert([{
+          project_id: projectId,
+          name: label.name.trim(),
+          description: label.description ?? null,
+          color: label.color ?? LABEL_COLORS[0]
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TaskLabelService] Error creating label:', error)
+        return null
+      }
+
+      return data as TaskLabel
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in createLabel:', error)
+      return null
+    }
+  }
+
+  static async updateLabel(id: string, updates: TaskLabelUpdate): Promise<TaskLabel | null> {
+    try {
+      const { data, error } = await supabase
+        .from('task_labels')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TaskLabelService] Error updating label:', error)
+        return null
+      }
+
+      return data as TaskLabel
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in updateLabel:', error)
+      return null
+    }
+  }
+
+  // Assignments are removed with the label
+  static async deleteLabel(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('task_labels')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('❌ [TaskLabelService] Error deleting label:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in deleteLabel:', error)
+      return false
+    }
+  }
+
+  // Moves the source label's assignments onto the target and deletes the
+  // source; returns the number of assignments moved
+  static async mergeLabels(sourceId: string, targetId: string): Promise<number | null> {
+    try {
+      const { data, error } = await supabase.rpc('merge_task_labels', {
+        source_label_id: sourceId,
+        target_label_id: targetId
+      })
+
+      if (error) {
+        console.error('❌ [TaskLabelService] Error merging labels:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in mergeLabels:', error)
+      return null
+    }
+  }
+
+  static async getAssignments(target: LabelTarget, ids: string[]): Promise<TaskLabelAssignment[]> {
+    if (ids.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('task_label_assignments')
+        .select('*')
+        .in(target, ids)
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [TaskLabelService] task_label_assignments table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [TaskLabelService] Error fetching label assignments:', error)
+        return []
+      }
+
+      return (data ?? []) as TaskLabelAssignment[]
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in getAssignments:', error)
+      return []
+    }
+  }
+
+  // Replaces the labels on one task or delivery task; returns its assignments
+  static async syncLabels(
+    target: LabelTarget,
+    itemId: string,
+    labelIds: string[],
+    current: TaskLabelAssignment[],
+    userId: string | null
+  ): Promise<TaskLabelAssignment[] | null> {
+    const existing = current.filter(a => a[target] === itemId)
+    const toRemove = existing.filter(a => !labelIds.includes(a.label_id))
+    const toAdd = labelIds.filter(labelId => !existing.some(a => a.label_id === labelId))
+
+    try {
+      if (toRemove.length > 0) {
+        const { error } = await supabase
+          .from('task_label_assignments')
+          .delete()
+          .in('id', toRemove.map(a => a.id))
+
+        if (error) {
+          console.error('❌ [TaskLabelService] Error removing labels:', error)
+          return null
+        }
+      }
+
+      let added: TaskLabelAssignment[] = []
+      if (toAdd.length > 0) {
+        const { data, error } = await supabase
+          .from('task_label_assignments')
+          .insert(toAdd.map(labelId => ({ [target]: itemId, label_id: labelId, assigned_by: userId })))
+          .select()
+
+        if (error) {
+          console.error('❌ [TaskLabelService] Error adding labels:', error)
+          return null
+        }
+        added = (data ?? []) as TaskLabelAssignment[]
+      }
+
+      return [...existing.filter(a => !toRemove.includes(a)), ...added]
+    } catch (error) {
+      console.error('❌ [TaskLabelService] Error in syncLabels:', error)
+      return null
+    }
+  }
+
+  // Problem with a label name or color, or null when it can be saved
+  static validateLabel(name: string, color: string, labels: TaskLabel[], excludeId?: string): string | null {
+    const trimmed = name.trim()
+    if (!trimmed) return 'Label name is required'
+    if (!COLOR_PATTERN.test(color)) return 'Color must be a hex value like #3B82F6'
+    const clash = labels.find(l => l.id !== excludeId && l.name.toLowerCase() === trimmed.toLowerCase())
+    if (clash) return `A label named "${clash.name}" already exists; merge into it instead`
+    return null
+  }
+
+  static getLabelIds(itemId: string, assignments: TaskLabelAssignment[], target: LabelTarget): string[] {
+    return assignments.filter(a => a[target] === itemId).map(a => a.label_id)
+  }
+
+  // Labels on an item, in the project's label order
+  static getItemLabels(itemId: string, labels: TaskLabel[], assignments: TaskLabelAssignment[], target: LabelTarget): TaskLabel[] {
+    const ids = this.getLabelIds(itemId, assignments, target)
+    return labels.filter(label => ids.includes(label.id))
+  }
+
+  // Items carrying any (or all) of the selected labels; no selection keeps everything
+  static filterByLabels<T extends { id: string }>(
+    items: T[],
+    labelIds: string[],
+    assignments: TaskLabelAssignment[],
+    target: LabelTarget,
+    match: LabelMatch = 'any'
+  ): T[] {
+    if (labelIds.length === 0) return items
+    return items.filter(item => {
+      const itemLabels = this.getLabelIds(item.id, assignments, target)
+      return match === 'all'
+        ? labelIds.every(id => itemLabels.includes(id))
+        : labelIds.some(id => itemLabels.includes(id))
+    })
+  }
+
+  // One group per label in use, in label order, then unlabeled items.
+  // An item with several labels appears in each of their groups.
+  static groupByLabel<T extends { id: string }>(
+    items: T[],
+    labels: TaskLabel[],
+    assignments: TaskLabelAssignment[],
+    target: LabelTarget
+  ): LabelGroup<T>[] {
+    const groups: LabelGroup<T>[] = labels.map(label => ({
+      label,
+      items: items.filter(item => assignments.some(a => a[target] === item.id && a.label_id === label.id))
+    }))
+    const labelIds = new Set(labels.map(label => label.id))
+    groups.push({
+      label: null,
+      items: items.filter(item => !assignments.some(a => a[target] === item.id && labelIds.has(a.label_id)))
+    })
+    return groups.filter(group => group.items.length > 0)
+  }
+}
@@ -25,6 +25,7 @@ function transformSupabaseTask(dbTask: DbTask): Task {
     order_index: dbTask.order_index,
     assigned_to: dbTask.assigned_to,
     completed_at: dbTask.completed_at,
+    estimated_days: dbTask.estimated_days,
   };
 }
 
@@ -42,6 +43,7 @@ function transformToSupabaseTask(task: Partial<Task>): Partial<DbTaskInsert> {
     ai_suggested: task.ai_suggested,
     order_index: task.order_index,
     assigned_to: task.assigned_to,
+    estimated_days: task.estimated_days,
   };
   return dbInsert;
 }
@@ -103,6 +105,49 @@ export class TaskService {
     }
   }
 
+  // Get a single task by id
+  static async getTask(id: string): Promise<Task | null> {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching task:', error)
+        return null
+      }
+
+      return data ? transformSupabaseTask(data) : null
+    } catch (error) {
+      console.error('Error in getTask:', error)
+      return null
+    }
+  }
+
+  // Get several tasks by id, e.g. the tasks behind a set of time entries
+  static async getTasksByIds(ids: string[]): Promise<Task[]> {
+    if (ids.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .in('id', ids)
+
+      if (error) {
+        console.error('Error fetching tasks by id:', error)
+        return []
+      }
+
+      return (data ?? []).map(transformSupabaseTask)
+    } catch (error) {
+      console.error('Error in getTasksByIds:', error)
+      return []
+    }
+  }
+
   // Update an existing task
   static async updateTask(id: string, taskData: Partial<Task>): Promise<Task | null> {
     try {
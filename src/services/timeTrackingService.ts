@@ -0,0 +1,215 @@
+import { supabase } from '../lib/supabase.client'
+import type { TimeActivityType, TimeEntry, TimeEntryInsert } from '../types'
+
+// Each user runs at most one timer at a time: starting a new one stops the
+// previous entry. duration_minutes is computed by the calculate_time_duration
+// trigger and must be positive, so entries shorter than a minute are dropped.
+
+const MIN_ENTRY_MS = 60 * 1000
+
+export const ACTIVITY_TYPE_LABELS: Record<TimeActivityType, string> = {
+  work: 'Work',
+  meeting: 'Meeting',
+  research: 'Research',
+  planning: 'Planning',
+  review: 'Review'
+}
+
+export interface TimeEntryFilters {
+  userId?: string;
+  taskIds?: string[];
+  deliveryTaskIds?: string[]; // Matched together with taskIds when both are given
+  from?: string; // Inclusive start_time lower bound
+  to?: string; // Exclusive start_time upper bound
+}
+
+export class TimeTrackingService {
+  // The user's running timer, if any
+  static async getActiveEntry(userId: string): Promise<TimeEntry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('time_tracking')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .order('start_time', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [TimeTrackingService] time_tracking table not found')
+          return null
+        }
+        console.error('❌ [TimeTrackingService] Error fetching active entry:', error)
+        return null
+      }
+
+      return data as TimeEntry | null
+    } catch (error) {
+      console.error('❌ [TimeTrackingService] Error in getActiveEntry:', error)
+      return null
+    }
+  }
+
+  static async getEntries(filters: TimeEntryFilters): Promise<TimeEntry[]> {
+    const { taskIds, deliveryTaskIds } = filters
+    const scoped = taskIds !== undefined || deliveryTaskIds !== undefined
+    if (scoped && (taskIds?.length ?? 0) + (deliveryTaskIds?.length ?? 0) === 0) return []
+
+    try {
+      let query = supabase
+        .from('time_tracking')
+        .select('*')
+        .order('start_time', { ascending: false })
+
+      if (filters.userId) query = query.eq('user_id', filters.userId)
+      if (taskIds?.length && deliveryTaskIds?.length) {
+        query = query.or(`task_id.in.(${taskIds.join(',')}),delivery_task_id.in.(${deliveryTaskIds.join(',')})`)
+      } else if (taskIds?.length) {
+        query = query.in('task_id', taskIds)
+      } else if (deliveryTaskIds?.length) {
+        query = query.in('delivery_task_id', deliveryTaskIds)
+      }
+      if (filters.from) query = query.gte('start_time', filters.from)
+      if (filters.to) query = query.lt('start_time', filters.to)
+
+      const { data, error } = await query
+
+      if (error) {
+        if (error.code === '42P01') {
+          console.warn('⚠️ [TimeTrackingService] time_tracking table not found, returning empty array')
+          return []
+        }
+        console.error('❌ [TimeTrackingService] Error fetching time entries:', error)
+        return []
+      }
+
+      return (data ?? []) as TimeEntry[]
+    } catch (error) {
+      console.error('❌ [TimeTrackingService] Error in getEntries:', error)
+      return []
+    }
+  }
+
+  static async startTimer(userId: string, entry: Omit<TimeEntryInsert, 'end_time' | 'delivery_task_id'> & { task_id: string }): Promise<TimeEntry | null> {
+    try {
+      const running = await this.getActiveEntry(userId)
+      if (running) {
+        await this.stopTimer(running)
+      }
+
+      const { data, error } = await supabase
+        .from('time_tracking')
+        .insert([{
+          ...entry,
+          user_id: userId,
+          end_time: null,
+          is_active: true,
+          is_manual: false
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TimeTrackingService] Error starting timer:', error)
+        return null
+      }
+
+      return data as TimeEntry
+    } catch (error) {
+      console.error('❌ [TimeTrackingService] Error in startTimer:', error)
+      return null
+    }
+  }
+
+  // Closes a running entry; returns null when it was too short to keep
+  static async stopTimer(entry: TimeEntry, endTime: Date = new Date()): Promise<TimeEntry | null> {
+    try {
+      if (endTime.getTime() - new Date(entry.start_time).getTime() < MIN_ENTRY_MS) {
+        console.warn('⚠️ [TimeTrackingService] Entry shorter than a minute, discarding')
+        await this.deleteEntry(entry.id)
+        return null
+      }
+
+      const { data, error } = await supabase
+        .from('time_tracking')
+        .update({ end_time: endTime.toISOString(), is_active: false })
+        .eq('id', entry.id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TimeTrackingService] Error stopping timer:', error)
+        return null
+      }
+
+      return data as TimeEntry
+    } catch (error) {
+      console.error('❌ [TimeTrackingService] Error in stopTimer:', error)
+      return null
+    }
+  }
+
+  static async addManualEntry(userId: string, entry: TimeEntryInsert): Promise<TimeEntry | null> {
+    if (!entry.task_id === !entry.delivery_task_id) {
+      console.warn('⚠️ [TimeTrackingService] Manual entry needs exactly one of task_id or delivery_task_id')
+      return null
+    }
+    const start = new Date(entry.start_time).getTime()
+    const end = entry.end_time ? new Date(entry.end_time).getTime() : NaN
+    if (Number.isNaN(start) || Number.isNaN(end) || end - start < MIN_ENTRY_MS) {
+      console.warn('⚠️ [TimeTrackingService] Manual entry needs an end time at least a minute after its start')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('time_tracking')
+        .insert([{
+          ...entry,
+          user_id: userId,
+          is_active: false,
+          is_manual: true
+        }])
+        .select()
+        .single()
+
+      if (error) {
+        console.error('❌ [TimeTrackingService] Error adding manual entry:', error)
+        return null
+      }
+
+      return data as TimeEntry
+    } catch (error) {
+      console.error('❌ [TimeTrackingService] Error in addManualEntry:', error)
+      return null
+    }
+  }
+
+  static async deleteEntry(id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('time_tracking')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        console.error('❌ [TimeTrackingService] Error deleting time entry:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('❌ [TimeTrackingService] Error in deleteEntry:', error)
+      return false
+    }
+  }
+
+  // Minutes logged by an entry, counting a running entry up to now
+  static getMinutes(entry: TimeEntry, now: Date = new Date()): number {
+    if (entry.duration_minutes !== null) return entry.duration_minutes
+    const end = entry.end_time ? new Date(entry.end_time).getTime() : now.getTime()
+    return Math.max(Math.round((end - new Date(entry.start_time).getTime()) / 60000), 0)
+  }
+}
@@ -0,0 +1,190 @@
+import type { ProjectMilestone, ProjectSchedule, Task, TaskDependency } from '../types'
+import type { Phase } from '../types/newAgile'
+import { addDays, daysBetween, toDay } from './scheduleService'
+
+// Timeline layout
+// Tasks end on their due_date and span estimated_days; open tasks without a
+// due date are drawn at their forecast dates from the schedule. Positions are
+// whole calendar days so dragging snaps to days at every zoom level.
+
+export type TimelineZoom = 'day' | 'week' | 'month' | 'quarter'
+
+export const ZOOM_DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 40,
+  week: 16,
+  month: 5,
+  quarter: 2
+}
+
+const ZOOM_PADDING_DAYS: Record<TimelineZoom, number> = {
+  day: 3,
+  week: 7,
+  month: 14,
+  quarter: 30
+}
+
+export interface TimelineItem {
+  id: string;
+  kind: 'phase' | 'milestone' | 'task';
+  label: string;
+  start: string;
+  end: string;
+  color?: string;
+  projected: boolean; // Placed from the forecast rather than a saved date
+  task?: Task;
+  is_critical?: boolean;
+  is_late?: boolean;
+}
+
+export interface TimelineRange {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface TimelineTick {
+  day: string;
+  label: string;
+}
+
+export interface TimelineArrow {
+  from: TimelineItem;
+  to: TimelineItem;
+  type: TaskDependency['dependency_type'];
+  conflict: boolean; // Successor starts before its predecessor ends
+}
+
+const weekday = (day: string) => new Date(`${day}T00:00:00Z`).getUTCDay()
+const month = (day: string) => Number(day.slice(5, 7))
+const formatDay = (day: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' })
+
+export class TimelineService {
+  static getTaskSpan(task: Task): { start: string; end: string } | null {
+    const end = task.due_date ?? task.completed_at
+    if (!end) return null
+    const duration = Math.max(task.estimated_days ?? 1, 1)
+    return { start: addDays(toDay(end), -(duration - 1)), end: toDay(end) }
+  }
+
+  static getPhaseSpan(phase: Phase): { start: string; end: string } | null {
+    if (!phase.start_date) return null
+    const start = toDay(phase.start_date)
+    if (phase.end_date) return { start, end: toDay(phase.end_date) }
+    if (phase.estimated_duration_weeks) return { start, end: addDays(start, phase.estimated_duration_weeks * 7 - 1) }
+    return { start, end: start }
+  }
+
+  static buildItems(
+    phases: Phase[],
+    milestones: ProjectMilestone[],
+    tasks: Task[],
+    schedule: ProjectSchedule | null
+  ): { items: TimelineItem[]; unscheduled: Task[] } {
+    const items: TimelineItem[] = []
+    const unscheduled: Task[] = []
+
+    for (const phase of phases) {
+      const span = this.getPhaseSpan(phase)
+      if (span) {
+        items.push({ id: phase.id, kind: 'phase', label: phase.name, ...span, color: phase.color, projected: false })
+      }
+    }
+
+    for (const milestone of milestones) {
+      const day = milestone.actual_date ?? milestone.due_date ?? milestone.planned_date
+      if (day) {
+        items.push({ id: milestone.id, kind: 'milestone', label: milestone.name, start: toDay(day), end: toDay(day), projected: false })
+      }
+    }
+
+    for (const task of tasks) {
+      const scheduled = schedule?.tasks.find(entry => entry.task.id === task.id)
+      const span = this.getTaskSpan(task)
+      if (span) {
+        items.push({
+          id: task.id,
+          kind: 'task',
+          label: task.name,
+          ...span,
+          projected: false,
+          task,
+          is_critical: scheduled?.is_critical,
+          is_late: scheduled?.is_late
+        })
+      } else if (scheduled) {
+        items.push({
+          id: task.id,
+          kind: 'task',
+          label: task.name,
+          start: scheduled.earliest_start,
+          end: scheduled.earliest_finish,
+          projected: true,
+          task,
+          is_critical: scheduled.is_critical
+        })
+      } else {
+        unscheduled.push(task)
+      }
+    }
+
+    return { items, unscheduled }
+  }
+
+  // Snaps the padded span of all items (and today) to the zoom's tick boundary
+  static getRange(items: TimelineItem[], zoom: TimelineZoom, today: string): TimelineRange {
+    const days = [today, ...items.flatMap(item => [item.start, item.end])].sort()
+    const padding = ZOOM_PADDING_DAYS[zoom]
+    let start = addDays(days[0] ?? today, -padding)
+    const end = addDays(days[days.length - 1] ?? today, padding)
+
+    if (zoom === 'week') {
+      start = addDays(start, -((weekday(start) + 6) % 7))
+    } else if (zoom === 'month') {
+      start = `${start.slice(0, 7)}-01`
+    } else if (zoom === 'quarter') {
+      const quarterMonth = Math.floor((month(start) - 1) / 3) * 3 + 1
+      start = `${start.slice(0, 4)}-${String(quarterMonth).padStart(2, '0')}-01`
+    }
+
+    return { start, end, days: daysBetween(start, end) + 1 }
+  }
+
+  static getTicks(range: TimelineRange, zoom: TimelineZoom): TimelineTick[] {
+    const ticks: TimelineTick[] = []
+    for (let offset = 0; offset < range.days; offset++) {
+      const day = addDays(range.start, offset)
+      const dayOfMonth = Number(day.slice(8, 10))
+      if (zoom === 'day') {
+        ticks.push({ day, label: dayOfMonth === 1 || offset === 0 ? formatDay(day, { month: 'short', day: 'numeric' }) : String(dayOfMonth) })
+      } else if (zoom === 'week' && weekday(day) === 1) {
+        ticks.push({ day, label: formatDay(day, { month: 'short', day: 'numeric' }) })
+      } else if (zoom === 'month' && dayOfMonth === 1) {
+        ticks.push({ day, label: formatDay(day, { month: 'short', year: 'numeric' }) })
+      } else if (zoom === 'quarter' && dayOfMonth === 1 && (month(day) - 1) % 3 === 0) {
+        ticks.push({ day, label: `Q${Math.floor((month(day) - 1) / 3) + 1} ${day.slice(0, 4)}` })
+      }
+    }
+    return ticks
+  }
+
+  static getArrows(items: TimelineItem[], dependencies: TaskDependency[]): TimelineArrow[] {
+    const taskItems = new Map(items.filter(item => item.kind === 'task').map(item => [item.id, item]))
+    return dependencies.flatMap(dependency => {
+      const from = taskItems.get(dependency.depends_on_task_id)
+      const to = taskItems.get(dependency.task_id)
+      if (!from || !to) return []
+      return [{
+        from,
+        to,
+        type: dependency.dependency_type,
+        conflict: dependency.dependency_type !== 'relates_to' && to.start <= from.end
+      }]
+    })
+  }
+
+  // New due date after dragging a task bar by whole days
+  static shiftDueDate(item: TimelineItem, deltaDays: number): string {
+    return addDays(item.end, deltaDays)
+  }
+}
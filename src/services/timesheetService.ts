@@ -0,0 +1,232 @@
+import type { Project, Task, TimeEntry, Timesheet, TimesheetRow } from '../types'
+import type { DeliveryTask, EffortCalibration, EffortCalibrationReport, EffortEstimate } from '../types/newAgile'
+import { ACTIVITY_TYPE_LABELS, TimeTrackingService } from './timeTrackingService'
+import { TaskService } from './taskService'
+import { NewAgileService } from './newAgileService'
+import { ProjectService } from './projectService'
+
+// Weekly timesheets
+// Weeks run Monday to Sunday in local time. Running entries are left out
+// until they stop; billable time is valued at the rate stored on each entry.
+
+const EFFORT_ORDER: EffortEstimate[] = ['S', 'M', 'L']
+const FINISHED_DELIVERY_STATUSES: DeliveryTask['status'][] = ['released', 'measuring']
+
+// What the entries in a timesheet point at, for grouping and labels
+export interface TimesheetLookups {
+  tasks: Task[];
+  deliveryTasks: DeliveryTask[];
+  projects: Pick<Project, 'id' | 'title'>[];
+  userLabel?: (userId: string) => string;
+}
+
+export interface TimesheetData extends TimesheetLookups {
+  entries: TimeEntry[];
+}
+
+const emptyRow = (key: string, label: string): TimesheetRow => ({
+  key,
+  label,
+  total_minutes: 0,
+  billable_minutes: 0,
+  non_billable_minutes: 0,
+  billable_amount: 0,
+  unpriced_billable_minutes: 0,
+  by_activity: { work: 0, meeting: 0, research: 0, planning: 0, review: 0 },
+  by_day: [0, 0, 0, 0, 0, 0, 0]
+})
+
+const localDay = (date: Date) => date.toLocaleDateString('en-CA')
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export class TimesheetService {
+  // Local midnight on the Monday of the week containing date
+  static getWeekStart(date: Date = new Date()): Date {
+    const start = new Date(date)
+    start.setHours(0, 0, 0, 0)
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+    return start
+  }
+
+  static shiftWeek(weekStart: Date, weeks: number): Date {
+    const shifted = new Date(weekStart)
+    shifted.setDate(shifted.getDate() + weeks * 7)
+    return shifted
+  }
+
+  static getProjectId(entry: TimeEntry, lookups: TimesheetLookups): string | null {
+    if (entry.task_id) return lookups.tasks.find(task => task.id === entry.task_id)?.project_id ?? null
+    return lookups.deliveryTasks.find(task => task.id === entry.delivery_task_id)?.project_id ?? null
+  }
+
+  static getTaskName(entry: TimeEntry, lookups: TimesheetLookups): string {
+    if (entry.task_id) return lookups.tasks.find(task => task.id === entry.task_id)?.name ?? 'Unknown task'
+    return lookups.deliveryTasks.find(task => task.id === entry.delivery_task_id)?.title ?? 'Unknown task'
+  }
+
+  static getProjectTitle(projectId: string | null, lookups: TimesheetLookups): string {
+    return lookups.projects.find(project => project.id === projectId)?.title ?? 'Unknown project'
+  }
+
+  static buildTimesheet(
+    entries: TimeEntry[],
+    groupBy: Timesheet['group_by'],
+    lookups: TimesheetLookups,
+    weekStart: Date
+  ): Timesheet {
+    const weekEnd = this.shiftWeek(weekStart, 1)
+    const rows = new Map<string, TimesheetRow>()
+    const totals = emptyRow('total', 'Total')
+
+    for (const entry of entries) {
+      const start = new Date(entry.start_time)
+      if (entry.is_active || start < weekStart || start >= weekEnd) continue
+
+      const projectId = this.getProjectId(entry, lookups)
+      const key = groupBy === 'user' ? entry.user_id : projectId ?? 'unknown'
+      const label = groupBy === 'user'
+        ? lookups.userLabel?.(entry.user_id) ?? entry.user_id.slice(0, 8)
+        : this.getProjectTitle(projectId, lookups)
+      const row = rows.get(key) ?? emptyRow(key, label)
+      rows.set(key, row)
+
+      const minutes = TimeTrackingService.getMinutes(entry)
+      const day = (start.getDay() + 6) % 7
+      for (const target of [row, totals]) {
+        target.total_minutes += minutes
+        target.by_activity[entry.activity_type] += minutes
+        target.by_day[day]! += minutes
+        if (entry.is_billable) {
+          target.billable_minutes += minutes
+          if (entry.hourly_rate === null) {
+            target.unpriced_billable_minutes += minutes
+          } else {
+            target.billable_amount += (minutes / 60) * entry.hourly_rate
+          }
+        } else {
+          target.non_billable_minutes += minutes
+        }
+      }
+    }
+
+    const sheetEnd = new Date(weekStart)
+    sheetEnd.setDate(sheetEnd.getDate() + 6)
+    return {
+      week_start: localDay(weekStart),
+      week_end: localDay(sheetEnd),
+      group_by: groupBy,
+      rows: [...rows.values()].sort((a, b) => b.total_minutes - a.total_minutes),
+      totals
+    }
+  }
+
+  // Compares time logged on finished delivery tasks with their S/M/L estimate
+  static buildEffortCalibration(deliveryTasks: DeliveryTask[], entries: TimeEntry[]): EffortCalibrationReport {
+    const minutesByTask = new Map<string, number>()
+    for (const entry of entries) {
+      if (!entry.delivery_task_id || entry.is_active) continue
+      minutesByTask.set(entry.delivery_task_id, (minutesByTask.get(entry.delivery_task_id) ?? 0) + TimeTrackingService.getMinutes(entry))
+    }
+
+    const tasks = deliveryTasks
+      .filter(task => FINISHED_DELIVERY_STATUSES.includes(task.status) && (minutesByTask.get(task.id) ?? 0) > 0)
+      .map(task => ({ task, hours: round((minutesByTask.get(task.id) ?? 0) / 60) }))
+
+    const buckets: EffortCalibration[] = EFFORT_ORDER.map(effort => {
+      const hours = tasks.filter(entry => entry.task.effort === effort).map(entry => entry.hours)
+      return {
+        effort,
+        task_count: hours.length,
+        average_hours: hours.length > 0 ? round(hours.reduce((sum, value) => sum + value, 0) / hours.length) : null,
+        median_hours: median(hours),
+        min_hours: hours.length > 0 ? Math.min(...hours) : null,
+        max_hours: hours.length > 0 ? Math.max(...hours) : null
+      }
+    })
+
+    // A smaller estimate should not take longer on average than a larger one
+    const warnings: string[] = []
+    buckets.forEach((smaller, index) => {
+      for (const larger of buckets.slice(index + 1)) {
+        if (smaller.average_hours !== null && larger.average_hours !== null && smaller.average_hours > larger.average_hours) {
+          warnings.push(
+            `${smaller.effort} tasks average ${smaller.average_hours}h, more than ${larger.effort} tasks (${larger.average_hours}h)`
+          )
+        }
+      }
+    })
+
+    return { buckets, tasks: tasks.sort((a, b) => b.hours - a.hours), warnings }
+  }
+
+  static toCsv(entries: TimeEntry[], lookups: TimesheetLookups): string {
+    const header = ['Date', 'Start', 'End', 'User', 'Project', 'Task', 'Activity', 'Minutes', 'Hours', 'Billable', 'Hourly Rate', 'Amount', 'Description']
+    const rows = entries
+      .filter(entry => !entry.is_active)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      .map(entry => {
+        const start = new Date(entry.start_time)
+        const end = entry.end_time ? new Date(entry.end_time) : null
+        const minutes = TimeTrackingService.getMinutes(entry)
+        const amount = entry.is_billable && entry.hourly_rate !== null ? round((minutes / 60) * entry.hourly_rate, 2) : null
+        return [
+          localDay(start),
+          start.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }),
+          end ? end.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }) : null,
+          lookups.userLabel?.(entry.user_id) ?? entry.user_id,
+          this.getProjectTitle(this.getProjectId(entry, lookups), lookups),
+          this.getTaskName(entry, lookups),
+          ACTIVITY_TYPE_LABELS[entry.activity_type],
+          minutes,
+          round(minutes / 60, 2),
+          entry.is_billable ? 'Yes' : 'No',
+          entry.hourly_rate,
+          amount,
+          entry.description
+        ].map(csvCell).join(',')
+      })
+    return [header.join(','), ...rows].join('\n')
+  }
+
+  // All time logged on a project's tasks and delivery tasks
+  static async getProjectTimesheetData(project: Pick<Project, 'id' | 'title'>): Promise<TimesheetData> {
+    const [tasks, deliveryTasks] = await Promise.all([
+      TaskService.getTasks(project.id),
+      NewAgileService.getDeliveryTasks(project.id).then(loaded => loaded ?? [])
+    ])
+    const entries = await TimeTrackingService.getEntries({
+      taskIds: tasks.map(task => task.id),
+      deliveryTaskIds: deliveryTasks.map(task => task.id)
+    })
+    return { entries, tasks, deliveryTasks, projects: [project] }
+  }
+
+  // One user's time for a week, across every project
+  static async getUserTimesheetData(userId: string, weekStart: Date): Promise<TimesheetData> {
+    const [entries, projects] = await Promise.all([
+      TimeTrackingService.getEntries({
+        userId,
+        from: weekStart.toISOString(),
+        to: this.shiftWeek(weekStart, 1).toISOString()
+      }),
+      ProjectService.getAllProjects(userId)
+    ])
+    const [tasks, deliveryTasks] = await Promise.all([
+      TaskService.getTasksByIds([...new Set(entries.flatMap(entry => (entry.task_id ? [entry.task_id] : [])))]),
+      NewAgileService.getDeliveryTasksByIds([...new Set(entries.flatMap(entry => (entry.delivery_task_id ? [entry.delivery_task_id] : [])))])
+    ])
+    return { entries, tasks, deliveryTasks, projects }
+  }
+}
@@ -0,0 +1,138 @@
+import type {
+  DeliveryTask,
+  Experiment,
+  Hypothesis,
+  Opportunity,
+  TaskLineage,
+  TraceabilityLevel,
+  TraceabilityReport,
+  TracedObjective
+} from '../types/newAgile';
+import { NewAgileService } from './newAgileService';
+import { objectiveService } from './okr/okrService';
+
+// Traceability graph from delivery work back to the OKRs it serves
+// Follows task → experiment → hypothesis → opportunity → objective
+
+export interface TraceabilitySources {
+  tasks: DeliveryTask[];
+  experiments: Experiment[];
+  hypotheses: Hypothesis[];
+  opportunities: Opportunity[];
+  objectives: TracedObjective[];
+}
+
+const TRACEABILITY_LEVELS: TraceabilityLevel[] = ['experiment', 'hypothesis', 'opportunity', 'objective'];
+
+const indexById = <T extends { id: string }>(items: T[]) =>
+  new Map(items.map(item => [item.id, item] as const));
+
+export class TraceabilityService {
+  // Resolve the lineage of a single task against pre-indexed discovery records
+  static traceTask(
+    task: DeliveryTask,
+    experiments: Map<string, Experiment>,
+    hypotheses: Map<string, Hypothesis>,
+    opportunities: Map<string, Opportunity>,
+    objectives: Map<string, TracedObjective>
+  ): TaskLineage {
+    const broken: TraceabilityLevel[] = [];
+
+    const experiment = task.experiment_reference ? experiments.get(task.experiment_reference) : undefined;
+    if (task.experiment_reference && !experiment) broken.push('experiment');
+
+    // A direct hypothesis reference wins; otherwise climb through the experiment
+    const hypothesisId = task.hypothesis_reference ?? experiment?.hypothesis_id;
+    const hypothesis = hypothesisId ? hypotheses.get(hypothesisId) : undefined;
+    if (hypothesisId && !hypothesis) broken.push('hypothesis');
+
+    const opportunity = hypothesis?.opportunity_id ? opportunities.get(hypothesis.opportunity_id) : undefined;
+    if (hypothesis?.opportunity_id && !opportunity) broken.push('opportunity');
+
+    const objective = opportunity?.objective_id ? objectives.get(opportunity.objective_id) : undefined;
+    if (opportunity?.objective_id && !objective) broken.push('objective');
+
+    const found: Record<TraceabilityLevel, boolean> = {
+      experiment: !!experiment,
+      hypothesis: !!hypothesis,
+      opportunity: !!opportunity,
+      objective: !!objective
+    };
+
+    return {
+      task,
+      experiment,
+      hypothesis,
+      opportunity,
+      objective,
+      missing: TRACEABILITY_LEVELS.filter(level => !found[level]),
+      broken_references: broken,
+      orphan: !experiment && !hypothesis
+    };
+  }
+
+  static buildReport(sources: TraceabilitySources): TraceabilityReport {
+    const experiments = indexById(sources.experiments);
+    const hypotheses = indexById(sources.hypotheses);
+    const opportunities = indexById(sources.opportunities);
+    const objectives = indexById(sources.objectives);
+
+    const lineages = sources.tasks.map(task =>
+      this.traceTask(task, experiments, hypotheses, opportunities, objectives)
+    );
+    const orphans = lineages.filter(lineage => lineage.orphan);
+
+    return {
+      lineages,
+      orphans,
+      fully_traced: lineages.filter(lineage => !!lineage.objective).length,
+      coverage: lineages.length > 0
+        ? Math.round(((lineages.length - orphans.length) / lineages.length) * 100)
+        : 0
+    };
+  }
+
+  // Objectives live in the OKR module; a failure there shouldn't hide the rest of the graph
+  static async getObjectives(): Promise<TracedObjective[]> {
+    try {
+      const objectives = await objectiveService.getObjectives();
+      return objectives.map(objective => ({
+        id: objective.id,
+        title: objective.title,
+        quarter: objective.quarter,
+        year: objective.year,
+        status: objective.status
+      }));
+    } catch (error) {
+      console.error('❌ [TraceabilityService] Error fetching objectives:', error);
+      return [];
+    }
+  }
+
+  static async getProjectTraceability(projectId: string): Promise<TraceabilityReport> {
+    console.log('🔍 [TraceabilityService] Building traceability graph for project:', projectId);
+
+    const [tasks, hypotheses, experiments, opportunities, objectives] = await Promise.all([
+      NewAgileService.getDeliveryTasks(projectId).then(loaded => loaded ?? []),
+      NewAgileService.getHypotheses(projectId),
+      NewAgileService.getExperiments(),
+      NewAgileService.getOpportunities(projectId),
+      this.getObjectives()
+    ]);
+
+    // Experiments aren't scoped by project, so keep the ones testing this project's hypotheses
+    const hypothesisIds = new Set(hypotheses.map(hypothesis => hypothesis.id));
+    const projectExperiments = experiments.filter(experiment => hypothesisIds.has(experiment.hypothesis_id));
+
+    const report = this.buildReport({
+      tasks,
+      experiments: projectExperiments,
+      hypotheses,
+      opportunities,
+      objectives
+    });
+
+    console.log('✅ [TraceabilityService] Traced', report.lineages.length, 'tasks,', report.orphans.length, 'orphans');
+    return report;
+  }
+}
@@ -89,6 +89,7 @@ export interface Task {
   order_index: number | null;
   assigned_to: string | null;
   completed_at: string | null;
+  estimated_days?: number | null; // Working estimate used for scheduling, defaults to 1
 }
 
 // Task insert type
@@ -105,6 +106,7 @@ export interface TaskInsert {
   ai_suggested?: boolean | null;
   order_index?: number | null;
   assigned_to?: string | null;
+  estimated_days?: number | null;
 }
 
 // Task update type
@@ -122,6 +124,288 @@ export interface TaskUpdate {
   order_index?: number | null;
   assigned_to?: string | null;
   completed_at?: string | null;
+  estimated_days?: number | null;
+}
+
+// Task dependency types - maps to task_dependencies table
+// 'blocks': depends_on_task must finish before task can start or complete
+// 'follows': task is sequenced after depends_on_task
+// 'relates_to': informational link only
+export type TaskDependencyType = 'blocks' | 'follows' | 'relates_to';
+
+export interface TaskDependency {
+  id: string;
+  task_id: string;
+  depends_on_task_id: string;
+  dependency_type: TaskDependencyType;
+  description: string | null;
+  created_at: string;
+  created_by: string | null;
+}
+
+export interface TaskDependencyInsert {
+  task_id: string;
+  depends_on_task_id: string;
+  dependency_type?: TaskDependencyType;
+  description?: string | null;
+  created_by?: string | null;
+}
+
+// Time tracking types - maps to time_tracking table
+// An active entry has no end_time yet; calculate_time_duration fills
+// duration_minutes once end_time is set
+export type TimeActivityType = 'work' | 'meeting' | 'research' | 'planning' | 'review';
+
+export interface TimeEntry {
+  id: string;
+  task_id: string | null; // Exactly one of task_id and delivery_task_id is set
+  delivery_task_id: string | null;
+  user_id: string;
+  start_time: string;
+  end_time: string | null;
+  duration_minutes: number | null;
+  description: string | null;
+  activity_type: TimeActivityType;
+  is_billable: boolean;
+  hourly_rate: number | null;
+  is_manual: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TimeEntryInsert {
+  task_id?: string | null;
+  delivery_task_id?: string | null;
+  start_time: string;
+  end_time?: string | null;
+  description?: string | null;
+  activity_type?: TimeActivityType;
+  is_billable?: boolean;
+  hourly_rate?: number | null;
+}
+
+// Weekly timesheet totals for one user or project; minutes per activity
+// and per day (index 0 is Monday)
+export interface TimesheetRow {
+  key: string;
+  label: string;
+  total_minutes: number;
+  billable_minutes: number;
+  non_billable_minutes: number;
+  billable_amount: number; // Billable hours valued at each entry's hourly_rate
+  unpriced_billable_minutes: number; // Billable time without an hourly_rate
+  by_activity: Record<TimeActivityType, number>;
+  by_day: number[];
+}
+
+export interface Timesheet {
+  week_start: string;
+  week_end: string;
+  group_by: 'user' | 'project';
+  rows: TimesheetRow[];
+  totals: TimesheetRow;
+}
+
+// Task label types - maps to task_labels and task_label_assignments
+// Labels belong to a project; an assignment links one label to either a task
+// or a delivery task. usage_count is kept by the update_label_usage trigger.
+export interface TaskLabel {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  color: string; // #RRGGBB
+  usage_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskLabelInsert {
+  name: string;
+  description?: string | null;
+  color?: string;
+}
+
+export type TaskLabelUpdate = Partial<TaskLabelInsert>;
+
+export interface TaskLabelAssignment {
+  id: string;
+  task_id: string | null; // Exactly one of task_id and delivery_task_id is set
+  delivery_task_id: string | null;
+  label_id: string;
+  assigned_at: string;
+  assigned_by: string | null;
+}
+
+export interface LabelGroup<T> {
+  label: TaskLabel | null; // null collects unlabeled items
+  items: T[];
+}
+
+// Task comment types - maps to task_comments table
+// Threads are one level deep: a reply's parent_id is always a top-level
+// comment. Deleted comments keep their row with deleted_at set.
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  parent_id: string | null;
+  user_id: string;
+  content: string;
+  content_type: 'text' | 'markdown';
+  is_internal: boolean;
+  mentions: string[]; // User ids of mentioned project members
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface TaskCommentThread {
+  comment: TaskComment; // Deleted roots are kept while they still have replies
+  replies: TaskComment[];
+}
+
+// Project owner or team member who can be @mentioned
+export interface ProjectMember {
+  id: string;
+  email: string | null;
+  handle: string; // Mention name, e.g. "alice" for @alice
+  is_owner: boolean;
+}
+
+// Project attachment types - maps to project_attachments table
+// Files live in the project-attachments storage bucket under
+// <project_id>/<task_id or "project">/. Task attachments keep project_id set
+// so a project's files can be listed and cleaned up together.
+export interface ProjectAttachment {
+  id: string;
+  project_id: string | null;
+  task_id: string | null;
+  filename: string; // Storage object name
+  original_filename: string;
+  file_path: string;
+  file_size: number; // Bytes
+  mime_type: string;
+  description: string | null;
+  tags: string[];
+  is_public: boolean;
+  uploaded_by: string;
+  upload_session: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectAttachmentUpdate {
+  description?: string | null;
+  tags?: string[];
+}
+
+export type AttachmentPreviewKind = 'image' | 'pdf' | 'none';
+
+// Project milestone types - maps to project_milestones table
+export type MilestoneType = 'checkpoint' | 'deliverable' | 'deadline' | 'approval';
+export type MilestoneStatus = 'pending' | 'in_progress' | 'completed' | 'delayed' | 'cancelled';
+
+export interface ProjectMilestone {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  milestone_type: MilestoneType;
+  due_date: string | null;
+  planned_date: string | null;
+  actual_date: string | null;
+  status: MilestoneStatus;
+  is_critical: boolean;
+  completion_percentage: number;
+  depends_on_milestone: string | null;
+  sort_order: number;
+  completed_at: string | null;
+  completed_by: string | null;
+  notify_days_before: number;
+  notification_sent: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectMilestoneInsert {
+  name: string;
+  description?: string | null;
+  milestone_type?: MilestoneType;
+  due_date?: string | null;
+  planned_date?: string | null;
+  status?: MilestoneStatus;
+  is_critical?: boolean;
+  completion_percentage?: number;
+  depends_on_milestone?: string | null;
+  sort_order?: number;
+  notify_days_before?: number;
+}
+
+export type ProjectMilestoneUpdate = Partial<ProjectMilestoneInsert>;
+
+// Milestone slip compares the planned date (falling back to due_date) with
+// the actual date, or with today for milestones still open past their plan
+export type MilestoneSlipStatus = 'early' | 'on_time' | 'late' | 'overdue' | 'upcoming' | 'unplanned';
+
+export interface MilestoneSlip {
+  milestone: ProjectMilestone;
+  baseline_date: string | null;
+  slip_days: number | null; // Positive when late
+  status: MilestoneSlipStatus;
+}
+
+export interface ProjectSlipSummary {
+  project_id: string;
+  project_title: string;
+  completed: number;
+  late: number;
+  overdue: number;
+  average_slip_days: number | null; // Over completed milestones
+}
+
+export interface MilestoneSlipReport {
+  slips: MilestoneSlip[];
+  completed: number;
+  on_time: number; // Completed early or on time
+  late: number;
+  overdue: number;
+  average_slip_days: number | null;
+  projects: ProjectSlipSummary[];
+}
+
+// Schedule forecast types - computed from tasks, dependencies and milestones
+// Dates are calendar days (YYYY-MM-DD); offsets count from the forecast date
+export interface ScheduledTask {
+  task: Task;
+  duration_days: number;
+  earliest_start: string;
+  earliest_finish: string;
+  latest_start: string;
+  latest_finish: string;
+  slack_days: number;
+  is_critical: boolean;
+  is_late: boolean; // Projected to finish after its due_date
+}
+
+export interface MilestoneForecast {
+  milestone: ProjectMilestone;
+  projected_date: string | null; // When the work due before the milestone is projected to finish
+  is_reachable: boolean;
+  slip_days: number; // Days past due_date, 0 when on track
+  reason: string | null;
+}
+
+export interface ProjectSchedule {
+  project_id: string;
+  as_of: string;
+  tasks: ScheduledTask[];
+  critical_path: ScheduledTask[];
+  projected_finish: string | null; // Null when no open work remains
+  due_date: string | null;
+  finish_variance_days: number | null; // Positive when projected past the project due date
+  milestones: MilestoneForecast[];
+  cyclic_tasks: Task[]; // Left out because their dependencies form a cycle
 }
 
 // User type - simplified for auth context
@@ -160,6 +444,26 @@ export interface ProjectFormData {
   template: string;
 }
 
+// Planner calendar: dated items from tasks, projects, milestones, weekly
+// goals and daily notes
+export type CalendarEventType = 'task' | 'project_start' | 'project_due' | 'milestone' | 'goal' | 'note';
+export type CalendarView = 'month' | 'week' | 'agenda';
+
+export interface CalendarEvent {
+  id: string; // Prefixed with the type, since ids from different tables can repeat
+  type: CalendarEventType;
+  date: string; // YYYY-MM-DD
+  title: string;
+  detail: string | null;
+  completed: boolean;
+  project_id: string | null;
+}
+
+export interface CalendarRange {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
 // Export database types for advanced usage
 export type {
   Database,
@@ -177,12 +481,27 @@ export interface Objective {
   year: number;
   owner_id: string;
   project_id?: string;
+  parent_id?: string | null; // Objective this one supports
+  level?: ObjectiveLevel;
+  contribution_weight?: number; // Share of the parent's progress, relative to its siblings
   status: 'draft' | 'active' | 'completed' | 'cancelled';
+  grade?: number | null; // 0.0 to 1.0, set when the quarter is closed
+  reflection?: string | null;
+  closed_at?: string | null; // Closed objectives are read-only
+  carried_from_id?: string | null; // Unfinished objective from an earlier quarter
   created_at: string;
   updated_at: string;
   key_results?: KeyResult[];
 }
 
+export type ObjectiveLevel = 'company' | 'team' | 'personal';
+
+export interface ObjectiveAlignment {
+  parent_id: string | null;
+  level: ObjectiveLevel;
+  contribution_weight: number;
+}
+
 // Key Result type - measurable outcomes for objectives
 export interface KeyResult {
   id: string;
@@ -197,19 +516,136 @@ export interface KeyResult {
   status: 'active' | 'completed' | 'at_risk' | 'blocked';
   created_at: string;
   updated_at: string;
-  updates?: KeyResultUpdate[];
+  forecast_at_risk?: boolean; // at_risk was set by the quarter-end forecast
+  grade?: number | null; // 0.0 to 1.0, set when the quarter is closed
+  key_result_updates?: KeyResultCheckIn[]; // Embedded by objective and key result queries
 }
 
-// Key Result Update type - progress tracking over time
-export interface KeyResultUpdate {
+// Key result check-in - a progress row in key_result_updates. Rows written
+// before check-ins had a note and confidence have neither.
+export interface KeyResultCheckIn {
   id: string;
   key_result_id: string;
   value: number;
-  note?: string;
+  note: string | null;
+  confidence: number | null; // 1 (won't land) to 10 (certain)
   updated_by: string;
   created_at: string;
 }
 
+export interface KeyResultCheckInInput {
+  value: number;
+  note: string;
+  confidence: number;
+}
+
+// Where a key result is heading at quarter end. linear fits a trend through
+// the check-ins; pace extends the average rate since the quarter started.
+export interface KeyResultForecast {
+  method: 'linear' | 'pace';
+  projected_value: number;
+  projected_progress: number; // Percent of the way from baseline to target
+  on_track: boolean;
+  quarter_end: string; // YYYY-MM-DD
+}
+
+// A project that delivers toward an objective through projects.objective_id
+export interface LinkedProject {
+  id: string;
+  objective_id: string;
+  title: string;
+  status: Project['status'];
+  progress: number;
+}
+
+// Objective progress from its key results and its linked projects. Overall
+// progress weighs the two equally when both exist.
+export interface ObjectiveRollup {
+  objective_id: string;
+  key_result_progress: number | null; // null without key results
+  project_progress: number | null; // null without linked projects
+  overall_progress: number;
+  projects: LinkedProject[];
+}
+
+// An objective in the alignment tree. Rolled-up progress is the weighted
+// average of the objective's own progress and its children's rolled-up
+// progress, each child weighted by its contribution_weight.
+export interface ObjectiveTreeNode {
+  objective: Objective;
+  depth: number;
+  own_progress: number | null; // null without key results or linked projects
+  rolled_up_progress: number;
+  children: ObjectiveTreeNode[];
+}
+
+// An objective that is not connected to the rest of the tree or to delivery
+export interface AlignmentGap {
+  objective: Objective;
+  missing_parent: boolean; // Below company level with no parent
+  missing_projects: boolean; // No linked projects on it or anywhere below it
+}
+
+// Grades and reflection for one objective when its quarter is closed
+export interface ObjectiveCloseInput {
+  objective_id: string;
+  reflection: string;
+  key_result_grades: Record<string, number>; // Key result id to grade, 0.0 to 1.0
+  carry_over: boolean; // Copy the objective into the next quarter
+}
+
+// An objective as archived in a quarter report
+export interface QuarterReportObjective {
+  id: string;
+  title: string;
+  level: ObjectiveLevel;
+  status: Objective['status'];
+  grade: number;
+  reflection: string;
+  carried_over: boolean;
+  key_results: {
+    id: string;
+    title: string;
+    baseline: number;
+    target: number;
+    current_value: number;
+    unit: string;
+    grade: number;
+  }[];
+}
+
+// Read-only archive of a closed quarter
+export interface OKRQuarterReport {
+  id: string;
+  owner_id: string;
+  quarter: 1 | 2 | 3 | 4;
+  year: number;
+  average_grade: number;
+  objectives_count: number;
+  key_results_count: number;
+  completed_count: number;
+  carried_over_count: number;
+  snapshot: QuarterReportObjective[];
+  closed_at: string;
+}
+
+// A quarter report next to the one before it
+export interface QuarterComparison {
+  report: OKRQuarterReport;
+  grade_change: number | null; // null for the first archived quarter
+}
+
+// OKR counts for a set of objectives, as shown on the dashboards
+export interface OKRProgressOverview {
+  objectives_on_track: number; // Completed, or active with no key result at risk or blocked
+  total_objectives: number; // Cancelled objectives are left out
+  key_results: {
+    completed: number;
+    at_risk: number;
+    total: number;
+  };
+}
+
 // OKR insert types for creating new records
 export interface ObjectiveInsert {
   id?: string;
@@ -219,7 +655,11 @@ export interface ObjectiveInsert {
   year: number;
   owner_id: string;
   project_id?: string;
+  parent_id?: string | null;
+  level?: ObjectiveLevel;
+  contribution_weight?: number;
   status?: 'draft' | 'active' | 'completed' | 'cancelled';
+  carried_from_id?: string;
 }
 
 export interface KeyResultInsert {
@@ -250,7 +690,13 @@ export interface ObjectiveUpdate {
   year?: number;
   owner_id?: string;
   project_id?: string;
+  parent_id?: string | null;
+  level?: ObjectiveLevel;
+  contribution_weight?: number;
   status?: 'draft' | 'active' | 'completed' | 'cancelled';
+  grade?: number;
+  reflection?: string;
+  closed_at?: string;
 }
 
 export interface KeyResultUpdate {
@@ -262,6 +708,8 @@ export interface KeyResultUpdate {
   unit?: string;
   measurement_frequency?: 'daily' | 'weekly' | 'monthly';
   status?: 'active' | 'completed' | 'at_risk' | 'blocked';
+  forecast_at_risk?: boolean;
+  grade?: number;
 }
 
 // OKR progress summary type (from database view)
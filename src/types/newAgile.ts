@@ -1,6 +1,8 @@
 // New Agile Methodology Types
 // Outcome-driven, discovery-led project management
 
+import type { Objective, OKRProgressOverview } from '../types';
+
 export type OpportunityStatus = 'backlog' | 'researching' | 'validated' | 'archived';
 export type HypothesisStatus = 'draft' | 'in_test' | 'learning' | 'scaled' | 'killed' | 'archived';
 export type ExperimentStatus = 'planned' | 'running' | 'completed' | 'cancelled';
@@ -18,6 +20,7 @@ export interface Opportunity {
   title: string;
   problem_statement: string;
   affected_users: string;
+  persona_ids?: string[]; // Personas named in affected_users
   evidence: string[];
   expected_impact: string;
   constraints: string[];
@@ -26,6 +29,7 @@ export interface Opportunity {
   effort: EffortEstimate;
   risk: RiskLevel;
   status: OpportunityStatus;
+  reach?: number; // Users affected per quarter, used by RICE scoring
   objective_id?: string; // Link to OKR
   created_at: string;
   updated_at: string;
@@ -77,14 +81,39 @@ export interface Experiment {
   decision: 'scale' | 'iterate' | 'kill' | 'pending';
   next_steps: string;
   insights: string[];
+  ab_test?: ABTestDesign; // Only for method 'ab_test'
   created_at: string;
   updated_at: string;
   created_by: string;
 }
 
+// A/B test design and variant-level results
+export type ABMetricType = 'conversion' | 'mean';
+
+export interface ABVariant {
+  name: string;
+  sample_size: number;
+  conversions?: number; // For conversion metrics
+  mean?: number; // For continuous metrics
+  std_dev?: number;
+}
+
+export interface ABTestDesign {
+  metric_type: ABMetricType;
+  confidence_level: number; // e.g. 0.95
+  power: number; // e.g. 0.8
+  minimum_detectable_effect: number; // Smallest relative lift worth detecting, in percent
+  baseline_rate?: number; // Expected control conversion rate (0-1), used for sizing
+  baseline_mean?: number; // Expected control mean, used for sizing
+  baseline_std_dev?: number;
+  control: ABVariant;
+  treatment: ABVariant;
+}
+
 // Insight (Learning from discovery work)
 export interface Insight {
   id: string;
+  project_id: string;
   title: string;
   description: string;
   category: InsightCategory;
@@ -99,37 +128,9 @@ export interface Insight {
   created_by: string;
 }
 
-// OKR (Objectives & Key Results)
-export interface Objective {
-  id: string;
-  title: string;
-  description: string;
-  quarter: string;
-  owner: string;
-  status: 'planning' | 'active' | 'completed' | 'cancelled';
-  confidence: ConfidenceLevel;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface KeyResult {
-  id: string;
-  objective_id: string;
-  title: string;
-  description: string;
-  metric: string;
-  baseline: number;
-  target: number;
-  current_value: number;
-  unit: string;
-  measurement_frequency: 'daily' | 'weekly' | 'monthly';
-  last_updated: string;
-  owner: string;
-  status: 'not_started' | 'at_risk' | 'on_track' | 'completed';
-  confidence: ConfidenceLevel;
-  created_at: string;
-  updated_at: string;
-}
+// OKR (Objectives & Key Results) - one model shared with the okr components,
+// matching the objectives and key_results tables
+export type { Objective, KeyResult } from '../types';
 
 // Phase (Project phases containing multiple tasks)
 export interface Phase {
@@ -155,6 +156,7 @@ export interface Phase {
 // Delivery Task (Implementation work)
 export interface DeliveryTask {
   id: string;
+  project_id: string;
   title: string;
   description: string;
   status: DeliveryTaskStatus;
@@ -164,6 +166,7 @@ export interface DeliveryTask {
   phase_id?: string; // Link to containing phase
   experiment_reference?: string; // Link to supporting experiment
   hypothesis_reference?: string; // Link to supporting hypothesis
+  persona_ids?: string[]; // Personas this work serves
   acceptance_criteria: string[];
   definition_of_ready: string[];
   definition_of_done: string[];
@@ -181,6 +184,7 @@ export interface DeliveryTask {
 // Decision Log Entry
 export interface Decision {
   id: string;
+  project_id: string;
   title: string;
   context: string;
   options_considered: {
@@ -197,6 +201,8 @@ export interface Decision {
   review_date?: string;
   outcome?: string;
   lessons_learned?: string;
+  experiment_id?: string; // Set when the decision came from an experiment evaluation
+  hypothesis_id?: string;
   created_at: string;
   updated_at: string;
 }
@@ -204,6 +210,7 @@ export interface Decision {
 // User Personas
 export interface UserPersona {
   id: string;
+  project_id: string;
   name: string;
   description: string;
   icon: string;
@@ -222,6 +229,18 @@ export interface UserPersona {
   updated_at: string;
 }
 
+export type UserPersonaCreateRequest = Omit<UserPersona, 'id' | 'project_id' | 'created_at' | 'updated_at'>;
+
+// Which discovery and delivery work serves a persona
+export interface PersonaCoverage {
+  persona: UserPersona;
+  opportunities: Opportunity[];
+  validated_opportunities: Opportunity[];
+  tasks: DeliveryTask[];
+  shipped_tasks: DeliveryTask[]; // Released or measuring
+  gaps: string[]; // Empty when the persona is covered
+}
+
 // WIP Limits for Kanban
 export interface WIPLimits {
   ready: number;
@@ -231,6 +250,30 @@ export interface WIPLimits {
   measuring?: number;
 }
 
+// What happens when a task is moved into a column that is at its WIP limit
+export type WIPPolicyMode = 'warn' | 'block' | 'require_justification';
+
+// Per-project WIP limits with an enforcement policy for each column
+export interface WIPPolicy {
+  project_id: string;
+  limits: Partial<Record<DeliveryTaskStatus, number>>; // Missing column means no limit
+  policies: Record<DeliveryTaskStatus, WIPPolicyMode>;
+}
+
+// Logged when a move breaks a column's WIP limit
+export interface WIPLimitOverride {
+  id: string;
+  project_id: string;
+  task_id?: string;
+  status: DeliveryTaskStatus;
+  wip_limit: number;
+  wip_count: number;
+  policy: WIPPolicyMode;
+  reason?: string;
+  overridden_by?: string;
+  created_at: string;
+}
+
 // Flow Metrics
 export interface FlowMetrics {
   total_wip: number;
@@ -241,6 +284,114 @@ export interface FlowMetrics {
   blocked_items: number;
 }
 
+// Status transition recorded for a delivery task
+export interface DeliveryTaskTransition {
+  id: string;
+  task_id: string;
+  project_id: string;
+  from_status: DeliveryTaskStatus | null; // null when the task was created
+  to_status: DeliveryTaskStatus;
+  transitioned_at: string;
+  transitioned_by?: string;
+}
+
+export interface CycleTimePercentiles {
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+// One day of the cumulative flow diagram
+export interface CumulativeFlowPoint {
+  date: string; // YYYY-MM-DD
+  counts: Record<DeliveryTaskStatus, number>;
+}
+
+export interface AgingWorkItem {
+  task: DeliveryTask;
+  age_hours: number; // Hours since work started
+}
+
+// Flow metrics plus the detail behind them
+export interface FlowMetricsReport extends FlowMetrics {
+  cycle_time_percentiles: CycleTimePercentiles;
+  completed_count: number;
+  aging_work: AgingWorkItem[];
+  cumulative_flow: CumulativeFlowPoint[];
+}
+
+// Hours actually logged on finished delivery tasks, per effort estimate
+export interface EffortCalibration {
+  effort: EffortEstimate;
+  task_count: number;
+  average_hours: number | null;
+  median_hours: number | null;
+  min_hours: number | null;
+  max_hours: number | null;
+}
+
+export interface EffortCalibrationReport {
+  buckets: EffortCalibration[];
+  tasks: { task: DeliveryTask; hours: number }[];
+  warnings: string[]; // e.g. S tasks taking longer than M tasks
+}
+
+// Levels of the discovery chain a delivery task traces back through
+export type TraceabilityLevel = 'experiment' | 'hypothesis' | 'opportunity' | 'objective';
+
+// The OKR objective at the top of a lineage (rows come from the objectives table)
+export interface TracedObjective {
+  id: string;
+  title: string;
+  quarter?: number;
+  year?: number;
+  status?: string;
+}
+
+// Discovery lineage of one delivery task: experiment → hypothesis → opportunity → OKR
+export interface TaskLineage {
+  task: DeliveryTask;
+  experiment?: Experiment;
+  hypothesis?: Hypothesis;
+  opportunity?: Opportunity;
+  objective?: TracedObjective;
+  missing: TraceabilityLevel[]; // Levels the chain could not reach
+  broken_references: TraceabilityLevel[]; // Links pointing at records that no longer exist
+  orphan: boolean; // No experiment or hypothesis behind the work at all
+}
+
+export interface TraceabilityReport {
+  lineages: TaskLineage[];
+  orphans: TaskLineage[];
+  fully_traced: number; // Tasks that reach an objective
+  coverage: number; // Percentage of tasks with any discovery lineage
+}
+
+// Experiment decision engine
+export type ExperimentDecision = Exclude<Experiment['decision'], 'pending'>;
+
+export interface MetricEvaluation {
+  metric: string;
+  baseline: number;
+  target: number;
+  actual?: number;
+  attainment: number | null; // Share of the baseline → target gap closed (1 = target hit)
+  improvement_pct: number | null; // Change vs baseline in the metric's desired direction
+  met: boolean;
+}
+
+export interface ExperimentEvaluation {
+  experiment_id: string;
+  hypothesis_id: string;
+  recommendation: ExperimentDecision;
+  score: number; // Average attainment as a percentage
+  improvement_pct: number | null; // Average improvement across evaluated metrics
+  metrics: MetricEvaluation[];
+  thresholds_used: boolean; // False when the hypothesis thresholds couldn't be read
+  reasoning: string[];
+  evaluated_at: string;
+}
+
 // New Agile Project Configuration
 export interface NewAgileProject {
   id: string;
@@ -264,6 +415,7 @@ export interface OpportunityCreateRequest {
   title: string;
   problem_statement: string;
   affected_users: string;
+  persona_ids?: string[];
   evidence: string[];
   expected_impact: string;
   constraints: string[];
@@ -271,6 +423,7 @@ export interface OpportunityCreateRequest {
   confidence: ConfidenceLevel;
   effort: EffortEstimate;
   risk: RiskLevel;
+  reach?: number;
   objective_id?: string;
 }
 
@@ -304,6 +457,76 @@ export interface ExperimentCreateRequest {
     baseline: number;
     target: number;
   }[];
+  ab_test?: ABTestDesign;
+}
+
+export interface DecisionCreateRequest {
+  title: string;
+  context: string;
+  options_considered: Decision['options_considered'];
+  decision: string;
+  rationale: string;
+  evidence: string[];
+  owner: string;
+  stakeholders: string[];
+  success_criteria: string[];
+  review_date?: string;
+  experiment_id?: string;
+  hypothesis_id?: string;
+}
+
+export type DecisionUpdateRequest = Partial<DecisionCreateRequest> & {
+  outcome?: string;
+  lessons_learned?: string;
+};
+
+// Opportunity prioritisation
+export type ScoringModelType = 'wsjf' | 'rice' | 'custom';
+export type CustomScoringFactor = 'value' | 'confidence' | 'ease' | 'low_risk' | 'evidence';
+
+// Per-project choice of scoring model; weights apply to the custom model only
+export interface OpportunityScoringModel {
+  project_id: string;
+  model: ScoringModelType;
+  weights: Record<CustomScoringFactor, number>;
+}
+
+export interface ScoreComponent {
+  label: string;
+  value: number;
+  detail: string; // How the opportunity's field maps to this value
+}
+
+export interface OpportunityScore {
+  model: ScoringModelType;
+  score: number;
+  formula: string;
+  components: ScoreComponent[];
+  notes: string[]; // Missing inputs or assumptions that affect the score
+}
+
+export interface RankedOpportunity {
+  opportunity: Opportunity;
+  rank: number;
+  score: OpportunityScore;
+}
+
+export interface InsightCreateRequest {
+  title: string;
+  description: string;
+  category: InsightCategory;
+  source: string;
+  evidence: string[];
+  impact_level: 'low' | 'medium' | 'high';
+  actionable: boolean;
+  tags: string[];
+  linked_opportunities: string[];
+}
+
+export interface InsightFilters {
+  category?: InsightCategory;
+  tags?: string[]; // Insight must carry every tag
+  query?: string; // Matches title, description, source and tags
 }
 
 export interface DeliveryTaskCreateRequest {
@@ -315,10 +538,19 @@ export interface DeliveryTaskCreateRequest {
   phase_id?: string;
   experiment_reference?: string;
   hypothesis_reference?: string;
+  persona_ids?: string[];
   acceptance_criteria: string[];
   tags: string[];
 }
 
+export type DeliveryTaskUpdateRequest = Partial<DeliveryTaskCreateRequest> & {
+  status?: DeliveryTaskStatus;
+  blocked?: boolean;
+  blocked_reason?: string;
+  definition_of_ready?: string[];
+  definition_of_done?: string[];
+};
+
 export interface PhaseCreateRequest {
   name: string;
   description: string;
@@ -330,12 +562,25 @@ export interface PhaseCreateRequest {
   dependencies?: string[];
 }
 
+export type PhaseUpdateRequest = Partial<PhaseCreateRequest> & {
+  status?: PhaseStatus;
+};
+
+// Outcome of creating or updating a phase; error explains a rejected change
+// such as a dependency cycle or unfinished prerequisites
+export interface PhaseSaveResult {
+  phase: Phase | null;
+  error?: string;
+}
+
 // Dashboard/Overview Types
 export interface NewAgileDashboard {
   opportunities: {
     total: number;
     by_status: Record<OpportunityStatus, number>;
     high_value_count: number;
+    scoring_model: ScoringModelType;
+    top_ranked: RankedOpportunity[]; // Highest scoring open opportunities
   };
   experiments: {
     total: number;
@@ -345,16 +590,9 @@ export interface NewAgileDashboard {
   };
   delivery: {
     wip: FlowMetrics;
+    flow: FlowMetricsReport;
     recently_released: DeliveryTask[];
     blocked_items: DeliveryTask[];
   };
-  okr_progress: {
-    objectives_on_track: number;
-    total_objectives: number;
-    key_results: {
-      completed: number;
-      at_risk: number;
-      total: number;
-    };
-  };
+  okr_progress: OKRProgressOverview;
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyseABTest,
+  createABTestDesign,
+  hasVariantResults,
+  logGamma,
+  normalCdf,
+  normalQuantile,
+  regularizedIncompleteBeta,
+  requiredSampleSize,
+  tCdf,
+  tQuantile
+} from './abTestStats';
+import type { ABTestDesign } from '../types/newAgile';
+
+// Reference values were computed independently: the normal distribution from
+// the exact error function, Student's t by numerical integration of its density
+
+const conversionDesign = (): ABTestDesign => ({
+  ...createABTestDesign('conversion'),
+  baseline_rate: 0.1,
+  control: { name: 'Control', sample_size: 1000, conversions: 100 },
+  treatment: { name: 'Treatment', sample_size: 1000, conversions: 130 }
+});
+
+const meanDesign = (): ABTestDesign => ({
+  ...createABTestDesign('mean'),
+  baseline_mean: 100,
+  baseline_std_dev: 15,
+  control: { name: 'Control', sample_size: 12, mean: 10, std_dev: 2 },
+  treatment: { name: 'Treatment', sample_size: 14, mean: 11.5, std_dev: 2.5 }
+});
+
+describe('distribution functions', () => {
+  it('computes log-gamma', () => {
+    expect(logGamma(5)).toBeCloseTo(Math.log(24), 10);
+    expect(logGamma(0.5)).toBeCloseTo(0.5723649429, 9);
+    expect(logGamma(10.3)).toBeCloseTo(13.4820367861, 8);
+  });
+
+  it('computes the regularised incomplete beta', () => {
+    // I_0.5(2, 3) = (C(4,2) + C(4,3) + C(4,4)) / 2^4
+    expect(regularizedIncompleteBeta(0.5, 2, 3)).toBeCloseTo(0.6875, 10);
+    expect(regularizedIncompleteBeta(0.3, 1, 1)).toBeCloseTo(0.3, 10);
+    expect(regularizedIncompleteBeta(0, 2, 3)).toBe(0);
+    expect(regularizedIncompleteBeta(1, 2, 3)).toBe(1);
+  });
+
+  it('computes the standard normal CDF and its inverse', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.9750021, 6);
+    expect(normalCdf(-1)).toBeCloseTo(0.1586553, 6);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.9599640, 6);
+    expect(normalQuantile(0.8)).toBeCloseTo(0.8416212, 6);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.3263479, 6);
+    expect(normalQuantile(0)).toBe(-Infinity);
+    expect(normalQuantile(1)).toBe(Infinity);
+  });
+
+  it("computes Student's t CDF and its inverse", () => {
+    expect(tCdf(2, 10)).toBeCloseTo(0.9633060, 6);
+    expect(tCdf(2, 1)).toBeCloseTo(0.5 + Math.atan(2) / Math.PI, 8);
+    expect(tCdf(-1.5, 5)).toBeCloseTo(0.0969518, 6);
+    expect(tCdf(0, 7)).toBeCloseTo(0.5, 10);
+    expect(tQuantile(0.975, 10)).toBeCloseTo(2.2281389, 5);
+    expect(tQuantile(0.5, 4)).toBeCloseTo(0, 6);
+  });
+});
+
+describe('requiredSampleSize', () => {
+  it('sizes a conversion test from the baseline rate and minimum effect', () => {
+    expect(requiredSampleSize(conversionDesign())).toBe(14751);
+  });
+
+  it('sizes a mean test from the baseline mean and standard deviation', () => {
+    expect(requiredSampleSize(meanDesign())).toBe(36);
+  });
+
+  it('returns null without a usable baseline or effect', () => {
+    expect(requiredSampleSize({ ...conversionDesign(), baseline_rate: undefined })).toBeNull();
+    expect(requiredSampleSize({ ...conversionDesign(), baseline_rate: 1 })).toBeNull();
+    expect(requiredSampleSize({ ...conversionDesign(), minimum_detectable_effect: 0 })).toBeNull();
+    expect(requiredSampleSize({ ...meanDesign(), baseline_std_dev: 0 })).toBeNull();
+  });
+});
+
+describe('analyseABTest', () => {
+  it('waits for results from both variants', () => {
+    const design = createABTestDesign('conversion');
+    expect(hasVariantResults(design)).toBe(false);
+    expect(analyseABTest(design)).toBeNull();
+    expect(analyseABTest({
+      ...conversionDesign(),
+      treatment: { name: 'Treatment', sample_size: 10, conversions: 11 }
+    })).toBeNull();
+  });
+
+  it('runs a pooled two-proportion z-test for conversions', () => {
+    const result = analyseABTest(conversionDesign())!;
+
+    expect(result.control_value).toBeCloseTo(0.1, 10);
+    expect(result.treatment_value).toBeCloseTo(0.13, 10);
+    expect(result.difference).toBeCloseTo(0.03, 10);
+    expect(result.lift).toBeCloseTo(30, 8);
+    expect(result.statistic).toBeCloseTo(2.1027406, 6);
+    expect(result.p_value).toBeCloseTo(0.0354885, 5);
+    expect(result.difference_ci[0]).toBeCloseTo(0.0020679, 6);
+    expect(result.difference_ci[1]).toBeCloseTo(0.0579321, 6);
+    expect(result.lift_ci![0]).toBeCloseTo(2.0679, 3);
+    expect(result.significant).toBe(true);
+    expect(result.required_sample_size).toBe(14751);
+    expect(result.sample_size_reached).toBe(false);
+  });
+
+  it("runs Welch's t-test for means", () => {
+    const result = analyseABTest(meanDesign())!;
+
+    expect(result.difference).toBeCloseTo(1.5, 10);
+    expect(result.lift).toBeCloseTo(15, 8);
+    expect(result.statistic).toBeCloseTo(1.6986748, 6);
+    expect(result.degrees_of_freedom).toBeCloseTo(23.9083328, 6);
+    expect(result.p_value).toBeCloseTo(0.1023589, 5);
+    expect(result.difference_ci[0]).toBeCloseTo(1.5 - 1.8228775, 4);
+    expect(result.difference_ci[1]).toBeCloseTo(1.5 + 1.8228775, 4);
+    expect(result.significant).toBe(false);
+  });
+
+  it('reports no lift when the control value is zero', () => {
+    const result = analyseABTest({
+      ...conversionDesign(),
+      control: { name: 'Control', sample_size: 500, conversions: 0 },
+      treatment: { name: 'Treatment', sample_size: 500, conversions: 0 }
+    })!;
+
+    expect(result.lift).toBeNull();
+    expect(result.lift_ci).toBeNull();
+    expect(result.p_value).toBe(1);
+    expect(result.significant).toBe(false);
+  });
+});
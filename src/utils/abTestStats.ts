@@ -0,0 +1,274 @@
+// A/B test statistics
+// Pure functions for comparing a control and a treatment variant: lift,
+// confidence intervals, p-values and the sample size needed before launch
+
+import type { ABTestDesign, ABVariant } from '../types/newAgile';
+
+export interface ABTestResult {
+  metric_type: ABTestDesign['metric_type'];
+  control_value: number; // Conversion rate (0-1) or mean
+  treatment_value: number;
+  difference: number; // treatment - control, absolute
+  difference_ci: [number, number]; // Confidence interval for the absolute difference
+  lift: number | null; // Relative lift in percent, null when the control value is 0
+  lift_ci: [number, number] | null; // Approximate, relative to the control value
+  statistic: number; // z score (conversion) or Welch t (mean)
+  degrees_of_freedom?: number;
+  p_value: number;
+  confidence_level: number;
+  significant: boolean;
+  required_sample_size: number | null; // Per variant, from the design
+  sample_size_reached: boolean;
+}
+
+// Sensible starting point for a new A/B test: 95% confidence, 80% power
+export const createABTestDesign = (metricType: ABTestDesign['metric_type'] = 'conversion'): ABTestDesign => ({
+  metric_type: metricType,
+  confidence_level: 0.95,
+  power: 0.8,
+  minimum_detectable_effect: 10,
+  control: { name: 'Control', sample_size: 0 },
+  treatment: { name: 'Treatment', sample_size: 0 }
+});
+
+// Regularised incomplete beta needs log-gamma (Lanczos approximation)
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((coefficient, i) => {
+    sum += coefficient / (z + i + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return result;
+};
+
+export const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+// Standard normal CDF via the error function (Abramowitz & Stegun 7.1.26)
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+// Inverse standard normal CDF (Acklam's rational approximation)
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239] as const;
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572] as const;
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783] as const;
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416] as const;
+  const low = 0.02425;
+
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+  if (p < low) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - low) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Student's t CDF
+export const tCdf = (t: number, df: number): number => {
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// Inverse Student's t CDF by bisection; plenty fast for a handful of calls
+export const tQuantile = (p: number, df: number): number => {
+  let low = -1000;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (tCdf(mid, df) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+const twoSidedNormalP = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+// Sample size per variant needed to detect the design's minimum effect
+export const requiredSampleSize = (design: ABTestDesign): number | null => {
+  const alpha = 1 - design.confidence_level;
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(design.power);
+  const mde = design.minimum_detectable_effect / 100;
+  if (mde <= 0) return null;
+
+  if (design.metric_type === 'conversion') {
+    const p1 = design.baseline_rate;
+    if (p1 === undefined || p1 <= 0 || p1 >= 1) return null;
+    const p2 = Math.min(p1 * (1 + mde), 0.9999);
+    const pooled = (p1 + p2) / 2;
+    const numerator = zAlpha * Math.sqrt(2 * pooled * (1 - pooled)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+    return Math.ceil((numerator * numerator) / ((p2 - p1) * (p2 - p1)));
+  }
+
+  const mean = design.baseline_mean;
+  const stdDev = design.baseline_std_dev;
+  if (!mean || !stdDev || stdDev <= 0) return null;
+  const delta = Math.abs(mean * mde);
+  return Math.ceil((2 * (zAlpha + zBeta) ** 2 * stdDev * stdDev) / (delta * delta));
+};
+
+const hasConversionData = (variant: ABVariant) =>
+  variant.sample_size > 0 && variant.conversions !== undefined && variant.conversions >= 0 && variant.conversions <= variant.sample_size;
+
+const hasMeanData = (variant: ABVariant) =>
+  variant.sample_size > 1 && variant.mean !== undefined && variant.std_dev !== undefined && variant.std_dev >= 0;
+
+export const hasVariantResults = (design: ABTestDesign): boolean =>
+  design.metric_type === 'conversion'
+    ? hasConversionData(design.control) && hasConversionData(design.treatment)
+    : hasMeanData(design.control) && hasMeanData(design.treatment);
+
+interface VariantComparison {
+  control_value: number;
+  treatment_value: number;
+  margin: number; // Half-width of the confidence interval for the difference
+  statistic: number;
+  degrees_of_freedom?: number;
+  p_value: number;
+}
+
+// Two-proportion z-test (pooled) with an unpooled interval for the difference
+const analyseConversion = (design: ABTestDesign, zCritical: number): VariantComparison => {
+  const { control, treatment } = design;
+  const n1 = control.sample_size;
+  const n2 = treatment.sample_size;
+  const p1 = (control.conversions ?? 0) / n1;
+  const p2 = (treatment.conversions ?? 0) / n2;
+  const pooled = ((control.conversions ?? 0) + (treatment.conversions ?? 0)) / (n1 + n2);
+
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  const se = Math.sqrt((p1 * (1 - p1)) / n1 + (p2 * (1 - p2)) / n2);
+  const statistic = pooledSe > 0 ? (p2 - p1) / pooledSe : 0;
+
+  return {
+    control_value: p1,
+    treatment_value: p2,
+    margin: zCritical * se,
+    statistic,
+    p_value: pooledSe > 0 ? twoSidedNormalP(statistic) : 1
+  };
+};
+
+// Welch's t-test for a difference in means
+const analyseMean = (design: ABTestDesign): VariantComparison => {
+  const { control, treatment } = design;
+  const n1 = control.sample_size;
+  const n2 = treatment.sample_size;
+  const v1 = (control.std_dev ?? 0) ** 2 / n1;
+  const v2 = (treatment.std_dev ?? 0) ** 2 / n2;
+  const se = Math.sqrt(v1 + v2);
+  const difference = (treatment.mean ?? 0) - (control.mean ?? 0);
+  const df = se > 0 ? (v1 + v2) ** 2 / ((v1 * v1) / (n1 - 1) + (v2 * v2) / (n2 - 1)) : n1 + n2 - 2;
+  const statistic = se > 0 ? difference / se : 0;
+  const tCritical = tQuantile(1 - (1 - design.confidence_level) / 2, df);
+
+  return {
+    control_value: control.mean ?? 0,
+    treatment_value: treatment.mean ?? 0,
+    margin: tCritical * se,
+    statistic,
+    degrees_of_freedom: df,
+    p_value: se > 0 ? 2 * (1 - tCdf(Math.abs(statistic), df)) : 1
+  };
+};
+
+// Returns null until both variants have results
+export const analyseABTest = (design: ABTestDesign): ABTestResult | null => {
+  if (!hasVariantResults(design)) return null;
+
+  const zCritical = normalQuantile(1 - (1 - design.confidence_level) / 2);
+  const analysis = design.metric_type === 'conversion'
+    ? analyseConversion(design, zCritical)
+    : analyseMean(design);
+
+  const difference = analysis.treatment_value - analysis.control_value;
+  const ci: [number, number] = [difference - analysis.margin, difference + analysis.margin];
+  const base = Math.abs(analysis.control_value);
+  const required = requiredSampleSize(design);
+
+  return {
+    metric_type: design.metric_type,
+    control_value: analysis.control_value,
+    treatment_value: analysis.treatment_value,
+    difference,
+    difference_ci: ci,
+    lift: base > 0 ? (difference / base) * 100 : null,
+    lift_ci: base > 0 ? [(ci[0] / base) * 100, (ci[1] / base) * 100] : null,
+    statistic: analysis.statistic,
+    degrees_of_freedom: analysis.degrees_of_freedom,
+    p_value: Math.min(Math.max(analysis.p_value, 0), 1),
+    confidence_level: design.confidence_level,
+    significant: analysis.p_value < 1 - design.confidence_level,
+    required_sample_size: required,
+    sample_size_reached: required === null ||
+      Math.min(design.control.sample_size, design.treatment.sample_size) >= required
+  };
+};
@@ -0,0 +1,7 @@
+// Local calendar days
+// Dates without a time (due dates, review dates) are calendar days, so they
+// are compared with the user's local day rather than the UTC day
+
+// YYYY-MM-DD of the local calendar day a date falls on
+export const toLocalDay = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
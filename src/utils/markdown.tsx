@@ -0,0 +1,126 @@
+// Minimal Markdown rendering for user-written text such as task comments
+// Builds React elements rather than HTML, so content is never injected
+// unescaped. Supports paragraphs, headings, lists, quotes, fenced and inline
+// code, bold, italic, links and @mentions.
+
+import React from 'react';
+
+export interface MarkdownOptions {
+  mentions?: string[]; // Handles to highlight as @mentions, lower case
+}
+
+const INLINE_PATTERN =
+  /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\s](?:[^*\n]*[^*\s])?\*|(?<!\w)_[^_\s](?:[^_\n]*[^_\s])?_(?!\w))|(\[[^\]\n]+\]\([^)\s]+\))|(https?:\/\/[^\s)]+)|((?:^|(?<=[^\w@.]))@[a-z0-9][\w.-]*)/gi;
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+const linkClass = 'text-blue-300 underline hover:text-blue-200';
+
+const renderInline = (text: string, options: MarkdownOptions, keyPrefix: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [token] = match;
+    const index = match.index;
+    const key = `${keyPrefix}-${index}`;
+    if (index > last) nodes.push(text.slice(last, index));
+    last = index + token.length;
+
+    if (match[1]) {
+      nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-black/30 text-sm font-mono">{token.slice(1, -1)}</code>);
+    } else if (match[2]) {
+      nodes.push(<strong key={key}>{renderInline(token.slice(2, -2), options, key)}</strong>);
+    } else if (match[3]) {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1), options, key)}</em>);
+    } else if (match[4]) {
+      const split = token.lastIndexOf('](');
+      const label = token.slice(1, split);
+      const url = token.slice(split + 2, -1);
+      nodes.push(
+        SAFE_URL.test(url)
+          ? <a key={key} href={url} target="_blank" rel="noopener noreferrer" className={linkClass}>{label}</a>
+          : token
+      );
+    } else if (match[5]) {
+      nodes.push(<a key={key} href={token} target="_blank" rel="noopener noreferrer" className={linkClass}>{token}</a>);
+    } else {
+      const handle = token.slice(1).toLowerCase().replace(/[.-]+$/, '');
+      if (options.mentions?.includes(handle)) {
+        const trailing = token.slice(handle.length + 1);
+        nodes.push(
+          <span key={key} className="px-1 rounded bg-blue-500/30 text-blue-100 font-medium">@{token.slice(1, handle.length + 1)}</span>,
+          trailing
+        );
+      } else {
+        nodes.push(token);
+      }
+    }
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+// Lines joined with explicit breaks, as comments are usually written
+const renderLines = (lines: string[], options: MarkdownOptions, keyPrefix: string): React.ReactNode[] =>
+  lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, options, `${keyPrefix}-${index}`)
+  ]);
+
+const renderBlock = (block: string, options: MarkdownOptions, key: string): React.ReactNode => {
+  const lines = block.split('\n');
+
+  const heading = /^(#{1,3})\s+(.*)$/.exec(block);
+  if (heading && lines.length === 1) {
+    const size = heading[1]!.length === 1 ? 'text-lg' : 'text-base';
+    return <p key={key} className={`${size} font-semibold`}>{renderInline(heading[2]!, options, key)}</p>;
+  }
+  if (lines.every(line => /^\s*[-*]\s+/.test(line))) {
+    return (
+      <ul key={key} className="list-disc pl-5 space-y-1">
+        {lines.map((line, index) => (
+          <li key={index}>{renderInline(line.replace(/^\s*[-*]\s+/, ''), options, `${key}-${index}`)}</li>
+        ))}
+      </ul>
+    );
+  }
+  if (lines.every(line => /^\s*\d+[.)]\s+/.test(line))) {
+    return (
+      <ol key={key} className="list-decimal pl-5 space-y-1">
+        {lines.map((line, index) => (
+          <li key={index}>{renderInline(line.replace(/^\s*\d+[.)]\s+/, ''), options, `${key}-${index}`)}</li>
+        ))}
+      </ol>
+    );
+  }
+  if (lines.every(line => line.startsWith('>'))) {
+    return (
+      <blockquote key={key} className="border-l-2 border-white/30 pl-3 text-white/70">
+        {renderLines(lines.map(line => line.replace(/^>\s?/, '')), options, key)}
+      </blockquote>
+    );
+  }
+  return <p key={key}>{renderLines(lines, options, key)}</p>;
+};
+
+export const renderMarkdown = (source: string, options: MarkdownOptions = {}): React.ReactNode[] => {
+  // Odd segments are the contents of ``` fences
+  const segments = source.replace(/\r\n/g, '\n').split(/^```[^\n]*\n?/m);
+
+  return segments.flatMap<React.ReactNode>((segment, index) => {
+    if (index % 2 === 1) {
+      return [
+        <pre key={`code-${index}`} className="p-3 rounded-lg bg-black/30 text-sm font-mono overflow-x-auto whitespace-pre">
+          {segment.replace(/\n$/, '')}
+        </pre>
+      ];
+    }
+    return segment
+      .split(/\n\s*\n/)
+      .map(block => block.replace(/^\n+|\n+$/g, ''))
+      .filter(block => block.trim() !== '')
+      .map((block, blockIndex) => renderBlock(block, options, `block-${index}-${blockIndex}`));
+  });
+};
@@ -0,0 +1,96 @@
+-- Migration: Add delivery_tasks table for the New Agile delivery board
+-- Delivery tasks are scoped to a project so the kanban only shows its own work
+
+-- Create delivery_tasks table
+CREATE TABLE IF NOT EXISTS delivery_tasks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  status VARCHAR(20) NOT NULL DEFAULT 'ready' CHECK (status IN ('ready', 'in_progress', 'review', 'released', 'measuring')),
+  priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  effort VARCHAR(1) NOT NULL DEFAULT 'M' CHECK (effort IN ('S', 'M', 'L')),
+  assignee TEXT,
+  phase_id UUID,
+  experiment_reference TEXT,
+  hypothesis_reference TEXT,
+  acceptance_criteria TEXT[] DEFAULT '{}',
+  definition_of_ready TEXT[] DEFAULT '{}',
+  definition_of_done TEXT[] DEFAULT '{}',
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  cycle_time DECIMAL, -- Hours from start to done
+  blocked BOOLEAN DEFAULT false,
+  blocked_reason TEXT,
+  tags TEXT[] DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by TEXT
+);
+
+-- Older databases created delivery_tasks without a project link
+ALTER TABLE delivery_tasks ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE CASCADE;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_delivery_tasks_project ON delivery_tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_delivery_tasks_project_status ON delivery_tasks(project_id, status);
+
+-- Enable Row Level Security
+ALTER TABLE delivery_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+DROP POLICY IF EXISTS "Users can view delivery tasks for their projects" ON delivery_tasks;
+CREATE POLICY "Users can view delivery tasks for their projects" ON delivery_tasks
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create delivery tasks for their projects" ON delivery_tasks;
+CREATE POLICY "Users can create delivery tasks for their projects" ON delivery_tasks
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update delivery tasks for their projects" ON delivery_tasks;
+CREATE POLICY "Users can update delivery tasks for their projects" ON delivery_tasks
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete delivery tasks for their projects" ON delivery_tasks;
+CREATE POLICY "Users can delete delivery tasks for their projects" ON delivery_tasks
+  FOR DELETE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_delivery_tasks_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_delivery_tasks_updated_at ON delivery_tasks;
+CREATE TRIGGER trigger_delivery_tasks_updated_at
+  BEFORE UPDATE ON delivery_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_delivery_tasks_updated_at();
+
+COMMENT ON TABLE delivery_tasks IS 'Implementation work items shown on the New Agile delivery board';
+COMMENT ON COLUMN delivery_tasks.project_id IS 'Project the task belongs to, used to filter the board';
+COMMENT ON COLUMN delivery_tasks.cycle_time IS 'Hours from started_at to completed_at';
@@ -0,0 +1,59 @@
+-- Migration: Add status transition history for delivery tasks
+-- Every status change on delivery_tasks is recorded so flow metrics
+-- (cycle time, lead time, throughput, cumulative flow) can be derived
+
+-- Create delivery_task_status_history table
+CREATE TABLE IF NOT EXISTS delivery_task_status_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID REFERENCES delivery_tasks(id) ON DELETE CASCADE NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  from_status VARCHAR(20) CHECK (from_status IN ('ready', 'in_progress', 'review', 'released', 'measuring')),
+  to_status VARCHAR(20) NOT NULL CHECK (to_status IN ('ready', 'in_progress', 'review', 'released', 'measuring')),
+  transitioned_at TIMESTAMPTZ DEFAULT NOW(),
+  transitioned_by UUID REFERENCES auth.users(id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_delivery_task_history_task ON delivery_task_status_history(task_id, transitioned_at);
+CREATE INDEX IF NOT EXISTS idx_delivery_task_history_project ON delivery_task_status_history(project_id, transitioned_at);
+
+-- Enable Row Level Security
+ALTER TABLE delivery_task_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History rows are written by the trigger below, users only read them
+DROP POLICY IF EXISTS "Users can view delivery task history for their projects" ON delivery_task_status_history;
+CREATE POLICY "Users can view delivery task history for their projects" ON delivery_task_status_history
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+-- Create function to record status transitions
+CREATE OR REPLACE FUNCTION record_delivery_task_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO delivery_task_status_history (task_id, project_id, from_status, to_status, transitioned_by)
+    VALUES (
+      NEW.id,
+      NEW.project_id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create trigger for recording transitions
+DROP TRIGGER IF EXISTS trigger_delivery_task_transition ON delivery_tasks;
+CREATE TRIGGER trigger_delivery_task_transition
+  AFTER INSERT OR UPDATE OF status ON delivery_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION record_delivery_task_transition();
+
+COMMENT ON TABLE delivery_task_status_history IS 'Status transitions of delivery tasks, used to compute flow metrics';
+COMMENT ON COLUMN delivery_task_status_history.from_status IS 'Previous status, NULL when the task was created';
@@ -0,0 +1,94 @@
+-- Migration: Add per-project WIP limit policies for the delivery board
+-- Each board column gets a limit and a policy that decides what happens
+-- when a task is moved into a full column
+
+-- Create delivery_wip_policies table (one row per project and column)
+CREATE TABLE IF NOT EXISTS delivery_wip_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('ready', 'in_progress', 'review', 'released', 'measuring')),
+  wip_limit INTEGER CHECK (wip_limit IS NULL OR wip_limit > 0), -- NULL means no limit
+  policy VARCHAR(30) NOT NULL DEFAULT 'warn' CHECK (policy IN ('warn', 'block', 'require_justification')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_project_column_policy UNIQUE (project_id, status)
+);
+
+-- Create wip_limit_overrides table to log every time a limit is broken
+CREATE TABLE IF NOT EXISTS wip_limit_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES delivery_tasks(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('ready', 'in_progress', 'review', 'released', 'measuring')),
+  wip_limit INTEGER NOT NULL,
+  wip_count INTEGER NOT NULL, -- Items in the column after the move
+  policy VARCHAR(30) NOT NULL CHECK (policy IN ('warn', 'block', 'require_justification')),
+  reason TEXT,
+  overridden_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_delivery_wip_policies_project ON delivery_wip_policies(project_id);
+CREATE INDEX IF NOT EXISTS idx_wip_limit_overrides_project ON wip_limit_overrides(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wip_limit_overrides_task ON wip_limit_overrides(task_id);
+
+-- Enable Row Level Security
+ALTER TABLE delivery_wip_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wip_limit_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for delivery_wip_policies
+DROP POLICY IF EXISTS "Users can view WIP policies for their projects" ON delivery_wip_policies;
+CREATE POLICY "Users can view WIP policies for their projects" ON delivery_wip_policies
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Project owners can manage WIP policies" ON delivery_wip_policies;
+CREATE POLICY "Project owners can manage WIP policies" ON delivery_wip_policies
+  FOR ALL USING (
+    project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+  );
+
+-- Create RLS policies for wip_limit_overrides
+DROP POLICY IF EXISTS "Users can view WIP overrides for their projects" ON wip_limit_overrides;
+CREATE POLICY "Users can view WIP overrides for their projects" ON wip_limit_overrides
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can log WIP overrides for their projects" ON wip_limit_overrides;
+CREATE POLICY "Users can log WIP overrides for their projects" ON wip_limit_overrides
+  FOR INSERT WITH CHECK (
+    overridden_by = auth.uid() AND
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_delivery_wip_policies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_delivery_wip_policies_updated_at ON delivery_wip_policies;
+CREATE TRIGGER trigger_delivery_wip_policies_updated_at
+  BEFORE UPDATE ON delivery_wip_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_delivery_wip_policies_updated_at();
+
+COMMENT ON TABLE delivery_wip_policies IS 'Per-project WIP limit and enforcement policy for each delivery board column';
+COMMENT ON COLUMN delivery_wip_policies.policy IS 'warn: allow and flag, block: reject the move, require_justification: allow with a logged reason';
+COMMENT ON TABLE wip_limit_overrides IS 'Audit log of moves that exceeded a column WIP limit';
@@ -0,0 +1,85 @@
+-- Migration: Add decisions table
+-- Records significant product decisions with the options considered and the
+-- rationale. Accepted experiment decisions are logged here with the
+-- experiment and hypothesis they came from.
+
+-- Create decisions table
+CREATE TABLE IF NOT EXISTS decisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  context TEXT,
+  options_considered JSONB DEFAULT '[]'::jsonb, -- [{ option, pros: [], cons: [] }]
+  decision TEXT NOT NULL,
+  rationale TEXT,
+  evidence TEXT[] DEFAULT '{}',
+  owner TEXT,
+  stakeholders TEXT[] DEFAULT '{}',
+  success_criteria TEXT[] DEFAULT '{}',
+  review_date DATE,
+  outcome TEXT,
+  lessons_learned TEXT,
+  experiment_id UUID, -- Set when the decision came from an experiment evaluation
+  hypothesis_id UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_decisions_project ON decisions(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_decisions_experiment ON decisions(experiment_id);
+
+-- Enable Row Level Security
+ALTER TABLE decisions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for decisions
+DROP POLICY IF EXISTS "Users can view decisions for their projects" ON decisions;
+CREATE POLICY "Users can view decisions for their projects" ON decisions
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create decisions for their projects" ON decisions;
+CREATE POLICY "Users can create decisions for their projects" ON decisions
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update decisions for their projects" ON decisions;
+CREATE POLICY "Users can update decisions for their projects" ON decisions
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Project owners can delete decisions" ON decisions;
+CREATE POLICY "Project owners can delete decisions" ON decisions
+  FOR DELETE USING (
+    project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_decisions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_decisions_updated_at ON decisions;
+CREATE TRIGGER trigger_decisions_updated_at
+  BEFORE UPDATE ON decisions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_decisions_updated_at();
+
+COMMENT ON TABLE decisions IS 'Decision log: significant product decisions with options, rationale and review outcome';
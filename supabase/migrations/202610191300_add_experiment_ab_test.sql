@@ -0,0 +1,13 @@
+-- Migration: Store A/B test design and variant-level results on experiments
+-- Holds metric type, confidence level, power, minimum detectable effect and
+-- control/treatment sample sizes with conversions or means
+
+ALTER TABLE IF EXISTS experiments ADD COLUMN IF NOT EXISTS ab_test JSONB;
+
+-- experiments is not created by these migrations; only comment when it exists
+DO $$
+BEGIN
+  IF to_regclass('public.experiments') IS NOT NULL THEN
+    COMMENT ON COLUMN experiments.ab_test IS 'A/B test design and control/treatment results; only set for method ab_test';
+  END IF;
+END $$;
@@ -0,0 +1,8 @@
+-- Migration: Decision Log review queue
+-- The decisions table itself is created with the experiment decisions; the
+-- Decision Log adds a review date to check each outcome against expectations
+
+CREATE INDEX IF NOT EXISTS idx_decisions_review_date ON decisions(project_id, review_date)
+  WHERE outcome IS NULL;
+
+COMMENT ON COLUMN decisions.review_date IS 'When to check the outcome; decisions past this date without an outcome appear in the review queue';
@@ -0,0 +1,87 @@
+-- Migration: Add insights table for the project Discovery Log
+-- Stores research findings (interviews, usability tests, analytics, surveys)
+-- and the opportunities they support
+
+-- Create insights table
+CREATE TABLE IF NOT EXISTS insights (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  category VARCHAR(30) NOT NULL DEFAULT 'other'
+    CHECK (category IN ('interviews', 'usability_tests', 'analytics', 'surveys', 'other')),
+  source TEXT,
+  evidence TEXT[] DEFAULT '{}',
+  impact_level VARCHAR(10) DEFAULT 'medium' CHECK (impact_level IN ('low', 'medium', 'high')),
+  actionable BOOLEAN DEFAULT FALSE,
+  tags TEXT[] DEFAULT '{}',
+  linked_opportunities UUID[] DEFAULT '{}', -- Mirrored by "insight:<id>" entries in opportunities.evidence
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_insights_project ON insights(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_insights_category ON insights(project_id, category);
+CREATE INDEX IF NOT EXISTS idx_insights_tags ON insights USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_insights_linked_opportunities ON insights USING GIN (linked_opportunities);
+
+-- Enable Row Level Security
+ALTER TABLE insights ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for insights
+DROP POLICY IF EXISTS "Users can view insights for their projects" ON insights;
+CREATE POLICY "Users can view insights for their projects" ON insights
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create insights for their projects" ON insights;
+CREATE POLICY "Users can create insights for their projects" ON insights
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update insights for their projects" ON insights;
+CREATE POLICY "Users can update insights for their projects" ON insights
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete insights for their projects" ON insights;
+CREATE POLICY "Users can delete insights for their projects" ON insights
+  FOR DELETE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_insights_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_insights_updated_at ON insights;
+CREATE TRIGGER trigger_insights_updated_at
+  BEFORE UPDATE ON insights
+  FOR EACH ROW
+  EXECUTE FUNCTION update_insights_updated_at();
+
+COMMENT ON TABLE insights IS 'Discovery log: research insights that provide evidence for opportunities';
+COMMENT ON COLUMN insights.linked_opportunities IS 'Opportunities this insight supports; each is cited back as "insight:<id>" in opportunities.evidence';
@@ -0,0 +1,72 @@
+-- Migration: Add opportunity prioritisation scoring
+-- Each project picks a scoring model (WSJF, RICE or custom weights) used to
+-- rank its discovery backlog; RICE also needs a reach estimate per opportunity
+
+-- Reach estimate for RICE (users affected per quarter)
+ALTER TABLE IF EXISTS opportunities ADD COLUMN IF NOT EXISTS reach INTEGER CHECK (reach IS NULL OR reach >= 0);
+
+-- Create opportunity_scoring_models table (one row per project)
+CREATE TABLE IF NOT EXISTS opportunity_scoring_models (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  model VARCHAR(10) NOT NULL DEFAULT 'wsjf' CHECK (model IN ('wsjf', 'rice', 'custom')),
+  weights JSONB DEFAULT '{}'::jsonb, -- { value, confidence, ease, low_risk, evidence } for the custom model
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE opportunity_scoring_models ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for opportunity_scoring_models
+DROP POLICY IF EXISTS "Users can view scoring models for their projects" ON opportunity_scoring_models;
+CREATE POLICY "Users can view scoring models for their projects" ON opportunity_scoring_models
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create scoring models for their projects" ON opportunity_scoring_models;
+CREATE POLICY "Users can create scoring models for their projects" ON opportunity_scoring_models
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update scoring models for their projects" ON opportunity_scoring_models;
+CREATE POLICY "Users can update scoring models for their projects" ON opportunity_scoring_models
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_opportunity_scoring_models_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_opportunity_scoring_models_updated_at ON opportunity_scoring_models;
+CREATE TRIGGER trigger_opportunity_scoring_models_updated_at
+  BEFORE UPDATE ON opportunity_scoring_models
+  FOR EACH ROW
+  EXECUTE FUNCTION update_opportunity_scoring_models_updated_at();
+
+COMMENT ON TABLE opportunity_scoring_models IS 'Per-project model used to rank the discovery backlog';
+-- opportunities is not created by these migrations; only comment when it exists
+DO $$
+BEGIN
+  IF to_regclass('public.opportunities') IS NOT NULL THEN
+    COMMENT ON COLUMN opportunities.reach IS 'Users affected per quarter; the Reach input to RICE scoring';
+  END IF;
+END $$;
@@ -0,0 +1,98 @@
+-- Migration: Add per-project user personas
+-- Personas can be linked from opportunities (who is affected) and delivery
+-- tasks (who the work serves) to show which personas are underserved
+
+-- Create user_personas table
+CREATE TABLE IF NOT EXISTS user_personas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  icon VARCHAR(10) DEFAULT '👤',
+  color VARCHAR(20) DEFAULT 'blue',
+  needs TEXT[] DEFAULT '{}',
+  pain_points TEXT[] DEFAULT '{}',
+  goals TEXT[] DEFAULT '{}',
+  behaviors TEXT[] DEFAULT '{}',
+  demographics JSONB DEFAULT '{}'::jsonb, -- { age_range, location, occupation, experience_level }
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_project_persona_name UNIQUE (project_id, name)
+);
+
+-- Persona links from discovery and delivery work
+ALTER TABLE IF EXISTS opportunities ADD COLUMN IF NOT EXISTS persona_ids UUID[] DEFAULT '{}';
+ALTER TABLE IF EXISTS delivery_tasks ADD COLUMN IF NOT EXISTS persona_ids UUID[] DEFAULT '{}';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_user_personas_project ON user_personas(project_id);
+CREATE INDEX IF NOT EXISTS idx_delivery_tasks_persona_ids ON delivery_tasks USING GIN (persona_ids);
+
+-- Enable Row Level Security
+ALTER TABLE user_personas ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for user_personas
+DROP POLICY IF EXISTS "Users can view personas for their projects" ON user_personas;
+CREATE POLICY "Users can view personas for their projects" ON user_personas
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create personas for their projects" ON user_personas;
+CREATE POLICY "Users can create personas for their projects" ON user_personas
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update personas for their projects" ON user_personas;
+CREATE POLICY "Users can update personas for their projects" ON user_personas
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete personas for their projects" ON user_personas;
+CREATE POLICY "Users can delete personas for their projects" ON user_personas
+  FOR DELETE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_user_personas_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_user_personas_updated_at ON user_personas;
+CREATE TRIGGER trigger_user_personas_updated_at
+  BEFORE UPDATE ON user_personas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_user_personas_updated_at();
+
+COMMENT ON TABLE user_personas IS 'Per-project user personas referenced by opportunities and delivery tasks';
+COMMENT ON COLUMN delivery_tasks.persona_ids IS 'Personas the delivery work serves';
+
+-- opportunities is not created by these migrations; only index and comment
+-- persona_ids when the table exists
+DO $$
+BEGIN
+  IF to_regclass('public.opportunities') IS NOT NULL THEN
+    CREATE INDEX IF NOT EXISTS idx_opportunities_persona_ids ON opportunities USING GIN (persona_ids);
+    COMMENT ON COLUMN opportunities.persona_ids IS 'Personas affected by the opportunity';
+  END IF;
+END $$;
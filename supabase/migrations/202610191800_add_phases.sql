@@ -0,0 +1,84 @@
+-- Migration: Add project phases
+-- Phases group delivery tasks (delivery_tasks.phase_id) into ordered stages;
+-- progress and task counts are computed from the linked tasks, and a phase
+-- can list prerequisite phases that must complete before it starts
+
+-- Create phases table
+CREATE TABLE IF NOT EXISTS phases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'not_started'
+    CHECK (status IN ('not_started', 'in_progress', 'completed', 'on_hold', 'cancelled')),
+  "order" INTEGER NOT NULL DEFAULT 1,
+  start_date DATE,
+  end_date DATE,
+  estimated_duration_weeks INTEGER CHECK (estimated_duration_weeks IS NULL OR estimated_duration_weeks > 0),
+  color VARCHAR(20),
+  dependencies UUID[] DEFAULT '{}', -- Prerequisite phases; cycles are rejected by the app
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_phase_dates CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_phases_project_order ON phases(project_id, "order");
+CREATE INDEX IF NOT EXISTS idx_delivery_tasks_phase ON delivery_tasks(phase_id);
+
+-- Enable Row Level Security
+ALTER TABLE phases ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for phases
+DROP POLICY IF EXISTS "Users can view phases for their projects" ON phases;
+CREATE POLICY "Users can view phases for their projects" ON phases
+  FOR SELECT USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create phases for their projects" ON phases;
+CREATE POLICY "Users can create phases for their projects" ON phases
+  FOR INSERT WITH CHECK (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update phases for their projects" ON phases;
+CREATE POLICY "Users can update phases for their projects" ON phases
+  FOR UPDATE USING (
+    project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+DROP POLICY IF EXISTS "Project owners can delete phases" ON phases;
+CREATE POLICY "Project owners can delete phases" ON phases
+  FOR DELETE USING (
+    project_id IN (SELECT id FROM projects WHERE user_id = auth.uid())
+  );
+
+-- Create function to automatically update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_phases_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for auto-updating updated_at
+DROP TRIGGER IF EXISTS trigger_phases_updated_at ON phases;
+CREATE TRIGGER trigger_phases_updated_at
+  BEFORE UPDATE ON phases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_phases_updated_at();
+
+COMMENT ON TABLE phases IS 'Ordered project phases grouping delivery tasks';
+COMMENT ON COLUMN phases.dependencies IS 'Phases that must be completed before this phase can start';
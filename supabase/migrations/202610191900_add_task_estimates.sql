@@ -0,0 +1,8 @@
+-- Add duration estimates to tasks for schedule forecasting
+-- Critical path and projected finish dates are computed from estimated_days
+-- along task_dependencies; tasks without an estimate count as one day
+
+ALTER TABLE IF EXISTS tasks
+ADD COLUMN IF NOT EXISTS estimated_days INTEGER DEFAULT 1 CHECK (estimated_days IS NULL OR estimated_days > 0);
+
+COMMENT ON COLUMN tasks.estimated_days IS 'Estimated duration in days, used by the project schedule forecast';
@@ -0,0 +1,53 @@
+-- Migration: Track time against delivery tasks
+-- Time logged on delivery tasks is compared with their S/M/L effort estimate,
+-- so a time entry now belongs to either a task or a delivery task
+
+ALTER TABLE IF EXISTS time_tracking ALTER COLUMN task_id DROP NOT NULL;
+ALTER TABLE IF EXISTS time_tracking
+ADD COLUMN IF NOT EXISTS delivery_task_id UUID REFERENCES delivery_tasks(id) ON DELETE CASCADE;
+
+ALTER TABLE IF EXISTS time_tracking DROP CONSTRAINT IF EXISTS time_tracking_single_target;
+ALTER TABLE IF EXISTS time_tracking ADD CONSTRAINT time_tracking_single_target
+  CHECK ((task_id IS NULL) <> (delivery_task_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_time_tracking_delivery_task_id ON time_tracking(delivery_task_id);
+
+-- Extend the read and insert policies to delivery tasks in the user's projects
+DROP POLICY IF EXISTS "Users can view time entries for their project tasks" ON time_tracking;
+CREATE POLICY "Users can view time entries for their project tasks" ON time_tracking
+  FOR SELECT USING (
+    user_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM tasks t
+      JOIN projects p ON t.project_id = p.id
+      WHERE t.id = task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members))
+    ) OR
+    EXISTS (
+      SELECT 1 FROM delivery_tasks dt
+      JOIN projects p ON dt.project_id = p.id
+      WHERE dt.id = delivery_task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create time entries for assigned tasks" ON time_tracking;
+CREATE POLICY "Users can create time entries for assigned tasks" ON time_tracking
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        JOIN projects p ON t.project_id = p.id
+        WHERE t.id = task_id
+        AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members) OR t.assigned_to = auth.uid())
+      ) OR
+      EXISTS (
+        SELECT 1 FROM delivery_tasks dt
+        JOIN projects p ON dt.project_id = p.id
+        WHERE dt.id = delivery_task_id
+        AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+      )
+    )
+  );
+
+COMMENT ON COLUMN time_tracking.delivery_task_id IS 'Delivery task the time was spent on, set instead of task_id';
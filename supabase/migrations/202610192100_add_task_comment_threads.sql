@@ -0,0 +1,59 @@
+-- Migration: Threaded task comments
+-- Replies point at a top-level comment. Deleting a comment sets deleted_at
+-- and replaces its content; deleted rows stay readable so threads keep their
+-- replies and live subscribers receive the update, and the app hides them
+
+ALTER TABLE IF EXISTS task_comments
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES task_comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent_id ON task_comments(parent_id);
+
+-- Project team members can read and join the discussion, not only the owner
+DROP POLICY IF EXISTS "Users can view comments for their project tasks" ON task_comments;
+CREATE POLICY "Users can view comments for their project tasks" ON task_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM tasks t
+      JOIN projects p ON t.project_id = p.id
+      WHERE t.id = task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create comments on their project tasks" ON task_comments;
+CREATE POLICY "Users can create comments on their project tasks" ON task_comments
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM tasks t
+      JOIN projects p ON t.project_id = p.id
+      WHERE t.id = task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+-- Without an explicit WITH CHECK the USING clause applies to the new row,
+-- which rejected setting deleted_at
+DROP POLICY IF EXISTS "Users can update their own comments" ON task_comments;
+CREATE POLICY "Users can update their own comments" ON task_comments
+  FOR UPDATE
+  USING (user_id = auth.uid() AND deleted_at IS NULL)
+  WITH CHECK (user_id = auth.uid());
+
+-- Broadcast changes for live comment threads
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE task_comments;
+  END IF;
+END $$;
+
+-- Deleted comments stay readable as placeholders, so drop the text of any
+-- deleted before their content was cleared
+UPDATE task_comments SET content = '[deleted]', mentions = '{}'
+WHERE deleted_at IS NOT NULL AND content <> '[deleted]';
+
+COMMENT ON COLUMN task_comments.parent_id IS 'Top-level comment this comment replies to';
@@ -0,0 +1,121 @@
+-- Migration: Labels on delivery tasks, and label merging
+-- A label assignment now belongs to either a task or a delivery task.
+-- usage_count follows assignments moved between labels, so merging two
+-- labels keeps the surviving label's count accurate
+
+ALTER TABLE IF EXISTS task_label_assignments ALTER COLUMN task_id DROP NOT NULL;
+ALTER TABLE IF EXISTS task_label_assignments
+ADD COLUMN IF NOT EXISTS delivery_task_id UUID REFERENCES delivery_tasks(id) ON DELETE CASCADE;
+
+ALTER TABLE IF EXISTS task_label_assignments DROP CONSTRAINT IF EXISTS task_label_assignments_single_target;
+ALTER TABLE IF EXISTS task_label_assignments ADD CONSTRAINT task_label_assignments_single_target
+  CHECK ((task_id IS NULL) <> (delivery_task_id IS NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_label_assignments_delivery_task_label
+  ON task_label_assignments(delivery_task_id, label_id) WHERE delivery_task_id IS NOT NULL;
+
+-- Extend the assignment policies to delivery tasks in the user's projects
+DROP POLICY IF EXISTS "Users can view label assignments for their project tasks" ON task_label_assignments;
+CREATE POLICY "Users can view label assignments for their project tasks" ON task_label_assignments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM tasks t
+      JOIN projects p ON t.project_id = p.id
+      WHERE t.id = task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    ) OR
+    EXISTS (
+      SELECT 1 FROM delivery_tasks dt
+      JOIN projects p ON dt.project_id = p.id
+      WHERE dt.id = delivery_task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can manage label assignments for their project tasks" ON task_label_assignments;
+CREATE POLICY "Users can manage label assignments for their project tasks" ON task_label_assignments
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM tasks t
+      JOIN projects p ON t.project_id = p.id
+      WHERE t.id = task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    ) OR
+    EXISTS (
+      SELECT 1 FROM delivery_tasks dt
+      JOIN projects p ON dt.project_id = p.id
+      WHERE dt.id = delivery_task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+-- Count moves when an assignment is pointed at another label
+CREATE OR REPLACE FUNCTION public.update_label_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.task_labels
+    SET usage_count = usage_count + 1
+    WHERE id = NEW.label_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.task_labels
+    SET usage_count = GREATEST(usage_count - 1, 0)
+    WHERE id = OLD.label_id;
+    RETURN OLD;
+  ELSIF TG_OP = 'UPDATE' AND NEW.label_id IS DISTINCT FROM OLD.label_id THEN
+    UPDATE public.task_labels
+    SET usage_count = GREATEST(usage_count - 1, 0)
+    WHERE id = OLD.label_id;
+    UPDATE public.task_labels
+    SET usage_count = usage_count + 1
+    WHERE id = NEW.label_id;
+    RETURN NEW;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_label_usage_on_relabel ON task_label_assignments;
+CREATE TRIGGER update_label_usage_on_relabel
+  AFTER UPDATE OF label_id ON task_label_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.update_label_usage();
+
+-- Moves every assignment of the source label to the target and deletes the
+-- source. Items that already carry the target just lose the source label.
+-- Returns the number of assignments moved.
+CREATE OR REPLACE FUNCTION merge_task_labels(source_label_id UUID, target_label_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  moved INTEGER;
+BEGIN
+  IF source_label_id = target_label_id THEN
+    RAISE EXCEPTION 'Cannot merge a label into itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM task_labels s
+    JOIN task_labels t ON t.project_id = s.project_id
+    WHERE s.id = source_label_id AND t.id = target_label_id
+  ) THEN
+    RAISE EXCEPTION 'Both labels must exist in the same project';
+  END IF;
+
+  DELETE FROM task_label_assignments a
+  WHERE a.label_id = source_label_id
+  AND EXISTS (
+    SELECT 1 FROM task_label_assignments b
+    WHERE b.label_id = target_label_id
+    AND (b.task_id = a.task_id OR b.delivery_task_id = a.delivery_task_id)
+  );
+
+  UPDATE task_label_assignments SET label_id = target_label_id WHERE label_id = source_label_id;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  DELETE FROM task_labels WHERE id = source_label_id;
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN task_label_assignments.delivery_task_id IS 'Delivery task the label is on, set instead of task_id';
@@ -0,0 +1,101 @@
+-- Migration: Project attachment storage
+-- project_attachments rows point at objects in the private
+-- project-attachments bucket, stored under <project_id>/<task_id or project>/.
+-- Access to an object follows access to the project named by its first folder.
+
+-- Keep the size and type limits in step with AttachmentService
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'project-attachments',
+  'project-attachments',
+  false,
+  26214400,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml',
+    'application/pdf', 'text/plain', 'text/markdown', 'text/csv', 'application/json',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/zip'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Project members can view attachment files" ON storage.objects;
+CREATE POLICY "Project members can view attachment files" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'project-attachments' AND EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id::text = (storage.foldername(name))[1]
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+DROP POLICY IF EXISTS "Project members can upload attachment files" ON storage.objects;
+CREATE POLICY "Project members can upload attachment files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'project-attachments' AND EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id::text = (storage.foldername(name))[1]
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    )
+  );
+
+-- Uploaders remove their own files; the project owner can remove any, which
+-- is what clears a project's files before it is deleted
+DROP POLICY IF EXISTS "Uploaders and project owners can delete attachment files" ON storage.objects;
+CREATE POLICY "Uploaders and project owners can delete attachment files" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'project-attachments' AND (
+      owner = auth.uid() OR EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id::text = (storage.foldername(name))[1]
+        AND p.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Team members, not only the owner, can list a project's attachments
+DROP POLICY IF EXISTS "Users can view attachments for their projects" ON project_attachments;
+CREATE POLICY "Users can view attachments for their projects" ON project_attachments
+  FOR SELECT USING (
+    (project_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM projects p
+      WHERE p.id = project_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    ))
+    OR
+    (task_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM tasks t
+      JOIN projects p ON t.project_id = p.id
+      WHERE t.id = task_id
+      AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+    ))
+  );
+
+DROP POLICY IF EXISTS "Users can upload attachments to their projects" ON project_attachments;
+CREATE POLICY "Users can upload attachments to their projects" ON project_attachments
+  FOR INSERT WITH CHECK (
+    uploaded_by = auth.uid() AND
+    (
+      (project_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM projects p
+        WHERE p.id = project_id
+        AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+      ))
+      OR
+      (task_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM tasks t
+        JOIN projects p ON t.project_id = p.id
+        WHERE t.id = task_id
+        AND (p.user_id = auth.uid() OR auth.uid() = ANY(p.team_members::uuid[]))
+      ))
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_project_attachments_project_task ON project_attachments(project_id, task_id);
+
+COMMENT ON COLUMN project_attachments.file_path IS 'Object path in the project-attachments storage bucket';
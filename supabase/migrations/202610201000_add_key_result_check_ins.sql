@@ -0,0 +1,29 @@
+-- Migration: Key result check-ins
+-- A check-in is a key_result_updates row with a note and a confidence score.
+-- The constraints are NOT VALID so updates recorded before check-ins, which
+-- have neither, are kept as they are.
+
+ALTER TABLE key_result_updates
+ADD COLUMN IF NOT EXISTS confidence SMALLINT;
+
+ALTER TABLE key_result_updates
+DROP CONSTRAINT IF EXISTS key_result_updates_confidence_range;
+ALTER TABLE key_result_updates
+ADD CONSTRAINT key_result_updates_confidence_range
+  CHECK (confidence IS NOT NULL AND confidence BETWEEN 1 AND 10) NOT VALID;
+
+ALTER TABLE key_result_updates
+DROP CONSTRAINT IF EXISTS key_result_updates_note_required;
+ALTER TABLE key_result_updates
+ADD CONSTRAINT key_result_updates_note_required
+  CHECK (note IS NOT NULL AND length(trim(note)) > 0) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_key_result_updates_kr_created ON key_result_updates(key_result_id, created_at);
+
+-- Distinguishes an at_risk status set by the quarter-end forecast, which the
+-- app clears again once the forecast recovers, from one set by hand
+ALTER TABLE key_results
+ADD COLUMN IF NOT EXISTS forecast_at_risk BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN key_result_updates.confidence IS 'Check-in confidence that the key result lands, 1 to 10';
+COMMENT ON COLUMN key_results.forecast_at_risk IS 'True while at_risk was set automatically by the quarter-end forecast';
@@ -0,0 +1,79 @@
+-- Migration: Objective alignment
+-- Objectives form a company -> team -> personal tree through parent_id. Each
+-- child contributes to its parent's progress in proportion to its
+-- contribution_weight.
+
+ALTER TABLE objectives
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES objectives(id) ON DELETE SET NULL;
+
+ALTER TABLE objectives
+ADD COLUMN IF NOT EXISTS level VARCHAR(20) DEFAULT 'team';
+
+ALTER TABLE objectives
+ADD COLUMN IF NOT EXISTS contribution_weight DECIMAL DEFAULT 1;
+
+ALTER TABLE objectives
+DROP CONSTRAINT IF EXISTS objectives_level_check;
+ALTER TABLE objectives
+ADD CONSTRAINT objectives_level_check
+  CHECK (level IN ('company', 'team', 'personal'));
+
+ALTER TABLE objectives
+DROP CONSTRAINT IF EXISTS objectives_contribution_weight_positive;
+ALTER TABLE objectives
+ADD CONSTRAINT objectives_contribution_weight_positive
+  CHECK (contribution_weight > 0);
+
+ALTER TABLE objectives
+DROP CONSTRAINT IF EXISTS objectives_not_own_parent;
+ALTER TABLE objectives
+ADD CONSTRAINT objectives_not_own_parent
+  CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_objectives_parent ON objectives(parent_id);
+
+-- Reject a parent that already sits below the objective, which would turn
+-- the tree into a loop
+CREATE OR REPLACE FUNCTION prevent_objective_alignment_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM objectives WHERE id = NEW.parent_id
+      UNION
+      SELECT o.id, o.parent_id FROM objectives o
+      JOIN ancestors a ON o.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Objective % cannot be aligned below one of its own children', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_objective_alignment_cycle ON objectives;
+CREATE TRIGGER trigger_prevent_objective_alignment_cycle
+  BEFORE INSERT OR UPDATE OF parent_id ON objectives
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_objective_alignment_cycle();
+
+-- Company objectives are what a project's team aligns to, so members of the
+-- linked project can see them as well as the owner
+DROP POLICY IF EXISTS "Users can view company objectives" ON objectives;
+CREATE POLICY "Users can view company objectives" ON objectives
+  FOR SELECT USING (
+    level = 'company' AND project_id IN (
+      SELECT id FROM projects
+      WHERE user_id = auth.uid() OR auth.uid() = ANY(team_members::uuid[])
+    )
+  );
+
+COMMENT ON COLUMN objectives.parent_id IS 'Objective this one supports, one level up the alignment tree';
+COMMENT ON COLUMN objectives.level IS 'Alignment level: company, team or personal';
+COMMENT ON COLUMN objectives.contribution_weight IS 'Relative share of the parent objective''s progress this objective carries';
@@ -0,0 +1,78 @@
+-- Migration: Quarter-end OKR grading
+-- Closing a quarter grades each key result from 0.0 to 1.0, records a
+-- reflection per objective, copies unfinished objectives into the next
+-- quarter and archives the result in okr_quarter_reports. Closed objectives
+-- and their key results can no longer be edited.
+
+ALTER TABLE key_results
+ADD COLUMN IF NOT EXISTS grade DECIMAL(3, 2);
+
+ALTER TABLE key_results
+DROP CONSTRAINT IF EXISTS key_results_grade_range;
+ALTER TABLE key_results
+ADD CONSTRAINT key_results_grade_range
+  CHECK (grade IS NULL OR grade BETWEEN 0 AND 1);
+
+ALTER TABLE objectives
+ADD COLUMN IF NOT EXISTS grade DECIMAL(3, 2),
+ADD COLUMN IF NOT EXISTS reflection TEXT,
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS carried_from_id UUID REFERENCES objectives(id) ON DELETE SET NULL;
+
+ALTER TABLE objectives
+DROP CONSTRAINT IF EXISTS objectives_grade_range;
+ALTER TABLE objectives
+ADD CONSTRAINT objectives_grade_range
+  CHECK (grade IS NULL OR grade BETWEEN 0 AND 1);
+
+CREATE INDEX IF NOT EXISTS idx_objectives_carried_from ON objectives(carried_from_id);
+
+-- Archived quarters. snapshot holds the graded objectives and key results as
+-- they were at close, so later edits or deletions do not change the report.
+CREATE TABLE IF NOT EXISTS okr_quarter_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quarter INTEGER NOT NULL CHECK (quarter IN (1, 2, 3, 4)),
+  year INTEGER NOT NULL,
+  average_grade DECIMAL(3, 2) NOT NULL CHECK (average_grade BETWEEN 0 AND 1),
+  objectives_count INTEGER NOT NULL DEFAULT 0,
+  key_results_count INTEGER NOT NULL DEFAULT 0,
+  completed_count INTEGER NOT NULL DEFAULT 0,
+  carried_over_count INTEGER NOT NULL DEFAULT 0,
+  snapshot JSONB NOT NULL DEFAULT '[]'::jsonb,
+  closed_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (owner_id, quarter, year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_okr_quarter_reports_owner ON okr_quarter_reports(owner_id, year, quarter);
+
+ALTER TABLE okr_quarter_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are read-only once written: there are no update or delete policies
+DROP POLICY IF EXISTS "Users can view their quarter reports" ON okr_quarter_reports;
+CREATE POLICY "Users can view their quarter reports" ON okr_quarter_reports
+  FOR SELECT USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can archive their quarters" ON okr_quarter_reports;
+CREATE POLICY "Users can archive their quarters" ON okr_quarter_reports
+  FOR INSERT WITH CHECK (owner_id = auth.uid());
+
+-- Closed objectives and their key results are read-only. The objective
+-- check is on the row before the update, so closing itself still goes through.
+DROP POLICY IF EXISTS "Owners can update their objectives" ON objectives;
+CREATE POLICY "Owners can update their objectives" ON objectives
+  FOR UPDATE USING (owner_id = auth.uid() AND closed_at IS NULL)
+  WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update key results for their objectives" ON key_results;
+CREATE POLICY "Users can update key results for their objectives" ON key_results
+  FOR UPDATE USING (
+    objective_id IN (SELECT id FROM objectives WHERE owner_id = auth.uid() AND closed_at IS NULL)
+  );
+
+COMMENT ON COLUMN key_results.grade IS 'Quarter-end grade from 0.0 to 1.0';
+COMMENT ON COLUMN objectives.grade IS 'Average of the key result grades at quarter close';
+COMMENT ON COLUMN objectives.reflection IS 'What went well and what did not, written at quarter close';
+COMMENT ON COLUMN objectives.closed_at IS 'When the quarter was closed; closed objectives are read-only';
+COMMENT ON COLUMN objectives.carried_from_id IS 'Unfinished objective from an earlier quarter this one continues';
+COMMENT ON TABLE okr_quarter_reports IS 'Read-only archive of graded OKR quarters';